@@ -3,11 +3,18 @@
  * Foundation for all specialized agents - Uses Rust SDK via Bridge
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
-import { TRADING_TOOLS, ACTION_TO_SIDE } from '../tools/trading-tools.js';
-
-export type Signal = 'buy' | 'sell' | 'hold' | 'neutral' | 'bullish' | 'bearish' | 'approve' | 'reject' | 'reduce';
+import type { z } from 'zod';
+import { clientForRole, modelForRole } from '../llm/client.js';
+import type { ChatClient, ChatMessage, ChatRequest } from '../llm/client.js';
+import { roleKey } from '../llm/router.js';
+import { completeStructured, type StructuredResult } from '../llm/structured.js';
+import { type ExchangeGateway, findBalance } from '../sdk/gateway.js';
+import { executeOrderIntent, intentForAction, describeLeg } from '../execution/intent.js';
+import { ToolRuntime, type AgentTarget } from '../tools/runtime.js';
+import { QuantTools } from '../quant/indicators.js';
+
+// 'invalid': the model never produced a response matching the agent's schema (counts as no vote)
+export type Signal = 'buy' | 'sell' | 'hold' | 'neutral' | 'bullish' | 'bearish' | 'approve' | 'reject' | 'reduce' | 'invalid';
 export type Action = 'execute' | 'hold' | 'alert';
 
 export interface AgentDecision {
@@ -28,6 +35,10 @@ export interface AgentMessage {
     timestamp: string;
 }
 
+export function isNoVote(decision: AgentDecision | undefined): boolean {
+    return !decision || decision.signal === 'invalid';
+}
+
 export interface TechnicalIndicators {
     rsi_14: number;
     ema_20: number;
@@ -39,23 +50,37 @@ export interface TechnicalIndicators {
 export abstract class BaseAgent {
     protected name: string;
     protected stage: string;
-    protected openai: OpenAI;
-    protected weex: RustSDKBridge;
+    protected openai: ChatClient;
+    protected weex: ExchangeGateway;
     protected model: string;
     protected messageQueue: AgentMessage[] = [];
-
+    protected tools: ToolRuntime;
+    protected maxToolIterations: number = 5;
+    protected maxRepairs: number = 2;
+    private peers: Map<AgentTarget, BaseAgent> = new Map();
+
+    /**
+     * @param tools Tool names from TRADING_TOOLS this agent may call (none = plain completion)
+     */
     constructor(
         name: string,
         stage: string,
-        openai: OpenAI,
-        weex: RustSDKBridge,
-        model: string = 'mimo-v2-flash'
+        openai: ChatClient,
+        weex: ExchangeGateway,
+        model: string = 'mimo-v2-flash',
+        tools: string[] = []
     ) {
         this.name = name;
         this.stage = stage;
-        this.openai = openai;
+        // The agent name is its routing role: MarketAnalyst → market_analyst
+        this.openai = clientForRole(openai, roleKey(name));
         this.weex = weex;
-        this.model = model;
+        this.model = modelForRole(openai, roleKey(name), model);
+        this.tools = new ToolRuntime({
+            weex,
+            agentName: name,
+            sendMessage: (target, content, context) => this.sendTo(target, content, context),
+        }, tools);
     }
 
     abstract getSystemPrompt(): string;
@@ -81,6 +106,22 @@ export abstract class BaseAgent {
         this.messageQueue = [];
     }
 
+    /**
+     * Register the agents reachable through the send_message_to_agent tool
+     */
+    connectPeers(peers: Partial<Record<AgentTarget, BaseAgent>>): void {
+        for (const [target, agent] of Object.entries(peers)) {
+            if (agent) this.peers.set(target as AgentTarget, agent);
+        }
+    }
+
+    private sendTo(target: AgentTarget, content: string, context?: Record<string, unknown>): boolean {
+        const peer = this.peers.get(target);
+        if (!peer) return false;
+        peer.receiveMessage({ from: this.name, to: peer.getName(), content, context, timestamp: new Date().toISOString() });
+        return true;
+    }
+
     protected async uploadAILog(decision: AgentDecision, orderId?: number): Promise<boolean> {
         try {
             const log = {
@@ -98,29 +139,162 @@ export abstract class BaseAgent {
             };
 
             const result = await this.weex.uploadAILog(log);
-            return result.code === '00000';
+            return result.success;
         } catch (error) {
             console.error(`Failed to upload AI log for ${this.name}:`, error);
             return false;
         }
     }
 
+    /**
+     * Ask the model for free text (tools included), with a safe HOLD default on API failure
+     */
     protected async callGPT(prompt: string, context: Record<string, unknown>): Promise<string> {
+        try {
+            return await this.converse(this.buildMessages(prompt, context), false);
+        } catch (error: any) {
+            const isQuotaExceeded = error?.code === 'insufficient_quota';
+            const isBillingError = error?.message?.includes('billing') || error?.message?.includes('quota');
+
+            if (isQuotaExceeded || isBillingError) {
+                console.log(`   ❌ OpenAI quota/billing issue - returning safe default`);
+                return JSON.stringify({
+                    signal: 'neutral',
+                    confidence: 0,
+                    recommendation: 'LLM API unavailable - defaulting to HOLD for safety',
+                    error: error?.message
+                });
+            }
+
+            console.log(`   ❌ LLM API failed after retries - returning safe default`);
+            return JSON.stringify({
+                signal: 'neutral',
+                confidence: 0,
+                recommendation: 'LLM API error - defaulting to HOLD for safety',
+                error: error?.message
+            });
+        }
+    }
+
+    /**
+     * Ask for JSON matching `schema`, re-asking with the validation errors up to
+     * maxRepairs times. API failures come back as { ok: false } too.
+     */
+    protected async callStructured<S extends z.ZodTypeAny>(
+        prompt: string,
+        context: Record<string, unknown>,
+        schema: S
+    ): Promise<StructuredResult<z.infer<S>>> {
+        try {
+            const result = await completeStructured(
+                (messages) => this.converse(messages, true),
+                this.buildMessages(prompt, context),
+                schema,
+                this.maxRepairs,
+                (messages) => this.reprompt(messages)
+            );
+            if (!result.ok) {
+                console.log(`   ⚠️ ${this.name} response invalid after ${result.attempts} attempts: ${result.error}`);
+            }
+            return result;
+        } catch (error: any) {
+            console.log(`   ❌ ${this.name} LLM API failed: ${error?.message || 'Unknown error'}`);
+            return { ok: false, error: `LLM API error: ${error?.message || 'Unknown error'}`, raw: '', attempts: 0 };
+        }
+    }
+
+    /**
+     * Explicit no-vote decision for a response that never validated. It has
+     * no model output worth logging, so it is not uploaded to the AI log.
+     */
+    protected invalidDecision(error: string, input: Record<string, unknown>): AgentDecision {
+        return {
+            agentName: this.name,
+            stage: this.stage,
+            signal: 'invalid',
+            confidence: 0,
+            reasoning: `No valid response from the model: ${error}`,
+            data: { input, output: { invalid: true, error } },
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    private buildMessages(prompt: string, context: Record<string, unknown>): ChatMessage[] {
+        let content = `${prompt}\n\nContext:\n${JSON.stringify(context, null, 2)}`;
+        if (this.messageQueue.length > 0) {
+            const inbox = this.messageQueue.map((m) => ({ from: m.from, message: m.content, context: m.context }));
+            content += `\n\nMessages from teammates:\n${JSON.stringify(inbox, null, 2)}`;
+            this.clearMessages();
+        }
+
+        return [
+            { role: 'system', content: this.getSystemPrompt() },
+            { role: 'user', content },
+        ];
+    }
+
+    /**
+     * Run the conversation, executing any tool calls the model makes through the
+     * ToolRuntime and feeding the results back until it answers (at most
+     * maxToolIterations rounds). Appends to `messages`; throws on API failure.
+     */
+    private async converse(messages: ChatMessage[], jsonMode: boolean): Promise<string> {
+        const tools = this.tools.definitions;
+
+        for (let iteration = 0; ; iteration++) {
+            // Out of rounds: withhold tools so the model has to answer
+            const finalRound = tools.length === 0 || iteration >= this.maxToolIterations;
+            const message = await this.createCompletion({
+                model: this.model,
+                messages,
+                temperature: 0.7,
+                ...(tools.length > 0 ? { tools, tool_choice: finalRound ? 'none' : 'auto' } : {}),
+                ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+            });
+
+            if (finalRound || !message.tool_calls?.length) {
+                return message.content || '';
+            }
+
+            messages.push({ role: 'assistant', content: message.content, tool_calls: message.tool_calls });
+            for (const call of message.tool_calls) {
+                const result = await this.tools.dispatch(call);
+                console.log(`   🔧 ${this.name} → ${call.function.name}${result.ok ? '' : ` ✗ ${result.error}`}`);
+                messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+            }
+        }
+    }
+
+    /**
+     * One JSON-mode completion with no tool round, for re-asking after an
+     * invalid response. Tools are still declared (as 'none') because the
+     * conversation may hold the first answer's tool calls.
+     */
+    private async reprompt(messages: ChatMessage[]): Promise<string> {
+        const tools = this.tools.definitions;
+        const message = await this.createCompletion({
+            model: this.model,
+            messages,
+            temperature: 0.7,
+            ...(tools.length > 0 ? { tools, tool_choice: 'none' } : {}),
+            response_format: { type: 'json_object' },
+        });
+        return message.content || '';
+    }
+
+    /**
+     * One completion with retries; rate limits back off, quota errors fail fast
+     */
+    private async createCompletion(request: ChatRequest) {
         const maxRetries = 3;
-        let lastError: Error | null = null;
+        let lastError: any = null;
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
-                const response = await this.openai.chat.completions.create({
-                    model: this.model,
-                    messages: [
-                        { role: 'system', content: this.getSystemPrompt() },
-                        { role: 'user', content: `${prompt}\n\nContext:\n${JSON.stringify(context, null, 2)}` },
-                    ],
-                    temperature: 0.7,
-                });
-
-                return response.choices[0]?.message?.content || '';
+                const response = await this.openai.chat.completions.create(request);
+                const message = response.choices[0]?.message;
+                if (!message) throw new Error('Empty completion');
+                return message;
             } catch (error: any) {
                 lastError = error;
                 const isRateLimit = error?.status === 429;
@@ -129,15 +303,7 @@ export abstract class BaseAgent {
 
                 console.log(`   ⚠️ LLM API error (attempt ${attempt}/${maxRetries}): ${error?.message || 'Unknown error'}`);
 
-                if (isQuotaExceeded || isBillingError) {
-                    console.log(`   ❌ OpenAI quota/billing issue - returning safe default`);
-                    return JSON.stringify({
-                        signal: 'neutral',
-                        confidence: 0,
-                        recommendation: 'LLM API unavailable - defaulting to HOLD for safety',
-                        error: error?.message
-                    });
-                }
+                if (isQuotaExceeded || isBillingError) throw error;
 
                 if (isRateLimit && attempt < maxRetries) {
                     const waitTime = Math.pow(2, attempt) * 1000;
@@ -152,43 +318,7 @@ export abstract class BaseAgent {
             }
         }
 
-        console.log(`   ❌ LLM API failed after ${maxRetries} attempts - returning safe default`);
-        return JSON.stringify({
-            signal: 'neutral',
-            confidence: 0,
-            recommendation: 'LLM API error - defaulting to HOLD for safety',
-            error: lastError?.message
-        });
-    }
-
-    protected calculateRSI(prices: number[], period: number = 14): number {
-        if (prices.length < period + 1) return 50;
-
-        const deltas: number[] = [];
-        for (let i = 1; i < prices.length; i++) {
-            deltas.push(prices[i] - prices[i - 1]);
-        }
-
-        const gains = deltas.map((d) => (d > 0 ? d : 0));
-        const losses = deltas.map((d) => (d < 0 ? -d : 0));
-
-        const avgGain = gains.slice(-period).reduce((a, b) => a + b, 0) / period;
-        const avgLoss = losses.slice(-period).reduce((a, b) => a + b, 0) / period;
-
-        if (avgLoss === 0) return 100;
-        const rs = avgGain / avgLoss;
-        return Math.round((100 - 100 / (1 + rs)) * 100) / 100;
-    }
-
-    protected calculateEMA(prices: number[], period: number): number {
-        if (prices.length < period) return prices[prices.length - 1] || 0;
-
-        const multiplier = 2 / (period + 1);
-        let ema = prices[0];
-        for (let i = 1; i < prices.length; i++) {
-            ema = (prices[i] - ema) * multiplier + ema;
-        }
-        return Math.round(ema * 100) / 100;
+        throw lastError;
     }
 
     protected async getMarketData(symbol: string): Promise<Record<string, unknown>> {
@@ -198,45 +328,36 @@ export abstract class BaseAgent {
         return {
             symbol,
             lastPrice: ticker.last,
-            high24h: ticker.high_24h,
-            low24h: ticker.low_24h,
-            volume24h: ticker.volume_24h,
-            priceChange: ticker.priceChangePercent,
-            bestBid: depth.bids?.[0]?.[0],
-            bestAsk: depth.asks?.[0]?.[0],
+            high24h: ticker.high24h,
+            low24h: ticker.low24h,
+            volume24h: ticker.volume24h,
+            priceChange: ticker.change24h,
+            bestBid: depth.bids[0]?.price,
+            bestAsk: depth.asks[0]?.price,
             timestamp: new Date().toISOString(),
         };
     }
 
     protected async getTechnicalIndicators(symbol: string): Promise<TechnicalIndicators> {
         const candles = await this.weex.getCandles(symbol);
-
-        // Handle different response formats
-        let closes: number[] = [];
-        if (Array.isArray(candles)) {
-            closes = candles.map((c: any) => {
-                if (Array.isArray(c)) return parseFloat(c[4]);
-                if (typeof c === 'object') return parseFloat(c.close);
-                return 0;
-            }).filter((v) => v > 0);
-        }
+        const closes = candles.map((c) => c.close);
 
         if (closes.length === 0) {
             const ticker = await this.weex.getTicker(symbol);
             return {
                 rsi_14: 50,
-                ema_20: parseFloat(ticker.last),
-                ema_50: parseFloat(ticker.last),
+                ema_20: ticker.last,
+                ema_50: ticker.last,
                 macd: 0,
-                currentPrice: parseFloat(ticker.last),
+                currentPrice: ticker.last,
             };
         }
 
         return {
-            rsi_14: this.calculateRSI(closes),
-            ema_20: this.calculateEMA(closes, 20),
-            ema_50: this.calculateEMA(closes, 50),
-            macd: this.calculateEMA(closes, 12) - this.calculateEMA(closes, 26),
+            rsi_14: QuantTools.calculateRSI(closes),
+            ema_20: QuantTools.calculateEMA(closes, 20),
+            ema_50: QuantTools.calculateEMA(closes, 50),
+            macd: QuantTools.calculateMACD(closes).macd,
             currentPrice: closes[closes.length - 1],
         };
     }
@@ -245,21 +366,20 @@ export abstract class BaseAgent {
         const assets = await this.weex.getAssets();
         const positions = await this.weex.getPositions();
 
-        const usdtAsset = (assets as any[]).find((a) => a.coinName === 'USDT') || {};
-        const activePositions = (positions as any[]).filter((p) => parseFloat(p.total) > 0);
+        const usdt = findBalance(assets);
 
         return {
-            availableUsdt: usdtAsset.available || '0',
-            equityUsdt: usdtAsset.equity || '0',
-            unrealizedPnl: usdtAsset.unrealizePnl || '0',
-            activePositions: activePositions.map((p) => ({
+            availableUsdt: usdt?.available ?? 0,
+            equityUsdt: usdt?.equity ?? 0,
+            unrealizedPnl: usdt?.unrealizedPnl ?? 0,
+            activePositions: positions.map((p) => ({
                 symbol: p.symbol,
-                size: p.total,
-                side: p.holdSide,
-                entryPrice: p.averageOpenPrice,
-                pnl: p.unrealizedPL,
+                size: p.size,
+                side: p.side,
+                entryPrice: p.entryPrice,
+                pnl: p.unrealizedPnl,
             })),
-            positionCount: activePositions.length,
+            positionCount: positions.length,
         };
     }
 
@@ -274,18 +394,22 @@ export abstract class BaseAgent {
             return { executed: false, error: 'Confidence too low (<0.6)' };
         }
 
-        const side = ACTION_TO_SIDE[action];
-        if (!side) {
+        const intent = intentForAction(action, parseFloat(size));
+        if (!intent) {
             return { executed: false, error: `Invalid action: ${action}` };
         }
 
         try {
             const ticker = await this.weex.getTicker(symbol);
-            const result = await this.weex.placeOrder(symbol, side, parseFloat(size));
+            const result = await executeOrderIntent(this.weex, symbol, intent, { engine: this.name });
+            if (result.legs.length === 0) {
+                return { executed: false, error: `Nothing to ${action} on ${symbol}` };
+            }
 
             return {
                 executed: true,
-                orderId: result.order_id,
+                orderId: result.orderIds[result.orderIds.length - 1],
+                legs: result.legs.map(describeLeg),
                 symbol,
                 action,
                 size,
@@ -3,13 +3,14 @@
  * Dialectical debate - critical risk assessment and short opportunities
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
 import { BaseAgent, AgentDecision, Signal } from './base.js';
+import { BearResponseSchema } from './schemas.js';
 
 export class BearResearcherAgent extends BaseAgent {
-    constructor(openai: OpenAI, weex: RustSDKBridge, model: string = 'gpt-5.2') {
-        super('BearResearcher', 'Risk Assessment', openai, weex, model);
+    constructor(openai: ChatClient, weex: ExchangeGateway, model: string = 'gpt-5.2') {
+        super('BearResearcher', 'Risk Assessment', openai, weex, model, ['get_technical_indicators', 'calculate_vpin', 'check_liquidation_risk', 'send_message_to_agent']);
     }
 
     getSystemPrompt(): string {
@@ -59,24 +60,19 @@ Output JSON with:
             task: 'Present the BEARISH case / risks for this asset',
         };
 
-        const response = await this.callGPT(
+        const response = await this.callStructured(
             'Analyze the market and present a critical BEARISH thesis. ' +
             'Counter any bullish arguments with skepticism. ' +
             'Be specific about risks, resistance, and stop-loss levels.',
-            debateContext
+            debateContext,
+            BearResponseSchema
         );
-
-        let parsed: any = {};
-        try {
-            const jsonMatch = response.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                parsed = JSON.parse(jsonMatch[0]);
-            }
-        } catch {
-            parsed = { bearish_thesis: response, confidence: 0.5 };
+        if (!response.ok) {
+            return this.invalidDecision(response.error, debateContext);
         }
+        const parsed = response.value;
 
-        const confidence = parseFloat(parsed.confidence) || 0.5;
+        const confidence = parsed.confidence;
 
         // Bear researcher always argues for bearish signal
         const decision: AgentDecision = {
@@ -84,17 +80,18 @@ Output JSON with:
             signal: 'bearish' as Signal,
             confidence,
             stage: this.stage,
-            reasoning: parsed.bearish_thesis || response,
+            reasoning: parsed.bearish_thesis,
             data: {
                 input: debateContext,
                 output: {
                     thesis: parsed.bearish_thesis,
-                    risks: parsed.risks || [],
+                    risks: parsed.risks,
                     resistance: parsed.resistance_levels,
                     stopLoss: parsed.stop_loss,
                     counterBull: parsed.counter_bull,
                 },
             },
+            timestamp: new Date().toISOString(),
         };
 
         await this.uploadAILog(decision);
@@ -3,13 +3,14 @@
  * Dialectical debate - identifies growth potential and long opportunities
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
 import { BaseAgent, AgentDecision, Signal } from './base.js';
+import { BullResponseSchema } from './schemas.js';
 
 export class BullResearcherAgent extends BaseAgent {
-    constructor(openai: OpenAI, weex: RustSDKBridge, model: string = 'gpt-5.2') {
-        super('BullResearcher', 'Strategy Generation', openai, weex, model);
+    constructor(openai: ChatClient, weex: ExchangeGateway, model: string = 'gpt-5.2') {
+        super('BullResearcher', 'Strategy Generation', openai, weex, model, ['get_technical_indicators', 'calculate_obi', 'send_message_to_agent']);
     }
 
     getSystemPrompt(): string {
@@ -59,24 +60,19 @@ Output JSON with:
             task: 'Present the BULLISH case for this asset',
         };
 
-        const response = await this.callGPT(
+        const response = await this.callStructured(
             'Analyze the market and present a compelling BULLISH thesis. ' +
             'Counter any bearish arguments with data. ' +
             'Be specific about entry, target, and catalysts.',
-            debateContext
+            debateContext,
+            BullResponseSchema
         );
-
-        let parsed: any = {};
-        try {
-            const jsonMatch = response.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                parsed = JSON.parse(jsonMatch[0]);
-            }
-        } catch {
-            parsed = { bullish_thesis: response, confidence: 0.5 };
+        if (!response.ok) {
+            return this.invalidDecision(response.error, debateContext);
         }
+        const parsed = response.value;
 
-        const confidence = parseFloat(parsed.confidence) || 0.5;
+        const confidence = parsed.confidence;
 
         // Bull researcher always argues for bullish signal
         const decision: AgentDecision = {
@@ -84,17 +80,18 @@ Output JSON with:
             signal: 'bullish' as Signal,
             confidence,
             stage: this.stage,
-            reasoning: parsed.bullish_thesis || response,
+            reasoning: parsed.bullish_thesis,
             data: {
                 input: debateContext,
                 output: {
                     thesis: parsed.bullish_thesis,
-                    catalysts: parsed.catalysts || [],
+                    catalysts: parsed.catalysts,
                     entry: parsed.entry_price,
                     target: parsed.target_price,
                     counterBear: parsed.counter_bear,
                 },
             },
+            timestamp: new Date().toISOString(),
         };
 
         await this.uploadAILog(decision);
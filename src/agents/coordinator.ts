@@ -3,9 +3,9 @@
  * Orchestrates the team and makes final decisions
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
-import { BaseAgent, AgentDecision, Signal, Action, AgentMessage } from './base.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
+import { BaseAgent, AgentDecision, Signal, Action, AgentMessage, isNoVote } from './base.js';
 import { MarketAnalystAgent } from './market-analyst.js';
 import { SentimentAgent } from './sentiment.js';
 import { RiskManagerAgent } from './risk-manager.js';
@@ -30,8 +30,8 @@ export class CoordinatorAgent extends BaseAgent {
     private maxPositionSize: number;
 
     constructor(
-        openai: OpenAI,
-        weex: RustSDKBridge,
+        openai: ChatClient,
+        weex: ExchangeGateway,
         model: string = 'gpt-5.2',
         maxPositionSize: number = 0.0002
     ) {
@@ -94,6 +94,7 @@ If Risk Manager says REJECT, always HOLD.`;
         const directionVotes = { buy: 0, sell: 0, hold: 0 };
 
         for (const [agentName, decision] of Object.entries(decisions)) {
+            if (isNoVote(decision)) continue; // Invalid response: no vote either way
             const weight = weights[agentName] || 0;
             const score = decision.confidence * weight;
 
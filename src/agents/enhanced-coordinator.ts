@@ -4,10 +4,10 @@
  * Multi-pair support for all 8 WEEX assets
  */
 
-import OpenAI from 'openai';
+import type { ChatClient } from '../llm/client.js';
 import chalk from 'chalk';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
-import { BaseAgent, AgentDecision, Signal, Action } from './base.js';
+import { type ExchangeGateway, type Contract, findBalance, tradableSize } from '../sdk/gateway.js';
+import { BaseAgent, AgentDecision, Signal, Action, isNoVote } from './base.js';
 import { MarketAnalystAgent } from './market-analyst.js';
 import { SentimentAgent } from './sentiment.js';
 import { RiskManagerAgent } from './risk-manager.js';
@@ -17,6 +17,7 @@ import { BearResearcherAgent } from './bear-researcher.js';
 import { FundamentalsAnalystAgent } from './fundamentals-analyst.js';
 import { calculateKellyFraction, calculatePositionSize, calculateOBI, getOBISignal } from '../quant/indicators.js';
 import { executeTWAP, executeMarket, type ExecutionResult } from '../execution/engine.js';
+import { getContractRegistry } from '../execution/contracts.js';
 
 // All 8 WEEX pairs
 export const TRADING_PAIRS = [
@@ -69,8 +70,8 @@ export class EnhancedCoordinatorAgent extends BaseAgent {
     private accountEquity: number = 1000; // Will be updated
 
     constructor(
-        openai: OpenAI,
-        weex: RustSDKBridge,
+        openai: ChatClient,
+        weex: ExchangeGateway,
         model: string = 'gpt-5.2',
         maxPositionSize: number = 0.001
     ) {
@@ -85,6 +86,17 @@ export class EnhancedCoordinatorAgent extends BaseAgent {
         this.bullResearcher = new BullResearcherAgent(openai, weex, model);
         this.bearResearcher = new BearResearcherAgent(openai, weex, model);
         this.fundamentalsAnalyst = new FundamentalsAnalystAgent(openai, weex, model);
+
+        // Reachable through the send_message_to_agent tool
+        const peers = {
+            market_analyst: this.marketAnalyst,
+            sentiment: this.sentimentAgent,
+            risk_manager: this.riskManager,
+            executor: this.executor,
+        };
+        for (const agent of [this.marketAnalyst, this.sentimentAgent, this.riskManager, this.bullResearcher, this.bearResearcher, this.fundamentalsAnalyst]) {
+            agent.connectPeers(peers);
+        }
     }
 
     getSystemPrompt(): string {
@@ -145,10 +157,9 @@ Thresholds:
 
         // Update account equity
         try {
-            const assets = await this.weex.getAssets();
-            const usdt = assets.find((a: any) => a.coinName === 'USDT');
+            const usdt = findBalance(await this.weex.getAssets());
             if (usdt) {
-                this.accountEquity = parseFloat(usdt.equity || usdt.available);
+                this.accountEquity = usdt.equity;
             }
         } catch (e) {
             console.log('   Using default equity');
@@ -179,7 +190,7 @@ Thresholds:
         console.log('   [2/2] Bear Researcher rebutting...');
         const bearContext = {
             ...context,
-            bullishArguments: agentVotes.bull.reasoning
+            bullishArguments: isNoVote(agentVotes.bull) ? undefined : agentVotes.bull.reasoning
         };
         agentVotes.bear = await this.bearResearcher.analyze(bearContext);
         console.log(`   ${this.formatSignal(agentVotes.bear)}`);
@@ -187,8 +198,11 @@ Thresholds:
         // Determine debate winner
         const bullConf = agentVotes.bull.confidence;
         const bearConf = agentVotes.bear.confidence;
-        const debateWinner = bullConf > bearConf + 0.1 ? 'bull' :
-            bearConf > bullConf + 0.1 ? 'bear' : 'tie';
+        // A side with no valid thesis forfeits the debate rather than losing it
+        const debateValid = !isNoVote(agentVotes.bull) && !isNoVote(agentVotes.bear);
+        const debateWinner = !debateValid ? 'tie' :
+            bullConf > bearConf + 0.1 ? 'bull' :
+                bearConf > bullConf + 0.1 ? 'bear' : 'tie';
 
         console.log(chalk.magenta(`   📢 Debate winner: ${debateWinner.toUpperCase()}`));
 
@@ -203,7 +217,7 @@ Thresholds:
             risk: 0.15,
         };
 
-        // Convert signals to scores
+        // Convert signals to scores (invalid responses score 0: no vote)
         const signalToScore = (decision: AgentDecision): number => {
             const base = decision.signal === 'bullish' ? 1 :
                 decision.signal === 'bearish' ? -1 : 0;
@@ -220,6 +234,10 @@ Thresholds:
             debateScore * weights.debate;
 
         console.log(`   Weighted score: ${weightedScore.toFixed(3)}`);
+        const noVotes = Object.entries(agentVotes).filter(([, d]) => isNoVote(d)).map(([name]) => name);
+        if (noVotes.length > 0) {
+            console.log(chalk.gray(`   No vote (invalid response): ${noVotes.join(', ')}`));
+        }
 
         // Determine direction
         const direction: 'long' | 'short' | 'none' =
@@ -229,10 +247,17 @@ Thresholds:
         // Phase 4: Risk Manager
         console.log(chalk.yellow('\n🛡️ PHASE 4: Risk Manager Review'));
 
+        // Sized in this pair's contracts at its own price; without a price nothing is sized
+        const [price, contract] = await Promise.all([
+            this.weex.getTicker(symbol).then((t) => t.last, () => 0),
+            getContractRegistry(this.weex).find(symbol),
+        ]);
+        const positionSize = this.calculateOptimalSize(price, contract);
+
         agentVotes.risk = await this.riskManager.analyze({
             ...context,
             proposedDirection: direction,
-            proposedSize: this.calculateOptimalSize(),
+            proposedSize: positionSize,
         });
         console.log(`   ${this.formatSignal(agentVotes.risk)}`);
 
@@ -257,12 +282,11 @@ Thresholds:
             else if (finalConfidence >= 0.40) action = 'alert';
         }
 
-        // Calculate position size using Kelly
-        const kelly = calculateKellyFraction(this.tradeHistory, 0.25);
-        const positionSize = Math.min(
-            this.maxPositionSize,
-            this.accountEquity * kelly / 88000 // Approximate BTC price
-        );
+        // No trade goes out without a risk review the model actually completed
+        if (action === 'execute' && isNoVote(agentVotes.risk)) {
+            console.log(chalk.yellow('   ⚠️ No valid risk review - downgrading to ALERT'));
+            action = 'alert';
+        }
 
         // Build decision
         const decision: TeamDecision = {
@@ -284,7 +308,7 @@ Thresholds:
         if (action === 'execute' && positionSize > 0) {
             console.log(chalk.yellow('\n⚡ PHASE 5: Execution'));
             console.log(`   Direction: ${direction.toUpperCase()}`);
-            console.log(`   Size: ${positionSize.toFixed(6)} BTC`);
+            console.log(`   Size: ${positionSize} @ ~$${price}`);
 
             const side = direction === 'long' ? 'buy' : 'sell';
             decision.execution = await executeMarket(
@@ -317,16 +341,23 @@ Thresholds:
         return decision;
     }
 
-    private calculateOptimalSize(): number {
+    /**
+     * Quarter-Kelly share of equity, capped at maxPositionSize and rounded to
+     * the contract's lot (0 if below its minimum order size, or without a price)
+     */
+    private calculateOptimalSize(price: number, contract: Contract | null): number {
+        if (!(price > 0)) return 0;
         const kelly = calculateKellyFraction(this.tradeHistory, 0.25);
-        return Math.min(this.maxPositionSize, this.accountEquity * kelly / 88000);
+        const size = Math.min(this.maxPositionSize, this.accountEquity * kelly / (price * (contract?.contractValue ?? 1)));
+        return tradableSize(contract, size);
     }
 
     private formatSignal(decision: AgentDecision): string {
         const emoji = decision.signal === 'bullish' ? '🟢' :
             decision.signal === 'bearish' ? '🔴' :
                 decision.signal === 'approve' ? '✅' :
-                    decision.signal === 'reject' ? '❌' : '⚪';
+                    decision.signal === 'reject' ? '❌' :
+                        decision.signal === 'invalid' ? '🚫' : '⚪';
         return `${emoji} ${decision.signal} (${(decision.confidence * 100).toFixed(0)}%)`;
     }
 
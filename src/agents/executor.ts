@@ -3,12 +3,12 @@
  * Handles order execution and management
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
 import { BaseAgent, AgentDecision, Signal } from './base.js';
 
 export class ExecutorAgent extends BaseAgent {
-    constructor(openai: OpenAI, weex: RustSDKBridge, model: string = 'gpt-5.2') {
+    constructor(openai: ChatClient, weex: ExchangeGateway, model: string = 'gpt-5.2') {
         super('Executor', 'Order Execution', openai, weex, model);
     }
 
@@ -3,14 +3,15 @@
  * On-chain metrics, funding rates, open interest analysis
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
 import { BaseAgent, AgentDecision, Signal } from './base.js';
+import { FundamentalsResponseSchema } from './schemas.js';
 import { analyzeFundingArbitrage, analyzeOpenInterest, type FundingRateData, type OpenInterestData } from '../quant/indicators.js';
 
 export class FundamentalsAnalystAgent extends BaseAgent {
-    constructor(openai: OpenAI, weex: RustSDKBridge, model: string = 'gpt-5.2') {
-        super('FundamentalsAnalyst', 'Fundamental Analysis', openai, weex, model);
+    constructor(openai: ChatClient, weex: ExchangeGateway, model: string = 'gpt-5.2') {
+        super('FundamentalsAnalyst', 'Fundamental Analysis', openai, weex, model, ['get_funding_rate', 'get_funding_arbitrage', 'check_liquidation_risk']);
     }
 
     getSystemPrompt(): string {
@@ -46,9 +47,9 @@ Output JSON with:
         // Analyze funding arbitrage opportunity
         const fundingData: FundingRateData = {
             symbol,
-            fundingRate: parseFloat(funding.fundingRate || '0'),
+            fundingRate: funding.fundingRate,
             nextFundingTime: Date.now() + 8 * 60 * 60 * 1000, // 8 hours
-            markPrice: parseFloat(ticker.last),
+            markPrice: ticker.last,
         };
 
         const fundingArb = analyzeFundingArbitrage(fundingData);
@@ -59,29 +60,24 @@ Output JSON with:
             currentPrice: ticker.last,
             fundingRate: fundingData.fundingRate,
             fundingOpportunity: fundingArb,
-            volume24h: ticker.vol,
-            change24h: ticker.change,
+            volume24h: ticker.volume24h,
+            change24h: ticker.change24h,
         };
 
-        const response = await this.callGPT(
+        const response = await this.callStructured(
             'Analyze the fundamental data (funding rates, volume, flows) and provide trading signals. ' +
             'Focus on opportunities where we can get PAID to hold positions.',
-            fundamentalsContext
+            fundamentalsContext,
+            FundamentalsResponseSchema
         );
-
-        let parsed: any = {};
-        try {
-            const jsonMatch = response.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                parsed = JSON.parse(jsonMatch[0]);
-            }
-        } catch {
-            parsed = { signal: 'neutral', confidence: 0.5 };
+        if (!response.ok) {
+            return this.invalidDecision(response.error, fundamentalsContext);
         }
+        const parsed = response.value;
 
         // Determine signal from funding and AI analysis
         let signal: Signal = 'neutral';
-        let confidence = parseFloat(parsed.confidence) || 0.5;
+        let confidence = parsed.confidence;
 
         if (fundingArb.action === 'long_perp' && fundingArb.annualizedReturn > 50) {
             signal = 'bullish';
@@ -89,8 +85,8 @@ Output JSON with:
         } else if (fundingArb.action === 'short_perp' && fundingArb.annualizedReturn > 50) {
             signal = 'bearish';
             confidence = Math.min(0.9, confidence + 0.2);
-        } else if (parsed.signal) {
-            signal = parsed.signal as Signal;
+        } else {
+            signal = parsed.signal;
         }
 
         const decision: AgentDecision = {
@@ -100,7 +96,7 @@ Output JSON with:
             stage: this.stage,
             reasoning: `Funding rate: ${(fundingData.fundingRate * 100).toFixed(4)}%. ` +
                 `${fundingArb.action !== 'none' ? `Opportunity: ${fundingArb.action} for ${fundingArb.annualizedReturn}% APY. ` : ''}` +
-                (parsed.recommendation || response),
+                parsed.recommendation,
             data: {
                 input: fundamentalsContext,
                 output: {
@@ -3,13 +3,14 @@
  * Technical analysis specialist
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
 import { BaseAgent, AgentDecision, Signal } from './base.js';
+import { MarketAnalystResponseSchema } from './schemas.js';
 
 export class MarketAnalystAgent extends BaseAgent {
-    constructor(openai: OpenAI, weex: RustSDKBridge, model: string = 'gpt-5.2') {
-        super('MarketAnalyst', 'Technical Analysis', openai, weex, model);
+    constructor(openai: ChatClient, weex: ExchangeGateway, model: string = 'gpt-5.2') {
+        super('MarketAnalyst', 'Technical Analysis', openai, weex, model, ['get_market_data', 'get_technical_indicators', 'calculate_obi', 'calculate_vpin']);
     }
 
     getSystemPrompt(): string {
@@ -47,17 +48,11 @@ Be precise and data-driven. Format your response as JSON:
 
         // Call GPT for analysis
         const prompt = `Analyze ${symbol} and provide a trading signal based on the technical data.`;
-        const response = await this.callGPT(prompt, analysisContext);
-
-        // Parse response
-        let result: { signal: string; confidence: number; reasoning: string };
-        try {
-            const jsonStart = response.indexOf('{');
-            const jsonEnd = response.lastIndexOf('}') + 1;
-            result = JSON.parse(response.slice(jsonStart, jsonEnd));
-        } catch {
-            result = { signal: 'NEUTRAL', confidence: 0.5, reasoning: response };
+        const response = await this.callStructured(prompt, analysisContext, MarketAnalystResponseSchema);
+        if (!response.ok) {
+            return this.invalidDecision(response.error, analysisContext);
         }
+        const result = response.value;
 
         // Map signal
         const signalMap: Record<string, Signal> = {
@@ -66,7 +61,7 @@ Be precise and data-driven. Format your response as JSON:
             NEUTRAL: 'neutral',
             HOLD: 'hold',
         };
-        const signal = signalMap[result.signal.toUpperCase()] || 'neutral';
+        const signal = signalMap[result.signal];
 
         const decision: AgentDecision = {
             agentName: this.name,
@@ -3,22 +3,23 @@
  * Position sizing and risk assessment
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
 import { BaseAgent, AgentDecision, Signal } from './base.js';
+import { RiskManagerResponseSchema } from './schemas.js';
 
 export class RiskManagerAgent extends BaseAgent {
     private maxPositionSize: number;
     private maxRiskPct: number;
 
     constructor(
-        openai: OpenAI,
-        weex: RustSDKBridge,
+        openai: ChatClient,
+        weex: ExchangeGateway,
         model: string = 'gpt-5.2',
         maxPositionSize: number = 0.0002,
         maxRiskPct: number = 0.02
     ) {
-        super('RiskManager', 'Risk Assessment', openai, weex, model);
+        super('RiskManager', 'Risk Assessment', openai, weex, model, ['get_account_status', 'get_kelly_size', 'check_liquidation_risk', 'get_execution_recommendation']);
         this.maxPositionSize = maxPositionSize;
         this.maxRiskPct = maxRiskPct;
     }
@@ -70,22 +71,12 @@ Format your response as JSON:
 
         // Call GPT
         const prompt = `Assess the risk for a potential ${proposedSignal} trade on ${symbol}. Should we proceed?`;
-        const response = await this.callGPT(prompt, riskContext);
-
-        // Parse response
-        let result: { signal: string; confidence: number; recommended_size: number; reasoning: string };
-        try {
-            const jsonStart = response.indexOf('{');
-            const jsonEnd = response.lastIndexOf('}') + 1;
-            result = JSON.parse(response.slice(jsonStart, jsonEnd));
-        } catch {
-            result = {
-                signal: 'APPROVE',
-                confidence: 0.7,
-                recommended_size: this.maxPositionSize,
-                reasoning: response,
-            };
+        const response = await this.callStructured(prompt, riskContext, RiskManagerResponseSchema);
+        if (!response.ok) {
+            // Never approve by default: an unreadable review is no vote
+            return this.invalidDecision(response.error, riskContext);
         }
+        const result = response.value;
 
         // Map signal
         const signalMap: Record<string, Signal> = {
@@ -93,7 +84,7 @@ Format your response as JSON:
             REDUCE: 'reduce',
             REJECT: 'reject',
         };
-        const signal = signalMap[result.signal.toUpperCase()] || 'approve';
+        const signal = signalMap[result.signal];
 
         // Ensure size is within limits
         const recommendedSize = Math.min(result.recommended_size || this.maxPositionSize, this.maxPositionSize);
@@ -0,0 +1,141 @@
+/**
+ * Agent Response Schemas
+ * The JSON each agent's prompt asks for, validated before it becomes a vote
+ */
+
+import { z } from 'zod';
+
+const confidence = z.coerce.number().min(0).max(1);
+const price = z.union([z.number(), z.string()]).optional();
+
+/**
+ * Enum that accepts any casing ("buy", "BUY", " Buy ")
+ */
+function upperEnum<U extends string, T extends [U, ...U[]]>(values: T) {
+    return z.string().transform((s) => s.trim().toUpperCase()).pipe(z.enum(values));
+}
+
+function lowerEnum<U extends string, T extends [U, ...U[]]>(values: T) {
+    return z.string().transform((s) => s.trim().toLowerCase()).pipe(z.enum(values));
+}
+
+// ==================== AGENT TEAM ====================
+
+export const MarketAnalystResponseSchema = z.object({
+    signal: upperEnum(['BUY', 'SELL', 'NEUTRAL', 'HOLD']),
+    confidence,
+    reasoning: z.string(),
+});
+
+export const SentimentResponseSchema = z.object({
+    signal: upperEnum(['BULLISH', 'BEARISH', 'NEUTRAL']),
+    confidence,
+    reasoning: z.string(),
+});
+
+export const FundamentalsResponseSchema = z.object({
+    signal: lowerEnum(['bullish', 'bearish', 'neutral']),
+    confidence,
+    recommendation: z.string(),
+    fundingOpportunity: z.string().optional(),
+    oiTrend: z.string().optional(),
+});
+
+export const BullResponseSchema = z.object({
+    bullish_thesis: z.string(),
+    catalysts: z.array(z.string()).default([]),
+    entry_price: price,
+    target_price: price,
+    confidence,
+    counter_bear: z.string().optional(),
+});
+
+export const BearResponseSchema = z.object({
+    bearish_thesis: z.string(),
+    risks: z.array(z.string()).default([]),
+    resistance_levels: z.union([z.array(z.union([z.number(), z.string()])), z.number(), z.string()]).optional(),
+    stop_loss: price,
+    confidence,
+    counter_bull: z.string().optional(),
+});
+
+export const RiskManagerResponseSchema = z.object({
+    signal: upperEnum(['APPROVE', 'REDUCE', 'REJECT']),
+    confidence,
+    recommended_size: z.coerce.number().nonnegative(),
+    reasoning: z.string(),
+});
+
+// ==================== ENGINE AGENTS ====================
+
+export const LeadDecisionResponseSchema = z.object({
+    action: lowerEnum(['long', 'short', 'hold', 'close']),
+    confidence,
+    positionSize: z.coerce.number().min(0).max(0.1),
+    stopLoss: z.coerce.number().positive().optional(),
+    takeProfit: z.coerce.number().positive().optional(),
+    reasoning: z.string(),
+});
+
+// No regime field: it is measured by detectRegime, and a model that still sends one has it stripped
+export const StrategicResponseSchema = z.object({
+    bias: lowerEnum(['bullish', 'bearish', 'neutral']),
+    biasStrength: z.coerce.number().min(-1).max(1),
+    signalThreshold: z.coerce.number().min(0.1).max(0.5),
+    riskPerTrade: z.coerce.number().min(0.01).max(0.05),
+    weights: z.object({
+        obi: z.coerce.number().min(0).max(0.4),
+        rsi: z.coerce.number().min(0).max(0.4),
+        ema: z.coerce.number().min(0).max(0.4),
+        momentum: z.coerce.number().min(0).max(0.4),
+    }),
+    reasoning: z.string(),
+});
+
+// ==================== NEUTRAL RESPONSES ====================
+
+const STUB_REASONING = 'Stubbed LLM response';
+
+/**
+ * A valid zero-confidence, no-trade response for each schema (what the LLM
+ * stub answers with). Most specific first: a prompt gets the first entry
+ * whose field names it all mentions, and the last entry is the fallback.
+ */
+export const NEUTRAL_RESPONSES: { schemas: z.ZodTypeAny[]; response: Record<string, unknown> }[] = [
+    {
+        schemas: [StrategicResponseSchema],
+        response: {
+            bias: 'neutral', biasStrength: 0, signalThreshold: 0.5, riskPerTrade: 0.01,
+            weights: { obi: 0.25, rsi: 0.25, ema: 0.25, momentum: 0.25 }, reasoning: STUB_REASONING,
+        },
+    },
+    {
+        schemas: [LeadDecisionResponseSchema],
+        response: { action: 'hold', confidence: 0, positionSize: 0, reasoning: STUB_REASONING },
+    },
+    {
+        schemas: [RiskManagerResponseSchema],
+        response: { signal: 'REJECT', confidence: 0, recommended_size: 0, reasoning: STUB_REASONING },
+    },
+    {
+        schemas: [BullResponseSchema],
+        response: { bullish_thesis: STUB_REASONING, catalysts: [], confidence: 0 },
+    },
+    {
+        schemas: [BearResponseSchema],
+        response: { bearish_thesis: STUB_REASONING, risks: [], confidence: 0 },
+    },
+    {
+        schemas: [MarketAnalystResponseSchema, SentimentResponseSchema, FundamentalsResponseSchema],
+        response: { signal: 'neutral', confidence: 0, reasoning: STUB_REASONING, recommendation: 'HOLD' },
+    },
+];
+
+export type MarketAnalystResponse = z.infer<typeof MarketAnalystResponseSchema>;
+export type SentimentResponse = z.infer<typeof SentimentResponseSchema>;
+export type FundamentalsResponse = z.infer<typeof FundamentalsResponseSchema>;
+export type BullResponse = z.infer<typeof BullResponseSchema>;
+export type BearResponse = z.infer<typeof BearResponseSchema>;
+export type RiskManagerResponse = z.infer<typeof RiskManagerResponseSchema>;
+export type LeadDecisionResponse = z.infer<typeof LeadDecisionResponseSchema>;
+export type StrategicResponse = z.infer<typeof StrategicResponseSchema>;
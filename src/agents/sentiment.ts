@@ -3,13 +3,14 @@
  * Analyzes funding rates, OI, and market positioning
  */
 
-import OpenAI from 'openai';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ChatClient } from '../llm/client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
 import { BaseAgent, AgentDecision, Signal } from './base.js';
+import { SentimentResponseSchema } from './schemas.js';
 
 export class SentimentAgent extends BaseAgent {
-    constructor(openai: OpenAI, weex: RustSDKBridge, model: string = 'gpt-5.2') {
-        super('SentimentAgent', 'Sentiment Analysis', openai, weex, model);
+    constructor(openai: ChatClient, weex: ExchangeGateway, model: string = 'gpt-5.2') {
+        super('SentimentAgent', 'Sentiment Analysis', openai, weex, model, ['get_market_data', 'get_funding_rate', 'calculate_obi']);
     }
 
     getSystemPrompt(): string {
@@ -44,27 +45,21 @@ Format your response as JSON:
         const sentimentContext = {
             symbol,
             currentPrice: ticker.last,
-            priceChange24h: ticker.priceChangePercent,
-            volume24h: ticker.volume_24h,
+            priceChange24h: ticker.change24h,
+            volume24h: ticker.volume24h,
             fundingRate: funding.fundingRate,
-            nextFundingTime: funding.fundingTime,
+            nextFundingTime: funding.nextFundingTime,
             openInterest,
             timestamp: new Date().toISOString(),
         };
 
         // Call GPT
         const prompt = `Analyze sentiment for ${symbol} based on funding and market data.`;
-        const response = await this.callGPT(prompt, sentimentContext);
-
-        // Parse response
-        let result: { signal: string; confidence: number; reasoning: string };
-        try {
-            const jsonStart = response.indexOf('{');
-            const jsonEnd = response.lastIndexOf('}') + 1;
-            result = JSON.parse(response.slice(jsonStart, jsonEnd));
-        } catch {
-            result = { signal: 'NEUTRAL', confidence: 0.5, reasoning: response };
+        const response = await this.callStructured(prompt, sentimentContext, SentimentResponseSchema);
+        if (!response.ok) {
+            return this.invalidDecision(response.error, sentimentContext);
         }
+        const result = response.value;
 
         // Map signal
         const signalMap: Record<string, Signal> = {
@@ -72,7 +67,7 @@ Format your response as JSON:
             BEARISH: 'bearish',
             NEUTRAL: 'neutral',
         };
-        const signal = signalMap[result.signal.toUpperCase()] || 'neutral';
+        const signal = signalMap[result.signal];
 
         const decision: AgentDecision = {
             agentName: this.name,
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { buildHistory, loadEventsFromFile, parseEventRecord, parseTime, type MarketEvent } from './data.js';
+
+const MINUTE = 60_000;
+const START = Date.UTC(2026, 0, 1);
+
+const candle = (i: number, open: number, close: number): MarketEvent => ({
+    type: 'candle', time: START + i * MINUTE, open, high: Math.max(open, close) + 1, low: Math.min(open, close) - 1, close, volume: 10,
+});
+
+describe('parseTime', () => {
+    it('accepts epoch seconds, epoch milliseconds and ISO strings', () => {
+        expect(parseTime(START / 1000)).toBe(START);
+        expect(parseTime(String(START))).toBe(START);
+        expect(parseTime('2026-01-01T00:00:00Z')).toBe(START);
+        expect(() => parseTime('yesterday')).toThrow('Invalid time');
+    });
+});
+
+describe('buildHistory', () => {
+    it('walks each candle open, extreme, extreme, close within the range', () => {
+        const events = [candle(0, 100, 102), candle(1, 102, 101), candle(2, 101, 103), { type: 'tick' as const, time: START + 30_000, price: 100.5 }];
+        const history = buildHistory('cmt_btcusdt', events, START, START + 2 * MINUTE - 1);
+
+        expect(history.barMs).toBe(MINUTE);
+        expect(history.candles).toHaveLength(2);
+        // Bullish bar visits the low first, bearish the high
+        expect(history.prices.map((p) => p.price)).toEqual([100, 99, 100.5, 103, 102, 102, 103, 100, 101]);
+    });
+
+    it('refuses a range with no prices', () => {
+        expect(() => buildHistory('cmt_btcusdt', [candle(0, 100, 101)], START + MINUTE, START + 2 * MINUTE)).toThrow('No price data');
+    });
+});
+
+describe('parseEventRecord', () => {
+    it('reads ticks, trades, funding and bare candles', () => {
+        expect(parseEventRecord({ type: 'trade', price: '101', timestamp: START })).toMatchObject({ type: 'tick', time: START, price: 101 });
+        expect(parseEventRecord({ type: 'funding', time: START, fundingRate: '0.0001' })).toEqual({ type: 'funding', time: START, rate: 0.0001 });
+        expect(parseEventRecord([START, 1, 2, 0.5, 1.5, 7])).toEqual({ type: 'candle', time: START, open: 1, high: 2, low: 0.5, close: 1.5, volume: 7 });
+        expect(parseEventRecord({ type: 'unknown' })).toBeNull();
+    });
+});
+
+describe('loadEventsFromFile', () => {
+    it('reads gzipped CSV with a header and skips the truncated tail of a JSONL recording', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-data-'));
+        try {
+            const csv = path.join(dir, 'bars.csv.gz');
+            fs.writeFileSync(csv, zlib.gzipSync(`time,open,high,low,close,volume\n${START},1,2,0.5,1.5,7\n`));
+            expect(loadEventsFromFile(csv)).toEqual([{ type: 'candle', time: START, open: 1, high: 2, low: 0.5, close: 1.5, volume: 7 }]);
+
+            const jsonl = path.join(dir, 'trades.jsonl');
+            fs.writeFileSync(jsonl, `${JSON.stringify({ type: 'trade', price: 100, timestamp: START })}\n{"type":"trade","pri`);
+            expect(loadEventsFromFile(jsonl)).toHaveLength(1);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
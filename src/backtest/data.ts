@@ -0,0 +1,309 @@
+/**
+ * Backtest Data
+ * Historical market data: candles, ticks, depth snapshots and funding,
+ * loaded from files or fetched through a gateway
+ *
+ * Supported files:
+ * - .csv   time,open,high,low,close,volume (header optional, time in ms or ISO)
+ * - .jsonl one event per line: { type: 'candle' | 'tick' | 'depth' | 'funding', time, ... }
+ *          or bare candles ({ time, open, ... } / [time, open, high, low, close, volume])
+ *          MarketRecorder files work as-is: their incremental depth messages are
+ *          rebuilt into books and sampled as snapshots
+ * - .gz    any of the above, gzip compressed
+ */
+
+import fs from 'fs';
+import zlib from 'zlib';
+import type { ExchangeGateway, Candle, OrderBookLevel } from '../sdk/gateway.js';
+import { L2OrderBook, type DepthMessage } from '../ws/order-book.js';
+
+// ==================== TYPES ====================
+
+export interface PricePoint {
+    time: number;
+    price: number;
+    bid?: number;
+    ask?: number;
+}
+
+export interface DepthSnapshot {
+    time: number;
+    bids: OrderBookLevel[];
+    asks: OrderBookLevel[];
+}
+
+export interface FundingPoint {
+    time: number;
+    rate: number;
+}
+
+export type MarketEvent =
+    | ({ type: 'candle' } & Candle)
+    | ({ type: 'tick' } & PricePoint)
+    | ({ type: 'depth' } & DepthSnapshot)
+    | ({ type: 'funding' } & FundingPoint);
+
+export interface MarketHistory {
+    symbol: string;
+    from: number;
+    to: number;
+    barMs: number;              // Candle duration (0 when built from ticks only)
+    candles: Candle[];
+    prices: PricePoint[];       // Sorted price path the engines see
+    depths: DepthSnapshot[];
+    funding: FundingPoint[];
+}
+
+const GRANULARITY_MS: Record<string, number> = {
+    '1m': 60_000,
+    '3m': 3 * 60_000,
+    '5m': 5 * 60_000,
+    '15m': 15 * 60_000,
+    '30m': 30 * 60_000,
+    '1h': 60 * 60_000,
+    '2h': 2 * 60 * 60_000,
+    '4h': 4 * 60 * 60_000,
+    '6h': 6 * 60 * 60_000,
+    '12h': 12 * 60 * 60_000,
+    '1d': 24 * 60 * 60_000,
+};
+
+/**
+ * '1m', '15m', '1H', '4H', '1D' → milliseconds
+ */
+export function granularityToMs(granularity: string): number {
+    const ms = GRANULARITY_MS[granularity.toLowerCase()];
+    if (!ms) throw new Error(`Unsupported granularity: ${granularity}`);
+    return ms;
+}
+
+/**
+ * Accept epoch milliseconds, epoch seconds or anything Date.parse understands
+ */
+export function parseTime(value: string | number): number {
+    if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+    if (/^\d+$/.test(value.trim())) return parseTime(parseInt(value.trim()));
+    const ms = Date.parse(value);
+    if (isNaN(ms)) throw new Error(`Invalid time: ${value}`);
+    return ms;
+}
+
+// ==================== BUILDING ====================
+
+/**
+ * Expand a candle into the O → H/L → L/H → C path a poller would have seen
+ */
+function candlePath(candle: Candle, barMs: number): PricePoint[] {
+    const bullish = candle.close >= candle.open;
+    const [first, second] = bullish ? [candle.low, candle.high] : [candle.high, candle.low];
+    return [
+        { time: candle.time, price: candle.open },
+        { time: candle.time + Math.floor(barMs / 3), price: first },
+        { time: candle.time + Math.floor((2 * barMs) / 3), price: second },
+        { time: candle.time + barMs - 1, price: candle.close },
+    ];
+}
+
+/**
+ * Build a history from raw events, clipped to [from, to]
+ */
+export function buildHistory(symbol: string, events: MarketEvent[], from: number, to: number): MarketHistory {
+    const inRange = (t: number) => t >= from && t <= to;
+
+    const candles = events
+        .filter((e): e is { type: 'candle' } & Candle => e.type === 'candle' && inRange(e.time))
+        .map(({ type: _type, ...c }) => c)
+        .sort((a, b) => a.time - b.time);
+
+    // Bar size = most common gap between consecutive candles
+    let barMs = 0;
+    if (candles.length >= 2) {
+        const gaps = new Map<number, number>();
+        for (let i = 1; i < candles.length; i++) {
+            const gap = candles[i].time - candles[i - 1].time;
+            gaps.set(gap, (gaps.get(gap) || 0) + 1);
+        }
+        barMs = [...gaps.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    }
+
+    const prices: PricePoint[] = [];
+    for (const candle of candles) prices.push(...candlePath(candle, barMs || 60_000));
+    for (const e of events) {
+        if (e.type === 'tick' && inRange(e.time)) prices.push({ time: e.time, price: e.price, bid: e.bid, ask: e.ask });
+    }
+    prices.sort((a, b) => a.time - b.time);
+
+    const depths = events
+        .filter((e): e is { type: 'depth' } & DepthSnapshot => e.type === 'depth' && inRange(e.time))
+        .map(({ time, bids, asks }) => ({ time, bids, asks }))
+        .sort((a, b) => a.time - b.time);
+
+    const funding = events
+        .filter((e): e is { type: 'funding' } & FundingPoint => e.type === 'funding' && e.time <= to)
+        .map(({ time, rate }) => ({ time, rate }))
+        .sort((a, b) => a.time - b.time);
+
+    if (prices.length === 0) {
+        throw new Error(`No price data for ${symbol} between ${new Date(from).toISOString()} and ${new Date(to).toISOString()}`);
+    }
+
+    return { symbol, from, to, barMs, candles, prices, depths, funding };
+}
+
+// ==================== FILE LOADING ====================
+
+function toCandleEvent(raw: unknown): MarketEvent | null {
+    if (Array.isArray(raw)) {
+        const [time, open, high, low, close, volume] = raw.map(Number);
+        return { type: 'candle', time: parseTime(time), open, high, low, close, volume: volume || 0 };
+    }
+    const r = raw as Record<string, any>;
+    if (r.close === undefined) return null;
+    return {
+        type: 'candle',
+        time: parseTime(r.time ?? r.ts ?? r.timestamp),
+        open: Number(r.open), high: Number(r.high), low: Number(r.low), close: Number(r.close),
+        volume: Number(r.volume ?? 0),
+    };
+}
+
+function parseLevels(raw: unknown): OrderBookLevel[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.map((l: any) => Array.isArray(l)
+        ? { price: Number(l[0]), quantity: Number(l[1]) }
+        : { price: Number(l.price), quantity: Number(l.quantity ?? l.size) });
+}
+
+/**
+ * Parse one JSONL record into a market event (null for anything unrecognised)
+ */
+export function parseEventRecord(raw: unknown): MarketEvent | null {
+    if (Array.isArray(raw)) return toCandleEvent(raw);
+    const r = raw as Record<string, any>;
+    if (!r || typeof r !== 'object') return null;
+
+    const time = r.time ?? r.ts ?? r.timestamp;
+    switch (r.type) {
+        case 'tick':
+        case 'ticker':
+        case 'trade':
+            return { type: 'tick', time: parseTime(time), price: Number(r.price ?? r.last), bid: r.bid, ask: r.ask };
+        case 'depth':
+            return { type: 'depth', time: parseTime(time), bids: parseLevels(r.bids), asks: parseLevels(r.asks) };
+        case 'funding':
+            return { type: 'funding', time: parseTime(time), rate: Number(r.rate ?? r.fundingRate) };
+        default:
+            return toCandleEvent(r);
+    }
+}
+
+function parseCSV(text: string): MarketEvent[] {
+    const events: MarketEvent[] = [];
+    for (const line of text.split('\n')) {
+        const cells = line.trim().split(',');
+        if (cells.length < 5 || isNaN(Number(cells[4]))) continue; // Header or blank
+        const event = toCandleEvent([parseTime(cells[0]), ...cells.slice(1)]);
+        if (event) events.push(event);
+    }
+    return events;
+}
+
+const RECORDED_DEPTH_INTERVAL_MS = 1000;
+const RECORDED_DEPTH_LEVELS = 20;
+
+/**
+ * Rebuilds recorded depth streams (snapshot + incremental updates, see
+ * MarketRecorder) and samples each book at most once per interval
+ */
+class RecordedDepth {
+    private books: Map<string, L2OrderBook> = new Map();
+    private lastSample: Map<string, number> = new Map();
+
+    apply(symbol: string, message: DepthMessage): MarketEvent | null {
+        let book = this.books.get(symbol);
+        if (!book) {
+            book = new L2OrderBook(symbol);
+            this.books.set(symbol, book);
+        }
+        if (!book.apply(message)) return null;
+
+        const time = parseTime(message.timestamp);
+        if (time - (this.lastSample.get(symbol) ?? -Infinity) < RECORDED_DEPTH_INTERVAL_MS) return null;
+        this.lastSample.set(symbol, time);
+
+        const { bids, asks } = book.snapshot(RECORDED_DEPTH_LEVELS);
+        return { type: 'depth', time, bids, asks };
+    }
+}
+
+function parseJSONL(text: string): MarketEvent[] {
+    const trimmed = text.trim();
+    // A single JSON array file is accepted too
+    const records: unknown[] = trimmed.startsWith('[') && !trimmed.startsWith('[[')
+        ? JSON.parse(trimmed)
+        : trimmed.split('\n').filter(Boolean).flatMap((line) => {
+            try {
+                return [JSON.parse(line)];
+            } catch {
+                // Truncated last line of a crashed recording
+                return [];
+            }
+        });
+
+    const depth = new RecordedDepth();
+    return records
+        .map((r: any) => r?.type === 'depth' && typeof r.action === 'string'
+            ? depth.apply(String(r.symbol ?? ''), r as DepthMessage)
+            : parseEventRecord(r))
+        .filter((e): e is MarketEvent => e !== null);
+}
+
+/**
+ * Read market events from a local file
+ */
+export function loadEventsFromFile(path: string): MarketEvent[] {
+    let buffer = fs.readFileSync(path);
+    let name = path.toLowerCase();
+    if (name.endsWith('.gz')) {
+        // Tolerates a truncated tail (recorder killed mid-write)
+        buffer = zlib.gunzipSync(buffer, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+        name = name.slice(0, -3);
+    }
+    const text = buffer.toString('utf-8');
+    return name.endsWith('.csv') ? parseCSV(text) : parseJSONL(text);
+}
+
+export function loadHistoryFromFiles(symbol: string, paths: string[], from: number, to: number): MarketHistory {
+    const events = paths.flatMap((p) => loadEventsFromFile(p));
+    return buildHistory(symbol, events, from, to);
+}
+
+// ==================== EXCHANGE FETCH ====================
+
+/**
+ * Pull candles through a gateway. The candle endpoint only serves the most
+ * recent bars, so long or old ranges should come from recorded files.
+ */
+export async function fetchHistory(
+    gateway: ExchangeGateway,
+    symbol: string,
+    from: number,
+    to: number,
+    granularity: string = '1m'
+): Promise<MarketHistory> {
+    const barMs = granularityToMs(granularity);
+    const needed = Math.ceil((to - from) / barMs) + 1;
+    const candles = await gateway.getCandles(symbol, granularity, Math.min(1000, needed));
+
+    const [fundingRate] = await Promise.allSettled([gateway.getFundingRate(symbol)]);
+    const events: MarketEvent[] = candles.map((c) => ({ type: 'candle', ...c }));
+    if (fundingRate.status === 'fulfilled') {
+        events.push({ type: 'funding', time: from, rate: fundingRate.value.fundingRate });
+    }
+
+    const history = buildHistory(symbol, events, from, to);
+    if (history.candles.length && history.candles[0].time > from + barMs) {
+        console.warn(`⚠️ Exchange only returned data from ${new Date(history.candles[0].time).toISOString()}`);
+    }
+    return history;
+}
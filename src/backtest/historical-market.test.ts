@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { VirtualClock } from '../engine/clock.js';
+import { buildHistory, type MarketEvent } from './data.js';
+import { HistoricalMarket } from './historical-market.js';
+
+const SYMBOL = 'cmt_btcusdt';
+const MINUTE = 60_000;
+const START = Date.UTC(2026, 0, 1);
+
+const events: MarketEvent[] = Array.from({ length: 10 }, (_, i) => ({
+    type: 'candle', time: START + i * MINUTE, open: 100 + i, high: 101 + i, low: 99 + i, close: 100.5 + i, volume: 1,
+}));
+
+function market(at: number) {
+    const clock = new VirtualClock(at);
+    const history = buildHistory(SYMBOL, [...events, { type: 'funding', time: START, rate: 0.0003 }], START, START + 10 * MINUTE);
+    return new HistoricalMarket(history, clock, { halfSpreadBps: 1 });
+}
+
+describe('HistoricalMarket', () => {
+    it('quotes the last price at or before the clock', async () => {
+        // Halfway through the fourth bar its path has reached the low
+        const ticker = await market(START + 3 * MINUTE + 30_000).getTicker(SYMBOL);
+
+        expect(ticker.last).toBe(102);
+        expect(ticker.bid).toBeCloseTo(102 * 0.9999);
+        expect(ticker.ask).toBeCloseTo(102 * 1.0001);
+    });
+
+    it('serves only closed candles, resampled to the requested granularity', async () => {
+        const gateway = market(START + 5 * MINUTE + 1);
+
+        const oneMinute = await gateway.getCandles(SYMBOL, '1m', 100);
+        expect(oneMinute.map((c) => c.close)).toEqual([100.5, 101.5, 102.5, 103.5, 104.5]);
+
+        const fiveMinute = await gateway.getCandles(SYMBOL, '5m', 100);
+        expect(fiveMinute).toEqual([{ time: START, open: 100, high: 105, low: 99, close: 104.5, volume: 5 }]);
+    });
+
+    it('answers funding from history and refuses account calls', async () => {
+        const gateway = market(START + MINUTE);
+
+        expect((await gateway.getFundingRate(SYMBOL)).fundingRate).toBe(0.0003);
+        await expect(gateway.getTicker('cmt_ethusdt')).rejects.toThrow('No history loaded');
+        await expect(gateway.placeOrder()).rejects.toThrow('wrap it in a PaperExchange');
+    });
+});
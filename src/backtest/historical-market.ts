@@ -0,0 +1,256 @@
+/**
+ * Historical Market
+ * Market-data half of the ExchangeGateway, answered from recorded history
+ * at the clock's current (virtual) time
+ *
+ * Wrap it in a PaperExchange to get the account and order half.
+ */
+
+import type { AILogInput } from '../sdk/client.js';
+import type {
+    ExchangeGateway, Ticker, OrderBook, OrderBookLevel, Candle, FundingRate, Contract,
+    Balance, Position, Order, Fill, OrderAck, AILogResult,
+} from '../sdk/gateway.js';
+import type { Clock } from '../engine/clock.js';
+import { type MarketHistory, type PricePoint, granularityToMs } from './data.js';
+
+export interface HistoricalMarketConfig {
+    halfSpreadBps: number;          // Synthetic spread when no depth was recorded
+    depthLevels: number;
+    depthNotionalPerLevel: number;  // USDT per synthetic level
+    depthStalenessMs: number;       // Recorded snapshots older than this are ignored
+    defaultFundingRate: number;
+    tickSize?: number;              // Default: scaled to the price (0.1 at $10k-$100k)
+    lotSize?: number;               // Default: scaled to the price (0.0001 at $10k-$100k)
+}
+
+const DEFAULT_CONFIG: HistoricalMarketConfig = {
+    halfSpreadBps: 0.5,
+    depthLevels: 20,
+    depthNotionalPerLevel: 50000,
+    depthStalenessMs: 60000,
+    defaultFundingRate: 0.0001,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Index of the last element with time <= t, or -1
+ */
+function lastIndexAtOrBefore(items: { time: number }[], t: number): number {
+    let lo = 0;
+    let hi = items.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (items[mid].time <= t) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found;
+}
+
+export class HistoricalMarket implements ExchangeGateway {
+    private history: MarketHistory;
+    private clock: Clock;
+    private config: HistoricalMarketConfig;
+    private rangeCache: { minute: number; high: number; low: number; volume: number } | null = null;
+
+    constructor(history: MarketHistory, clock: Clock, config: Partial<HistoricalMarketConfig> = {}) {
+        this.history = history;
+        this.clock = clock;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    // ==================== MARKET DATA ====================
+
+    async getTicker(symbol: string): Promise<Ticker> {
+        this.checkSymbol(symbol);
+        const now = this.clock.now();
+        const point = this.currentPoint();
+        const book = this.currentBook(point);
+
+        const dayAgo = this.history.prices[Math.max(0, lastIndexAtOrBefore(this.history.prices, now - DAY_MS))];
+        const range = this.dayRange(now);
+
+        return {
+            symbol,
+            last: point.price,
+            bid: book.bids[0]?.price ?? point.price,
+            ask: book.asks[0]?.price ?? point.price,
+            high24h: range.high,
+            low24h: range.low,
+            volume24h: range.volume,
+            change24h: dayAgo ? (point.price - dayAgo.price) / dayAgo.price : 0,
+            markPrice: point.price,
+            timestamp: now,
+        };
+    }
+
+    async getDepth(symbol: string): Promise<OrderBook> {
+        this.checkSymbol(symbol);
+        return { symbol, ...this.currentBook(this.currentPoint()), timestamp: this.clock.now() };
+    }
+
+    /**
+     * Completed candles up to now, resampled to the requested granularity
+     */
+    async getCandles(symbol: string, granularity: string = '1H', limit: number = 50): Promise<Candle[]> {
+        this.checkSymbol(symbol);
+        const now = this.clock.now();
+        const barMs = this.history.barMs || 60_000;
+        const targetMs = Math.max(barMs, granularityToMs(granularity));
+
+        const buckets = new Map<number, Candle>();
+        for (const c of this.history.candles) {
+            if (c.time + barMs > now) break; // Not closed yet
+            const bucket = Math.floor(c.time / targetMs) * targetMs;
+            const existing = buckets.get(bucket);
+            if (!existing) {
+                buckets.set(bucket, { ...c, time: bucket });
+            } else {
+                existing.high = Math.max(existing.high, c.high);
+                existing.low = Math.min(existing.low, c.low);
+                existing.close = c.close;
+                existing.volume += c.volume;
+            }
+        }
+
+        // Drop a trailing bucket that is still forming
+        const result = [...buckets.values()].filter((c) => c.time + targetMs <= now);
+        return result.slice(-limit);
+    }
+
+    async getFundingRate(symbol: string): Promise<FundingRate> {
+        this.checkSymbol(symbol);
+        const idx = lastIndexAtOrBefore(this.history.funding, this.clock.now());
+        return {
+            symbol,
+            fundingRate: idx >= 0 ? this.history.funding[idx].rate : this.config.defaultFundingRate,
+        };
+    }
+
+    async getContract(symbol: string): Promise<Contract> {
+        this.checkSymbol(symbol);
+        const magnitude = Math.floor(Math.log10(this.history.prices[0]?.price ?? 1));
+        const lotSize = this.config.lotSize ?? 10 ** -magnitude;
+        return {
+            symbol,
+            tickSize: this.config.tickSize ?? 10 ** (magnitude - 5),
+            lotSize,
+            minSize: lotSize,
+            contractValue: 1,
+        };
+    }
+
+    async getContracts(): Promise<Contract[]> {
+        return [await this.getContract(this.history.symbol)];
+    }
+
+    // ==================== ACCOUNT (not available) ====================
+
+    async getAssets(): Promise<Balance[]> {
+        throw new Error('HistoricalMarket provides market data only; wrap it in a PaperExchange');
+    }
+
+    async getPositions(): Promise<Position[]> {
+        throw new Error('HistoricalMarket provides market data only; wrap it in a PaperExchange');
+    }
+
+    async getOrderHistory(): Promise<Order[]> {
+        return [];
+    }
+
+    async getOrder(): Promise<Order> {
+        throw new Error('HistoricalMarket provides market data only; wrap it in a PaperExchange');
+    }
+
+    async getOrderByClientOid(): Promise<Order | null> {
+        throw new Error('HistoricalMarket provides market data only; wrap it in a PaperExchange');
+    }
+
+    async getFills(): Promise<Fill[]> {
+        return [];
+    }
+
+    async placeOrder(): Promise<OrderAck> {
+        throw new Error('HistoricalMarket provides market data only; wrap it in a PaperExchange');
+    }
+
+    async cancelOrder(): Promise<void> {
+        throw new Error('HistoricalMarket provides market data only; wrap it in a PaperExchange');
+    }
+
+    async uploadAILog(_log: AILogInput): Promise<AILogResult> {
+        return { success: true, message: 'backtest' };
+    }
+
+    // ==================== INTERNALS ====================
+
+    private checkSymbol(symbol: string): void {
+        if (symbol !== this.history.symbol) {
+            throw new Error(`No history loaded for ${symbol} (backtesting ${this.history.symbol})`);
+        }
+    }
+
+    private currentPoint(): PricePoint {
+        const now = this.clock.now();
+        const idx = lastIndexAtOrBefore(this.history.prices, now);
+        if (idx < 0) throw new Error(`No market data before ${new Date(now).toISOString()}`);
+        return this.history.prices[idx];
+    }
+
+    private currentBook(point: PricePoint): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+        const now = this.clock.now();
+        const idx = lastIndexAtOrBefore(this.history.depths, now);
+        if (idx >= 0 && now - this.history.depths[idx].time <= this.config.depthStalenessMs) {
+            const { bids, asks } = this.history.depths[idx];
+            return { bids, asks };
+        }
+
+        // Synthetic book centred on the current price
+        const half = this.config.halfSpreadBps / 10000;
+        const bestBid = point.bid ?? point.price * (1 - half);
+        const bestAsk = point.ask ?? point.price * (1 + half);
+        const step = point.price * Math.max(half, 0.00005);
+        const quantity = this.config.depthNotionalPerLevel / point.price;
+
+        const bids: OrderBookLevel[] = [];
+        const asks: OrderBookLevel[] = [];
+        for (let i = 0; i < this.config.depthLevels; i++) {
+            bids.push({ price: bestBid - i * step, quantity });
+            asks.push({ price: bestAsk + i * step, quantity });
+        }
+        return { bids, asks };
+    }
+
+    /**
+     * Trailing 24h high/low/volume, recomputed at most once per virtual minute
+     */
+    private dayRange(now: number): { high: number; low: number; volume: number } {
+        const minute = Math.floor(now / 60000);
+        if (this.rangeCache && this.rangeCache.minute === minute) return this.rangeCache;
+
+        let high = 0;
+        let low = Infinity;
+        let volume = 0;
+        const end = lastIndexAtOrBefore(this.history.prices, now);
+        for (let i = end; i >= 0 && this.history.prices[i].time > now - DAY_MS; i--) {
+            const price = this.history.prices[i].price;
+            if (price > high) high = price;
+            if (price < low) low = price;
+        }
+        for (const c of this.history.candles) {
+            if (c.time > now) break;
+            if (c.time > now - DAY_MS) volume += c.volume;
+        }
+
+        this.rangeCache = { minute, high, low: low === Infinity ? 0 : low, volume };
+        return this.rangeCache;
+    }
+}
+
+export default HistoricalMarket;
@@ -0,0 +1,7 @@
+/**
+ * Backtest module exports
+ */
+
+export * from './data.js';
+export * from './historical-market.js';
+export * from './runner.js';
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { ClientOrderRegistry, getClientOrderRegistry, setClientOrderRegistry } from '../execution/client-orders.js';
+import { buildHistory, type MarketEvent } from './data.js';
+import { runBacktest, equityToCSV } from './runner.js';
+
+const SYMBOL = 'cmt_btcusdt';
+const MINUTE = 60_000;
+const START = Date.UTC(2026, 0, 1);
+
+// Half an hour of flat 1m bars: nothing to trade on
+const events: MarketEvent[] = Array.from({ length: 30 }, (_, i) => ({
+    type: 'candle', time: START + i * MINUTE, open: 100_000, high: 100_000, low: 100_000, close: 100_000, volume: 1,
+}));
+
+describe('runBacktest', () => {
+    it('samples equity on the virtual clock and leaves the process as it found it', async () => {
+        const history = buildHistory(SYMBOL, events, START, START + 30 * MINUTE - 1);
+        const log = console.log;
+        const registry = new ClientOrderRegistry(null);
+        const previous = setClientOrderRegistry(registry);
+
+        const { summary, trades, equityCurve } = await runBacktest(history, { engine: 'quant', initialBalance: 500 });
+
+        expect(trades).toEqual([]);
+        expect(summary).toMatchObject({ startEquity: 500, endEquity: 500, totalReturn: 0, maxDrawdown: 0, trades: 0 });
+        // One sample per virtual minute, plus the start and the end
+        expect(equityCurve).toHaveLength(31);
+        expect(equityCurve.every((p) => p.position === 0 && p.price === 100_000)).toBe(true);
+        expect(equityToCSV(equityCurve.slice(0, 1))).toBe('time,price,equity,position\n2026-01-01T00:00:00.000Z,100000.0000,500.0000,0\n');
+
+        expect(console.log).toBe(log);
+        expect(getClientOrderRegistry()).toBe(registry);
+        setClientOrderRegistry(previous);
+    });
+
+    it('needs a chat client for the parallel engine', async () => {
+        const history = buildHistory(SYMBOL, events, START, START + 30 * MINUTE - 1);
+        await expect(runBacktest(history, { engine: 'parallel' })).rejects.toThrow('needs an OpenAI-compatible client');
+    });
+});
@@ -0,0 +1,279 @@
+/**
+ * Backtest Runner
+ * Replays history through the real engines on a virtual clock
+ *
+ * HistoricalMarket (market data at virtual time)
+ *   → PaperExchange (fills against the book, fees, funding)
+ *     → engine (unchanged signal + execution code, timers on the VirtualClock)
+ */
+
+import type { ChatClient } from '../llm/client.js';
+import { VirtualClock } from '../engine/clock.js';
+import { StreamTradingEngine } from '../engine/stream-engine.js';
+import { HFTExecutionLayer, DEFAULT_TRADING_CONFIG } from '../engine/hybrid-engine.js';
+import { FullParallelEngine } from '../engine/full-parallel.js';
+import { PaperExchange } from '../sdk/paper-exchange.js';
+import { type SideCode, findBalance } from '../sdk/gateway.js';
+import { ClientOrderRegistry, setClientOrderRegistry } from '../execution/client-orders.js';
+import { HistoricalMarket } from './historical-market.js';
+import type { MarketHistory } from './data.js';
+
+export type BacktestEngine = 'quant' | 'hybrid' | 'parallel';
+
+export interface BacktestConfig {
+    engine: BacktestEngine;
+    initialBalance: number;
+    takerFee: number;
+    makerFee: number;           // Resting limit/post-only fills
+    leverage: number;
+    pollIntervalMs: number;     // Engine tick interval (virtual)
+    equitySampleMs: number;     // Equity curve resolution (virtual)
+    minBalance: number;
+    quiet: boolean;             // Silence per-tick engine logging
+    openai?: ChatClient;            // Required by the 'parallel' engine
+    model?: string;
+}
+
+const DEFAULT_CONFIG: BacktestConfig = {
+    engine: 'quant',
+    initialBalance: 1000,
+    takerFee: 0.0006,
+    makerFee: 0.0002,
+    leverage: 20,
+    pollIntervalMs: 5000,
+    equitySampleMs: 60000,
+    minBalance: 0,
+    quiet: true,
+};
+
+export interface BacktestTrade {
+    time: number;
+    orderId: string;
+    action: 'open_long' | 'close_short' | 'open_short' | 'close_long';
+    side: SideCode;
+    size: number;
+    price: number;
+    fee: number;
+    realizedPnl: number;
+}
+
+export interface EquityPoint {
+    time: number;
+    price: number;
+    equity: number;
+    position: number;           // Signed size: + long, - short
+}
+
+export interface BacktestSummary {
+    engine: BacktestEngine;
+    symbol: string;
+    from: number;
+    to: number;
+    startEquity: number;
+    endEquity: number;
+    totalReturn: number;
+    maxDrawdown: number;
+    trades: number;
+    closedTrades: number;
+    winRate: number;
+    realizedPnl: number;
+    fees: number;
+    funding: number;
+    ticks: number;
+}
+
+export interface BacktestResult {
+    summary: BacktestSummary;
+    trades: BacktestTrade[];
+    equityCurve: EquityPoint[];
+}
+
+const ACTIONS: Record<SideCode, BacktestTrade['action']> = {
+    1: 'open_long',
+    2: 'close_short',
+    3: 'open_short',
+    4: 'close_long',
+};
+
+interface RunnableEngine {
+    stop(): void;
+}
+
+/**
+ * Run one engine over the given history
+ */
+export async function runBacktest(history: MarketHistory, options: Partial<BacktestConfig> = {}): Promise<BacktestResult> {
+    const config: BacktestConfig = { ...DEFAULT_CONFIG, ...options };
+    const { symbol, from, to } = history;
+
+    const clock = new VirtualClock(from);
+    const market = new HistoricalMarket(history, clock);
+    const exchange = new PaperExchange(market, {
+        initialBalance: config.initialBalance,
+        takerFee: config.takerFee,
+        makerFee: config.makerFee,
+        leverage: config.leverage,
+        now: () => clock.now(),
+    });
+
+    const equityCurve: EquityPoint[] = [];
+    const sampleEquity = async () => {
+        const [assets, positions, ticker] = await Promise.all([
+            exchange.getAssets(),
+            exchange.getPositions(),
+            exchange.getTicker(symbol),
+        ]);
+        const position = positions
+            .filter((p) => p.symbol === symbol)
+            .reduce((sum, p) => sum + (p.side === 'long' ? p.size : -p.size), 0);
+        equityCurve.push({
+            time: clock.now(),
+            price: ticker.last,
+            equity: findBalance(assets)?.equity ?? 0,
+            position,
+        });
+    };
+
+    const originalLog = console.log;
+    const originalError = console.error;
+    if (config.quiet) {
+        console.log = () => { };
+        console.error = () => { };
+    }
+
+    let engine: RunnableEngine | null = null;
+    let ticks = 0;
+
+    // Client order IDs are in-memory for the run, never checked against live orders on disk
+    const liveRegistry = setClientOrderRegistry(new ClientOrderRegistry(null));
+
+    try {
+        await sampleEquity();
+        engine = await startEngine(config, exchange, clock, symbol);
+        clock.setInterval(sampleEquity, config.equitySampleMs);
+
+        ticks = await clock.runUntil(to);
+        await sampleEquity();
+    } finally {
+        engine?.stop();
+        setClientOrderRegistry(liveRegistry);
+        console.log = originalLog;
+        console.error = originalError;
+    }
+
+    // Positions still open at the end stay in the equity curve as unrealized PnL.
+    // Orders canceled without a fill never traded
+    const trades: BacktestTrade[] = (await exchange.getOrderHistory(symbol)).filter((o) => o.filledSize > 0).map((o) => ({
+        time: o.createdAt,
+        orderId: o.orderId,
+        action: ACTIONS[o.side ?? 1],
+        side: o.side ?? 1,
+        size: o.filledSize,
+        price: o.avgPrice,
+        fee: o.fee,
+        realizedPnl: o.realizedPnl,
+    }));
+
+    return {
+        summary: summarize(config, history, trades, equityCurve, exchange, ticks),
+        trades,
+        equityCurve,
+    };
+}
+
+async function startEngine(
+    config: BacktestConfig,
+    exchange: PaperExchange,
+    clock: VirtualClock,
+    symbol: string
+): Promise<RunnableEngine> {
+    switch (config.engine) {
+        case 'quant': {
+            const engine = new StreamTradingEngine(exchange, {
+                symbol,
+                minBalance: config.minBalance,
+                pollingIntervalMs: config.pollIntervalMs,
+            }, clock);
+            await engine.start();
+            return engine;
+        }
+
+        case 'hybrid': {
+            // HFT layer only; the AI layer's defaults stand in for its live updates
+            const tradingConfig = structuredClone(DEFAULT_TRADING_CONFIG);
+            const engine = new HFTExecutionLayer(exchange, tradingConfig, symbol, config.minBalance, clock);
+            await engine.start(config.pollIntervalMs);
+            return engine;
+        }
+
+        case 'parallel': {
+            if (!config.openai) {
+                throw new Error('The parallel engine calls LLM agents and needs an OpenAI-compatible client');
+            }
+            const engine = new FullParallelEngine(config.openai, exchange, config.model, symbol, config.minBalance, clock);
+            await engine.start(config.pollIntervalMs);
+            return engine;
+        }
+
+        default:
+            throw new Error(`Unknown backtest engine: ${config.engine}`);
+    }
+}
+
+function summarize(
+    config: BacktestConfig,
+    history: MarketHistory,
+    trades: BacktestTrade[],
+    equityCurve: EquityPoint[],
+    exchange: PaperExchange,
+    ticks: number
+): BacktestSummary {
+    const startEquity = equityCurve[0]?.equity ?? config.initialBalance;
+    const endEquity = equityCurve[equityCurve.length - 1]?.equity ?? startEquity;
+
+    let peak = -Infinity;
+    let maxDrawdown = 0;
+    for (const point of equityCurve) {
+        peak = Math.max(peak, point.equity);
+        if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+    }
+
+    const closes = trades.filter((t) => t.action === 'close_long' || t.action === 'close_short');
+    const wins = closes.filter((t) => t.realizedPnl > 0).length;
+
+    return {
+        engine: config.engine,
+        symbol: history.symbol,
+        from: history.from,
+        to: history.to,
+        startEquity,
+        endEquity,
+        totalReturn: startEquity > 0 ? (endEquity - startEquity) / startEquity : 0,
+        maxDrawdown,
+        trades: trades.length,
+        closedTrades: closes.length,
+        winRate: closes.length > 0 ? wins / closes.length : 0,
+        realizedPnl: exchange.realizedPnl,
+        fees: exchange.totalFees,
+        funding: exchange.totalFunding,
+        ticks,
+    };
+}
+
+// ==================== EXPORT HELPERS ====================
+
+export function tradesToCSV(trades: BacktestTrade[]): string {
+    const rows = trades.map((t) => [
+        new Date(t.time).toISOString(), t.orderId, t.action, t.size, t.price.toFixed(4), t.fee.toFixed(6), t.realizedPnl.toFixed(6),
+    ].join(','));
+    return ['time,order_id,action,size,price,fee,realized_pnl', ...rows].join('\n') + '\n';
+}
+
+export function equityToCSV(curve: EquityPoint[]): string {
+    const rows = curve.map((p) => [
+        new Date(p.time).toISOString(), p.price.toFixed(4), p.equity.toFixed(4), p.position,
+    ].join(','));
+    return ['time,price,equity,position', ...rows].join('\n') + '\n';
+}
+
+export default runBacktest;
@@ -1,5 +1,6 @@
 
 import { createRustSDKBridge } from './sdk/rust-bridge.js';
+import { findBalance } from './sdk/gateway.js';
 
 async function main() {
     const weex = createRustSDKBridge();
@@ -12,21 +13,21 @@ async function main() {
 
     try {
         const assets = await weex.getAssets();
-        const usdt = assets.find((a: any) => a.coinName === 'USDT');
+        const usdt = findBalance(assets);
         if (usdt) {
-            result.equity = parseFloat(usdt.equity || usdt.available || 0);
-            result.available = parseFloat(usdt.available || 0);
+            result.equity = usdt.equity || usdt.available;
+            result.available = usdt.available;
             result.usedMargin = result.equity - result.available; // Approx used
         }
 
         const positions = await weex.getPositions();
         if (Array.isArray(positions)) {
-            result.positions = positions.filter((p: any) => parseFloat(p.total || p.size || 0) > 0).map((p: any) => ({
+            result.positions = positions.map(p => ({
                 symbol: p.symbol,
-                side: p.side || p.holdSide,
-                size: parseFloat(p.total || p.size),
-                pnl: parseFloat(p.unrealizedPL || p.unrealizedPnl || 0),
-                margin: parseFloat(p.margin || 0)
+                side: p.side,
+                size: p.size,
+                pnl: p.unrealizedPnl,
+                margin: p.margin ?? 0
             }));
 
             // Adjust usedMargin if positions provided explicit margin
@@ -17,22 +17,23 @@ async function main() {
         }
 
         // Sort by time (newest first)
-        const sorted = history.sort((a: any, b: any) => parseInt(b.cTime || b.createTime) - parseInt(a.cTime || a.createTime));
+        const sorted = history.sort((a, b) => b.createdAt - a.createdAt);
         const recent = sorted.slice(0, 10);
 
         let filledCount = 0;
         let totalVol = 0;
 
         console.log(chalk.yellow('\n⚡ RECENT TRADES:'));
-        recent.forEach((o: any) => {
-            if (o.state !== 'filled' && o.status !== 'filled') return;
+        recent.forEach(o => {
+            if (o.status !== 'filled') return;
 
             filledCount++;
-            const side = o.side === 'buy' ? chalk.green('BUY ') : chalk.red('SELL');
-            const price = parseFloat(o.priceAvg || o.price || 0);
-            const size = parseFloat(o.size || o.volume || 0);
-            const time = new Date(parseInt(o.cTime || o.createTime)).toISOString().replace('T', ' ').slice(0, 19);
-            const pnl = parseFloat(o.realizedPl || 0);
+            // 1 = open long, 2 = close short → buys
+            const side = o.side === 1 || o.side === 2 ? chalk.green('BUY ') : chalk.red('SELL');
+            const price = o.avgPrice || o.price;
+            const size = o.filledSize || o.size;
+            const time = new Date(o.createdAt).toISOString().replace('T', ' ').slice(0, 19);
+            const pnl = o.realizedPnl;
 
             totalVol += size * price;
 
@@ -15,8 +15,8 @@ async function main() {
                 return {
                     short,
                     data: {
-                        price: parseFloat(ticker.last || ticker.close || 0),
-                        change: parseFloat(ticker.change24h || 0)
+                        price: ticker.last,
+                        change: ticker.change24h
                     }
                 };
             }
@@ -0,0 +1,184 @@
+#!/usr/bin/env node
+/**
+ * Fenyr CLI
+ * Offline tooling around the trading engines
+ *
+ *   fenyr backtest --engine quant --symbol cmt_btcusdt --from 2026-01-01 --to 2026-01-02 --data btc-1m.csv
+ *   fenyr record --symbols cmt_btcusdt cmt_ethusdt --out recordings
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { createWeexClient, createWeexGateway } from './sdk/client.js';
+import {
+    type BacktestEngine, type MarketHistory,
+    parseTime, loadHistoryFromFiles, fetchHistory, runBacktest, tradesToCSV, equityToCSV,
+} from './backtest/index.js';
+import type { ChatClient } from './llm/client.js';
+import { createLLMClient, LLM_MODES, type LLMMode } from './llm/replay.js';
+import { LLMRouter, loadRouterConfig, routerConfigFromEnv } from './llm/router.js';
+import { LLMScheduler } from './llm/scheduler.js';
+import { MarketDataHub, type HubChannel } from './ws/hub.js';
+import { MarketRecorder } from './ws/recorder.js';
+
+async function runBacktestCommand(opts: Record<string, any>): Promise<void> {
+    const engine = opts.engine as BacktestEngine;
+    if (!['quant', 'hybrid', 'parallel'].includes(engine)) {
+        throw new Error(`Unknown engine "${engine}" (expected quant, hybrid or parallel)`);
+    }
+
+    const from = parseTime(opts.from);
+    const to = parseTime(opts.to);
+    if (to <= from) throw new Error('--to must be after --from');
+
+    console.log(chalk.cyan('\n📼 FENYR BACKTEST'));
+    console.log(chalk.gray(`   Engine: ${engine}`));
+    console.log(chalk.gray(`   Symbol: ${opts.symbol}`));
+    console.log(chalk.gray(`   Range:  ${new Date(from).toISOString()} → ${new Date(to).toISOString()}`));
+
+    let history: MarketHistory;
+    if (opts.data.length > 0) {
+        console.log(chalk.gray(`   Data:   ${opts.data.join(', ')}`));
+        history = loadHistoryFromFiles(opts.symbol, opts.data, from, to);
+    } else {
+        console.log(chalk.gray(`   Data:   exchange candles (${opts.granularity})`));
+        history = await fetchHistory(createWeexGateway(createWeexClient(false)), opts.symbol, from, to, opts.granularity);
+    }
+    console.log(chalk.gray(`   Loaded ${history.candles.length} candles, ${history.prices.length} price points, ${history.depths.length} depth snapshots`));
+
+    let openai: ChatClient | undefined;
+    if (engine === 'parallel') {
+        const llmMode = opts.llmMode as LLMMode;
+        if (!LLM_MODES.includes(llmMode)) {
+            throw new Error(`Unknown --llm-mode "${llmMode}" (expected ${LLM_MODES.join(', ')})`);
+        }
+
+        const routerConfig = opts.llmConfig ? loadRouterConfig(opts.llmConfig) : routerConfigFromEnv(opts.model);
+        if ((llmMode === 'live' || llmMode === 'record') && !routerConfig) {
+            throw new Error('The parallel engine needs an LLM API key or --llm-config (or --llm-mode replay/stub)');
+        }
+        const scheduler = routerConfig ? new LLMScheduler(new LLMRouter(routerConfig), routerConfig.scheduler) : null;
+        openai = createLLMClient(scheduler, { mode: llmMode, cassettePath: opts.llmCassette });
+        console.log(chalk.gray(`   LLM:    ${llmMode}${llmMode === 'record' || llmMode === 'replay' ? ` (${opts.llmCassette})` : ''}`));
+    }
+
+    const started = Date.now();
+    const result = await runBacktest(history, {
+        engine,
+        initialBalance: parseFloat(opts.balance),
+        takerFee: parseFloat(opts.fee),
+        makerFee: parseFloat(opts.makerFee),
+        pollIntervalMs: parseFloat(opts.interval) * 1000,
+        quiet: !opts.verbose,
+        openai,
+        model: opts.model,
+    });
+    const s = result.summary;
+
+    console.log(chalk.cyan('\n' + '═'.repeat(60)));
+    console.log(chalk.cyan('📊 BACKTEST RESULTS'));
+    console.log(chalk.cyan('═'.repeat(60)));
+    const returnColor = s.totalReturn >= 0 ? chalk.green : chalk.red;
+    console.log(`   Equity:       $${s.startEquity.toFixed(2)} → $${s.endEquity.toFixed(2)} (${returnColor((s.totalReturn * 100).toFixed(2) + '%')})`);
+    console.log(`   Max Drawdown: ${(s.maxDrawdown * 100).toFixed(2)}%`);
+    console.log(`   Trades:       ${s.trades} (${s.closedTrades} closed, win rate ${(s.winRate * 100).toFixed(1)}%)`);
+    console.log(`   Realized PnL: $${s.realizedPnl.toFixed(2)}`);
+    console.log(`   Fees:         $${s.fees.toFixed(2)}`);
+    console.log(`   Funding:      $${s.funding.toFixed(2)}`);
+    console.log(chalk.gray(`   ${s.ticks} timer events replayed in ${((Date.now() - started) / 1000).toFixed(1)}s`));
+
+    if (result.trades.length > 0) {
+        console.log(chalk.yellow('\n⚡ TRADES'));
+        const shown = result.trades.slice(0, parseInt(opts.showTrades));
+        for (const t of shown) {
+            const pnl = t.realizedPnl !== 0 ? ` | PnL ${t.realizedPnl >= 0 ? '+' : ''}$${t.realizedPnl.toFixed(2)}` : '';
+            console.log(`   ${new Date(t.time).toISOString().replace('T', ' ').slice(0, 19)} | ${t.action.toUpperCase().padEnd(11)} | ${t.size} @ $${t.price.toFixed(2)}${pnl}`);
+        }
+        if (result.trades.length > shown.length) {
+            console.log(chalk.gray(`   ... (${result.trades.length - shown.length} more)`));
+        }
+    }
+
+    if (opts.out) {
+        fs.mkdirSync(opts.out, { recursive: true });
+        fs.writeFileSync(path.join(opts.out, 'trades.csv'), tradesToCSV(result.trades));
+        fs.writeFileSync(path.join(opts.out, 'equity.csv'), equityToCSV(result.equityCurve));
+        fs.writeFileSync(path.join(opts.out, 'summary.json'), JSON.stringify(s, null, 2));
+        console.log(chalk.green(`\n💾 Results written to ${opts.out}`));
+    }
+}
+
+async function runRecordCommand(opts: Record<string, any>): Promise<void> {
+    const channels = opts.channels as HubChannel[];
+    const unknown = channels.filter((c) => !['ticker', 'depth', 'trade', 'candle1m'].includes(c));
+    if (unknown.length > 0) throw new Error(`Unknown channel(s): ${unknown.join(', ')}`);
+
+    console.log(chalk.cyan('\n⏺️  FENYR RECORDER'));
+    const hub = new MarketDataHub();
+    const recorder = new MarketRecorder(hub, { dir: opts.out, symbols: opts.symbols, channels });
+    recorder.start();
+
+    const status = setInterval(() => {
+        const counts = [...recorder.recorded.entries()].map(([symbol, n]) => `${symbol}: ${n}`);
+        console.log(chalk.gray(`   [Rec] ${counts.join(' | ') || 'waiting for data...'}`));
+    }, 60_000);
+
+    await new Promise<void>((resolve) => process.once('SIGINT', resolve));
+    console.log(chalk.yellow('\n🛑 Stopping recorder...'));
+    clearInterval(status);
+    await recorder.stop();
+    hub.close();
+}
+
+async function main(): Promise<void> {
+    const program = new Command();
+
+    program
+        .name('fenyr')
+        .description('Fenyr trading system tooling')
+        .version('2.0.0');
+
+    program
+        .command('backtest')
+        .description('Replay history through an engine on a virtual clock')
+        .option('-e, --engine <engine>', 'Engine: quant, hybrid, parallel', 'quant')
+        .option('-s, --symbol <symbol>', 'Trading symbol', 'cmt_btcusdt')
+        .requiredOption('--from <time>', 'Start (ISO date or epoch ms)')
+        .requiredOption('--to <time>', 'End (ISO date or epoch ms)')
+        .option('-d, --data <file...>', 'History files (.csv, .jsonl, optionally .gz)', [])
+        .option('-g, --granularity <g>', 'Candle size when fetching from the exchange', '1m')
+        .option('--interval <s>', 'Engine poll interval in seconds', '5')
+        .option('--balance <usd>', 'Starting balance (USD)', '1000')
+        .option('--fee <rate>', 'Taker fee rate', '0.0006')
+        .option('--maker-fee <rate>', 'Maker fee rate (resting limit orders)', '0.0002')
+        .option('--model <model>', 'AI model (parallel engine)', 'mimo-v2-flash')
+        .option('--llm-mode <mode>', 'LLM calls for the parallel engine: live, record, replay, stub', 'live')
+        .option('--llm-cassette <file>', 'Cassette file for --llm-mode record/replay', 'cassettes/llm-backtest.json')
+        .option('--llm-config <file>', 'LLM provider/role config (JSON)', process.env.LLM_CONFIG)
+        .option('--show-trades <n>', 'Trades to print', '20')
+        .option('-o, --out <dir>', 'Write trades.csv, equity.csv and summary.json here')
+        .option('-v, --verbose', 'Show engine logs', false)
+        .action(async (opts) => {
+            await runBacktestCommand(opts);
+        });
+
+    program
+        .command('record')
+        .description('Record live market data to gzipped JSONL until Ctrl+C')
+        .option('-s, --symbols <symbol...>', 'Symbols to record', ['cmt_btcusdt'])
+        .option('-c, --channels <channel...>', 'Channels: ticker, depth, trade, candle1m', ['ticker', 'depth', 'trade'])
+        .option('-o, --out <dir>', 'Output directory (<dir>/<symbol>/<YYYY-MM-DD>.jsonl.gz)', 'recordings')
+        .action(async (opts) => {
+            await runRecordCommand(opts);
+        });
+
+    await program.parseAsync(process.argv);
+}
+
+main().catch((error) => {
+    console.error(chalk.red('Fatal error:'), error.message || error);
+    process.exit(1);
+});
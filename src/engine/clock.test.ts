@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { VirtualClock } from './clock.js';
+
+describe('VirtualClock', () => {
+    it('fires timers in time order and ties in scheduling order', async () => {
+        const clock = new VirtualClock(1000);
+        const fired: string[] = [];
+        clock.setTimeout(() => fired.push(`b@${clock.now()}`), 20);
+        clock.setInterval(() => fired.push(`i@${clock.now()}`), 10);
+        clock.setTimeout(() => fired.push(`a@${clock.now()}`), 10);
+
+        expect(await clock.runUntil(1025)).toBe(4);
+        expect(fired).toEqual(['i@1010', 'a@1010', 'b@1020', 'i@1020']);
+        expect(clock.now()).toBe(1025);
+        expect(clock.pendingTimers).toBe(1);
+    });
+
+    it('resolves sleeps on virtual time and skips cleared timers', async () => {
+        const clock = new VirtualClock(0);
+        let woke = 0;
+        void clock.sleep(500).then(() => { woke = clock.now(); });
+        const handle = clock.setTimeout(() => { throw new Error('cleared'); }, 100);
+        clock.clearTimeout(handle);
+
+        await clock.runUntil(499);
+        expect(woke).toBe(0);
+        await clock.runUntil(500);
+        expect(woke).toBe(500);
+    });
+});
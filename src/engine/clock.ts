@@ -0,0 +1,168 @@
+/**
+ * Engine Clock
+ * Time source and timer scheduling for the trading engines
+ *
+ * Live engines use the system clock. Backtests swap in a VirtualClock,
+ * which jumps straight to the next due timer and awaits its callback,
+ * so hours of polling replay in seconds and in a deterministic order.
+ */
+
+export type TimerCallback = () => unknown;
+
+export interface TimerHandle {
+    readonly id: number;
+}
+
+export interface Clock {
+    now(): number;
+    setInterval(callback: TimerCallback, ms: number): TimerHandle;
+    clearInterval(handle: TimerHandle | null): void;
+    setTimeout(callback: TimerCallback, ms: number): TimerHandle;
+    clearTimeout(handle: TimerHandle | null): void;
+    sleep(ms: number): Promise<void>;
+}
+
+// ==================== SYSTEM CLOCK ====================
+
+class SystemClock implements Clock {
+    private nextId: number = 1;
+    private timers: Map<number, NodeJS.Timeout> = new Map();
+
+    now(): number {
+        return Date.now();
+    }
+
+    setInterval(callback: TimerCallback, ms: number): TimerHandle {
+        const id = this.nextId++;
+        this.timers.set(id, setInterval(callback, ms));
+        return { id };
+    }
+
+    clearInterval(handle: TimerHandle | null): void {
+        if (!handle) return;
+        const timer = this.timers.get(handle.id);
+        if (timer) clearInterval(timer);
+        this.timers.delete(handle.id);
+    }
+
+    setTimeout(callback: TimerCallback, ms: number): TimerHandle {
+        const id = this.nextId++;
+        this.timers.set(id, setTimeout(() => {
+            this.timers.delete(id);
+            callback();
+        }, ms));
+        return { id };
+    }
+
+    clearTimeout(handle: TimerHandle | null): void {
+        if (!handle) return;
+        const timer = this.timers.get(handle.id);
+        if (timer) clearTimeout(timer);
+        this.timers.delete(handle.id);
+    }
+
+    sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
+
+export const systemClock: Clock = new SystemClock();
+
+// ==================== VIRTUAL CLOCK ====================
+
+interface VirtualTimer {
+    id: number;
+    dueAt: number;
+    intervalMs: number | null;
+    callback: TimerCallback;
+}
+
+export class VirtualClock implements Clock {
+    private time: number;
+    private nextId: number = 1;
+    private timers: Map<number, VirtualTimer> = new Map();
+
+    constructor(startTime: number) {
+        this.time = startTime;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    setInterval(callback: TimerCallback, ms: number): TimerHandle {
+        return this.schedule(callback, ms, Math.max(1, ms));
+    }
+
+    clearInterval(handle: TimerHandle | null): void {
+        if (handle) this.timers.delete(handle.id);
+    }
+
+    setTimeout(callback: TimerCallback, ms: number): TimerHandle {
+        return this.schedule(callback, ms, null);
+    }
+
+    clearTimeout(handle: TimerHandle | null): void {
+        if (handle) this.timers.delete(handle.id);
+    }
+
+    /**
+     * Resolves once virtual time has advanced by `ms`
+     */
+    sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => this.setTimeout(resolve, ms));
+    }
+
+    get pendingTimers(): number {
+        return this.timers.size;
+    }
+
+    /**
+     * Fire every timer due up to `endTime` in time order, awaiting each callback.
+     * Returns the number of callbacks run.
+     */
+    async runUntil(endTime: number, onStep?: (time: number) => unknown): Promise<number> {
+        let fired = 0;
+
+        while (true) {
+            const next = this.nextDue();
+            if (!next || next.dueAt > endTime) break;
+
+            this.time = Math.max(this.time, next.dueAt);
+            if (next.intervalMs !== null) {
+                next.dueAt += next.intervalMs;
+            } else {
+                this.timers.delete(next.id);
+            }
+
+            await next.callback();
+            // Let promise chains started by the callback settle before moving on
+            await new Promise((resolve) => setImmediate(resolve));
+            fired++;
+
+            if (onStep) await onStep(this.time);
+        }
+
+        this.time = Math.max(this.time, endTime);
+        return fired;
+    }
+
+    private schedule(callback: TimerCallback, ms: number, intervalMs: number | null): TimerHandle {
+        const id = this.nextId++;
+        this.timers.set(id, { id, dueAt: this.time + Math.max(0, ms), intervalMs, callback });
+        return { id };
+    }
+
+    private nextDue(): VirtualTimer | null {
+        let next: VirtualTimer | null = null;
+        for (const timer of this.timers.values()) {
+            // Ties fire in scheduling order (lower id first)
+            if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.id < next.id)) {
+                next = timer;
+            }
+        }
+        return next;
+    }
+}
+
+export default VirtualClock;
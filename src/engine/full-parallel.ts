@@ -11,21 +11,20 @@
  */
 
 import { EventEmitter } from 'events';
-import OpenAI from 'openai';
+import { type Clock, type TimerHandle, systemClock } from './clock.js';
+import { BarBuilder } from '../ws/bar-builder.js';
+import type { ChatClient } from '../llm/client.js';
 import chalk from 'chalk';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import { type ExchangeGateway, type OrderBook, findBalance, tradableSize } from '../sdk/gateway.js';
 import { ParallelAgentSystem } from './parallel-agents.js';
 import { calculateOBI, calculateRSI, calculateEMA } from '../quant/indicators.js';
-
-interface Position {
-    side: 'long' | 'short';
-    size: number;
-    entryPrice: number;
-}
+import { type OrderIntent, executeOrderIntent, describeLeg } from '../execution/intent.js';
+import { OrderManager, netPosition, type ManagedPosition, type NetPosition } from '../execution/order-manager.js';
+import { getContractRegistry } from '../execution/contracts.js';
 
 export class FullParallelEngine extends EventEmitter {
-    private openai: OpenAI;
-    private weex: RustSDKBridge;
+    private openai: ChatClient;
+    private weex: ExchangeGateway;
     private model: string;
     private symbol: string;
     private minBalance: number;
@@ -35,19 +34,22 @@ export class FullParallelEngine extends EventEmitter {
 
     // HFT Layer
     private isRunning: boolean = false;
-    private hftInterval: NodeJS.Timeout | null = null;
-    private priceHistory: number[] = [];
+    private hftInterval: TimerHandle | null = null;
+    private bars: BarBuilder;
     private equity: number = 1000;
-    private currentPosition: Position | null = null;
+    private currentPosition: NetPosition | null = null;
     private lastTradeTime: number = 0;
     private pendingAction: 'long' | 'short' | 'close' | null = null;
+    private clock: Clock;
+    private orders: OrderManager;
 
     constructor(
-        openai: OpenAI,
-        weex: RustSDKBridge,
+        openai: ChatClient,
+        weex: ExchangeGateway,
         model: string = 'mimo-v2-flash',
         symbol: string = 'cmt_btcusdt',
-        minBalance: number = 700
+        minBalance: number = 700,
+        clock: Clock = systemClock
     ) {
         super();
         this.openai = openai;
@@ -55,9 +57,13 @@ export class FullParallelEngine extends EventEmitter {
         this.model = model;
         this.symbol = symbol;
         this.minBalance = minBalance;
+        this.clock = clock;
+        this.orders = new OrderManager(weex, { engine: 'parallel' }, clock);
+        // Time bars keep the HFT indicators independent of hftIntervalMs
+        this.bars = new BarBuilder(symbol, '1m', { allowedLatenessMs: 0 });
 
         // Create parallel agent system
-        this.agentSystem = new ParallelAgentSystem(openai, weex, model);
+        this.agentSystem = new ParallelAgentSystem(openai, weex, symbol, model, undefined, clock);
 
         // When lead makes a decision, queue it for execution
         this.agentSystem.on('decision', (decision: any) => {
@@ -77,6 +83,10 @@ export class FullParallelEngine extends EventEmitter {
 
         this.isRunning = true;
 
+        // Position comes from reported fills
+        this.orders.on('position', this.onPosition);
+        await this.orders.start(this.symbol);
+
         // Update equity
         await this.updateEquity();
 
@@ -88,7 +98,7 @@ export class FullParallelEngine extends EventEmitter {
         console.log(chalk.gray(`   Poll Interval: ${hftIntervalMs}ms`));
 
         await this.hftTick();
-        this.hftInterval = setInterval(async () => {
+        this.hftInterval = this.clock.setInterval(async () => {
             if (this.isRunning) {
                 await this.hftTick();
             }
@@ -99,9 +109,11 @@ export class FullParallelEngine extends EventEmitter {
         this.isRunning = false;
         this.agentSystem.stop();
         if (this.hftInterval) {
-            clearInterval(this.hftInterval);
+            this.clock.clearInterval(this.hftInterval);
             this.hftInterval = null;
         }
+        this.orders.stop();
+        this.orders.off('position', this.onPosition);
         console.log(chalk.yellow('\n🏛️ Engine stopped'));
     }
 
@@ -116,18 +128,13 @@ export class FullParallelEngine extends EventEmitter {
             }
 
             // Get market data
-            const [ticker, depth, positions] = await Promise.all([
+            const [ticker, depth] = await Promise.all([
                 this.weex.getTicker(this.symbol),
                 this.weex.getDepth(this.symbol),
-                this.weex.getPositions(),
             ]);
 
-            const currentPrice = parseFloat(ticker.last || ticker.lastPr);
-            this.priceHistory.push(currentPrice);
-            if (this.priceHistory.length > 100) this.priceHistory.shift();
-
-            // Update position from API
-            this.updatePositionFromAPI(positions);
+            const currentPrice = ticker.last;
+            this.bars.addPrice(currentPrice, this.clock.now());
 
             // Get AI config
             const config = this.agentSystem.getConfig();
@@ -153,7 +160,7 @@ export class FullParallelEngine extends EventEmitter {
                 biasedSignal < -0.2 ? '▼▼' : biasedSignal < -0.1 ? '▼' : '→';
 
             console.log(
-                chalk.gray(`[${new Date().toISOString().slice(11, 19)}]`) +
+                chalk.gray(`[${new Date(this.clock.now()).toISOString().slice(11, 19)}]`) +
                 ` $${currentPrice.toFixed(1)} ` +
                 `${biasedSignal >= 0 ? chalk.green(signalArrow) : chalk.red(signalArrow)} ` +
                 chalk.gray(`(${(biasedSignal * 100).toFixed(0)}%)`) +
@@ -181,38 +188,36 @@ export class FullParallelEngine extends EventEmitter {
         }
     }
 
-    private generateSignal(depth: any, currentPrice: number, config: any): number {
+    private generateSignal(depth: OrderBook, currentPrice: number, config: any): number {
         let signal = 0;
         const w = config.weights;
+        const { closes } = this.bars.series(100);
 
         // OBI
         try {
-            const bids = (depth.bids || []).map((b: any) => ({ price: parseFloat(b[0]), quantity: parseFloat(b[1]) }));
-            const asks = (depth.asks || []).map((a: any) => ({ price: parseFloat(a[0]), quantity: parseFloat(a[1]) }));
-            const bidVol = bids.slice(0, 10).reduce((s: number, b: any) => s + b.quantity, 0);
-            const askVol = asks.slice(0, 10).reduce((s: number, a: any) => s + a.quantity, 0);
+            const bidVol = depth.bids.slice(0, 10).reduce((s, b) => s + b.quantity, 0);
+            const askVol = depth.asks.slice(0, 10).reduce((s, a) => s + a.quantity, 0);
             const obi = (bidVol - askVol) / (bidVol + askVol + 0.0001);
             signal += obi * (w.obi || 0.25);
         } catch { }
 
         // RSI
-        if (this.priceHistory.length >= 15) {
-            const rsi = calculateRSI(this.priceHistory, 14);
+        if (closes.length >= 15) {
+            const rsi = calculateRSI(closes, 14);
             const rsiSignal = rsi < 30 ? 0.5 : rsi > 70 ? -0.5 : 0;
             signal += rsiSignal * (w.rsi || 0.25);
         }
 
         // EMA
-        if (this.priceHistory.length >= 20) {
-            const ema20 = calculateEMA(this.priceHistory, 20);
+        if (closes.length >= 20) {
+            const ema20 = calculateEMA(closes, 20);
             const emaDiff = (currentPrice - ema20) / ema20;
             signal += Math.max(-0.5, Math.min(0.5, emaDiff * 10)) * (w.ema || 0.25);
         }
 
         // Momentum
-        if (this.priceHistory.length >= 10) {
-            const mom = (currentPrice - this.priceHistory[this.priceHistory.length - 10]) /
-                this.priceHistory[this.priceHistory.length - 10];
+        if (closes.length >= 10) {
+            const mom = (currentPrice - closes[closes.length - 10]) / closes[closes.length - 10];
             signal += Math.max(-0.5, Math.min(0.5, mom * 20)) * (w.momentum || 0.25);
         }
 
@@ -221,42 +226,27 @@ export class FullParallelEngine extends EventEmitter {
 
     private async execute(action: 'long' | 'short' | 'close', currentPrice: number, config: any): Promise<void> {
         try {
-            let sideNum: number;
-            let size: number;
-
-            if (action === 'close' && this.currentPosition) {
-                sideNum = this.currentPosition.side === 'long' ? 4 : 2; // close_long or close_short
-                size = this.currentPosition.size;
-            } else if (action === 'long') {
-                if (this.currentPosition?.side === 'short') {
-                    // Close short first
-                    await this.weex.placeOrder(this.symbol, 2, this.currentPosition.size);
-                    console.log(chalk.green(`   ✅ Closed short position`));
-                }
-                sideNum = 1; // open_long
-                size = Math.min(this.equity * config.riskPerTrade / 1000, 0.01);
-            } else if (action === 'short') {
-                if (this.currentPosition?.side === 'long') {
-                    // Close long first
-                    await this.weex.placeOrder(this.symbol, 4, this.currentPosition.size);
-                    console.log(chalk.green(`   ✅ Closed long position`));
-                }
-                sideNum = 3; // open_short
-                size = Math.min(this.equity * config.riskPerTrade / 1000, 0.01);
+            let intent: OrderIntent;
+
+            if (action === 'close') {
+                if (!this.currentPosition) return;
+                intent = { type: 'flatten' };
             } else {
-                return;
+                // Risk riskPerTrade of equity down to the volatility-based stop
+                const stopDistance = currentPrice * (config.stopLossPercent || 0.02);
+                const contract = await getContractRegistry(this.weex, this.clock).find(this.symbol);
+                const size = tradableSize(contract, Math.min(this.equity * config.riskPerTrade / stopDistance, 0.01));
+                if (size === 0) return;
+                // Closes an opposite position first
+                intent = { type: action, size };
             }
 
-            size = Math.round(size * 100000) / 100000;
-            if (size < 0.0001) return;
-
-            const actionName = ['', 'OPEN_LONG', 'CLOSE_SHORT', 'OPEN_SHORT', 'CLOSE_LONG'][sideNum];
-            console.log(chalk.yellow(`\n⚡ EXECUTE: ${actionName} ${size} @ $${currentPrice.toFixed(2)}`));
+            const result = await executeOrderIntent(this.weex, this.symbol, intent, { orders: this.orders, decisionTime: this.clock.now(), clock: this.clock });
+            if (result.legs.length === 0) return;
+            this.lastTradeTime = this.clock.now();
 
-            await this.weex.placeOrder(this.symbol, sideNum, size);
-            this.lastTradeTime = Date.now();
-
-            console.log(chalk.green(`   ✅ Order executed`));
+            console.log(chalk.yellow(`\n⚡ EXECUTE: ${result.legs.map(describeLeg).join(', ')} @ $${currentPrice.toFixed(2)}`));
+            console.log(chalk.gray(`   📨 ${result.orders.map((o) => `${o.orderId} ${o.state}`).join(', ')}`));
             await this.updateEquity();
 
         } catch (error: any) {
@@ -264,26 +254,14 @@ export class FullParallelEngine extends EventEmitter {
         }
     }
 
-    private updatePositionFromAPI(positions: any[]): void {
-        const pos = positions.find((p: any) =>
-            p.symbol?.toLowerCase().includes('btc') && parseFloat(p.total || 0) > 0
-        );
-        if (pos) {
-            this.currentPosition = {
-                side: pos.holdSide === 'long' ? 'long' : 'short',
-                size: parseFloat(pos.total),
-                entryPrice: parseFloat(pos.averageOpenPrice || 0),
-            };
-        } else {
-            this.currentPosition = null;
-        }
-    }
+    private onPosition = (position: ManagedPosition): void => {
+        this.currentPosition = netPosition(position);
+    };
 
     private async updateEquity(): Promise<void> {
         try {
-            const assets = await this.weex.getAssets();
-            const usdt = assets.find((a: any) => a.coinName === 'USDT');
-            if (usdt) this.equity = parseFloat(usdt.equity || usdt.available);
+            const usdt = findBalance(await this.weex.getAssets());
+            if (usdt) this.equity = usdt.equity;
         } catch { }
     }
 
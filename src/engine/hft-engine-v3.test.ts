@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ChatClient } from '../llm/client.js';
+import type { Contract, ExchangeGateway } from '../sdk/gateway.js';
+import type { TradingConfig } from './parallel-agents.js';
+import { ClientOrderRegistry, setClientOrderRegistry } from '../execution/client-orders.js';
+import { HFTEngineV3 } from './hft-engine-v3.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const contract: Contract = {
+    symbol: SYMBOL,
+    tickSize: 0.1,
+    lotSize: 0.001,
+    minSize: 0.001,
+    contractValue: 1,
+};
+
+const config = { riskPerTrade: 0.01, stopLossPercent: 0.02 } as TradingConfig;
+
+/**
+ * Flat account whose order placements are all rejected
+ */
+function fakeAccount() {
+    const account = { equity: 1000, placed: 0, logs: 0 };
+    const gateway = {
+        async getAssets() {
+            return [{ asset: 'USDT', equity: account.equity, available: account.equity, frozen: 0, unrealizedPnl: 0 }];
+        },
+        async getContracts() {
+            return [contract];
+        },
+        async getPositions() {
+            return [];
+        },
+        async getTicker(symbol: string) {
+            return { symbol, last: 100_000 };
+        },
+        async getOrderByClientOid() {
+            return null;
+        },
+        async placeOrder() {
+            account.placed++;
+            throw new Error('Insufficient margin');
+        },
+        async uploadAILog() {
+            account.logs++;
+            return { success: true };
+        },
+    } as unknown as ExchangeGateway;
+    return { gateway, account };
+}
+
+describe('HFTEngineV3', () => {
+    let previous: ClientOrderRegistry | null;
+
+    beforeEach(() => {
+        previous = setClientOrderRegistry(new ClientOrderRegistry(null));
+    });
+
+    afterEach(() => {
+        setClientOrderRegistry(previous);
+    });
+
+    it('sizes entries from the account equity', async () => {
+        const { gateway, account } = fakeAccount();
+        const engine = new HFTEngineV3({} as ChatClient, gateway, SYMBOL);
+
+        // $10 at risk over a $2000 stop distance
+        expect(await engine['entrySize'](100_000, config)).toBe(0.005);
+
+        account.equity = 2000;
+        expect(await engine['entrySize'](100_000, config)).toBe(0.01);
+        expect(engine.getStatus().risk.equity).toBe(2000);
+    });
+
+    it('executes a decision once, even when its orders fail', async () => {
+        const { gateway, account } = fakeAccount();
+        const engine = new HFTEngineV3({} as ChatClient, gateway, SYMBOL, 700, 'model', undefined, 'market');
+        const decision = { action: 'long', confidence: 0.9, timestamp: Date.now() };
+
+        await engine['evaluateAndExecute'](decision, 100_000);
+        expect(account.placed).toBe(1);
+
+        // The failed attempt starts the cooldown, which holds back a new decision
+        await engine['evaluateAndExecute']({ ...decision, timestamp: decision.timestamp + 1 }, 100_000);
+        expect(account.placed).toBe(1);
+
+        // Past the cooldown, the same decision on a later tick is not sent again
+        engine['lastExecutionTime'] = 0;
+        await engine['evaluateAndExecute'](decision, 101_000);
+        expect(account.placed).toBe(1);
+        expect(account.logs).toBe(1);
+    });
+});
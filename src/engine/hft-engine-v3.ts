@@ -11,57 +11,77 @@
  */
 
 import { EventEmitter } from 'events';
-import OpenAI from 'openai';
+import type { ChatClient } from '../llm/client.js';
 import chalk from 'chalk';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
-import { ParallelAgentSystem } from './parallel-agents.js';
-import { MarketDataService } from '../services/market-data.js';
+import { type ExchangeGateway, type OrderType, findBalance, tradableSize } from '../sdk/gateway.js';
+import { executeOrderIntent, describeLeg } from '../execution/intent.js';
+import { OrderManager, netPosition, type ManagedPosition, type OrderFill } from '../execution/order-manager.js';
+import { getContractRegistry } from '../execution/contracts.js';
+import { ParallelAgentSystem, type TradingConfig } from './parallel-agents.js';
+import { MarketDataService, type DegradedEvent } from '../services/market-data.js';
+import { MarketDataHub } from '../ws/hub.js';
+import type { Bar, BarBuilder } from '../ws/bar-builder.js';
 import { RiskEngine } from './risk-engine.js';
-import { calculateRSI } from '../quant/indicators.js';
+import { RsiStream } from '../quant/streaming.js';
 
 export class HFTEngineV3 extends EventEmitter {
     // Components
     private ws: MarketDataService;
+    private hub: MarketDataHub;
+    private bars: BarBuilder | null = null;
     private risk: RiskEngine;
     private agents: ParallelAgentSystem;
-    private weex: RustSDKBridge;
+    private weex: ExchangeGateway;
+    private orders: OrderManager;
 
     // State
     private isRunning: boolean = false;
     private symbol: string;
-    private priceHistory: number[] = [];
+    private rsi = new RsiStream(14);
     private currentPosition: { side: 'long' | 'short', size: number } | null = null;
     private lastExecutionTime: number = 0;
+    private executedDecisionTime: number | undefined;
+    private dataDegraded: boolean = false;
 
     // Config
     private minConf = 0.6;
     private decaySeconds = 60; // Dead Man's Switch timeout
+    private barInterval = '5s'; // Local RSI runs on trade-built bars of this size
+    private entryOrderType: OrderType;
+    private restingTtlMs = 5000; // Passive entries still unfilled after this are canceled
+    private maxPositionSize = 0.05;
 
     constructor(
-        openai: OpenAI,
-        weex: RustSDKBridge,
+        openai: ChatClient,
+        weex: ExchangeGateway,
         symbol: string = 'cmt_btcusdt',
-        minBalance: number = 700
+        minBalance: number = 700,
+        model: string = 'openai/gpt-oss-120b',
+        hub: MarketDataHub = new MarketDataHub(),
+        entryOrderType: OrderType = 'post_only'
     ) {
         super();
         this.symbol = symbol;
+        this.entryOrderType = entryOrderType;
         this.weex = weex;
+        this.hub = hub;
+        this.orders = new OrderManager(weex, { engine: 'hft' });
 
         // 1. Initialize Components
-        this.ws = new MarketDataService(symbol);
+        // REST ticker polling takes over while the WebSocket feed is down
+        this.ws = new MarketDataService(symbol, hub, { poller: (sym) => weex.getTicker(sym) });
         this.risk = new RiskEngine({
             maxDailyLoss: 200, // Allow $200 swing before stop
             minEquity: minBalance, // HARD STOP at this level (e.g. 700)
             maxDrawdown: 0.15, // 15% drawdown allowed (aggressive)
-            maxPositionSize: 0.05,
+            maxPositionSize: this.maxPositionSize,
             maxOpenOrders: 3,
             allowedTradingTimes: null
         });
 
-        // High Speed Config: 5s interval for Kimi-K2 (9.5s latency means ~15s total cycle)
-        // We use 'moonshotai/Kimi-K2-Thinking' or 'meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo'
-        // Defaulting to Kimi-K2 as requested, with 5000ms polling
-        this.agents = new ParallelAgentSystem(openai, weex, symbol, 'openai/gpt-oss-120b', 5000);
+        // High Speed Config: 5s polling. The model is the fallback when the LLM
+        // router has no entry for the lead/technical/structure roles
+        this.agents = new ParallelAgentSystem(openai, weex, symbol, model, 5000);
     }
 
     async start(): Promise<void> {
@@ -81,7 +101,17 @@ export class HFTEngineV3 extends EventEmitter {
 
         // Bind Events (The Heartbeat)
         this.ws.on('tick', (price: number) => this.onTick(price));
+        this.bars = this.hub.bars(this.symbol, this.barInterval);
+        this.bars.on('bar', this.onBar);
         this.ws.on('connected', () => console.log(chalk.green('   [Link] Market Data Stream Active 🟢')));
+        this.ws.on('degraded', ({ reason }: DegradedEvent) => {
+            this.dataDegraded = true;
+            console.log(chalk.red(`   [Link] Market data degraded (${reason}) - REST ticks, no new entries 🟠`));
+        });
+        this.ws.on('recovered', () => {
+            this.dataDegraded = false;
+            console.log(chalk.green('   [Link] Market Data Stream Restored 🟢'));
+        });
 
         // EXECUTION TRIGGER: Event-driven execution on Lead decision
         this.agents.lead.on('decision', async (decision: any) => { // Listen to lead directly
@@ -93,7 +123,7 @@ export class HFTEngineV3 extends EventEmitter {
             if (!currentPrice || currentPrice <= 0) {
                 try {
                     const ticker = await this.weex.getTicker(this.symbol);
-                    currentPrice = parseFloat(ticker.last || ticker.lastPr);
+                    currentPrice = ticker.last;
                 } catch (e) {
                     currentPrice = 0;
                 }
@@ -104,6 +134,11 @@ export class HFTEngineV3 extends EventEmitter {
             }
         });
 
+        // Position only changes on reported fills, never on placement acks
+        this.orders.on('position', this.onPosition);
+        this.orders.on('fill', this.onFill);
+        this.orders.on('order', this.onOrder);
+
         // Initial Position Check (Persistence/Recovery)
         await this.syncPosition();
     }
@@ -111,6 +146,11 @@ export class HFTEngineV3 extends EventEmitter {
     stop(): void {
         this.isRunning = false;
         this.ws.stop();
+        this.bars?.off('bar', this.onBar);
+        this.orders.stop();
+        this.orders.off('position', this.onPosition);
+        this.orders.off('fill', this.onFill);
+        this.orders.off('order', this.onOrder);
         this.agents.stop();
         console.log(chalk.yellow('\n🛑 HFT Engine halted.'));
     }
@@ -137,7 +177,7 @@ export class HFTEngineV3 extends EventEmitter {
         }
 
         // 4. Calculate Alpha (Local HFT Logic) - Combined with AI
-        const localRSI = this.priceHistory.length > 14 ? calculateRSI(this.priceHistory, 14) : 50;
+        const localRSI = this.rsi.value;
 
         // HFT Logic: Confirm AI with local math
         let hftConfirm = false;
@@ -160,21 +200,31 @@ export class HFTEngineV3 extends EventEmitter {
             // Cooldown check (simple)
             if (Date.now() - this.lastExecutionTime < 5000) return; // 5s cooldown
 
+            // On 1s REST ticks only exits are allowed; entries wait for the WebSocket
+            if (this.dataDegraded && action !== 'close') return;
+
+            // Orders are keyed to the decision, so each decision is executed once: trying it
+            // again on a later tick would resend the same IDs, sized from a newer price.
+            // Without a decision timestamp there is nothing to key them to, and deduplication is off
+            const decisionTime: number | undefined = decision?.timestamp;
+            if (decisionTime !== undefined && decisionTime === this.executedDecisionTime) return;
+
             // Fire-and-forget AI Log Upload
             this.weex.uploadAILog({
                 stage: 'HFT Execution',
                 model: 'gpt-oss-120b',
+                input: { symbol: this.symbol, price },
                 output: { signal: action, confidence: effectiveConfidence, agent: 'LeadCoordinator' },
                 explanation: decision?.reasoning || 'Automated HFT Execution'
-            }).catch(e => console.error(chalk.red(`   [Log] Upload Failed: ${e.message}`)));
+            }).catch((e: Error) => console.error(chalk.red(`   [Log] Upload Failed: ${e.message}`)));
 
             if (action === 'long' && (!this.currentPosition || this.currentPosition.side === 'short')) {
-                await this.executeOrder('buy', config.riskPerTrade * 10000, price, 'AI_LONG');
+                await this.executeOrder('buy', await this.entrySize(price, config), price, 'AI_LONG', decisionTime);
             } else if (action === 'short' && (!this.currentPosition || this.currentPosition.side === 'long')) {
-                await this.executeOrder('sell', config.riskPerTrade * 10000, price, 'AI_SHORT');
+                await this.executeOrder('sell', await this.entrySize(price, config), price, 'AI_SHORT', decisionTime);
             } else if (action === 'close' && this.currentPosition) {
                 const side = this.currentPosition.side === 'long' ? 'sell' : 'buy';
-                await this.executeOrder(side, this.currentPosition.size, price, 'AI_CLOSE');
+                await this.executeOrder(side, this.currentPosition.size, price, 'AI_CLOSE', decisionTime);
             }
         }
 
@@ -184,12 +234,15 @@ export class HFTEngineV3 extends EventEmitter {
         }
     }
 
+    // 1. Local indicators update once per completed bar, not per tick
+    private onBar = (bar: Bar): void => {
+        this.rsi.update(bar.close);
+    };
+
     private async onTick(price: number): Promise<void> {
         if (!this.isRunning) return;
 
-        // 1. Update Local History (Memory)
-        this.priceHistory.push(price);
-        if (this.priceHistory.length > 100) this.priceHistory.shift();
+        await this.cancelStaleOrders();
 
         // 2. Get Strategic Guidance & Execute
         // Note: This is redundant if Event listener is working, but serves as a backup/heartbeat
@@ -197,58 +250,114 @@ export class HFTEngineV3 extends EventEmitter {
         await this.evaluateAndExecute(decision, price);
     }
 
-    private async executeOrder(side: 'buy' | 'sell', size: number, price: number, reason: string): Promise<void> {
+    /**
+     * Entry size: hitting the stop loses riskPerTrade of the account's equity
+     * (read fresh, so the risk engine tracks it too). Capped at the max
+     * position and rounded to the contract's lot.
+     */
+    private async entrySize(price: number, config: TradingConfig): Promise<number> {
+        const equity = await this.readEquity();
+        if (equity !== null) this.risk.updateState({ equity });
+
+        const contract = await getContractRegistry(this.weex).find(this.symbol);
+        const stopDistance = price * (config.stopLossPercent || 0.02) * (contract?.contractValue ?? 1);
+        const size = Math.min(this.risk.getStatus().equity * config.riskPerTrade / stopDistance, this.maxPositionSize);
+        return tradableSize(contract, size);
+    }
+
+    private async executeOrder(side: 'buy' | 'sell', size: number, price: number, reason: string, decisionTime: number | undefined): Promise<void> {
+        if (!(size > 0)) {
+            console.log(chalk.gray(`   Size too small for ${this.symbol}, skipping ${reason}`));
+            return;
+        }
         // 6. RISK GATE (Synchronous) - The Final Check
         if (!this.risk.canTrade(side, size, price)) {
             return; // Rejected by Risk Engine
         }
 
-        console.log(chalk.yellow(`\n⚡ EXECUTE ${side.toUpperCase()} ${size} @ $${price} (${reason})`));
+        // Claim the decision before the first await, so a concurrent tick can't execute it too
+        if (decisionTime !== undefined) {
+            if (decisionTime === this.executedDecisionTime) return;
+            this.executedDecisionTime = decisionTime;
+        }
 
-        try {
-            let weexSide = 0;
-            if (side === 'buy') {
-                weexSide = this.currentPosition?.side === 'short' ? 2 : 1;
-            } else {
-                weexSide = this.currentPosition?.side === 'long' ? 4 : 3;
-            }
+        console.log(chalk.yellow(`\n⚡ EXECUTE ${side.toUpperCase()} ${size} @ $${price} (${reason})`));
 
-            await this.weex.placeOrder(this.symbol, weexSide, size);
+        // Entries from flat go passive to skip the taker fee: limit/post-only join the
+        // near touch, IOC/FOK cap the price at the far one. Anything that closes goes at market
+        const joins = this.entryOrderType === 'post_only' || this.entryOrderType === 'limit';
+        const { bid, ask } = this.ws.state;
+        const limit = (side === 'buy') === joins ? bid : ask;
+        const order = this.entryOrderType !== 'market' && !this.currentPosition && limit > 0
+            ? { type: this.entryOrderType, price: limit }
+            : {};
 
-            this.lastExecutionTime = Date.now();
-            console.log(chalk.green(`   ✅ Filled ${size} ${this.symbol}`));
+        try {
+            // Net trade: a sell against a long closes it before any short is opened.
+            // Position and risk state follow from the fills (onPosition), not from here
+            const result = await executeOrderIntent(this.weex, this.symbol, { type: side, size }, { orders: this.orders, decisionTime, ...order });
+            console.log(chalk.gray(`   📨 Placed ${result.legs.map(describeLeg).join(', ') || 'nothing'} ${this.symbol}`));
 
-            // Update State Optimistically (Reconcile later)
-            if (weexSide === 1) this.currentPosition = { side: 'long', size };
-            if (weexSide === 3) this.currentPosition = { side: 'short', size };
-            if (weexSide === 2 || weexSide === 4) this.currentPosition = null;
+        } catch (e: any) {
+            console.log(chalk.red(`   ❌ Order Failed: ${e.message}`));
+        } finally {
+            this.lastExecutionTime = Date.now(); // Failed attempts cool down too
+        }
+    }
 
-            // Update Risk Engine State
-            this.risk.updateState({ positionSize: this.currentPosition ? this.currentPosition.size : 0 });
+    private async cancelStaleOrders(): Promise<void> {
+        const now = Date.now();
+        for (const order of this.orders.openOrders(this.symbol)) {
+            if (order.type === 'market' || now - order.placedAt < this.restingTtlMs) continue;
+            console.log(chalk.gray(`   ⌛ Canceling unfilled ${order.type} ${order.action.toUpperCase()} ${order.size} @ $${order.price}`));
+            await this.orders.cancel(order.orderId);
+        }
+    }
 
+    /**
+     * Account equity, or null if the exchange can't be reached
+     */
+    private async readEquity(): Promise<number | null> {
+        try {
+            return findBalance(await this.weex.getAssets())?.equity ?? null;
         } catch (e: any) {
-            console.log(chalk.red(`   ❌ Order Failed: ${e.message}`));
+            console.log(chalk.gray(`   [Risk] Balance unavailable: ${e.message}`));
+            return null;
         }
     }
 
     private async syncPosition(): Promise<void> {
+        // Daily P&L and drawdown are measured from the equity at start
+        const equity = await this.readEquity();
+        if (equity !== null) this.risk.updateState({ equity, initialEquity: equity, peakEquity: equity });
+
         try {
-            const positions = await this.weex.getPositions();
-            // Match symbol more generically (e.g. cmt_btcusdt includes btc)
-            const cleanSym = this.symbol.replace('cmt_', '').replace('usdt', '').toUpperCase(); // BTC
-            const pos = positions.find((p: any) => p.symbol && p.symbol.includes(cleanSym) && parseFloat(p.total) > 0);
-
-            if (pos) {
-                this.currentPosition = {
-                    side: pos.holdSide === 'long' ? 'long' : 'short',
-                    size: parseFloat(pos.total)
-                };
-                this.risk.updateState({ positionSize: this.currentPosition.size });
+            // The order manager loads the exchange position and keeps it reconciled
+            await this.orders.start(this.symbol);
+
+            if (this.currentPosition) {
                 console.log(chalk.blue(`   [Sync] Recovered Position: ${this.currentPosition.side.toUpperCase()} ${this.currentPosition.size}`));
             }
         } catch (e) { }
     }
 
+    private onPosition = (position: ManagedPosition): void => {
+        const net = netPosition(position);
+        this.currentPosition = net ? { side: net.side, size: net.size } : null;
+
+        // Signed, so the risk gate can tell a closing order from an opening one
+        this.risk.updateState({ positionSize: position.long.size - position.short.size });
+    };
+
+    private onOrder = (): void => {
+        this.risk.updateState({ openOrdersCount: this.orders.openOrders(this.symbol).length });
+    };
+
+    private onFill = (fill: OrderFill): void => {
+        const pnl = fill.realizedPnl !== 0 ? ` | P&L ${fill.realizedPnl >= 0 ? '+' : ''}$${fill.realizedPnl.toFixed(2)}` : '';
+        console.log(chalk.green(`   ✅ Filled ${fill.action.toUpperCase()} ${fill.size} @ $${fill.price.toFixed(2)} (fee $${fill.fee.toFixed(4)})${pnl}`));
+    };
+
     private printStatus(price: number, action: string, conf: number, rsi: number) {
         const actionCol = action === 'long' ? chalk.green : action === 'short' ? chalk.red : chalk.gray;
         const posStr = this.currentPosition ? `${this.currentPosition.side.toUpperCase()} ${this.currentPosition.size}` : 'FLAT';
@@ -264,6 +373,7 @@ export class HFTEngineV3 extends EventEmitter {
     getStatus() {
         return {
             price: this.ws.state.lastPrice,
+            dataSource: this.ws.source,
             position: this.currentPosition,
             risk: this.risk.getStatus(),
             aiAction: this.agents.getLastDecision()?.action
@@ -7,10 +7,18 @@
  */
 
 import { EventEmitter } from 'events';
-import OpenAI from 'openai';
+import { type Clock, type TimerHandle, systemClock } from './clock.js';
+import { BarBuilder } from '../ws/bar-builder.js';
+import { type ChatClient, clientForRole, modelForRole } from '../llm/client.js';
+import { completeStructured, jsonCompleter } from '../llm/structured.js';
+import { StrategicResponseSchema, type StrategicResponse } from '../agents/schemas.js';
 import chalk from 'chalk';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import { type ExchangeGateway, type Ticker, type OrderBook, findBalance } from '../sdk/gateway.js';
 import { calculateOBI, calculateRSI, calculateEMA, calculateKellyFraction, calculateATR } from '../quant/indicators.js';
+import { detectRegime, type RegimeProbabilities } from '../quant/regime.js';
+import { measureVolatility, volatilityStopPercent } from '../quant/volatility.js';
+import { type OrderIntent, executeOrderIntent, describeLeg } from '../execution/intent.js';
+import { OrderManager, netPosition, type ManagedPosition, type NetPosition } from '../execution/order-manager.js';
 
 // ==================== CONFIGURATION THAT AI AGENTS CAN MODIFY ====================
 
@@ -24,7 +32,7 @@ export interface TradingConfig {
         funding: number;
     };
 
-    // Risk parameters (Risk Manager agent adjusts)
+    // Risk parameters (Risk Manager agent adjusts; stop/take-profit follow the volatility forecast)
     risk: {
         maxPositionSize: number;
         stopLossPercent: number;
@@ -41,8 +49,9 @@ export interface TradingConfig {
         useIceberg: boolean;
     };
 
-    // Market regime (Regime Detector sets)
+    // Market regime (measured by detectRegime, not chosen by the AI)
     regime: 'trending_up' | 'trending_down' | 'ranging' | 'volatile' | 'unknown';
+    regimeProbabilities: RegimeProbabilities | null;
 
     // Bias (Bull/Bear Research sets)
     bias: 'bullish' | 'bearish' | 'neutral';
@@ -52,7 +61,7 @@ export interface TradingConfig {
     lastAIUpdate: number;
 }
 
-const DEFAULT_CONFIG: TradingConfig = {
+export const DEFAULT_TRADING_CONFIG: TradingConfig = {
     weights: {
         obi: 0.25,
         rsi: 0.20,
@@ -74,6 +83,7 @@ const DEFAULT_CONFIG: TradingConfig = {
         useIceberg: false,
     },
     regime: 'unknown',
+    regimeProbabilities: null,
     bias: 'neutral',
     biasStrength: 0,
     lastAIUpdate: 0,
@@ -82,19 +92,21 @@ const DEFAULT_CONFIG: TradingConfig = {
 // ==================== AI STRATEGIC LAYER ====================
 
 class StrategicAILayer extends EventEmitter {
-    private openai: OpenAI;
-    private weex: RustSDKBridge;
+    private openai: ChatClient;
+    private weex: ExchangeGateway;
     private config: TradingConfig;
     private isRunning: boolean = false;
-    private analysisInterval: NodeJS.Timeout | null = null;
+    private analysisInterval: TimerHandle | null = null;
     private model: string;
+    private clock: Clock;
 
-    constructor(openai: OpenAI, weex: RustSDKBridge, model: string = 'mimo-v2-flash') {
+    constructor(openai: ChatClient, weex: ExchangeGateway, model: string = 'mimo-v2-flash', clock: Clock = systemClock) {
         super();
-        this.openai = openai;
+        this.openai = clientForRole(openai, 'strategist');
         this.weex = weex;
-        this.model = model;
-        this.config = { ...DEFAULT_CONFIG };
+        this.model = modelForRole(openai, 'strategist', model);
+        this.clock = clock;
+        this.config = { ...DEFAULT_TRADING_CONFIG };
     }
 
     getConfig(): TradingConfig {
@@ -113,7 +125,7 @@ class StrategicAILayer extends EventEmitter {
         await this.runStrategicAnalysis();
 
         // Then run periodically
-        this.analysisInterval = setInterval(async () => {
+        this.analysisInterval = this.clock.setInterval(async () => {
             if (this.isRunning) {
                 await this.runStrategicAnalysis();
             }
@@ -123,7 +135,7 @@ class StrategicAILayer extends EventEmitter {
     stop(): void {
         this.isRunning = false;
         if (this.analysisInterval) {
-            clearInterval(this.analysisInterval);
+            this.clock.clearInterval(this.analysisInterval);
             this.analysisInterval = null;
         }
     }
@@ -136,20 +148,32 @@ class StrategicAILayer extends EventEmitter {
             // Gather market data for AI analysis
             const [ticker, candles, funding, positions] = await Promise.all([
                 this.weex.getTicker('cmt_btcusdt'),
-                this.weex.getCandles('cmt_btcusdt'),
+                this.weex.getCandles('cmt_btcusdt', '1H', 200),
                 this.weex.getFundingRate('cmt_btcusdt').catch(() => ({ fundingRate: 0 })),
                 this.weex.getPositions(),
             ]);
 
-            const currentPrice = parseFloat(ticker.last || ticker.lastPr);
-            const priceChange24h = parseFloat(ticker.priceChangePercent || 0);
-            const volume24h = parseFloat(ticker.volume_24h || ticker.baseVolume || 0);
-            const fundingRate = parseFloat(funding.fundingRate || 0);
+            const currentPrice = ticker.last;
+            const priceChange24h = ticker.change24h;
+            const volume24h = ticker.volume24h;
+            const fundingRate = funding.fundingRate;
 
             // Calculate technical indicators
-            let closes: number[] = [];
-            if (Array.isArray(candles)) {
-                closes = candles.map((c: any) => parseFloat(Array.isArray(c) ? c[4] : c.close)).filter(v => v > 0);
+            const closes = candles.map((c) => c.close);
+            const highs = candles.map((c) => c.high);
+            const lows = candles.map((c) => c.low);
+
+            // Regime is measured, then handed to the AI as an input
+            const regime = detectRegime(highs, lows, closes);
+            this.config.regime = regime.regime;
+            this.config.regimeProbabilities = regime.probabilities;
+
+            // Stops 2 expected hourly moves away (GARCH forecast), take-profit at 1.5× the stop
+            const volatility = measureVolatility(candles, { intervalMs: 60 * 60 * 1000 });
+            const stopPercent = volatilityStopPercent(volatility);
+            if (stopPercent !== null) {
+                this.config.risk.stopLossPercent = stopPercent;
+                this.config.risk.takeProfitPercent = stopPercent * 1.5;
             }
 
             const rsi = closes.length >= 15 ? calculateRSI(closes, 14) : 50;
@@ -166,8 +190,23 @@ class StrategicAILayer extends EventEmitter {
                 ema20,
                 ema50,
                 emaTrend: ema20 > ema50 ? 'bullish' : 'bearish',
+                regime: regime.regime,
+                regimeProbabilities: regime.probabilities,
+                volatility: {
+                    annualized: volatility.annualized,
+                    yangZhang: volatility.yangZhang,
+                    ewma: volatility.ewma,
+                    garchPersistence: volatility.garch?.persistence ?? null,
+                    stopLossPercent: this.config.risk.stopLossPercent,
+                },
+                regimeFeatures: {
+                    adx: regime.features.adx,
+                    volPercentile: regime.features.volPercentile,
+                    hurst: regime.features.hurst,
+                    varianceRatio: regime.features.varianceRatio,
+                },
                 currentConfig: this.config,
-                hasPosition: positions.some((p: any) => parseFloat(p.total || 0) > 0),
+                hasPosition: positions.length > 0,
             };
 
             // Call AI for strategic decisions
@@ -188,13 +227,19 @@ class StrategicAILayer extends EventEmitter {
         }
     }
 
-    private async callStrategicAI(context: any): Promise<any> {
+    /**
+     * Validated strategy update, or null to keep the current config
+     */
+    private async callStrategicAI(context: any): Promise<StrategicResponse | null> {
         const systemPrompt = `You are a senior quantitative trading strategist at a hedge fund. 
 Your job is to analyze market conditions and configure the HFT trading engine.
 
+The market regime is measured for you: "regime" and "regimeProbabilities" in the
+input come from ADX, realized volatility, Hurst exponent and variance ratio. Use them
+as given and weigh your settings by the probabilities; do not re-classify the regime.
+
 You must respond with ONLY valid JSON in this exact format:
 {
-    "regime": "trending_up" | "trending_down" | "ranging" | "volatile",
     "bias": "bullish" | "bearish" | "neutral",
     "biasStrength": number between -1 and 1,
     "signalThreshold": number between 0.1 and 0.5,
@@ -209,41 +254,38 @@ You must respond with ONLY valid JSON in this exact format:
 }
 
 Guidelines:
-- In TRENDING markets: increase momentum weight, lower signal threshold
-- In RANGING markets: increase RSI weight (mean reversion), higher threshold
-- In VOLATILE markets: reduce riskPerTrade, increase threshold
+- High TRENDING probability: increase momentum weight, lower signal threshold
+- High RANGING probability: increase RSI weight (mean reversion), higher threshold
+- High VOLATILE probability: reduce riskPerTrade, increase threshold
+- Probabilities split between regimes: blend the settings accordingly
+- volatility.annualized is the GARCH forecast (24/7 annualized); above 0.8, reduce riskPerTrade
 - If RSI < 30: lean bullish bias
 - If RSI > 70: lean bearish bias
 - If funding rate very positive: favor shorts
 - If funding rate very negative: favor longs`;
 
         try {
-            const response = await this.openai.chat.completions.create({
-                model: this.model,
-                messages: [
+            const result = await completeStructured(
+                jsonCompleter(this.openai, { model: this.model, temperature: 0.3, max_tokens: 500 }),
+                [
                     { role: 'system', content: systemPrompt },
                     { role: 'user', content: `Analyze this market state and configure trading engine:\n${JSON.stringify(context, null, 2)}` }
                 ],
-                temperature: 0.3,
-                max_tokens: 500,
-                response_format: { type: 'json_object' },
-            });
-
-            const content = response.choices[0]?.message?.content || '{}';
-            return JSON.parse(content);
+                StrategicResponseSchema
+            );
+            if (!result.ok) {
+                console.log(chalk.yellow(`[AI] Invalid strategy response, keeping current config: ${result.error}`));
+                return null;
+            }
+            return result.value;
         } catch (error: any) {
             console.log(chalk.yellow(`[AI] API call failed: ${error.message}`));
             return null;
         }
     }
 
-    private applyAIRecommendations(ai: any): void {
+    private applyAIRecommendations(ai: StrategicResponse): void {
         try {
-            // Update regime
-            if (ai.regime && ['trending_up', 'trending_down', 'ranging', 'volatile'].includes(ai.regime)) {
-                this.config.regime = ai.regime;
-            }
-
             // Update bias
             if (ai.bias && ['bullish', 'bearish', 'neutral'].includes(ai.bias)) {
                 this.config.bias = ai.bias;
@@ -269,7 +311,7 @@ Guidelines:
                 if (typeof w.momentum === 'number') this.config.weights.momentum = Math.max(0, Math.min(0.4, w.momentum));
             }
 
-            this.config.lastAIUpdate = Date.now();
+            this.config.lastAIUpdate = this.clock.now();
 
             console.log(chalk.blue(`[AI] Config updated - Weights: OBI=${this.config.weights.obi}, RSI=${this.config.weights.rsi}, Threshold=${this.config.execution.signalThreshold}`));
             if (ai.reasoning) {
@@ -284,24 +326,30 @@ Guidelines:
 
 // ==================== HFT EXECUTION LAYER ====================
 
-class HFTExecutionLayer extends EventEmitter {
-    private weex: RustSDKBridge;
+export class HFTExecutionLayer extends EventEmitter {
+    private weex: ExchangeGateway;
     private config: TradingConfig;
     private isRunning: boolean = false;
-    private pollInterval: NodeJS.Timeout | null = null;
-    private priceHistory: number[] = [];
+    private pollInterval: TimerHandle | null = null;
+    private bars: BarBuilder;
     private equity: number = 1000;
-    private currentPosition: any = null;
+    private currentPosition: NetPosition | null = null;
     private lastTradeTime: number = 0;
     private symbol: string;
     private minBalance: number;
+    private clock: Clock;
+    private orders: OrderManager;
 
-    constructor(weex: RustSDKBridge, config: TradingConfig, symbol: string = 'cmt_btcusdt', minBalance: number = 700) {
+    constructor(weex: ExchangeGateway, config: TradingConfig, symbol: string = 'cmt_btcusdt', minBalance: number = 700, clock: Clock = systemClock) {
         super();
         this.weex = weex;
         this.config = config;
         this.symbol = symbol;
         this.minBalance = minBalance;
+        this.clock = clock;
+        this.orders = new OrderManager(weex, { engine: 'hybrid' }, clock);
+        // RSI/EMA/momentum run on 1m bars of the polled price, whatever the poll interval
+        this.bars = new BarBuilder(symbol, '1m', { allowedLatenessMs: 0 });
     }
 
     updateConfig(newConfig: TradingConfig): void {
@@ -316,10 +364,14 @@ class HFTExecutionLayer extends EventEmitter {
         console.log(chalk.gray(`   Poll Interval: ${pollIntervalMs}ms`));
         console.log(chalk.gray(`   Symbol: ${this.symbol}`));
 
+        // Position comes from reported fills
+        this.orders.on('position', this.onPosition);
+        await this.orders.start(this.symbol);
+
         await this.updateEquity();
         await this.runTick();
 
-        this.pollInterval = setInterval(async () => {
+        this.pollInterval = this.clock.setInterval(async () => {
             if (this.isRunning) {
                 await this.runTick();
             }
@@ -329,9 +381,11 @@ class HFTExecutionLayer extends EventEmitter {
     stop(): void {
         this.isRunning = false;
         if (this.pollInterval) {
-            clearInterval(this.pollInterval);
+            this.clock.clearInterval(this.pollInterval);
             this.pollInterval = null;
         }
+        this.orders.stop();
+        this.orders.off('position', this.onPosition);
     }
 
     private async runTick(): Promise<void> {
@@ -345,22 +399,17 @@ class HFTExecutionLayer extends EventEmitter {
             }
 
             // Cooldown check
-            const timeSinceLastTrade = (Date.now() - this.lastTradeTime) / 1000;
+            const timeSinceLastTrade = (this.clock.now() - this.lastTradeTime) / 1000;
             const inCooldown = timeSinceLastTrade < this.config.execution.cooldownSeconds;
 
             // Get market data
-            const [ticker, depth, positions] = await Promise.all([
+            const [ticker, depth] = await Promise.all([
                 this.weex.getTicker(this.symbol),
                 this.weex.getDepth(this.symbol),
-                this.weex.getPositions(),
             ]);
 
-            const currentPrice = parseFloat(ticker.last || ticker.lastPr);
-            this.priceHistory.push(currentPrice);
-            if (this.priceHistory.length > 100) this.priceHistory.shift();
-
-            // Update position
-            this.updatePosition(positions);
+            const currentPrice = ticker.last;
+            this.bars.addPrice(currentPrice, this.clock.now());
 
             // Generate signals using AI-configured weights
             const signal = this.generateSignal(ticker, depth, currentPrice);
@@ -382,7 +431,7 @@ class HFTExecutionLayer extends EventEmitter {
             }[this.config.regime];
 
             console.log(
-                chalk.gray(`[${new Date().toISOString().slice(11, 19)}]`) +
+                chalk.gray(`[${new Date(this.clock.now()).toISOString().slice(11, 19)}]`) +
                 ` $${currentPrice.toFixed(1)} ` +
                 this.formatSignal(biasedSignal) +
                 chalk.gray(` T:${this.config.execution.signalThreshold.toFixed(2)}`) +
@@ -404,38 +453,36 @@ class HFTExecutionLayer extends EventEmitter {
         }
     }
 
-    private generateSignal(ticker: any, depth: any, currentPrice: number): number {
+    private generateSignal(ticker: Ticker, depth: OrderBook, currentPrice: number): number {
         let signal = 0;
         const w = this.config.weights;
+        const { closes } = this.bars.series(100);
 
         // OBI Signal
         try {
-            const bids = (depth.bids || []).map((b: any) => ({ price: parseFloat(b[0]), quantity: parseFloat(b[1]) }));
-            const asks = (depth.asks || []).map((a: any) => ({ price: parseFloat(a[0]), quantity: parseFloat(a[1]) }));
-            const bidVol = bids.slice(0, 10).reduce((s: number, b: any) => s + b.quantity, 0);
-            const askVol = asks.slice(0, 10).reduce((s: number, a: any) => s + a.quantity, 0);
+            const bidVol = depth.bids.slice(0, 10).reduce((s, b) => s + b.quantity, 0);
+            const askVol = depth.asks.slice(0, 10).reduce((s, a) => s + a.quantity, 0);
             const obi = (bidVol - askVol) / (bidVol + askVol + 0.0001);
             signal += obi * w.obi;
         } catch { }
 
         // RSI Signal
-        if (this.priceHistory.length >= 15) {
-            const rsi = calculateRSI(this.priceHistory, 14);
+        if (closes.length >= 15) {
+            const rsi = calculateRSI(closes, 14);
             const rsiSignal = rsi < 30 ? 0.5 : rsi > 70 ? -0.5 : 0;
             signal += rsiSignal * w.rsi;
         }
 
         // EMA Signal
-        if (this.priceHistory.length >= 20) {
-            const ema20 = calculateEMA(this.priceHistory, 20);
+        if (closes.length >= 20) {
+            const ema20 = calculateEMA(closes, 20);
             const emaDiff = (currentPrice - ema20) / ema20;
             signal += Math.max(-0.5, Math.min(0.5, emaDiff * 10)) * w.ema;
         }
 
         // Momentum Signal
-        if (this.priceHistory.length >= 10) {
-            const momentum = (currentPrice - this.priceHistory[this.priceHistory.length - 10]) /
-                this.priceHistory[this.priceHistory.length - 10];
+        if (closes.length >= 10) {
+            const momentum = (currentPrice - closes[closes.length - 10]) / closes[closes.length - 10];
             signal += Math.max(-0.5, Math.min(0.5, momentum * 20)) * w.momentum;
         }
 
@@ -446,35 +493,35 @@ class HFTExecutionLayer extends EventEmitter {
         try {
             const direction = signal > 0 ? 'long' : 'short';
             let action: string;
+            let intent: OrderIntent;
+
+            // Size so that hitting the volatility-based stop loses riskPerTrade of equity
+            const stopDistance = currentPrice * this.config.risk.stopLossPercent;
+            const size = Math.min(
+                this.equity * this.config.risk.riskPerTrade / stopDistance,
+                this.config.risk.maxPositionSize
+            );
 
             if (this.currentPosition) {
                 // Check if we should close
                 if ((this.currentPosition.side === 'long' && direction === 'short') ||
                     (this.currentPosition.side === 'short' && direction === 'long')) {
                     action = this.currentPosition.side === 'long' ? 'close_long' : 'close_short';
+                    intent = { type: 'close', side: this.currentPosition.side };
                 } else {
                     return; // Already in same direction
                 }
             } else {
                 action = direction === 'long' ? 'open_long' : 'open_short';
+                intent = { type: direction, size };
             }
 
-            // Calculate size
-            const size = Math.min(
-                this.equity * this.config.risk.riskPerTrade / 1000,
-                this.config.risk.maxPositionSize
-            );
-
             console.log(chalk.yellow(`\n⚡ ${action.toUpperCase()} ${size.toFixed(5)} @ $${currentPrice.toFixed(2)}`));
 
-            const sideMap: Record<string, number> = {
-                'open_long': 1, 'close_short': 2, 'open_short': 3, 'close_long': 4
-            };
+            const result = await executeOrderIntent(this.weex, this.symbol, intent, { orders: this.orders, decisionTime: this.clock.now() });
+            this.lastTradeTime = this.clock.now();
 
-            await this.weex.placeOrder(this.symbol, sideMap[action], size);
-            this.lastTradeTime = Date.now();
-
-            console.log(chalk.green(`   ✅ Order executed`));
+            console.log(chalk.gray(`   📨 Order placed: ${result.legs.map(describeLeg).join(', ') || 'nothing to do'}`));
             await this.updateEquity();
             this.emit('trade', { action, size, price: currentPrice, signal });
 
@@ -494,26 +541,14 @@ class HFTExecutionLayer extends EventEmitter {
         return chalk.gray('→');
     }
 
-    private updatePosition(positions: any[]): void {
-        const pos = positions.find((p: any) =>
-            p.symbol?.toLowerCase().includes('btc') && parseFloat(p.total || 0) > 0
-        );
-        if (pos) {
-            this.currentPosition = {
-                side: pos.holdSide === 'long' ? 'long' : 'short',
-                size: parseFloat(pos.total),
-                entryPrice: parseFloat(pos.averageOpenPrice || 0),
-            };
-        } else {
-            this.currentPosition = null;
-        }
-    }
+    private onPosition = (position: ManagedPosition): void => {
+        this.currentPosition = netPosition(position);
+    };
 
     private async updateEquity(): Promise<void> {
         try {
-            const assets = await this.weex.getAssets();
-            const usdt = assets.find((a: any) => a.coinName === 'USDT');
-            if (usdt) this.equity = parseFloat(usdt.equity || usdt.available);
+            const usdt = findBalance(await this.weex.getAssets());
+            if (usdt) this.equity = usdt.equity;
         } catch { }
     }
 }
@@ -523,23 +558,24 @@ class HFTExecutionLayer extends EventEmitter {
 export class HybridTradingEngine extends EventEmitter {
     private aiLayer: StrategicAILayer;
     private hftLayer: HFTExecutionLayer;
-    private weex: RustSDKBridge;
+    private weex: ExchangeGateway;
     private symbol: string;
 
     constructor(
-        openai: OpenAI,
-        weex: RustSDKBridge,
+        openai: ChatClient,
+        weex: ExchangeGateway,
         model: string = 'mimo-v2-flash',
         symbol: string = 'cmt_btcusdt',
-        minBalance: number = 700
+        minBalance: number = 700,
+        clock: Clock = systemClock
     ) {
         super();
         this.weex = weex;
         this.symbol = symbol;
 
         // Create both layers
-        this.aiLayer = new StrategicAILayer(openai, weex, model);
-        this.hftLayer = new HFTExecutionLayer(weex, this.aiLayer.getConfig(), symbol, minBalance);
+        this.aiLayer = new StrategicAILayer(openai, weex, model, clock);
+        this.hftLayer = new HFTExecutionLayer(weex, this.aiLayer.getConfig(), symbol, minBalance, clock);
 
         // Connect: When AI updates config, HFT layer uses it
         this.aiLayer.on('configUpdate', (config: TradingConfig) => {
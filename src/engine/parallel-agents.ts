@@ -10,10 +10,15 @@
  */
 
 import { EventEmitter } from 'events';
-import OpenAI from 'openai';
+import { type Clock, type TimerHandle, systemClock } from './clock.js';
+import { type ChatClient, clientForRole, modelForRole } from '../llm/client.js';
+import { completeStructured, jsonCompleter } from '../llm/structured.js';
+import { LeadDecisionResponseSchema, type LeadDecisionResponse } from '../agents/schemas.js';
 import chalk from 'chalk';
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import { type ExchangeGateway, findBalance, isPositionFor } from '../sdk/gateway.js';
 import { calculateRSI, calculateEMA, calculateOBI, calculateATR, calculateMACD, calculateBollingerBands } from '../quant/indicators.js';
+import { detectRegime, type RegimeProbabilities, type RegimeResult } from '../quant/regime.js';
+import { measureVolatility, volatilityStopPercent, type VolatilityReport } from '../quant/volatility.js';
 
 // ==================== AGENT REPORT TYPES ====================
 
@@ -35,6 +40,7 @@ export interface LeadDecision {
     reasoning: string;
     agentVotes: Record<string, AgentReport>;
     timestamp: number;
+    invalid?: boolean;          // Model never produced a valid decision; held instead
 }
 
 export interface TradingConfig {
@@ -42,6 +48,8 @@ export interface TradingConfig {
     signalThreshold: number;
     riskPerTrade: number;
     regime: string;
+    regimeProbabilities: RegimeProbabilities | null;
+    stopLossPercent: number;    // 2 expected hourly moves (GARCH forecast)
     bias: string;
     biasStrength: number;
 }
@@ -49,34 +57,37 @@ export interface TradingConfig {
 // ==================== INDIVIDUAL AGENT CLASS ====================
 
 class IndependentAgent extends EventEmitter {
-    private openai: OpenAI;
-    private weex: RustSDKBridge;
+    private openai: ChatClient;
+    private weex: ExchangeGateway;
     private model: string;
     private name: string;
     private role: string;
     private symbol: string; // ACTUAL TRADING SYMBOL
     private intervalMs: number;
     private isRunning: boolean = false;
-    private interval: NodeJS.Timeout | null = null;
+    private interval: TimerHandle | null = null;
     private lastReport: AgentReport | null = null;
+    private clock: Clock;
 
     constructor(
-        openai: OpenAI,
-        weex: RustSDKBridge,
+        openai: ChatClient,
+        weex: ExchangeGateway,
         name: string,
         role: string,
         symbol: string, // NOW REQUIRED
         model: string = 'mimo-v2-flash',
-        intervalMs: number = 10000 // Faster: 10s instead of 15s
+        intervalMs: number = 10000, // Faster: 10s instead of 15s
+        clock: Clock = systemClock
     ) {
         super();
-        this.openai = openai;
+        this.openai = clientForRole(openai, role);
         this.weex = weex;
         this.name = name;
         this.role = role;
         this.symbol = symbol; // STORE THE ACTUAL SYMBOL
-        this.model = model;
+        this.model = modelForRole(openai, role, model);
         this.intervalMs = intervalMs;
+        this.clock = clock;
     }
 
     getLastReport(): AgentReport | null {
@@ -93,7 +104,7 @@ class IndependentAgent extends EventEmitter {
         await this.analyze();
 
         // Then run periodically
-        this.interval = setInterval(async () => {
+        this.interval = this.clock.setInterval(async () => {
             if (this.isRunning) {
                 await this.analyze();
             }
@@ -103,7 +114,7 @@ class IndependentAgent extends EventEmitter {
     stop(): void {
         this.isRunning = false;
         if (this.interval) {
-            clearInterval(this.interval);
+            this.clock.clearInterval(this.interval);
             this.interval = null;
         }
     }
@@ -121,7 +132,7 @@ class IndependentAgent extends EventEmitter {
             // Create report
             this.lastReport = {
                 agentName: this.name,
-                timestamp: Date.now(),
+                timestamp: this.clock.now(),
                 signal: analysis.signal || 'neutral',
                 confidence: analysis.confidence || 0.5,
                 reasoning: analysis.reasoning || 'No reasoning provided',
@@ -145,35 +156,34 @@ class IndependentAgent extends EventEmitter {
     private async gatherData(): Promise<Record<string, any>> {
         // USE THE CORRECT SYMBOL FOR THIS AGENT
         const ticker = await this.weex.getTicker(this.symbol);
-        const currentPrice = parseFloat(ticker.last || ticker.lastPr);
+        const currentPrice = ticker.last;
 
         const baseData = {
             symbol: this.symbol,
             currentPrice,
-            priceChange24h: parseFloat(ticker.priceChangePercent || 0),
-            volume24h: parseFloat(ticker.volume_24h || ticker.baseVolume || 0),
-            timestamp: new Date().toISOString(),
+            priceChange24h: ticker.change24h,
+            volume24h: ticker.volume24h,
+            timestamp: new Date(this.clock.now()).toISOString(),
         };
 
         // 2 POWER AGENTS - each combines multiple data sources
         switch (this.role) {
             case 'technical':
-                // TECHNICAL AGENT: RSI, EMA, MACD, Bollinger, ATR
-                const candles = await this.weex.getCandles(this.symbol);
-                let closes: number[] = [];
-                let highs: number[] = [];
-                let lows: number[] = [];
-                if (Array.isArray(candles)) {
-                    closes = candles.map((c: any) => parseFloat(Array.isArray(c) ? c[4] : c.close)).filter(v => v > 0);
-                    highs = candles.map((c: any) => parseFloat(Array.isArray(c) ? c[2] : c.high)).filter(v => v > 0);
-                    lows = candles.map((c: any) => parseFloat(Array.isArray(c) ? c[3] : c.low)).filter(v => v > 0);
-                }
+                // TECHNICAL AGENT: RSI, EMA, MACD, Bollinger, ATR, volatility, regime
+                const candles = await this.weex.getCandles(this.symbol, '1H', 200);
+                const closes = candles.map((c) => c.close);
+                const highs = candles.map((c) => c.high);
+                const lows = candles.map((c) => c.low);
                 const rsi = closes.length >= 15 ? calculateRSI(closes, 14) : 50;
                 const ema9 = closes.length >= 9 ? calculateEMA(closes, 9) : currentPrice;
                 const ema21 = closes.length >= 21 ? calculateEMA(closes, 21) : currentPrice;
                 const macd = calculateMACD(closes);
                 const bollinger = calculateBollingerBands(closes, 20, 2);
                 const atr = calculateATR(highs, lows, closes, 14);
+                const volatility = measureVolatility(candles, { intervalMs: 60 * 60 * 1000 });
+                const regime = detectRegime(highs, lows, closes);
+                this.emit('volatility', volatility);
+                this.emit('regime', regime);
                 return {
                     ...baseData,
                     rsi,
@@ -187,28 +197,26 @@ class IndependentAgent extends EventEmitter {
                     bollingerLower: bollinger.lower,
                     priceVsBollinger: currentPrice > bollinger.upper ? 'OVERBOUGHT' : currentPrice < bollinger.lower ? 'OVERSOLD' : 'NEUTRAL',
                     atr,
-                    volatilityLevel: atr / currentPrice > 0.02 ? 'HIGH' : 'NORMAL'
+                    volatilityAnnualized: volatility.yangZhang,
+                    volatilityForecast: volatility.annualized,
+                    volatilityLevel: volatility.annualized > 0.8 ? 'HIGH' : volatility.annualized < 0.3 ? 'LOW' : 'NORMAL',
+                    suggestedStopLoss: volatilityStopPercent(volatility),
+                    regime: regime.regime,
+                    regimeProbabilities: regime.probabilities,
                 };
 
             case 'structure':
                 // STRUCTURE AGENT: Order Book, Funding, Positions, Depth
                 const depth = await this.weex.getDepth(this.symbol);
-                const rawBids = (depth.bids || []).slice(0, 10);
-                const rawAsks = (depth.asks || []).slice(0, 10);
-                const bidQty = rawBids.reduce((sum: number, b: any) => sum + parseFloat(b[1] || 0), 0);
-                const askQty = rawAsks.reduce((sum: number, a: any) => sum + parseFloat(a[1] || 0), 0);
-                const obi = (bidQty + askQty) > 0 ? (bidQty - askQty) / (bidQty + askQty) : 0;
-                const spread = rawAsks[0]?.[0] - rawBids[0]?.[0];
+                const obi = calculateOBI(depth, 10);
+                const spread = (depth.asks[0]?.price ?? 0) - (depth.bids[0]?.price ?? 0);
 
                 const funding = await this.weex.getFundingRate(this.symbol).catch(() => ({ fundingRate: 0 }));
-                const fundingRate = parseFloat(funding.fundingRate || 0);
+                const fundingRate = funding.fundingRate;
 
-                const positions = await this.weex.getPositions();
-                const assets = await this.weex.getAssets();
-                const usdt = assets.find((a: any) => a.coinName === 'USDT');
-                const equity = parseFloat(usdt?.equity || usdt?.available || 0);
-                const activePositions = positions.filter((p: any) => parseFloat(p.total || 0) > 0);
-                const hasPosition = activePositions.some((p: any) => p.symbol?.includes(this.symbol.replace('cmt_', '')));
+                const activePositions = await this.weex.getPositions();
+                const equity = findBalance(await this.weex.getAssets())?.equity ?? 0;
+                const hasPosition = activePositions.some((p) => isPositionFor(p, this.symbol) && p.size > 0);
 
                 return {
                     ...baseData,
@@ -241,8 +249,7 @@ class IndependentAgent extends EventEmitter {
                 temperature: 0.3,
                 max_tokens: 1024, // Increased for reasoning
                 response_format: { type: 'json_object' },
-                ...((this.model.includes('gpt-oss') || this.model.includes('Reasoning')) ? { reasoning_effort: 'high' } : {})
-            } as any);
+            });
 
             const content = response.choices[0]?.message?.content || '{}';
             return JSON.parse(content);
@@ -259,12 +266,16 @@ class IndependentAgent extends EventEmitter {
 - MACD Histogram: Positive = BULLISH momentum, Negative = BEARISH momentum
 - Bollinger Bands: Price > Upper = OVERBOUGHT, Price < Lower = OVERSOLD
 - ATR: High volatility = wider stops, Low volatility = tighter stops
+- Volatility: annualized Yang-Zhang (realized) and GARCH forecast; suggestedStopLoss is 2 expected hourly moves
+- Regime: measured probabilities of trending_up / trending_down / ranging / volatile (take them as given)
 
 TRADING RULES:
 1. If RSI is OVERSOLD + MACD turning positive = STRONG BUY (bullish, 85%+)
 2. If RSI is OVERBOUGHT + MACD turning negative = STRONG SELL (bearish, 85%+)
 3. If EMA cross aligns with MACD = MEDIUM signal (70%)
 4. Conflicting signals = NEUTRAL (50%)
+5. In a likely RANGING regime trust RSI/Bollinger reversals; in a likely TRENDING regime trust EMA/MACD
+6. In a likely VOLATILE regime lower your confidence
 
 Respond with ONLY valid JSON:
 {"signal": "bullish" | "bearish" | "neutral", "confidence": 0.0-1.0, "reasoning": "brief explanation"}`,
@@ -293,22 +304,24 @@ Respond with ONLY valid JSON:
 // ==================== LEAD COORDINATOR AGENT ====================
 
 class LeadCoordinator extends EventEmitter {
-    private openai: OpenAI;
+    private openai: ChatClient;
     private model: string;
     private agents: IndependentAgent[] = [];
     private latestReports: Map<string, AgentReport> = new Map();
     private isRunning: boolean = false;
-    private decisionInterval: NodeJS.Timeout | null = null;
+    private decisionInterval: TimerHandle | null = null;
     private lastDecision: LeadDecision | null = null;
     private decisionIntervalMs: number;
 
     private symbolShort: string;
+    private clock: Clock;
 
-    constructor(openai: OpenAI, symbol: string, model: string = 'mimo-v2-flash', decisionIntervalMs: number = 30000) {
+    constructor(openai: ChatClient, symbol: string, model: string = 'mimo-v2-flash', decisionIntervalMs: number = 30000, clock: Clock = systemClock) {
         super();
-        this.openai = openai;
+        this.clock = clock;
+        this.openai = clientForRole(openai, 'lead');
         this.symbolShort = symbol.replace('cmt_', '').toUpperCase().replace('USDT', '');
-        this.model = model;
+        this.model = modelForRole(openai, 'lead', model);
         this.decisionIntervalMs = decisionIntervalMs;
     }
 
@@ -335,12 +348,12 @@ class LeadCoordinator extends EventEmitter {
         this.agents.forEach(a => a.start().catch(() => { }));
 
         // Schedule first decision after agents warm up (non-blocking)
-        setTimeout(async () => {
+        this.clock.setTimeout(async () => {
             await this.makeDecision().catch(() => { });
         }, 10000); // 10s warmup before first decision
 
         // Then decide periodically
-        this.decisionInterval = setInterval(async () => {
+        this.decisionInterval = this.clock.setInterval(async () => {
             if (this.isRunning) {
                 await this.makeDecision().catch(() => { });
             }
@@ -351,7 +364,7 @@ class LeadCoordinator extends EventEmitter {
         this.isRunning = false;
         this.agents.forEach(a => a.stop());
         if (this.decisionInterval) {
-            clearInterval(this.decisionInterval);
+            this.clock.clearInterval(this.decisionInterval);
             this.decisionInterval = null;
         }
     }
@@ -373,18 +386,28 @@ class LeadCoordinator extends EventEmitter {
             });
 
             // Call LLM for final decision
-            const decision = await this.callLeadLLM(reports);
-
-            this.lastDecision = {
-                action: decision.action || 'hold',
-                confidence: decision.confidence || 0.5,
-                positionSize: decision.positionSize || 0.01,
-                stopLoss: decision.stopLoss,
-                takeProfit: decision.takeProfit,
-                reasoning: decision.reasoning || 'No reasoning',
-                agentVotes: reports,
-                timestamp: Date.now(),
-            };
+            const result = await this.callLeadLLM(reports);
+
+            this.lastDecision = result.ok
+                ? {
+                    action: result.decision.action,
+                    confidence: result.decision.confidence,
+                    positionSize: result.decision.positionSize,
+                    stopLoss: result.decision.stopLoss,
+                    takeProfit: result.decision.takeProfit,
+                    reasoning: result.decision.reasoning,
+                    agentVotes: reports,
+                    timestamp: this.clock.now(),
+                }
+                : {
+                    action: 'hold',
+                    confidence: 0,
+                    positionSize: 0,
+                    reasoning: `No valid decision from the model: ${result.error}`,
+                    agentVotes: reports,
+                    timestamp: this.clock.now(),
+                    invalid: true,
+                };
 
             const elapsed = Date.now() - startTime;
             const actionIcon = this.lastDecision.action === 'long' ? '🟢' :
@@ -405,7 +428,9 @@ class LeadCoordinator extends EventEmitter {
         }
     }
 
-    private async callLeadLLM(reports: Record<string, AgentReport>): Promise<any> {
+    private async callLeadLLM(
+        reports: Record<string, AgentReport>
+    ): Promise<{ ok: true; decision: LeadDecisionResponse } | { ok: false; error: string }> {
         const systemPrompt = `You are the Lead Trading Coordinator at a quantitative hedge fund.
 You receive reports from your team of specialist agents and must make the final trading decision.
 
@@ -434,21 +459,17 @@ Decision guidelines (AGGRESSIVE HFT MODE):
         ).join('\n');
 
         try {
-            const response = await this.openai.chat.completions.create({
-                model: this.model,
-                messages: [
+            const result = await completeStructured(
+                jsonCompleter(this.openai, { model: this.model, temperature: 0.3, max_tokens: 300 }),
+                [
                     { role: 'system', content: systemPrompt },
                     { role: 'user', content: `Agent reports:\n${reportSummary}\n\nMake your decision.` }
                 ],
-                temperature: 0.3,
-                max_tokens: 300,
-                response_format: { type: 'json_object' },
-            });
-
-            const content = response.choices[0]?.message?.content || '{}';
-            return JSON.parse(content);
-        } catch (error) {
-            return { action: 'hold', confidence: 0.5, reasoning: 'API error - defaulting to hold' };
+                LeadDecisionResponseSchema
+            );
+            return result.ok ? { ok: true, decision: result.value } : { ok: false, error: result.error };
+        } catch (error: any) {
+            return { ok: false, error: `API error: ${error.message}` };
         }
     }
 }
@@ -456,17 +477,18 @@ Decision guidelines (AGGRESSIVE HFT MODE):
 // ==================== PARALLEL AGENT SYSTEM ====================
 
 export class ParallelAgentSystem extends EventEmitter {
-    private openai: OpenAI;
-    private weex: RustSDKBridge;
+    private openai: ChatClient;
+    private weex: ExchangeGateway;
     private model: string;
     public lead: LeadCoordinator;
     private config: TradingConfig;
     private intervalMs: number;
 
-    constructor(openai: OpenAI, weex: RustSDKBridge,
+    constructor(openai: ChatClient, weex: ExchangeGateway,
         symbol: string,
         model: string = 'mimo-v2-flash',
-        intervalMs: number = 20000) {
+        intervalMs: number = 20000,
+        clock: Clock = systemClock) {
         super();
         this.openai = openai;
         this.weex = weex;
@@ -480,21 +502,32 @@ export class ParallelAgentSystem extends EventEmitter {
             signalThreshold: 0.3,
             riskPerTrade: 0.02,
             regime: 'unknown',
+            regimeProbabilities: null,
+            stopLossPercent: 0.02,
             bias: 'neutral',
             biasStrength: 0,
         };
 
         // Create lead coordinator
-        this.lead = new LeadCoordinator(openai, symbol, model, 30000); // Decision every 30s
+        this.lead = new LeadCoordinator(openai, symbol, model, 30000, clock); // Decision every 30s
 
         // 2 POWER AGENTS (instead of 4) - each combines multiple data sources
-        const technicalAgent = new IndependentAgent(openai, weex, `TechAgent:${shortSymbol}`, 'technical', symbol, model, this.intervalMs);
-        const structureAgent = new IndependentAgent(openai, weex, `StructAgent:${shortSymbol}`, 'structure', symbol, model, this.intervalMs);
+        const technicalAgent = new IndependentAgent(openai, weex, `TechAgent:${shortSymbol}`, 'technical', symbol, model, this.intervalMs, clock);
+        const structureAgent = new IndependentAgent(openai, weex, `StructAgent:${shortSymbol}`, 'structure', symbol, model, this.intervalMs, clock);
 
         // Add agents to lead
         this.lead.addAgent(technicalAgent);
         this.lead.addAgent(structureAgent);
 
+        // The technical agent measures the regime and volatility on every run
+        technicalAgent.on('regime', (regime: RegimeResult) => {
+            this.config.regime = regime.regime;
+            this.config.regimeProbabilities = regime.probabilities;
+        });
+        technicalAgent.on('volatility', (volatility: VolatilityReport) => {
+            this.config.stopLossPercent = volatilityStopPercent(volatility) ?? this.config.stopLossPercent;
+        });
+
         // When lead makes decision, update config for HFT engine
         this.lead.on('decision', (decision: LeadDecision) => {
             this.updateConfigFromDecision(decision);
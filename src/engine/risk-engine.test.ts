@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { RiskEngine, type RiskConfig } from './risk-engine.js';
+
+const CONFIG: RiskConfig = {
+    maxDailyLoss: 100,
+    minEquity: 500,
+    maxDrawdown: 0.5,
+    maxPositionSize: 1,
+    maxOpenOrders: 1,
+    allowedTradingTimes: null,
+};
+
+describe('RiskEngine', () => {
+    it('lets orders that shrink the position past the open order limit', () => {
+        const risk = new RiskEngine(CONFIG);
+        risk.updateState({ positionSize: 0.5, openOrdersCount: 1 });
+
+        expect(risk.canTrade('buy', 0.1, 100)).toBe(false);
+        expect(risk.canTrade('sell', 0.5, 100)).toBe(true);
+        expect(risk.canTrade('sell', 0.8, 100)).toBe(false); // Flips to a short
+    });
+
+    it('rejects orders past the max position size', () => {
+        const risk = new RiskEngine(CONFIG);
+        risk.updateState({ positionSize: -0.5 });
+
+        expect(risk.canTrade('sell', 0.6, 100)).toBe(false);
+        expect(risk.canTrade('buy', 1.2, 100)).toBe(true);
+    });
+});
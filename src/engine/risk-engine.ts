@@ -75,6 +75,14 @@ export class RiskEngine {
             return false;
         }
 
+        // 2.5 Resting orders. An order that only shrinks the position is let through,
+        // so a position can still be closed while entries are resting
+        const reducing = Math.abs(newSize) < Math.abs(this.state.positionSize) && newSize * this.state.positionSize >= 0;
+        if (!reducing && this.state.openOrdersCount >= this.config.maxOpenOrders) {
+            console.log(chalk.red(`⛔ RISK REJECT: Too many open orders (${this.state.openOrdersCount} >= ${this.config.maxOpenOrders})`));
+            return false;
+        }
+
         // 3. Daily Loss Limit
         if (this.state.dailyPnL < -this.config.maxDailyLoss) {
             this.tripCircuitBreaker('Daily Loss Limit Hit');
@@ -9,9 +9,17 @@
  * - Immediate execution
  */
 
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
-import { QuantTools, calculateOBI, calculateVPIN, calculateRSI, calculateEMA, calculateATR, calculateKellyFraction, analyzeFundingArbitrage } from '../quant/indicators.js';
+import { type ExchangeGateway, type Ticker, type OrderBook, findBalance, tradableSize } from '../sdk/gateway.js';
+import { QuantTools, calculateOBI, calculateVPIN, calculateRSI, calculateEMA, calculateKellyFraction, analyzeFundingArbitrage } from '../quant/indicators.js';
+import { measureVolatility, volatilityStopPercent } from '../quant/volatility.js';
+import { MicrostructureTracker } from '../quant/microstructure.js';
 import { EventEmitter } from 'events';
+import { type Clock, type TimerHandle, systemClock } from './clock.js';
+import { BarBuilder } from '../ws/bar-builder.js';
+import type { MarketDataHub, Subscription } from '../ws/hub.js';
+import { type OrderIntent, executeOrderIntent, describeLeg } from '../execution/intent.js';
+import { OrderManager, netPosition, type ManagedPosition, type OrderFill } from '../execution/order-manager.js';
+import { getContractRegistry } from '../execution/contracts.js';
 import chalk from 'chalk';
 
 // Signal types
@@ -36,7 +44,6 @@ interface Position {
     side: 'long' | 'short';
     size: number;
     entryPrice: number;
-    unrealizedPnl: number;
 }
 
 interface EngineConfig {
@@ -46,6 +53,8 @@ interface EngineConfig {
     riskPerTrade: number; // Percentage of equity
     minBalance: number;
     pollingIntervalMs: number; // How fast to check market
+    barInterval: string; // Indicator bars built from the polled prices
+    stopHorizonBars: number; // Stops sit 2 expected moves (GARCH) over this many bars away
     signalThreshold: number; // Minimum combined strength to act
 }
 
@@ -56,6 +65,8 @@ const DEFAULT_CONFIG: EngineConfig = {
     riskPerTrade: 0.02, // 2% risk per trade
     minBalance: 700,
     pollingIntervalMs: 5000, // 5 seconds
+    barInterval: '1m',
+    stopHorizonBars: 15,
     signalThreshold: 0.3,
 };
 
@@ -69,20 +80,34 @@ const SIGNAL_WEIGHTS = {
 };
 
 export class StreamTradingEngine extends EventEmitter {
-    private weex: RustSDKBridge;
+    private weex: ExchangeGateway;
     private config: EngineConfig;
     private isRunning: boolean = false;
     private currentPosition: Position | null = null;
     private lastSignal: CombinedSignal | null = null;
     private equity: number = 1000;
     private tradeHistory: { pnl: number; isWin: boolean }[] = [];
-    private priceHistory: number[] = [];
-    private pollInterval: NodeJS.Timeout | null = null;
-
-    constructor(weex: RustSDKBridge, config: Partial<EngineConfig> = {}) {
+    private bars: BarBuilder;
+    private pollInterval: TimerHandle | null = null;
+    private clock: Clock;
+    private hub: MarketDataHub | null;
+    private micro = new MicrostructureTracker();
+    private subscriptions: Subscription[] = [];
+    private orders: OrderManager;
+
+    /**
+     * With a hub, the microstructure signals run on its WS trades and L2 book;
+     * without one they only see the polled depth (no trade flow or VPIN)
+     */
+    constructor(weex: ExchangeGateway, config: Partial<EngineConfig> = {}, clock: Clock = systemClock, hub: MarketDataHub | null = null) {
         super();
         this.weex = weex;
         this.config = { ...DEFAULT_CONFIG, ...config };
+        this.clock = clock;
+        this.hub = hub;
+        this.orders = new OrderManager(weex, { engine: 'stream' }, clock);
+        // Polled prices arrive in order, so buckets close as soon as they end
+        this.bars = new BarBuilder(this.config.symbol, this.config.barInterval, { allowedLatenessMs: 0 });
     }
 
     async start(): Promise<void> {
@@ -95,11 +120,23 @@ export class StreamTradingEngine extends EventEmitter {
         console.log(chalk.gray(`   Signal Threshold: ${this.config.signalThreshold}`));
         console.log(chalk.gray(`   Risk Per Trade: ${this.config.riskPerTrade * 100}%`));
 
+        if (this.hub) {
+            this.subscriptions.push(
+                this.hub.subscribe(this.config.symbol, 'trade', (trade) => this.micro.addTrade(trade)),
+                this.hub.subscribe(this.config.symbol, 'depth', (book) => this.micro.updateBook(book, book.lastUpdate)),
+            );
+        }
+
+        // Position and P&L come from reported fills
+        this.orders.on('position', this.onPosition);
+        this.orders.on('fill', this.onFill);
+        await this.orders.start(this.config.symbol);
+
         // Start polling loop
         await this.updateEquity();
         await this.runCycle(); // First run immediately
 
-        this.pollInterval = setInterval(async () => {
+        this.pollInterval = this.clock.setInterval(async () => {
             if (this.isRunning) {
                 await this.runCycle();
             }
@@ -109,9 +146,14 @@ export class StreamTradingEngine extends EventEmitter {
     stop(): void {
         this.isRunning = false;
         if (this.pollInterval) {
-            clearInterval(this.pollInterval);
+            this.clock.clearInterval(this.pollInterval);
             this.pollInterval = null;
         }
+        for (const subscription of this.subscriptions) subscription.unsubscribe();
+        this.subscriptions = [];
+        this.orders.stop();
+        this.orders.off('position', this.onPosition);
+        this.orders.off('fill', this.onFill);
         console.log(chalk.yellow('\n⏹️ ENGINE STOPPED'));
     }
 
@@ -126,18 +168,14 @@ export class StreamTradingEngine extends EventEmitter {
             }
 
             // Get market data (parallel)
-            const [ticker, depth, positions] = await Promise.all([
+            const [ticker, depth] = await Promise.all([
                 this.weex.getTicker(this.config.symbol),
                 this.weex.getDepth(this.config.symbol),
-                this.weex.getPositions(),
             ]);
 
-            const currentPrice = parseFloat(ticker.last || ticker.lastPr);
-            this.priceHistory.push(currentPrice);
-            if (this.priceHistory.length > 100) this.priceHistory.shift();
-
-            // Update position state
-            this.updatePositionFromAPI(positions);
+            const currentPrice = ticker.last;
+            this.bars.addPrice(currentPrice, this.clock.now());
+            if (!this.hub) this.micro.updateBook(depth, this.clock.now());
 
             // Generate all signals in PARALLEL
             const signals = await this.generateSignalsParallel(ticker, depth, currentPrice);
@@ -155,7 +193,7 @@ export class StreamTradingEngine extends EventEmitter {
                 : 'FLAT';
 
             console.log(
-                chalk.gray(`[${new Date().toISOString().slice(11, 19)}]`) +
+                chalk.gray(`[${new Date(this.clock.now()).toISOString().slice(11, 19)}]`) +
                 ` $${currentPrice.toFixed(1)} ` +
                 this.formatSignalArrow(combined) +
                 chalk.gray(` (${(combined.confidence * 100).toFixed(0)}%)`) +
@@ -176,22 +214,19 @@ export class StreamTradingEngine extends EventEmitter {
         }
     }
 
-    private async generateSignalsParallel(ticker: any, depth: any, currentPrice: number): Promise<QuantSignal[]> {
+    private async generateSignalsParallel(ticker: Ticker, depth: OrderBook, currentPrice: number): Promise<QuantSignal[]> {
         const signals: QuantSignal[] = [];
-        const now = Date.now();
+        const now = this.clock.now();
+        const { closes } = this.bars.series(100);
 
-        // 1. OBI Signal - Order Book Imbalance
+        // 1. OBI Signal - distance-weighted book imbalance, order flow (OFI) and trade flow
+        const micro = this.micro.snapshot(now);
         try {
-            const bids = (depth.bids || []).map((b: any) => ({
-                price: parseFloat(b[0]),
-                quantity: parseFloat(b[1])
-            }));
-            const asks = (depth.asks || []).map((a: any) => ({
-                price: parseFloat(a[0]),
-                quantity: parseFloat(a[1])
-            }));
-
-            const obi = calculateOBI({ bids, asks, timestamp: now }, 10);
+            const obi = micro.mid === null
+                ? calculateOBI(depth, 10)
+                : micro.trades > 0
+                    ? 0.5 * micro.distanceWeightedImbalance + 0.3 * micro.ofiNormalized + 0.2 * micro.tradeFlowImbalance
+                    : 0.6 * micro.distanceWeightedImbalance + 0.4 * micro.ofiNormalized;
             signals.push({
                 name: 'OBI',
                 direction: obi > 0.15 ? 'long' : obi < -0.15 ? 'short' : 'neutral',
@@ -203,11 +238,16 @@ export class StreamTradingEngine extends EventEmitter {
             signals.push({ name: 'OBI', direction: 'neutral', strength: 0, confidence: 0, timestamp: now });
         }
 
+        // VPIN - toxic flow dilutes every other signal
+        if (micro.vpin > 0.7) {
+            signals.push({ name: 'VPIN', direction: 'neutral', strength: 0, confidence: 0, timestamp: now });
+        }
+
         // 2. Technical Signals (RSI, EMA crossover)
-        if (this.priceHistory.length >= 20) {
-            const rsi = calculateRSI(this.priceHistory, 14);
-            const ema20 = calculateEMA(this.priceHistory, 20);
-            const ema50 = this.priceHistory.length >= 50 ? calculateEMA(this.priceHistory, 50) : ema20;
+        if (closes.length >= 20) {
+            const rsi = calculateRSI(closes, 14);
+            const ema20 = calculateEMA(closes, 20);
+            const ema50 = closes.length >= 50 ? calculateEMA(closes, 50) : ema20;
 
             // RSI signal
             let rsiDirection: 'long' | 'short' | 'neutral' = 'neutral';
@@ -242,9 +282,8 @@ export class StreamTradingEngine extends EventEmitter {
         }
 
         // 3. Momentum signal
-        if (this.priceHistory.length >= 10) {
-            const priceChange = (currentPrice - this.priceHistory[this.priceHistory.length - 10]) /
-                this.priceHistory[this.priceHistory.length - 10];
+        if (closes.length >= 10) {
+            const priceChange = (currentPrice - closes[closes.length - 10]) / closes[closes.length - 10];
             signals.push({
                 name: 'Momentum',
                 direction: priceChange > 0.001 ? 'long' : priceChange < -0.001 ? 'short' : 'neutral',
@@ -255,8 +294,8 @@ export class StreamTradingEngine extends EventEmitter {
         }
 
         // 4. Spread/Liquidity signal
-        const bestBid = parseFloat(depth.bids?.[0]?.[0] || ticker.bid || currentPrice);
-        const bestAsk = parseFloat(depth.asks?.[0]?.[0] || ticker.ask || currentPrice);
+        const bestBid = depth.bids[0]?.price || ticker.bid || currentPrice;
+        const bestAsk = depth.asks[0]?.price || ticker.ask || currentPrice;
         const spreadPercent = (bestAsk - bestBid) / currentPrice;
 
         // High spread = don't trade
@@ -331,52 +370,26 @@ export class StreamTradingEngine extends EventEmitter {
             // Calculate Kelly-based position size
             const kellyFraction = calculateKellyFraction(this.tradeHistory, 0.25); // Quarter-Kelly
             const riskAmount = this.equity * Math.min(kellyFraction, this.config.riskPerTrade);
-            const atr = this.priceHistory.length >= 15 ? this.calculateSimpleATR() : currentPrice * 0.02;
-            let size = Math.min(riskAmount / atr, this.config.maxPositionSize);
-            size = Math.round(size * 100000) / 100000; // 5 decimals
+            const bars = this.bars.bars(200);
+            const stopPercent = (bars.length >= 15 && volatilityStopPercent(measureVolatility(bars, { horizonBars: this.config.stopHorizonBars }))) || 0.02;
+            const contract = await getContractRegistry(this.weex, this.clock).find(this.config.symbol);
+            const size = tradableSize(contract, Math.min(riskAmount / (currentPrice * stopPercent), this.config.maxPositionSize));
 
-            if (size < 0.0001) {
+            if (size === 0) {
                 console.log(chalk.gray('   Size too small, skipping'));
                 return;
             }
 
             console.log(chalk.yellow(`\n⚡ EXECUTING: ${signal.action.toUpperCase()} ${size} @ $${currentPrice.toFixed(2)}`));
-            console.log(chalk.gray(`   Strength: ${(signal.strength * 100).toFixed(1)}% | Confidence: ${(signal.confidence * 100).toFixed(1)}%`));
-
-            // Map action to side number
-            const sideMap: Record<string, number> = {
-                'open_long': 1,
-                'close_short': 2,
-                'open_short': 3,
-                'close_long': 4,
-            };
-            const side = sideMap[signal.action];
-
-            const result = await this.weex.placeOrder(this.config.symbol, side, size);
-
-            console.log(chalk.green(`   ✅ Order placed: ${result.orderId || 'success'}`));
-
-            // Update position tracking
-            if (signal.action.startsWith('open_')) {
-                this.currentPosition = {
-                    symbol: this.config.symbol,
-                    side: signal.action === 'open_long' ? 'long' : 'short',
-                    size,
-                    entryPrice: currentPrice,
-                    unrealizedPnl: 0,
-                };
-            } else {
-                // Closing position - record P&L
-                if (this.currentPosition) {
-                    const pnl = this.currentPosition.side === 'long'
-                        ? (currentPrice - this.currentPosition.entryPrice) * this.currentPosition.size
-                        : (this.currentPosition.entryPrice - currentPrice) * this.currentPosition.size;
-
-                    this.tradeHistory.push({ pnl, isWin: pnl > 0 });
-                    console.log(chalk.cyan(`   P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`));
-                }
-                this.currentPosition = null;
-            }
+            console.log(chalk.gray(`   Strength: ${(signal.strength * 100).toFixed(1)}% | Confidence: ${(signal.confidence * 100).toFixed(1)}% | Stop: ${(stopPercent * 100).toFixed(2)}%`));
+
+            // Closes flatten that side of the actual position, whatever size it is
+            const intent: OrderIntent = signal.action === 'open_long' ? { type: 'long', size }
+                : signal.action === 'open_short' ? { type: 'short', size }
+                    : { type: 'close', side: signal.action === 'close_long' ? 'long' : 'short' };
+            const result = await executeOrderIntent(this.weex, this.config.symbol, intent, { orders: this.orders, decisionTime: this.clock.now(), clock: this.clock });
+
+            console.log(chalk.gray(`   📨 Order placed: ${result.legs.map(describeLeg).join(', ') || 'nothing to do'}`));
 
             // Refresh equity
             await this.updateEquity();
@@ -387,42 +400,28 @@ export class StreamTradingEngine extends EventEmitter {
         }
     }
 
-    private calculateSimpleATR(): number {
-        if (this.priceHistory.length < 15) return 0;
+    private onPosition = (position: ManagedPosition): void => {
+        const net = netPosition(position);
+        this.currentPosition = net ? { symbol: this.config.symbol, ...net } : null;
+    };
 
-        let sum = 0;
-        for (let i = 1; i < 15; i++) {
-            const idx = this.priceHistory.length - 15 + i;
-            sum += Math.abs(this.priceHistory[idx] - this.priceHistory[idx - 1]);
-        }
-        return sum / 14;
-    }
+    /**
+     * Closing fills feed the Kelly trade history with their realized P&L net of fees
+     */
+    private onFill = (fill: OrderFill): void => {
+        console.log(chalk.green(`   ✅ Filled ${fill.action.toUpperCase()} ${fill.size} @ $${fill.price.toFixed(2)}`));
+        if (fill.action.startsWith('open_')) return;
 
-    private updatePositionFromAPI(positions: any[]): void {
-        const pos = positions.find((p: any) =>
-            p.symbol?.toLowerCase().includes('btc') && parseFloat(p.total || p.size || 0) > 0
-        );
-
-        if (pos) {
-            this.currentPosition = {
-                symbol: pos.symbol,
-                side: pos.holdSide === 'long' ? 'long' : 'short',
-                size: parseFloat(pos.total || pos.size),
-                entryPrice: parseFloat(pos.averageOpenPrice || pos.entryPrice || 0),
-                unrealizedPnl: parseFloat(pos.unrealizedPL || pos.pnl || 0),
-            };
-        } else if (this.currentPosition) {
-            // Position was closed externally
-            this.currentPosition = null;
-        }
-    }
+        const pnl = fill.realizedPnl - fill.fee;
+        this.tradeHistory.push({ pnl, isWin: pnl > 0 });
+        console.log(chalk.cyan(`   P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`));
+    };
 
     private async updateEquity(): Promise<void> {
         try {
-            const assets = await this.weex.getAssets();
-            const usdt = assets.find((a: any) => a.coinName === 'USDT');
+            const usdt = findBalance(await this.weex.getAssets());
             if (usdt) {
-                this.equity = parseFloat(usdt.equity || usdt.available);
+                this.equity = usdt.equity;
             }
         } catch { }
     }
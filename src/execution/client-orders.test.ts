@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { ExchangeGateway, Order } from '../sdk/gateway.js';
+import { ClientOrderRegistry, makeClientOid, nextDecisionId, placeOrderIdempotent } from './client-orders.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+/**
+ * Exchange that fails the first `failures` placements with `error`,
+ * optionally after accepting the order
+ */
+function fakeExchange(failures = 0, error = 'timeout of 5000ms exceeded', accepted = false) {
+    const orders = new Map<string, Order>();
+    let placed = 0;
+    const gateway = {
+        async placeOrder(symbol: string, side: 1 | 2 | 3 | 4, size: number, { clientOid }: { clientOid?: string }) {
+            if (clientOid && orders.has(clientOid)) throw new Error(`Duplicate client_oid ${clientOid}`);
+            const orderId = `o${++placed}`;
+            const order = { orderId, clientOid, symbol, side, size } as Order;
+            if (failures > 0) {
+                failures--;
+                if (accepted) orders.set(clientOid!, order);
+                throw new Error(error);
+            }
+            orders.set(clientOid!, order);
+            return { orderId, clientOid };
+        },
+        async getOrderByClientOid(_symbol: string, clientOid: string) {
+            return orders.get(clientOid) ?? null;
+        },
+    } as unknown as ExchangeGateway;
+    return { gateway, placements: () => placed };
+}
+
+describe('makeClientOid', () => {
+    const parts = { engine: 'stream', symbol: SYMBOL, decisionTime: 1767225600000, seq: 1 };
+
+    it('is the same for the same decision', () => {
+        expect(makeClientOid(parts)).toBe('stream-btc-mjuohs00-1');
+        expect(makeClientOid({ ...parts, decisionId: 'abc' })).toBe(makeClientOid({ ...parts, decisionId: 'abc' }));
+    });
+
+    it('tells apart decisions made in the same millisecond by their ID', () => {
+        const a = makeClientOid({ ...parts, decisionId: nextDecisionId() });
+        const b = makeClientOid({ ...parts, decisionId: nextDecisionId() });
+        expect(a).not.toBe(b);
+    });
+
+    it('stays within 40 characters and keeps the decision and leg', () => {
+        const oid = makeClientOid({ ...parts, engine: 'a-very-long-engine-name', decisionId: nextDecisionId(), seq: 12 });
+        expect(oid.length).toBeLessThanOrEqual(40);
+        expect(oid).toMatch(/-btc-mjuohs00-[a-z0-9]+-12$/);
+    });
+
+    it('cuts the decision time rather than the engine when too long', () => {
+        const oid = makeClientOid({ ...parts, engine: 'enhanced-coordinator', symbol: 'cmt_dogecoinusdt', decisionId: 'decision-0123456789ab', seq: 12 });
+        expect(oid).toHaveLength(40);
+        expect(oid).toMatch(/^enhancedcoor-dogecoin-.*0123456789ab-12$/);
+    });
+});
+
+describe('placeOrderIdempotent', () => {
+    const options = (registry: ClientOrderRegistry) => ({ registry, retryDelayMs: 0 });
+
+    it('returns the recorded order instead of placing the same ID twice', async () => {
+        const { gateway, placements } = fakeExchange();
+        const registry = new ClientOrderRegistry(null);
+
+        const first = await placeOrderIdempotent(gateway, SYMBOL, 1, 0.1, { clientOid: 'c1' }, options(registry));
+        const second = await placeOrderIdempotent(gateway, SYMBOL, 1, 0.1, { clientOid: 'c1' }, options(registry));
+
+        expect(second).toEqual(first);
+        expect(placements()).toBe(1);
+    });
+
+    it('finds an order that reached the exchange before the timeout', async () => {
+        const { gateway, placements } = fakeExchange(1, 'timeout of 5000ms exceeded', true);
+        const registry = new ClientOrderRegistry(null);
+
+        const ack = await placeOrderIdempotent(gateway, SYMBOL, 1, 0.1, { clientOid: 'c1' }, options(registry));
+
+        expect(ack.orderId).toBe('o1');
+        expect(placements()).toBe(1);
+        expect(registry.get('c1')!.state).toBe('placed');
+    });
+
+    it('resends after a timeout the exchange has no order for', async () => {
+        const { gateway } = fakeExchange(1);
+        const registry = new ClientOrderRegistry(null);
+
+        const ack = await placeOrderIdempotent(gateway, SYMBOL, 1, 0.1, { clientOid: 'c1' }, options(registry));
+        expect(ack.orderId).toBe('o2');
+    });
+
+    it('records a rejection as failed without retrying', async () => {
+        const { gateway, placements } = fakeExchange(1, 'Insufficient margin');
+        const registry = new ClientOrderRegistry(null);
+
+        await expect(placeOrderIdempotent(gateway, SYMBOL, 1, 0.1, { clientOid: 'c1' }, options(registry))).rejects.toThrow('Insufficient margin');
+        expect(placements()).toBe(1);
+        expect(registry.get('c1')!.state).toBe('failed');
+    });
+
+    it('refuses an ID already used for a different order', async () => {
+        const { gateway } = fakeExchange();
+        const registry = new ClientOrderRegistry(null);
+        await placeOrderIdempotent(gateway, SYMBOL, 1, 0.1, { clientOid: 'c1' }, options(registry));
+
+        await expect(placeOrderIdempotent(gateway, SYMBOL, 1, 0.2, { clientOid: 'c1' }, options(registry))).rejects.toThrow('different order');
+    });
+});
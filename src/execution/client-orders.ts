@@ -0,0 +1,287 @@
+/**
+ * Client Order IDs
+ * Deterministic client_oid per order intent, and placement that is safe to
+ * retry.
+ *
+ * The ID is derived from the engine, symbol, decision timestamp, decision ID
+ * (if any) and leg sequence, so re-running the same decision produces the
+ * same IDs. Callers with no decision of their own take a per-process nonce
+ * from nextDecisionId, so two orders in the same millisecond differ. Before
+ * an order is sent, its ID is written to the registry as pending. A failed
+ * or timed-out placement is ambiguous: the order may be live. So the
+ * exchange is asked for the client ID before anything is resubmitted. The
+ * registry maps client IDs to exchange order IDs and is saved to disk, so
+ * an order that was in flight when the process died is found again on
+ * restart instead of being sent twice.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ExchangeGateway, OrderAck, OrderOptions, SideCode } from '../sdk/gateway.js';
+import { type Clock, systemClock } from '../engine/clock.js';
+
+// ==================== CLIENT IDS ====================
+
+export interface ClientOidParts {
+    engine: string;
+    symbol: string;
+    decisionTime: number;
+    decisionId?: string;        // Tells apart decisions made in the same millisecond
+    seq: number;
+}
+
+const MAX_CLIENT_OID_LENGTH = 40;
+
+/**
+ * e.g. stream-btc-mjv3k2o0-1: engine, base asset, decision time (base 36),
+ * decision ID if given, leg. Too long and the decision time is cut from the
+ * front, never the engine, asset or leg.
+ */
+export function makeClientOid({ engine, symbol, decisionTime, decisionId, seq }: ClientOidParts): string {
+    const base = symbol.replace('cmt_', '').replace(/usdt$/i, '');
+    const tag = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const id = decisionId ? `-${tag(decisionId).slice(-12)}` : '';
+    const prefix = `${tag(engine).slice(0, 12)}-${tag(base).slice(0, 10)}-`;
+    const leg = `-${seq}`;
+    const decision = `${Math.floor(decisionTime).toString(36)}${id}`;
+    return prefix + decision.slice(-(MAX_CLIENT_OID_LENGTH - prefix.length - leg.length)) + leg;
+}
+
+const PROCESS_NONCE = Math.floor(Math.random() * 36 ** 4).toString(36).padStart(4, '0');
+let nonceCount = 0;
+
+/**
+ * Decision ID no other call in any process gets: a random per-process tag
+ * and a counter. For orders that are never meant to be deduplicated.
+ */
+export function nextDecisionId(): string {
+    return `${PROCESS_NONCE}${(++nonceCount).toString(36)}`;
+}
+
+// ==================== REGISTRY ====================
+
+export type ClientOrderState = 'pending' | 'placed' | 'failed';
+
+export interface ClientOrderRecord {
+    clientOid: string;
+    orderId: string | null;
+    symbol: string;
+    side: SideCode;
+    size: number;
+    state: ClientOrderState;
+    createdAt: number;
+    updatedAt: number;
+    error?: string;
+}
+
+interface RegistryFile {
+    version: 1;
+    orders: ClientOrderRecord[];
+}
+
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * client_oid → exchange order ID. With a file path every change is written
+ * through; without one the registry lives in memory (backtests).
+ */
+export class ClientOrderRegistry {
+    readonly filePath: string | null;
+    private records: Map<string, ClientOrderRecord> = new Map();
+
+    constructor(filePath: string | null = null, now: number = Date.now()) {
+        this.filePath = filePath;
+        if (filePath && fs.existsSync(filePath)) this.load(now);
+    }
+
+    get(clientOid: string): ClientOrderRecord | undefined {
+        const record = this.records.get(clientOid);
+        return record ? { ...record } : undefined;
+    }
+
+    findByOrderId(orderId: string): ClientOrderRecord | undefined {
+        for (const record of this.records.values()) {
+            if (record.orderId === orderId) return { ...record };
+        }
+        return undefined;
+    }
+
+    pending(): ClientOrderRecord[] {
+        return [...this.records.values()].filter((r) => r.state === 'pending').map((r) => ({ ...r }));
+    }
+
+    set(record: ClientOrderRecord): void {
+        this.records.set(record.clientOid, { ...record });
+        this.save();
+    }
+
+    get size(): number {
+        return this.records.size;
+    }
+
+    private load(now: number): void {
+        const file = JSON.parse(fs.readFileSync(this.filePath!, 'utf-8')) as RegistryFile;
+        if (file.version !== 1 || !Array.isArray(file.orders)) {
+            throw new Error(`Unsupported client order registry format: ${this.filePath}`);
+        }
+        for (const record of file.orders) {
+            // Old settled entries are dropped; pending ones are kept until resolved
+            if (record.state !== 'pending' && now - record.updatedAt > RETENTION_MS) continue;
+            this.records.set(record.clientOid, record);
+        }
+    }
+
+    private save(): void {
+        if (!this.filePath) return;
+        const file: RegistryFile = { version: 1, orders: [...this.records.values()] };
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+        // Write-then-rename so a crash mid-write never leaves a truncated registry
+        const tmp = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(file, null, 2));
+        fs.renameSync(tmp, this.filePath);
+    }
+}
+
+let defaultRegistry: ClientOrderRegistry | null = null;
+
+/**
+ * Process-wide registry, saved to FENYR_ORDER_REGISTRY
+ * (default .fenyr/client-orders.json)
+ */
+export function getClientOrderRegistry(): ClientOrderRegistry {
+    if (!defaultRegistry) {
+        defaultRegistry = new ClientOrderRegistry(process.env.FENYR_ORDER_REGISTRY || path.join('.fenyr', 'client-orders.json'));
+    }
+    return defaultRegistry;
+}
+
+/**
+ * Swap the process-wide registry (backtests install an in-memory one).
+ * Returns the previous registry so it can be restored.
+ */
+export function setClientOrderRegistry(registry: ClientOrderRegistry | null): ClientOrderRegistry | null {
+    const previous = defaultRegistry;
+    defaultRegistry = registry;
+    return previous;
+}
+
+// ==================== PLACEMENT ====================
+
+export interface IdempotentPlaceOptions {
+    registry?: ClientOrderRegistry;
+    clock?: Clock;
+    attempts: number;           // Submissions, including the first
+    retryDelayMs: number;
+}
+
+const DEFAULT_PLACE_OPTIONS: IdempotentPlaceOptions = {
+    attempts: 3,
+    retryDelayMs: 1000,
+};
+
+/**
+ * Place an order under a client ID, at most once.
+ *
+ * - Already placed under this ID (registry): the recorded ack is returned.
+ * - Left pending by an earlier attempt or process: the exchange is asked first.
+ * - Placement times out or the connection drops: the exchange is asked for
+ *   the ID; only if it has no such order is it resubmitted (same ID, so the
+ *   exchange rejects a duplicate).
+ * - The exchange can't be asked: the record stays pending and the error is
+ *   thrown, so the next call with this ID checks again instead of resending.
+ * - Any other error is a rejection: recorded as failed and thrown.
+ * - The ID was already used for a different symbol, side or size: thrown,
+ *   nothing is sent.
+ */
+export async function placeOrderIdempotent(
+    weex: ExchangeGateway,
+    symbol: string,
+    side: SideCode,
+    size: number,
+    order: OrderOptions & { clientOid: string },
+    options: Partial<IdempotentPlaceOptions> = {}
+): Promise<OrderAck> {
+    const { clientOid } = order;
+    const { attempts, retryDelayMs, registry = getClientOrderRegistry(), clock = systemClock } = { ...DEFAULT_PLACE_OPTIONS, ...options };
+
+    const existing = registry.get(clientOid);
+    if (existing && (existing.symbol !== symbol || existing.side !== side || existing.size !== size)) {
+        throw new Error(`Client order ID ${clientOid} already used for a different order (${existing.symbol} side ${existing.side} size ${existing.size})`);
+    }
+    if (existing?.state === 'placed' && existing.orderId) return { orderId: existing.orderId, clientOid };
+
+    const now = clock.now();
+    const record: ClientOrderRecord = existing ?? {
+        clientOid, orderId: null, symbol, side, size, state: 'pending', createdAt: now, updatedAt: now,
+    };
+
+    const settle = (state: ClientOrderState, orderId: string | null, error?: string) => {
+        registry.set({ ...record, state, orderId, error, updatedAt: clock.now() });
+    };
+
+    /**
+     * Exchange order ID for this client ID, null if the exchange has none
+     */
+    const lookup = async (): Promise<string | null> => {
+        const order = await weex.getOrderByClientOid(symbol, clientOid);
+        return order?.orderId || null;
+    };
+
+    if (existing?.state === 'pending') {
+        const orderId = await lookup();
+        if (orderId) {
+            settle('placed', orderId);
+            return { orderId, clientOid };
+        }
+    }
+
+    registry.set({ ...record, state: 'pending', updatedAt: now });
+
+    let lastError: Error = new Error('not attempted');
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        try {
+            const ack = await weex.placeOrder(symbol, side, size, order);
+            if (!ack.orderId) throw new Error('no order id returned');
+            settle('placed', ack.orderId);
+            return { orderId: ack.orderId, clientOid };
+        } catch (error: any) {
+            lastError = error;
+            if (!isAmbiguousError(error)) break;
+        }
+
+        // Ambiguous: the order may have reached the exchange
+        let orderId: string | null;
+        try {
+            orderId = await lookup();
+        } catch (error: any) {
+            throw new Error(`${lastError.message} (order ${clientOid} left pending: lookup failed: ${error.message})`);
+        }
+        if (orderId) {
+            settle('placed', orderId);
+            return { orderId, clientOid };
+        }
+        if (attempt < attempts) await clock.sleep(retryDelayMs * attempt);
+    }
+
+    settle('failed', null, lastError.message);
+    throw lastError;
+}
+
+/**
+ * Errors after which the order may or may not be live on the exchange
+ */
+export function isAmbiguousError(error: Error & { code?: string }): boolean {
+    const text = `${error.code ?? ''} ${error.message}`;
+    return /timed? ?out|ETIMEDOUT|ECONNABORTED|ECONNRESET|EPIPE|EAI_AGAIN|socket hang up|network|daemon exited|status code 5\d\d/i.test(text);
+}
+
+export const ClientOrders = {
+    makeClientOid,
+    nextDecisionId,
+    placeOrderIdempotent,
+    getClientOrderRegistry,
+    setClientOrderRegistry,
+};
+
+export default ClientOrders;
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { Contract, ExchangeGateway } from '../sdk/gateway.js';
+import { VirtualClock } from '../engine/clock.js';
+import { getContractRegistry } from './contracts.js';
+
+const contract: Contract = {
+    symbol: 'cmt_btcusdt',
+    tickSize: 0.1,
+    lotSize: 0.001,
+    minSize: 0.001,
+    contractValue: 1,
+};
+
+/**
+ * Exchange that lists BTC and has no spec for anything else
+ */
+function fakeExchange() {
+    const calls = { listings: 0, lookups: 0 };
+    const gateway = {
+        async getContracts() {
+            calls.listings++;
+            return [contract];
+        },
+        async getContract(symbol: string) {
+            calls.lookups++;
+            throw new Error(`No contract ${symbol}`);
+        },
+    } as unknown as ExchangeGateway;
+    return { gateway, calls };
+}
+
+describe('ContractRegistry', () => {
+    it('remembers a missing spec for the TTL of the clock it was given', async () => {
+        const { gateway, calls } = fakeExchange();
+        const clock = new VirtualClock(0);
+        const registry = getContractRegistry(gateway, clock);
+
+        expect(await registry.find('cmt_ethusdt')).toBeNull();
+        expect(await registry.find('cmt_ethusdt')).toBeNull();
+        expect(calls.lookups).toBe(1);
+        expect(await registry.find('cmt_btcusdt')).toEqual(contract);
+
+        // Replay time, not wall time, expires the listing and the miss
+        await clock.runUntil(60 * 60 * 1000);
+        expect(await registry.find('cmt_ethusdt')).toBeNull();
+        expect(calls).toEqual({ listings: 2, lookups: 2 });
+    });
+});
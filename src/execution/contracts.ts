@@ -0,0 +1,125 @@
+/**
+ * Contract Registry
+ * Contract specs (tick, lot, min/max order size, contract value, max
+ * leverage, price band) per symbol, loaded for every symbol in one
+ * getContracts call and reloaded once they are older than the TTL.
+ *
+ * A symbol missing from the listing is fetched on its own; if that fails
+ * too, the failure is remembered for the TTL instead of retried on every
+ * call. If a reload fails, the specs already loaded keep being served until
+ * the next one.
+ */
+
+import type { ExchangeGateway, Contract } from '../sdk/gateway.js';
+import { type Clock, systemClock } from '../engine/clock.js';
+
+// ==================== TYPES ====================
+
+export interface ContractRegistryConfig {
+    ttlMs: number;              // Reload the listing after this long
+}
+
+const DEFAULT_CONFIG: ContractRegistryConfig = {
+    ttlMs: 60 * 60 * 1000,
+};
+
+// ==================== REGISTRY ====================
+
+export class ContractRegistry {
+    private weex: ExchangeGateway;
+    private config: ContractRegistryConfig;
+    private clock: Clock;
+    private contracts: Map<string, Contract> = new Map();
+    private misses: Map<string, { at: number; error: unknown }> = new Map();
+    private loadedAt = -Infinity;
+    private loading: Promise<void> | null = null;
+
+    constructor(weex: ExchangeGateway, config: Partial<ContractRegistryConfig> = {}, clock: Clock = systemClock) {
+        this.weex = weex;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.clock = clock;
+    }
+
+    /**
+     * Spec for a symbol; throws if the exchange has none
+     */
+    async get(symbol: string): Promise<Contract> {
+        if (this.clock.now() - this.loadedAt >= this.config.ttlMs) {
+            await this.load().catch(() => undefined);
+        }
+
+        const cached = this.contracts.get(symbol);
+        if (cached) return cached;
+
+        const miss = this.misses.get(symbol);
+        if (miss && this.clock.now() - miss.at < this.config.ttlMs) throw miss.error;
+
+        try {
+            const contract = await this.weex.getContract(symbol);
+            this.contracts.set(symbol, contract);
+            this.misses.delete(symbol);
+            return contract;
+        } catch (error) {
+            this.misses.set(symbol, { at: this.clock.now(), error });
+            throw error;
+        }
+    }
+
+    /**
+     * Spec for a symbol, or null if the exchange can't provide one. Callers
+     * carry on without it: sizes go out unrounded and the exchange still
+     * rejects off-step orders.
+     */
+    async find(symbol: string): Promise<Contract | null> {
+        return this.get(symbol).catch(() => null);
+    }
+
+    /**
+     * Spec for a symbol if it is already loaded (never asks the exchange)
+     */
+    peek(symbol: string): Contract | undefined {
+        return this.contracts.get(symbol);
+    }
+
+    /**
+     * Replace the cache with the exchange's listing. Concurrent callers share
+     * one request; a failed load is retried after the TTL, not on every get.
+     */
+    load(): Promise<void> {
+        this.loading ??= this.weex.getContracts()
+            .then((contracts) => {
+                this.contracts = new Map(contracts.map((c) => [c.symbol, c]));
+            })
+            .finally(() => {
+                this.loadedAt = this.clock.now();
+                this.loading = null;
+            });
+        return this.loading;
+    }
+
+    get symbols(): string[] {
+        return [...this.contracts.keys()];
+    }
+}
+
+const registries: WeakMap<ExchangeGateway, ContractRegistry> = new WeakMap();
+
+/**
+ * Registry shared by everything trading through a gateway. It keeps the
+ * clock of the first caller (pass the backtest's VirtualClock so the TTL
+ * runs on replay time).
+ */
+export function getContractRegistry(weex: ExchangeGateway, clock: Clock = systemClock): ContractRegistry {
+    let registry = registries.get(weex);
+    if (!registry) {
+        registry = new ContractRegistry(weex, {}, clock);
+        registries.set(weex, registry);
+    }
+    return registry;
+}
+
+export const Contracts = {
+    getContractRegistry,
+};
+
+export default Contracts;
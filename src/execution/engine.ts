@@ -1,9 +1,13 @@
 /**
  * TWAP/VWAP Execution Engine
- * Smart order execution to minimize market impact
+ * Smart order execution to minimize market impact.
+ * Every slice is a net buy/sell order intent, so a "sell" closes a long
+ * before it opens a short, and is rounded to the contract's lot by the
+ * intent's pre-trade checks.
  */
 
-import { RustSDKBridge } from '../sdk/rust-bridge.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
+import { executeOrderIntent } from './intent.js';
 
 export interface ExecutionConfig {
     symbol: string;
@@ -30,7 +34,7 @@ export interface ExecutionResult {
  * Splits orders evenly over time - ideal for low liquidity
  */
 export async function executeTWAP(
-    weex: RustSDKBridge,
+    weex: ExchangeGateway,
     config: ExecutionConfig
 ): Promise<ExecutionResult> {
     const startTime = Date.now();
@@ -46,7 +50,7 @@ export async function executeTWAP(
     console.log(`   Interval: ${intervalMs}ms`);
 
     try {
-        const startPrice = parseFloat((await weex.getTicker(config.symbol)).last);
+        const startPrice = (await weex.getTicker(config.symbol)).last;
 
         for (let i = 0; i < config.numSlices; i++) {
             // Wait for interval (except first slice)
@@ -56,7 +60,7 @@ export async function executeTWAP(
 
             // Get current price
             const ticker = await weex.getTicker(config.symbol);
-            const currentPrice = parseFloat(ticker.last);
+            const currentPrice = ticker.last;
 
             // Check slippage
             const slippage = Math.abs(currentPrice - startPrice) / startPrice;
@@ -66,26 +70,20 @@ export async function executeTWAP(
                 continue;
             }
 
-            // Place order slice
-            const side = config.side === 'buy' ? 1 : 2;
-            const result = await weex.placeOrder(
-                config.symbol,
-                sliceSize.toFixed(6),
-                side
-            );
-
-            if (result.code === '00000' || result.order_id) {
-                const orderId = result.order_id || result.data?.orderId || `slice_${i}`;
-                orderIds.push(String(orderId));
+            // Place order slice (covers an opposite position before opening)
+            const result = await executeOrderIntent(weex, config.symbol, { type: config.side, size: sliceSize }, { engine: 'twap' });
+
+            if (result.orderIds.length > 0) {
+                orderIds.push(...result.orderIds);
                 totalFilled += sliceSize;
                 totalValue += sliceSize * currentPrice;
                 console.log(`   ✅ Slice ${i + 1}/${config.numSlices}: ${sliceSize.toFixed(6)} @ $${currentPrice}`);
             } else {
-                console.log(`   ❌ Slice ${i + 1} failed: ${result.msg || 'Unknown error'}`);
+                console.log(`   ❌ Slice ${i + 1} failed: no order id returned`);
             }
         }
 
-        const endPrice = parseFloat((await weex.getTicker(config.symbol)).last);
+        const endPrice = (await weex.getTicker(config.symbol)).last;
         const avgPrice = totalFilled > 0 ? totalValue / totalFilled : endPrice;
         const actualSlippage = Math.abs(avgPrice - startPrice) / startPrice;
 
@@ -118,7 +116,7 @@ export async function executeTWAP(
  * Executes in proportion to market volume - better for liquid assets
  */
 export async function executeVWAP(
-    weex: RustSDKBridge,
+    weex: ExchangeGateway,
     config: ExecutionConfig,
     volumeProfile?: number[] // Historical volume distribution by period
 ): Promise<ExecutionResult> {
@@ -135,7 +133,7 @@ export async function executeVWAP(
     console.log(`   Slices: ${config.numSlices}`);
 
     try {
-        const startPrice = parseFloat((await weex.getTicker(config.symbol)).last);
+        const startPrice = (await weex.getTicker(config.symbol)).last;
         const intervalMs = config.durationMs / config.numSlices;
 
         for (let i = 0; i < config.numSlices; i++) {
@@ -150,7 +148,7 @@ export async function executeVWAP(
             if (sliceSize < 0.00001) continue; // Skip tiny slices
 
             const ticker = await weex.getTicker(config.symbol);
-            const currentPrice = parseFloat(ticker.last);
+            const currentPrice = ticker.last;
 
             // Check slippage
             const slippage = Math.abs(currentPrice - startPrice) / startPrice;
@@ -159,16 +157,10 @@ export async function executeVWAP(
                 continue;
             }
 
-            const side = config.side === 'buy' ? 1 : 2;
-            const result = await weex.placeOrder(
-                config.symbol,
-                sliceSize.toFixed(6),
-                side
-            );
+            const result = await executeOrderIntent(weex, config.symbol, { type: config.side, size: sliceSize }, { engine: 'vwap' });
 
-            if (result.code === '00000' || result.order_id) {
-                const orderId = result.order_id || result.data?.orderId || `vwap_${i}`;
-                orderIds.push(String(orderId));
+            if (result.orderIds.length > 0) {
+                orderIds.push(...result.orderIds);
                 totalFilled += sliceSize;
                 totalValue += sliceSize * currentPrice;
                 console.log(`   ✅ VWAP ${i + 1}/${config.numSlices}: ${sliceSize.toFixed(6)} (${(sliceWeight * 100).toFixed(1)}%)`);
@@ -220,31 +212,30 @@ function generateDefaultVolumeProfile(numSlices: number): number[] {
  * Quick market order execution (for urgent trades)
  */
 export async function executeMarket(
-    weex: RustSDKBridge,
+    weex: ExchangeGateway,
     symbol: string,
     size: number,
     side: 'buy' | 'sell'
 ): Promise<ExecutionResult> {
     const startTime = Date.now();
     const ticker = await weex.getTicker(symbol);
-    const startPrice = parseFloat(ticker.last);
+    const startPrice = ticker.last;
 
     try {
-        const sideNum = side === 'buy' ? 1 : 2;
-        const result = await weex.placeOrder(symbol, size.toFixed(6), sideNum);
+        const result = await executeOrderIntent(weex, symbol, { type: side, size }, { engine: 'market' });
 
         const endTicker = await weex.getTicker(symbol);
-        const endPrice = parseFloat(endTicker.last);
+        const endPrice = endTicker.last;
         const slippage = Math.abs(endPrice - startPrice) / startPrice;
 
         return {
-            success: result.code === '00000' || !!result.order_id,
-            ordersPlaced: 1,
+            success: result.orderIds.length > 0,
+            ordersPlaced: result.orderIds.length,
             totalFilled: size,
             avgPrice: endPrice,
             slippage,
             executionTime: Date.now() - startTime,
-            orderIds: [result.order_id || result.data?.orderId || 'unknown'],
+            orderIds: result.orderIds,
         };
 
     } catch (error) {
@@ -1,2 +1,7 @@
 // Execution module exports
 export * from './engine.js';
+export * from './intent.js';
+export * from './client-orders.js';
+export * from './contracts.js';
+export * from './pre-trade.js';
+export * from './order-manager.js';
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Contract, ExchangeGateway } from '../sdk/gateway.js';
+import { planOrderIntent, applyLegs, executeOrderIntent, type Holdings, type OrderIntent } from './intent.js';
+import { ClientOrderRegistry, setClientOrderRegistry } from './client-orders.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const contract: Contract = {
+    symbol: SYMBOL,
+    tickSize: 0.1,
+    lotSize: 0.001,
+    minSize: 0.001,
+    contractValue: 1,
+};
+
+const actions = (holdings: Holdings, intent: OrderIntent) =>
+    planOrderIntent(intent, holdings).map((leg) => `${leg.action} ${leg.size}`);
+
+describe('planOrderIntent', () => {
+    it('closes the opposite side before opening', () => {
+        expect(actions({ long: 0, short: 0.3 }, { type: 'long', size: 0.1 })).toEqual(['close_short 0.3', 'open_long 0.1']);
+    });
+
+    it('nets a buy against a short', () => {
+        expect(actions({ long: 0, short: 0.3 }, { type: 'buy', size: 0.1 })).toEqual(['close_short 0.1']);
+        expect(actions({ long: 0, short: 0.3 }, { type: 'buy', size: 0.5 })).toEqual(['close_short 0.3', 'open_long 0.2']);
+    });
+
+    it('clamps closes to the size held', () => {
+        expect(actions({ long: 0.2, short: 0 }, { type: 'close', side: 'long', size: 1 })).toEqual(['close_long 0.2']);
+        expect(actions({ long: 0, short: 0 }, { type: 'flatten' })).toEqual([]);
+    });
+
+    it('reverses the net position', () => {
+        expect(actions({ long: 0.2, short: 0 }, { type: 'reverse' })).toEqual(['close_long 0.2', 'open_short 0.2']);
+    });
+
+    it('rounds legs to the lot and drops those that round away', () => {
+        expect(planOrderIntent({ type: 'reduce', fraction: 0.5 }, { long: 0.0015, short: 0.0011 }, contract)).toEqual([]);
+
+        const sized = planOrderIntent({ type: 'sell', size: 0.12345 }, { long: 0.1, short: 0 }, contract);
+        expect(sized.map((leg) => leg.size)).toEqual([0.1, 0.023]);
+        expect(applyLegs({ long: 0.1, short: 0 }, sized, contract)).toEqual({ long: 0, short: 0.023 });
+    });
+});
+
+describe('executeOrderIntent', () => {
+    let previous: ClientOrderRegistry | null;
+
+    beforeEach(() => {
+        previous = setClientOrderRegistry(new ClientOrderRegistry(null));
+    });
+
+    afterEach(() => {
+        setClientOrderRegistry(previous);
+    });
+
+    function fakeExchange() {
+        const placed: { side: number; size: number; clientOid?: string; reduceOnly?: boolean }[] = [];
+        const gateway = {
+            async getContracts() {
+                return [contract];
+            },
+            async getPositions() {
+                return [{ symbol: SYMBOL, side: 'short', size: 0.05 }];
+            },
+            async getTicker() {
+                return { symbol: SYMBOL, last: 100 };
+            },
+            async getOrderByClientOid() {
+                return null;
+            },
+            async placeOrder(_symbol: string, side: number, size: number, { clientOid, reduceOnly }: { clientOid?: string; reduceOnly?: boolean }) {
+                placed.push({ side, size, clientOid, reduceOnly });
+                return { orderId: `o${placed.length}`, clientOid };
+            },
+        } as unknown as ExchangeGateway;
+        return { gateway, placed };
+    }
+
+    it('sends close legs first and as reduce-only', async () => {
+        const { gateway, placed } = fakeExchange();
+        await executeOrderIntent(gateway, SYMBOL, { type: 'long', size: 0.1 });
+
+        expect(placed.map(({ side, size, reduceOnly }) => ({ side, size, reduceOnly }))).toEqual([
+            { side: 2, size: 0.05, reduceOnly: true },
+            { side: 1, size: 0.1, reduceOnly: false },
+        ]);
+    });
+
+    it('places a decision once when it is executed again with the same decision time', async () => {
+        const { gateway, placed } = fakeExchange();
+        const first = await executeOrderIntent(gateway, SYMBOL, { type: 'close', side: 'short' }, { decisionTime: 1000 });
+        const again = await executeOrderIntent(gateway, SYMBOL, { type: 'close', side: 'short' }, { decisionTime: 1000 });
+
+        expect(again.orderIds).toEqual(first.orderIds);
+        expect(placed).toHaveLength(1);
+    });
+
+    it('never deduplicates calls without a decision time', async () => {
+        const { gateway, placed } = fakeExchange();
+        const first = await executeOrderIntent(gateway, SYMBOL, { type: 'close', side: 'short' });
+        const again = await executeOrderIntent(gateway, SYMBOL, { type: 'close', side: 'short' });
+
+        expect(again.clientOids).not.toEqual(first.clientOids);
+        expect(placed).toHaveLength(2);
+    });
+});
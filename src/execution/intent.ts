@@ -0,0 +1,301 @@
+/**
+ * Order Intents
+ * Callers say what they want ("go long 0.01", "flatten", "reduce by 50%",
+ * "reverse") instead of picking WEEX side codes. The current position is read
+ * from the exchange and turned into open/close legs:
+ *
+ * - Close legs are reduce-only: clamped to the size actually held, and sent
+ *   before any open leg. If a close leg fails, nothing is opened.
+ * - Long and short are tracked separately, so hedge-mode accounts holding
+ *   both sides are flattened/reduced correctly.
+ *
+ * Engines pass their OrderManager, which supplies the position and tracks
+ * each leg to its fills.
+ *
+ * Each leg is sent under a client order ID made from the engine, symbol,
+ * decision time and leg number, so executing the same decision twice (a
+ * retry, a restart) doesn't place its orders twice.
+ *
+ * Legs are market orders unless a type and price are given. Limit and
+ * post-only legs can rest, so an open leg may go out while the close ahead
+ * of it is still working.
+ *
+ * Every leg passes the pre-trade checks (lot/tick rounding, min/max size,
+ * price band, notional) against the contract registry before the first one
+ * is sent, so an intent with a bad leg sends nothing.
+ */
+
+import {
+    type ExchangeGateway, type Contract, type Position, type Ticker, type SideCode, type OrderType, type OrderOptions,
+    isPositionFor, roundOrderSize, roundToStep,
+} from '../sdk/gateway.js';
+import type { OrderManager, TrackedOrder } from './order-manager.js';
+import { makeClientOid, nextDecisionId, placeOrderIdempotent } from './client-orders.js';
+import { getContractRegistry } from './contracts.js';
+import type { Clock } from '../engine/clock.js';
+import { checkOrder } from './pre-trade.js';
+
+// ==================== TYPES ====================
+
+export type PositionSide = 'long' | 'short';
+
+export type OrderIntent =
+    | { type: 'long'; size: number }                        // Close any short, then open `size` long
+    | { type: 'short'; size: number }                       // Close any long, then open `size` short
+    | { type: 'buy'; size: number }                         // Net buy: covers a short first, the rest opens long
+    | { type: 'sell'; size: number }                        // Net sell: sells a long first, the rest opens short
+    | { type: 'close'; side: PositionSide; size?: number }  // Reduce one side (all of it by default)
+    | { type: 'flatten' }                                   // Close both sides
+    | { type: 'reduce'; fraction: number }                  // Close this fraction (0-1) of both sides
+    | { type: 'reverse'; size?: number };                   // Flatten, then open the other side (same size by default)
+
+export type OrderAction = 'open_long' | 'close_short' | 'open_short' | 'close_long';
+
+export interface OrderLeg {
+    action: OrderAction;
+    side: SideCode;
+    size: number;
+    reduceOnly: boolean;
+}
+
+/**
+ * Open size per side for one symbol (both non-zero only in hedge mode)
+ */
+export interface Holdings {
+    long: number;
+    short: number;
+}
+
+export interface IntentExecution {
+    symbol: string;
+    intent: OrderIntent;
+    before: Holdings;
+    after: Holdings;        // Expected once every leg fills
+    legs: OrderLeg[];
+    orderIds: string[];
+    orders: TrackedOrder[];  // Only when placed through an OrderManager
+    clientOids: string[];
+}
+
+export interface ExecuteIntentOptions {
+    orders?: OrderManager;      // Track the legs (and read the position) through this manager
+    engine?: string;            // Client order ID prefix (default: the manager's, else 'fenyr')
+    decisionTime?: number;      // When the decision was made; omitted, the orders are never deduplicated
+    decisionId?: string;        // Tells apart decisions made in the same millisecond
+    type?: OrderType;           // Every leg's order type (default: market)
+    price?: number;             // Limit price, required unless market
+    reduceOnly?: boolean;       // Send the close legs only, never open
+    clock?: Clock;              // Times the contract spec cache (default: system clock)
+}
+
+/**
+ * WEEX side code for each leg action
+ */
+export const LEG_SIDE: Record<OrderAction, SideCode> = {
+    open_long: 1,
+    close_short: 2,
+    open_short: 3,
+    close_long: 4,
+};
+
+const EPSILON = 1e-9; // Float noise, far below any lot
+
+// ==================== PLANNING ====================
+
+/**
+ * Sum the long and short sizes held for a symbol
+ */
+export function readHoldings(positions: Position[], symbol: string): Holdings {
+    const holdings: Holdings = { long: 0, short: 0 };
+    for (const p of positions) {
+        if (isPositionFor(p, symbol)) holdings[p.side] += p.size;
+    }
+    return holdings;
+}
+
+/**
+ * Legs that carry out an intent from the given holdings, closes first.
+ * With a contract spec, leg sizes are rounded down to its lot.
+ * Pure: nothing is sent.
+ */
+export function planOrderIntent(intent: OrderIntent, holdings: Holdings, contract: Contract | null = null): OrderLeg[] {
+    const closes: OrderLeg[] = [];
+    const opens: OrderLeg[] = [];
+    const close = (side: PositionSide, size: number) => {
+        const leg = makeLeg(side === 'long' ? 'close_long' : 'close_short', Math.min(size, holdings[side]), contract);
+        if (leg) closes.push(leg);
+    };
+    const open = (side: PositionSide, size: number) => {
+        const leg = makeLeg(side === 'long' ? 'open_long' : 'open_short', size, contract);
+        if (leg) opens.push(leg);
+    };
+
+    switch (intent.type) {
+        case 'long':
+        case 'short': {
+            close(opposite(intent.type), Infinity);
+            open(intent.type, intent.size);
+            break;
+        }
+        case 'buy':
+        case 'sell': {
+            const into: PositionSide = intent.type === 'buy' ? 'long' : 'short';
+            const covered = Math.min(intent.size, holdings[opposite(into)]);
+            close(opposite(into), covered);
+            open(into, intent.size - covered);
+            break;
+        }
+        case 'close':
+            close(intent.side, intent.size ?? Infinity);
+            break;
+        case 'flatten':
+            close('long', Infinity);
+            close('short', Infinity);
+            break;
+        case 'reduce': {
+            const fraction = Math.max(0, Math.min(1, intent.fraction));
+            close('long', holdings.long * fraction);
+            close('short', holdings.short * fraction);
+            break;
+        }
+        case 'reverse': {
+            const net = holdings.long - holdings.short;
+            if (Math.abs(net) <= EPSILON) break;
+            close('long', Infinity);
+            close('short', Infinity);
+            open(net > 0 ? 'short' : 'long', intent.size ?? Math.abs(net));
+            break;
+        }
+    }
+
+    return [...closes, ...opens];
+}
+
+/**
+ * Holdings once the legs fill (on the contract's lot, given a spec)
+ */
+export function applyLegs(holdings: Holdings, legs: OrderLeg[], contract: Contract | null = null): Holdings {
+    const after = { ...holdings };
+    for (const leg of legs) {
+        const side: PositionSide = leg.action.endsWith('long') ? 'long' : 'short';
+        const size = after[side] + (leg.reduceOnly ? -leg.size : leg.size);
+        after[side] = contract ? roundToStep(size, contract.lotSize) : size;
+    }
+    return after;
+}
+
+/**
+ * Intent for a tool/agent action name (open_long, close_short, ...), or null
+ * if the action is unknown. Opens add `size`; closes reduce by at most `size`.
+ */
+export function intentForAction(action: string, size?: number): OrderIntent | null {
+    switch (action) {
+        case 'open_long': return size !== undefined ? { type: 'long', size } : null;
+        case 'open_short': return size !== undefined ? { type: 'short', size } : null;
+        case 'close_long': return { type: 'close', side: 'long', size };
+        case 'close_short': return { type: 'close', side: 'short', size };
+        default: return null;
+    }
+}
+
+// ==================== EXECUTION ====================
+
+/**
+ * Read the position, plan the legs, check them and place them in order.
+ * Throws a PreTradeError if any leg fails the pre-trade checks (nothing is
+ * sent), or an Error if a leg fails; legs placed before it are named.
+ *
+ * With an OrderManager the position comes from its ledger, the legs are
+ * tracked to their fills, and a close leg the exchange rejects or cancels
+ * stops the open legs behind it.
+ *
+ * Client order IDs come from `decisionTime` (and `decisionId`): executing
+ * the same decision again returns the orders it already placed. Without a
+ * decisionTime the call gets a fresh decision ID, so deduplication is off
+ * and every call places new orders.
+ */
+export async function executeOrderIntent(
+    weex: ExchangeGateway,
+    symbol: string,
+    intent: OrderIntent,
+    options: ExecuteIntentOptions = {}
+): Promise<IntentExecution> {
+    const { orders: manager, engine = manager?.engine ?? 'fenyr', decisionTime, type = 'market', price = 0, reduceOnly = false } = options;
+    const { decisionId = decisionTime === undefined ? nextDecisionId() : undefined } = options;
+    if (type !== 'market' && !(price > 0)) throw new Error(`A ${type} order needs a price`);
+
+    // Without contract specs the legs go out unrounded; the exchange still rejects off-step orders
+    const contract = await getContractRegistry(weex, options.clock).find(symbol);
+    const before = manager ? manager.holdings(symbol) : readHoldings(await weex.getPositions(), symbol);
+    const planned = planOrderIntent(intent, before, contract).filter((leg) => !reduceOnly || leg.reduceOnly);
+
+    // Market closes need no reference price: no band, no notional limit
+    const needsReference = type !== 'market' || planned.some((leg) => !leg.reduceOnly);
+    const reference = needsReference ? referencePrice(await weex.getTicker(symbol)) : 0;
+    const checked = planned.map((leg) => ({
+        leg,
+        order: checkOrder(symbol, { side: leg.side, size: leg.size, type, price, reduceOnly: leg.reduceOnly }, contract, reference),
+    })).filter(({ order }) => order.size > 0);
+
+    const legs = checked.map(({ leg, order }) => ({ ...leg, size: order.size }));
+    const orderFor = (i: number, clientOid: string): OrderOptions & { clientOid: string } => ({
+        type,
+        price: type === 'market' ? undefined : checked[i].order.price,
+        clientOid,
+        reduceOnly: legs[i].reduceOnly,
+    });
+    const clientOids = legs.map((_, seq) => makeClientOid({ engine, symbol, decisionTime: decisionTime ?? Date.now(), decisionId, seq }));
+    const orderIds: string[] = [];
+    const orders: TrackedOrder[] = [];
+
+    for (const [i, leg] of legs.entries()) {
+        try {
+            if (manager) {
+                const order = await manager.place(symbol, leg.side, leg.size, orderFor(i, clientOids[i]));
+                if (leg.reduceOnly && (order.state === 'rejected' || order.state === 'canceled')) {
+                    throw new Error(`order ${order.orderId} ${order.state}`);
+                }
+                orderIds.push(order.orderId);
+                orders.push(order);
+            } else {
+                const ack = await placeOrderIdempotent(weex, symbol, leg.side, leg.size, orderFor(i, clientOids[i]));
+                orderIds.push(ack.orderId);
+            }
+        } catch (error: any) {
+            const done = legs.slice(0, orderIds.length).map(describeLeg).join(', ') || 'nothing';
+            throw new Error(`${describeLeg(leg)} failed (placed: ${done}): ${error.message}`);
+        }
+    }
+
+    return { symbol, intent, before, after: applyLegs(before, legs, contract), legs, orderIds, orders, clientOids };
+}
+
+export function describeLeg(leg: OrderLeg): string {
+    return `${leg.action.toUpperCase()} ${leg.size}`;
+}
+
+// ==================== HELPERS ====================
+
+function makeLeg(action: OrderAction, size: number, contract: Contract | null): OrderLeg | null {
+    const rounded = contract ? roundOrderSize(contract, size) : size;
+    if (!(rounded > EPSILON)) return null;
+    return { action, side: LEG_SIDE[action], size: rounded, reduceOnly: action.startsWith('close_') };
+}
+
+function referencePrice(ticker: Ticker): number {
+    return ticker.markPrice || ticker.last;
+}
+
+function opposite(side: PositionSide): PositionSide {
+    return side === 'long' ? 'short' : 'long';
+}
+
+export const OrderIntents = {
+    readHoldings,
+    planOrderIntent,
+    applyLegs,
+    intentForAction,
+    executeOrderIntent,
+};
+
+export default OrderIntents;
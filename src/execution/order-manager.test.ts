@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ExchangeGateway, Fill, Order } from '../sdk/gateway.js';
+import { VirtualClock } from '../engine/clock.js';
+import { OrderManager } from './order-manager.js';
+import { ClientOrderRegistry, setClientOrderRegistry } from './client-orders.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+/**
+ * Exchange whose order details and fill list the test sets directly
+ */
+function fakeExchange() {
+    const state = {
+        orders: new Map<string, Order>(),
+        fills: [] as Fill[],
+        failPositions: new Set<string>(),
+        nextId: 1,
+    };
+    const gateway = {
+        async placeOrder(symbol: string, side: 1 | 2 | 3 | 4, size: number) {
+            const orderId = `o${state.nextId++}`;
+            state.orders.set(orderId, {
+                orderId, symbol, side, size, price: 0, filledSize: 0, avgPrice: 0, fee: 0, realizedPnl: 0, status: 'new', createdAt: 0,
+            });
+            return { orderId };
+        },
+        async getOrderByClientOid() {
+            return null;
+        },
+        async getOrder(_symbol: string, orderId: string) {
+            return { ...state.orders.get(orderId)! };
+        },
+        async getFills() {
+            return [...state.fills];
+        },
+        async getPositions() {
+            if (state.failPositions.size > 0) throw new Error('positions down');
+            return [];
+        },
+    } as unknown as ExchangeGateway;
+
+    const report = (orderId: string, update: Partial<Order>) => {
+        state.orders.set(orderId, { ...state.orders.get(orderId)!, ...update });
+    };
+    return { state, gateway, report };
+}
+
+describe('OrderManager', () => {
+    let previous: ClientOrderRegistry | null;
+
+    beforeEach(() => {
+        previous = setClientOrderRegistry(new ClientOrderRegistry(null));
+    });
+
+    afterEach(() => {
+        setClientOrderRegistry(previous);
+    });
+
+    it('books a late fill on a canceled order without reopening it', async () => {
+        const { state, gateway, report } = fakeExchange();
+        const manager = new OrderManager(gateway, {}, new VirtualClock(0));
+
+        const order = await manager.place(SYMBOL, 1, 1);
+        const first: Fill = { tradeId: 't1', orderId: order.orderId, symbol: SYMBOL, price: 100, size: 0.4, fee: 0.02, timestamp: 1 };
+        state.fills.push(first);
+        report(order.orderId, { status: 'canceled', filledSize: 0.4, avgPrice: 100, fee: 0.02 });
+        await manager.reconcile(SYMBOL);
+
+        const late: Fill = { ...first, tradeId: 't2', size: 0.1, timestamp: 5 };
+        manager.ingestFill(late);
+        manager.ingestFill(first);
+        manager.ingestFill(late);
+
+        expect(manager.holdings(SYMBOL).long).toBeCloseTo(0.5);
+        expect(manager.getOrder(order.orderId)!.state).toBe('canceled');
+        expect(manager.openOrders(SYMBOL)).toEqual([]);
+    });
+
+    it('books a fill once when the order detail reports it before the fill record', async () => {
+        const { state, gateway, report } = fakeExchange();
+        const manager = new OrderManager(gateway, {}, new VirtualClock(0));
+
+        const order = await manager.place(SYMBOL, 1, 1);
+        report(order.orderId, { status: 'partially_filled', filledSize: 0.5, avgPrice: 100, fee: 0.03 });
+        await manager.reconcile(SYMBOL);
+        expect(manager.holdings(SYMBOL).long).toBeCloseTo(0.5);
+
+        // The real fill for the same quantity arrives later under its own trade ID
+        state.fills.push({ tradeId: 't1', orderId: order.orderId, symbol: SYMBOL, price: 100, size: 0.5, fee: 0.03, timestamp: 1 });
+        await manager.reconcile(SYMBOL);
+        expect(manager.holdings(SYMBOL).long).toBeCloseTo(0.5);
+        expect(manager.getOrder(order.orderId)!.filledSize).toBeCloseTo(0.5);
+
+        // The rest fills through a fill record first
+        state.fills.push({ tradeId: 't2', orderId: order.orderId, symbol: SYMBOL, price: 102, size: 0.5, fee: 0.03, timestamp: 2 });
+        report(order.orderId, { status: 'filled', filledSize: 1, avgPrice: 101, fee: 0.06 });
+        await manager.reconcile(SYMBOL);
+
+        const position = manager.position(SYMBOL);
+        expect(position.long.size).toBeCloseTo(1);
+        expect(position.long.entryPrice).toBeCloseTo(101);
+        expect(position.fees).toBeCloseTo(0.06);
+        expect(manager.getOrder(order.orderId)!.state).toBe('filled');
+    });
+
+    it('books fills pushed without an order detail', async () => {
+        const { gateway } = fakeExchange();
+        const manager = new OrderManager(gateway, {}, new VirtualClock(0));
+        const order = await manager.place(SYMBOL, 3, 2);
+
+        manager.ingestFill({ tradeId: 't1', orderId: order.orderId, symbol: SYMBOL, price: 50, size: 2, fee: 0.1, timestamp: 1 });
+        manager.ingestFill({ tradeId: 't1', orderId: order.orderId, symbol: SYMBOL, price: 50, size: 2, fee: 0.1, timestamp: 1 });
+
+        expect(manager.holdings(SYMBOL)).toEqual({ long: 0, short: 2 });
+        expect(manager.getOrder(order.orderId)!.state).toBe('filled');
+    });
+
+    it('realizes PnL when a close fills', async () => {
+        const { gateway } = fakeExchange();
+        const manager = new OrderManager(gateway, {}, new VirtualClock(0));
+        const open = await manager.place(SYMBOL, 1, 1);
+        manager.ingestFill({ tradeId: 't1', orderId: open.orderId, symbol: SYMBOL, price: 100, size: 1, fee: 0, timestamp: 1 });
+        const close = await manager.place(SYMBOL, 4, 1);
+        manager.ingestFill({ tradeId: 't2', orderId: close.orderId, symbol: SYMBOL, price: 110, size: 1, fee: 0, timestamp: 2 });
+
+        const position = manager.position(SYMBOL);
+        expect(position.long.size).toBe(0);
+        expect(position.realizedPnl).toBeCloseTo(10);
+    });
+
+    it('keeps polling the other symbols when one fails', async () => {
+        const { state, gateway, report } = fakeExchange();
+        const clock = new VirtualClock(0);
+        const manager = new OrderManager(gateway, { pollIntervalMs: 1000, positionSyncMs: 0 }, clock);
+        await manager.start(['cmt_ethusdt', SYMBOL]);
+
+        const order = await manager.place(SYMBOL, 1, 1);
+        state.failPositions.add('cmt_ethusdt');
+        report(order.orderId, { status: 'filled', filledSize: 1, avgPrice: 100 });
+        await clock.runUntil(1000);
+        manager.stop();
+
+        expect(manager.getOrder(order.orderId)!.state).toBe('filled');
+    });
+});
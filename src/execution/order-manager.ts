@@ -0,0 +1,475 @@
+/**
+ * Order Manager
+ * Tracks every order from placement to a final state and owns the
+ * position/PnL ledger the engines read.
+ *
+ * A placeOrder ack only means the exchange took the order. The manager
+ * moves it through new → partially_filled → filled (or canceled/rejected)
+ * from what the exchange reports: getFills and getOrder polling on the
+ * clock, or ingestOrder()/ingestFill() pushed from a private WS channel.
+ * Positions change on fills only, at the fill price and with its fee.
+ *
+ * While no order is in flight the ledger is re-synced from getPositions,
+ * so liquidations and manual closes still show up.
+ *
+ * Every order goes out under a client ID (see client-orders.ts), so a
+ * placement that times out is looked up rather than sent twice.
+ */
+
+import { EventEmitter } from 'events';
+import chalk from 'chalk';
+import {
+    type ExchangeGateway, type Order, type OrderOptions, type OrderStatus, type OrderType, type Fill, type SideCode,
+    isPositionFor,
+} from '../sdk/gateway.js';
+import { type Clock, type TimerHandle, systemClock } from '../engine/clock.js';
+import type { Holdings, OrderAction, PositionSide } from './intent.js';
+import { getClientOrderRegistry, makeClientOid, nextDecisionId, placeOrderIdempotent } from './client-orders.js';
+
+// ==================== TYPES ====================
+
+export interface TrackedOrder {
+    orderId: string;
+    clientOid: string;
+    symbol: string;
+    side: SideCode;
+    action: OrderAction;
+    type: OrderType;
+    price: number;          // Limit price, 0 for market orders
+    size: number;
+    filledSize: number;
+    avgPrice: number;
+    fee: number;
+    state: OrderStatus;
+    placedAt: number;
+    updatedAt: number;
+    reason?: string;        // Why it was rejected or lost
+}
+
+export interface OrderFill {
+    orderId: string;
+    tradeId: string;
+    symbol: string;
+    side: SideCode;
+    action: OrderAction;
+    price: number;
+    size: number;
+    fee: number;
+    realizedPnl: number;    // Before fees; 0 on opening fills
+    timestamp: number;
+    inferred: boolean;      // Derived from the order's filled size, no fill record seen
+}
+
+export interface PositionLeg {
+    size: number;
+    entryPrice: number;
+}
+
+export interface ManagedPosition {
+    symbol: string;
+    long: PositionLeg;
+    short: PositionLeg;
+    realizedPnl: number;
+    fees: number;
+}
+
+export interface NetPosition {
+    side: PositionSide;
+    size: number;
+    entryPrice: number;
+}
+
+export interface OrderManagerEvents {
+    order: [TrackedOrder];
+    fill: [OrderFill];
+    position: [ManagedPosition];
+}
+
+export interface OrderManagerConfig {
+    engine: string;             // Client order ID prefix
+    pollIntervalMs: number;
+    positionSyncMs: number;     // Re-read positions this often while idle
+    lostAfterMs: number;        // An order the exchange can't find for this long is marked unknown
+}
+
+const DEFAULT_CONFIG: OrderManagerConfig = {
+    engine: 'fenyr',
+    pollIntervalMs: 2000,
+    positionSyncMs: 30_000,
+    lostAfterMs: 30_000,
+};
+
+const SIDE_ACTIONS: Record<SideCode, OrderAction> = {
+    1: 'open_long',
+    2: 'close_short',
+    3: 'open_short',
+    4: 'close_long',
+};
+
+const FINAL_STATES: OrderStatus[] = ['filled', 'canceled', 'rejected', 'unknown'];
+const EPSILON = 1e-9;
+
+/**
+ * One-sided view of a position (the larger side, net of the other)
+ */
+export function netPosition(position: ManagedPosition): NetPosition | null {
+    const net = position.long.size - position.short.size;
+    if (Math.abs(net) <= EPSILON) return null;
+    const leg = net > 0 ? position.long : position.short;
+    return { side: net > 0 ? 'long' : 'short', size: Math.abs(net), entryPrice: leg.entryPrice };
+}
+
+// ==================== MANAGER ====================
+
+export class OrderManager extends EventEmitter<OrderManagerEvents> {
+    private weex: ExchangeGateway;
+    private config: OrderManagerConfig;
+    private clock: Clock;
+
+    private orders: Map<string, TrackedOrder> = new Map();
+    private positions: Map<string, ManagedPosition> = new Map();
+    private seenTrades: Map<string, Set<string>> = new Map();   // Per live order: trade IDs booked; dropped once it is final
+    private lastFillAt: Map<string, number> = new Map();        // Per order: newest fill record booked
+    private inferred: Map<string, number> = new Map();   // Per order: size booked from order details, not yet matched by a fill record
+    private symbols: Set<string> = new Set();
+    private lastSync: Map<string, number> = new Map();
+    private pollTimer: TimerHandle | null = null;
+    private polling: boolean = false;
+    private rejectedCount: number = 0;
+    private canceling: Set<string> = new Set();
+
+    constructor(weex: ExchangeGateway, config: Partial<OrderManagerConfig> = {}, clock: Clock = systemClock) {
+        super();
+        this.weex = weex;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.clock = clock;
+    }
+
+    /**
+     * Load the current positions and start polling
+     */
+    async start(symbols: string | string[]): Promise<void> {
+        for (const symbol of [symbols].flat()) {
+            this.symbols.add(symbol);
+            await this.syncPositions(symbol);
+        }
+        if (this.pollTimer) return;
+        this.pollTimer = this.clock.setInterval(() => this.poll(), this.config.pollIntervalMs);
+    }
+
+    stop(): void {
+        this.clock.clearInterval(this.pollTimer);
+        this.pollTimer = null;
+    }
+
+    get engine(): string {
+        return this.config.engine;
+    }
+
+    // ==================== ORDERS ====================
+
+    /**
+     * Place an order (market unless `options.type` says otherwise) and track
+     * it. Reconciles once straight away, so an order the exchange fills
+     * immediately comes back already filled, and an IOC/FOK/post-only order
+     * it kills comes back canceled. Throws (after emitting a rejected order)
+     * if the exchange refuses it.
+     *
+     * Without a clientOid one is made from the engine name, the clock and a
+     * counter. Placing the same clientOid again returns the order already
+     * tracked for it instead of sending a second one.
+     */
+    async place(symbol: string, side: SideCode, size: number, options: OrderOptions = {}): Promise<TrackedOrder> {
+        this.symbols.add(symbol);
+        const now = this.clock.now();
+        const { type = 'market', price = 0, reduceOnly } = options;
+        const clientOid = options.clientOid ?? makeClientOid({ engine: this.config.engine, symbol, decisionTime: now, decisionId: nextDecisionId(), seq: 0 });
+        const order: TrackedOrder = {
+            orderId: '', clientOid, symbol, side, action: SIDE_ACTIONS[side], type, price, size,
+            filledSize: 0, avgPrice: 0, fee: 0, state: 'new', placedAt: now, updatedAt: now,
+        };
+
+        const registry = getClientOrderRegistry();
+        try {
+            const request = { type, price: type === 'market' ? undefined : price, clientOid, reduceOnly };
+            const ack = await placeOrderIdempotent(this.weex, symbol, side, size, request, { registry, clock: this.clock });
+            order.orderId = ack.orderId;
+        } catch (error: any) {
+            order.orderId = `rejected-${++this.rejectedCount}`;
+            // Still pending in the registry: it may be live, the next placement under this ID checks
+            order.state = registry.get(clientOid)?.state === 'pending' ? 'unknown' : 'rejected';
+            order.reason = error.message;
+            this.emit('order', { ...order });
+            throw error;
+        }
+
+        const tracked = this.orders.get(order.orderId);
+        if (tracked) return { ...tracked };
+
+        this.orders.set(order.orderId, order);
+        this.emit('order', { ...order });
+
+        try {
+            await this.reconcile(symbol);
+        } catch (error: any) {
+            console.log(chalk.yellow(`   ⚠️ [Orders] Reconcile failed, retrying on the next poll: ${error.message}`));
+        }
+        return { ...order };
+    }
+
+    /**
+     * Cancel an open order. Anything that filled before the cancel landed is
+     * still booked: the order is reconciled straight after.
+     */
+    async cancel(orderId: string): Promise<TrackedOrder | undefined> {
+        const order = this.orders.get(orderId);
+        if (!order || FINAL_STATES.includes(order.state) || this.canceling.has(orderId)) return order ? { ...order } : undefined;
+
+        this.canceling.add(orderId);
+        try {
+            await this.weex.cancelOrder(order.symbol, orderId);
+        } catch (error: any) {
+            // Usually filled in the meantime; the reconcile below tells
+            console.log(chalk.yellow(`   ⚠️ [Orders] Cancel ${orderId} failed: ${error.message}`));
+        } finally {
+            this.canceling.delete(orderId);
+        }
+
+        try {
+            await this.reconcile(order.symbol);
+        } catch (error: any) {
+            console.log(chalk.yellow(`   ⚠️ [Orders] Reconcile failed, retrying on the next poll: ${error.message}`));
+        }
+        return { ...order };
+    }
+
+    getOrder(orderId: string): TrackedOrder | undefined {
+        const order = this.orders.get(orderId);
+        return order ? { ...order } : undefined;
+    }
+
+    openOrders(symbol?: string): TrackedOrder[] {
+        return [...this.orders.values()]
+            .filter((o) => !FINAL_STATES.includes(o.state) && (!symbol || o.symbol === symbol))
+            .map((o) => ({ ...o }));
+    }
+
+    // ==================== POSITIONS ====================
+
+    position(symbol: string): ManagedPosition {
+        const p = this.ledger(symbol);
+        return { ...p, long: { ...p.long }, short: { ...p.short } };
+    }
+
+    holdings(symbol: string): Holdings {
+        const p = this.ledger(symbol);
+        return { long: p.long.size, short: p.short.size };
+    }
+
+    /**
+     * Replace the ledger's sizes and entry prices with the exchange's.
+     * Realized PnL and fees are kept.
+     */
+    async syncPositions(symbol: string): Promise<void> {
+        const positions = (await this.weex.getPositions()).filter((p) => isPositionFor(p, symbol));
+        this.lastSync.set(symbol, this.clock.now());
+
+        const ledger = this.ledger(symbol);
+        const next: Record<PositionSide, PositionLeg> = { long: { size: 0, entryPrice: 0 }, short: { size: 0, entryPrice: 0 } };
+        for (const p of positions) {
+            const leg = next[p.side];
+            const size = leg.size + p.size;
+            if (size > 0) leg.entryPrice = (leg.entryPrice * leg.size + p.entryPrice * p.size) / size;
+            leg.size = size;
+        }
+
+        const changed = (['long', 'short'] as const).some((side) =>
+            Math.abs(ledger[side].size - next[side].size) > EPSILON || Math.abs(ledger[side].entryPrice - next[side].entryPrice) > EPSILON);
+        if (!changed) return;
+
+        ledger.long = next.long;
+        ledger.short = next.short;
+        this.emit('position', this.position(symbol));
+    }
+
+    // ==================== RECONCILIATION ====================
+
+    /**
+     * Poll fills and order details for every open order on a symbol
+     */
+    async reconcile(symbol: string): Promise<void> {
+        const open = this.openOrders(symbol);
+        if (open.length === 0) return;
+
+        // Fill records carry real prices and fees; order details catch what the fill list misses
+        try {
+            for (const fill of await this.weex.getFills(symbol)) this.ingestFill(fill);
+        } catch {
+            // Order details below still move the orders forward
+        }
+
+        for (const tracked of open) {
+            try {
+                this.ingestOrder(await this.weex.getOrder(symbol, tracked.orderId));
+            } catch (error: any) {
+                this.markLostIfStale(tracked.orderId, error.message);
+            }
+        }
+    }
+
+    /**
+     * Apply an order update (order detail poll or private WS push)
+     */
+    ingestOrder(update: Order): void {
+        const order = this.orders.get(update.orderId);
+        if (!order || FINAL_STATES.includes(order.state)) return;
+
+        // Some venues report a filled order without a filled size
+        const filledSize = update.status === 'filled' && update.filledSize <= 0 ? order.size : update.filledSize;
+        const missing = filledSize - order.filledSize;
+
+        if (missing > EPSILON) {
+            const avgPrice = update.avgPrice > 0 ? update.avgPrice : update.price;
+            const notional = avgPrice * filledSize - order.avgPrice * order.filledSize;
+            const price = notional > 0 ? notional / missing : avgPrice;
+            if (price > 0) {
+                this.inferred.set(order.orderId, (this.inferred.get(order.orderId) ?? 0) + missing);
+                this.applyFill(order, {
+                    tradeId: `${order.orderId}#${filledSize}`,
+                    price,
+                    size: missing,
+                    fee: Math.max(0, update.fee - order.fee),
+                    timestamp: this.clock.now(),
+                    inferred: true,
+                });
+            }
+        }
+
+        if (update.status !== 'unknown') this.setState(order, update.status);
+    }
+
+    /**
+     * Apply a fill record (fills poll or private WS push). Fills for orders
+     * this manager didn't place are ignored; the idle re-sync picks them up.
+     *
+     * A fill the order detail already reported was booked then (inferred);
+     * it is netted against that instead of booked a second time.
+     *
+     * A late fill on a final order (canceled, lost) is booked but leaves the
+     * order final. Its trade IDs are no longer kept by then, so a fill no
+     * newer than the last one booked is taken as a replay.
+     */
+    ingestFill(fill: Fill): void {
+        const order = this.orders.get(fill.orderId);
+        if (!order) return;
+
+        const final = FINAL_STATES.includes(order.state);
+        const seen = this.seenTrades.get(order.orderId) ?? new Set<string>();
+        const lastFillAt = this.lastFillAt.get(order.orderId) ?? -Infinity;
+        if (final ? fill.timestamp <= lastFillAt : seen.has(fill.tradeId)) return;
+        if (!final) this.seenTrades.set(order.orderId, seen.add(fill.tradeId));
+        this.lastFillAt.set(order.orderId, Math.max(fill.timestamp, lastFillAt));
+
+        const inferred = this.inferred.get(order.orderId) ?? 0;
+        const covered = Math.min(fill.size, inferred);
+        if (inferred - covered > EPSILON) this.inferred.set(order.orderId, inferred - covered);
+        else this.inferred.delete(order.orderId);
+
+        const size = Math.min(fill.size - covered, order.size - order.filledSize);
+        if (size <= EPSILON) return;
+
+        const fee = fill.fee * (size / fill.size);
+        this.applyFill(order, { tradeId: fill.tradeId, price: fill.price, size, fee, timestamp: fill.timestamp, inferred: false });
+        if (!final) this.setState(order, order.filledSize >= order.size - EPSILON ? 'filled' : 'partially_filled');
+    }
+
+    // ==================== INTERNALS ====================
+
+    private async poll(): Promise<void> {
+        if (this.polling) return;
+        this.polling = true;
+        try {
+            // One symbol failing doesn't hold up the others
+            for (const symbol of this.symbols) {
+                try {
+                    if (this.openOrders(symbol).length > 0) {
+                        await this.reconcile(symbol);
+                    } else if (this.clock.now() - (this.lastSync.get(symbol) ?? 0) >= this.config.positionSyncMs) {
+                        await this.syncPositions(symbol);
+                    }
+                } catch (error: any) {
+                    console.log(chalk.yellow(`   ⚠️ [Orders] Poll failed for ${symbol}: ${error.message}`));
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private applyFill(order: TrackedOrder, fill: Omit<OrderFill, 'orderId' | 'symbol' | 'side' | 'action' | 'realizedPnl'>): void {
+        const ledger = this.ledger(order.symbol);
+        const side: PositionSide = order.action.endsWith('long') ? 'long' : 'short';
+        const leg = ledger[side];
+        let realizedPnl = 0;
+
+        if (order.action.startsWith('open_')) {
+            const size = leg.size + fill.size;
+            leg.entryPrice = (leg.entryPrice * leg.size + fill.price * fill.size) / size;
+            leg.size = size;
+        } else {
+            const closed = Math.min(fill.size, leg.size);
+            realizedPnl = (fill.price - leg.entryPrice) * closed * (side === 'long' ? 1 : -1);
+            leg.size -= closed;
+            if (leg.size <= EPSILON) ledger[side] = { size: 0, entryPrice: 0 };
+        }
+        ledger.realizedPnl += realizedPnl;
+        ledger.fees += fill.fee;
+
+        const filled = order.filledSize + fill.size;
+        order.avgPrice = (order.avgPrice * order.filledSize + fill.price * fill.size) / filled;
+        order.filledSize = filled;
+        order.fee += fill.fee;
+        order.updatedAt = this.clock.now();
+
+        this.emit('fill', {
+            ...fill,
+            orderId: order.orderId,
+            symbol: order.symbol,
+            side: order.side,
+            action: order.action,
+            realizedPnl,
+        });
+        this.emit('position', this.position(order.symbol));
+    }
+
+    private setState(order: TrackedOrder, state: OrderStatus): void {
+        if (order.state === state) return;
+        if (FINAL_STATES.includes(state)) this.seenTrades.delete(order.orderId);
+        order.state = state;
+        order.updatedAt = this.clock.now();
+        this.emit('order', { ...order });
+    }
+
+    /**
+     * Give up on an order the exchange keeps failing to report, and re-read
+     * the position since it may or may not have filled
+     */
+    private markLostIfStale(orderId: string, reason: string): void {
+        const order = this.orders.get(orderId);
+        if (!order || this.clock.now() - order.placedAt < this.config.lostAfterMs) return;
+        order.reason = reason;
+        this.setState(order, 'unknown');
+        this.lastSync.delete(order.symbol);
+    }
+
+    private ledger(symbol: string): ManagedPosition {
+        let ledger = this.positions.get(symbol);
+        if (!ledger) {
+            ledger = { symbol, long: { size: 0, entryPrice: 0 }, short: { size: 0, entryPrice: 0 }, realizedPnl: 0, fees: 0 };
+            this.positions.set(symbol, ledger);
+        }
+        return ledger;
+    }
+}
+
+export default OrderManager;
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { Contract } from '../sdk/gateway.js';
+import { checkOrder, PreTradeError, type PreTradeLimits, type PreTradeOrder } from './pre-trade.js';
+
+const SYMBOL = 'cmt_btcusdt';
+const LIMITS: PreTradeLimits = { maxNotional: 10_000, priceBand: 0.05 };
+
+const contract: Contract = {
+    symbol: SYMBOL,
+    tickSize: 0.1,
+    lotSize: 0.001,
+    minSize: 0.01,
+    maxSize: 5,
+    contractValue: 1,
+    priceBand: 0.03,
+};
+
+const open = (order: Partial<PreTradeOrder>): PreTradeOrder => ({ side: 1, size: 0.1, type: 'market', reduceOnly: false, ...order });
+const close = (order: Partial<PreTradeOrder>): PreTradeOrder => ({ side: 4, size: 0.1, type: 'market', reduceOnly: true, ...order });
+
+function ruleOf(fn: () => unknown): string | undefined {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof PreTradeError) return error.rule;
+        throw error;
+    }
+    return undefined;
+}
+
+describe('checkOrder', () => {
+    it('rounds sizes down to the lot and limit prices away from the market', () => {
+        expect(checkOrder(SYMBOL, open({ size: 0.12345, type: 'limit', price: 100.07 }), contract, 100, LIMITS))
+            .toEqual({ size: 0.123, price: 100, notional: 12.3 });
+        expect(checkOrder(SYMBOL, open({ side: 3, size: 0.12345, type: 'limit', price: 100.01 }), contract, 100, LIMITS).price).toBe(100.1);
+    });
+
+    it('returns a zero size instead of throwing when the size rounds away', () => {
+        expect(checkOrder(SYMBOL, open({ size: 0.0004 }), contract, 100, LIMITS).size).toBe(0);
+    });
+
+    it('rejects opening sizes outside the contract limits', () => {
+        expect(ruleOf(() => checkOrder(SYMBOL, open({ size: 0.005 }), contract, 100, LIMITS))).toBe('min_size');
+        expect(ruleOf(() => checkOrder(SYMBOL, open({ size: 6 }), contract, 1, LIMITS))).toBe('max_size');
+    });
+
+    it('lets a close below the minimum size through', () => {
+        expect(checkOrder(SYMBOL, close({ size: 0.005 }), contract, 100, LIMITS).size).toBe(0.005);
+    });
+
+    it('rejects limit prices outside the tighter of the two bands', () => {
+        expect(ruleOf(() => checkOrder(SYMBOL, open({ type: 'limit', price: 96 }), contract, 100, LIMITS))).toBe('price_band');
+        expect(ruleOf(() => checkOrder(SYMBOL, open({ type: 'limit', price: 96 }), null, 100, LIMITS))).toBeUndefined();
+    });
+
+    it('applies the notional limit to opens only', () => {
+        expect(ruleOf(() => checkOrder(SYMBOL, open({ size: 2 }), contract, 10_000, LIMITS))).toBe('notional');
+        expect(ruleOf(() => checkOrder(SYMBOL, close({ size: 2 }), contract, 10_000, LIMITS))).toBeUndefined();
+    });
+
+    it('measures notional in base units through the contract value', () => {
+        const inverse = { ...contract, contractValue: 0.01, minSize: 1, lotSize: 1, maxSize: undefined };
+        expect(checkOrder(SYMBOL, open({ size: 10 }), inverse, 100, LIMITS).notional).toBe(10);
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Pre-Trade Checks
+ * Every order is checked against its symbol's contract spec and the
+ * fat-finger limits before it is sent:
+ *
+ * - Size is rounded down to the lot. Above the contract's maximum order
+ *   size is rejected, and so is below its minimum unless the order is
+ *   reduce-only (a position smaller than the minimum can still be closed).
+ * - Limit prices are rounded to the tick (buys down, sells up) and rejected
+ *   if further from the reference price than the price band allows (the
+ *   tighter of the limit and the contract's own band).
+ * - An opening order worth more than the notional limit is rejected.
+ *   Reduce-only orders are exempt, so a position can always be exited.
+ *
+ * Without a contract spec only the price band and notional are checked.
+ */
+
+import {
+    type Contract, type OrderType, type SideCode,
+    roundOrderSize, roundOrderPrice,
+} from '../sdk/gateway.js';
+
+// ==================== TYPES ====================
+
+export type PreTradeRule = 'min_size' | 'max_size' | 'price_band' | 'notional';
+
+export class PreTradeError extends Error {
+    readonly symbol: string;
+    readonly rule: PreTradeRule;
+
+    constructor(symbol: string, rule: PreTradeRule, message: string) {
+        super(`Pre-trade check failed for ${symbol}: ${message}`);
+        this.name = 'PreTradeError';
+        this.symbol = symbol;
+        this.rule = rule;
+    }
+}
+
+export interface PreTradeLimits {
+    maxNotional: number;        // USDT per opening order (fat-finger limit)
+    priceBand: number;          // Max limit price distance from the reference (fraction)
+}
+
+export const DEFAULT_PRE_TRADE_LIMITS: PreTradeLimits = {
+    maxNotional: 100_000,
+    priceBand: 0.05,
+};
+
+export interface PreTradeOrder {
+    side: SideCode;
+    size: number;
+    type: OrderType;
+    price?: number;             // Required unless market
+    reduceOnly: boolean;
+}
+
+export interface CheckedOrder {
+    size: number;               // Rounded to the lot; 0 if it rounds away
+    price?: number;             // Rounded to the tick
+    notional: number;           // USDT at the limit price (market: the reference)
+}
+
+// ==================== LIMITS ====================
+
+let limits: PreTradeLimits = {
+    maxNotional: Number(process.env.FENYR_MAX_NOTIONAL) || DEFAULT_PRE_TRADE_LIMITS.maxNotional,
+    priceBand: Number(process.env.FENYR_PRICE_BAND) || DEFAULT_PRE_TRADE_LIMITS.priceBand,
+};
+
+/**
+ * Process-wide limits (FENYR_MAX_NOTIONAL and FENYR_PRICE_BAND override the defaults)
+ */
+export function getPreTradeLimits(): PreTradeLimits {
+    return { ...limits };
+}
+
+/**
+ * Change some of the process-wide limits. Returns the previous limits so
+ * they can be restored.
+ */
+export function setPreTradeLimits(update: Partial<PreTradeLimits>): PreTradeLimits {
+    const previous = limits;
+    limits = { ...limits, ...update };
+    return { ...previous };
+}
+
+// ==================== CHECKS ====================
+
+/**
+ * Round an order to the contract and check it against the limits.
+ * Throws a PreTradeError naming the rule it breaks. A size that rounds to
+ * zero is not an error: the result's size is 0 and nothing should be sent.
+ *
+ * `reference` is the current price (mark or last) bands and market
+ * notionals are measured against.
+ */
+export function checkOrder(
+    symbol: string,
+    order: PreTradeOrder,
+    contract: Contract | null,
+    reference: number,
+    { maxNotional, priceBand }: PreTradeLimits = getPreTradeLimits()
+): CheckedOrder {
+    const size = contract ? roundOrderSize(contract, order.size) : order.size;
+    const price = order.type === 'market' || order.price === undefined ? undefined
+        : contract ? roundOrderPrice(contract, order.side, order.price) : order.price;
+    const notional = size * (contract?.contractValue ?? 1) * (price ?? reference);
+    if (size === 0) return { size, price, notional: 0 };
+
+    if (contract && !order.reduceOnly && size < contract.minSize) {
+        throw new PreTradeError(symbol, 'min_size', `size ${size} below the minimum ${contract.minSize}`);
+    }
+    if (contract?.maxSize !== undefined && size > contract.maxSize) {
+        throw new PreTradeError(symbol, 'max_size', `size ${size} above the maximum ${contract.maxSize}`);
+    }
+
+    if (price !== undefined && reference > 0) {
+        const band = Math.min(priceBand, contract?.priceBand ?? Infinity);
+        const distance = Math.abs(price - reference) / reference;
+        if (distance > band) {
+            throw new PreTradeError(symbol, 'price_band',
+                `price ${price} is ${(distance * 100).toFixed(2)}% from ${reference} (band ${(band * 100).toFixed(2)}%)`);
+        }
+    }
+
+    if (!order.reduceOnly && notional > maxNotional) {
+        throw new PreTradeError(symbol, 'notional', `notional $${notional.toFixed(2)} above the $${maxNotional} limit`);
+    }
+
+    return { size, price, notional };
+}
+
+export const PreTrade = {
+    checkOrder,
+    getPreTradeLimits,
+    setPreTradeLimits,
+};
+
+export default PreTrade;
@@ -0,0 +1,62 @@
+/**
+ * LLM Client
+ * The slice of the OpenAI client the agents and engines actually use
+ *
+ * Anything with a compatible `chat.completions.create` works: the OpenAI SDK
+ * pointed at any OpenAI-compatible provider, an LLMRouter, or a ReplayLLMClient
+ * wrapping either. Clients that can route per role (RoutedChatClient) hand each
+ * agent its own view and model.
+ */
+
+import OpenAI from 'openai';
+
+export type ChatRequest = OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
+export type ChatResponse = OpenAI.Chat.Completions.ChatCompletion;
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.Completions.ChatCompletionTool;
+export type ChatToolCall = OpenAI.Chat.Completions.ChatCompletionMessageToolCall;
+
+export interface ChatClient {
+    chat: {
+        completions: {
+            create(request: ChatRequest): Promise<ChatResponse>;
+        };
+    };
+}
+
+/**
+ * Rough token cost of a request (prompt at ~4 chars/token plus the completion budget),
+ * for rate limiting before the provider reports real usage
+ */
+export function estimateTokens(request: ChatRequest): number {
+    const prompt = Math.ceil(JSON.stringify(request.messages).length / 4);
+    return prompt + (request.max_tokens ?? request.max_completion_tokens ?? 512);
+}
+
+/**
+ * A client that picks the provider and model per agent role
+ */
+export interface RoutedChatClient extends ChatClient {
+    forRole(role: string): ChatClient;
+    modelFor(role: string): string | undefined;
+}
+
+export function isRoutedClient(client: ChatClient): client is RoutedChatClient {
+    return typeof (client as Partial<RoutedChatClient>).forRole === 'function';
+}
+
+/**
+ * The client an agent with this role should call (the client itself if it doesn't route)
+ */
+export function clientForRole(client: ChatClient, role: string): ChatClient {
+    return isRoutedClient(client) ? client.forRole(role) : client;
+}
+
+/**
+ * The model configured for this role, or `fallback` if the client doesn't route
+ */
+export function modelForRole(client: ChatClient, role: string, fallback: string): string {
+    return (isRoutedClient(client) && client.modelFor(role)) || fallback;
+}
+
+export default ChatClient;
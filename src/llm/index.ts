@@ -0,0 +1,9 @@
+/**
+ * LLM module exports
+ */
+
+export * from './client.js';
+export * from './replay.js';
+export * from './structured.js';
+export * from './router.js';
+export * from './scheduler.js';
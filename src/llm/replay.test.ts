@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { ChatClient } from './client.js';
+import type { ExchangeGateway } from '../sdk/gateway.js';
+import { neutralStub } from './replay.js';
+import { parseStructured } from './structured.js';
+import {
+    NEUTRAL_RESPONSES, MarketAnalystResponseSchema, SentimentResponseSchema, FundamentalsResponseSchema,
+    BullResponseSchema, BearResponseSchema, RiskManagerResponseSchema, LeadDecisionResponseSchema, StrategicResponseSchema,
+} from '../agents/schemas.js';
+import { MarketAnalystAgent } from '../agents/market-analyst.js';
+import { SentimentAgent } from '../agents/sentiment.js';
+import { FundamentalsAnalystAgent } from '../agents/fundamentals-analyst.js';
+import { BullResearcherAgent } from '../agents/bull-researcher.js';
+import { BearResearcherAgent } from '../agents/bear-researcher.js';
+import { RiskManagerAgent } from '../agents/risk-manager.js';
+
+const openai = {} as ChatClient;
+const weex = {} as ExchangeGateway;
+
+const stubFor = (systemPrompt: string) => neutralStub({
+    model: 'stub',
+    messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: 'Context: {"action": "buy", "positionSize": 1}' }],
+}, 'key') as string;
+
+describe('neutralStub', () => {
+    it('answers every agent with JSON its schema accepts', () => {
+        const agents = [
+            [new MarketAnalystAgent(openai, weex), MarketAnalystResponseSchema],
+            [new SentimentAgent(openai, weex), SentimentResponseSchema],
+            [new FundamentalsAnalystAgent(openai, weex), FundamentalsResponseSchema],
+            [new BullResearcherAgent(openai, weex), BullResponseSchema],
+            [new BearResearcherAgent(openai, weex), BearResponseSchema],
+            [new RiskManagerAgent(openai, weex), RiskManagerResponseSchema],
+        ] as const;
+
+        for (const [agent, schema] of agents) {
+            const result = parseStructured(stubFor(agent.getSystemPrompt()), schema);
+            expect(result, agent.getName()).toMatchObject({ ok: true, value: { confidence: 0 } });
+        }
+    });
+
+    it('answers the lead and strategic prompts with no trade', () => {
+        const lead = parseStructured(stubFor('{"action": ..., "confidence": ..., "positionSize": ..., "reasoning": ...}'), LeadDecisionResponseSchema);
+        expect(lead).toMatchObject({ ok: true, value: { action: 'hold', positionSize: 0 } });
+
+        const strategic = stubFor('"bias", "biasStrength", "signalThreshold", "riskPerTrade", "weights", "reasoning"');
+        expect(parseStructured(strategic, StrategicResponseSchema)).toMatchObject({ ok: true, value: { bias: 'neutral', biasStrength: 0 } });
+    });
+
+    it('keeps each neutral response valid for its schemas', () => {
+        for (const { schemas, response } of NEUTRAL_RESPONSES) {
+            for (const schema of schemas) expect(schema.safeParse(response).success).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,243 @@
+/**
+ * Replay LLM Client
+ * Record / replay / stub wrapper around a ChatClient, so agent runs can be
+ * reproduced offline and backtested
+ *
+ * - live:   pass straight through
+ * - record: call the wrapped client and append each request/response to a cassette file
+ * - replay: answer from the cassette only; a request that was never recorded throws
+ * - stub:   answer with a pluggable deterministic response, no network
+ *
+ * Requests are keyed by a SHA-256 of the normalized request (stable key order,
+ * ISO timestamps and epoch-ms values masked), so the wall-clock time baked into
+ * prompts doesn't break matching. Identical requests recorded more than once
+ * replay in the order they were recorded.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { clientForRole, isRoutedClient } from './client.js';
+import { NEUTRAL_RESPONSES } from '../agents/schemas.js';
+import type { ChatClient, ChatRequest, ChatResponse, RoutedChatClient } from './client.js';
+
+export type LLMMode = 'live' | 'record' | 'replay' | 'stub';
+
+export const LLM_MODES: LLMMode[] = ['live', 'record', 'replay', 'stub'];
+
+export interface CassetteEntry {
+    key: string;
+    request: ChatRequest;
+    response: ChatResponse;
+}
+
+export interface Cassette {
+    version: 1;
+    entries: CassetteEntry[];
+}
+
+/**
+ * Stub responder: return the message content, or a full completion
+ */
+export type StubResponder = (request: ChatRequest, key: string) => string | ChatResponse;
+
+export interface ReplayLLMConfig {
+    mode: LLMMode;
+    cassettePath?: string;      // Required by record and replay
+    stub?: StubResponder;
+}
+
+export interface ReplayStats {
+    calls: number;
+    recorded: number;
+    replayed: number;
+    stubbed: number;
+}
+
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g;
+const EPOCH_MS = /\b1\d{12}\b/g;
+
+/**
+ * Zero-confidence, no-trade JSON that passes the asking agent's schema. The
+ * agent is told apart by the field names its system prompt asks for.
+ */
+export const neutralStub: StubResponder = (request) => {
+    const prompt = request.messages
+        .filter((m) => m.role === 'system' && typeof m.content === 'string')
+        .map((m) => m.content)
+        .join('\n');
+    const match = NEUTRAL_RESPONSES.find(({ response }) => Object.keys(response).every((field) => prompt.includes(field)));
+    return JSON.stringify((match ?? NEUTRAL_RESPONSES[NEUTRAL_RESPONSES.length - 1]).response);
+};
+
+// ==================== NORMALIZATION ====================
+
+function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+        const sorted: Record<string, unknown> = {};
+        for (const key of Object.keys(value).sort()) {
+            const v = (value as Record<string, unknown>)[key];
+            if (v !== undefined) sorted[key] = sortKeys(v);
+        }
+        return sorted;
+    }
+    return value;
+}
+
+/**
+ * Canonical string form of a request, with volatile times masked
+ */
+export function normalizeRequest(request: ChatRequest): string {
+    return JSON.stringify(sortKeys(request))
+        .replace(ISO_TIMESTAMP, '<time>')
+        .replace(EPOCH_MS, '<ms>');
+}
+
+export function requestKey(request: ChatRequest): string {
+    return crypto.createHash('sha256').update(normalizeRequest(request)).digest('hex');
+}
+
+// ==================== CLIENT ====================
+
+export class ReplayLLMClient implements RoutedChatClient {
+    readonly mode: LLMMode;
+    readonly stats: ReplayStats = { calls: 0, recorded: 0, replayed: 0, stubbed: 0 };
+
+    private inner: ChatClient | null;
+    private cassettePath: string | null;
+    private stub: StubResponder;
+    private cassette: Cassette = { version: 1, entries: [] };
+    private queues: Map<string, ChatResponse[]> = new Map();
+    private views: Map<string, ChatClient> = new Map();
+
+    readonly chat: ChatClient['chat'];
+
+    constructor(inner: ChatClient | null, config: ReplayLLMConfig) {
+        this.mode = config.mode;
+        this.inner = inner;
+        this.cassettePath = config.cassettePath ?? null;
+        this.stub = config.stub ?? neutralStub;
+
+        if ((this.mode === 'live' || this.mode === 'record') && !inner) {
+            throw new Error(`LLM ${this.mode} mode needs a client to call`);
+        }
+        if ((this.mode === 'record' || this.mode === 'replay') && !this.cassettePath) {
+            throw new Error(`LLM ${this.mode} mode needs a cassette file`);
+        }
+        if (this.mode === 'replay') this.load();
+
+        this.chat = { completions: { create: (request) => this.create(request) } };
+    }
+
+    /**
+     * Role view that records/replays around the inner client's view for the same role
+     */
+    forRole(role: string): ChatClient {
+        let view = this.views.get(role);
+        if (!view) {
+            view = { chat: { completions: { create: (request) => this.create(request, role) } } };
+            this.views.set(role, view);
+        }
+        return view;
+    }
+
+    modelFor(role: string): string | undefined {
+        return this.inner && isRoutedClient(this.inner) ? this.inner.modelFor(role) : undefined;
+    }
+
+    /**
+     * Recorded responses not yet consumed by a replay
+     */
+    get remaining(): number {
+        let count = 0;
+        for (const queue of this.queues.values()) count += queue.length;
+        return count;
+    }
+
+    private async create(request: ChatRequest, role?: string): Promise<ChatResponse> {
+        this.stats.calls++;
+        const key = requestKey(request);
+        const inner = this.inner && role ? clientForRole(this.inner, role) : this.inner;
+
+        switch (this.mode) {
+            case 'live':
+                return inner!.chat.completions.create(request);
+
+            case 'record': {
+                const response = await inner!.chat.completions.create(request);
+                this.cassette.entries.push({ key, request, response });
+                this.save();
+                this.stats.recorded++;
+                return response;
+            }
+
+            case 'replay': {
+                const response = this.queues.get(key)?.shift();
+                if (!response) {
+                    throw new Error(`No recorded LLM response for request ${key.slice(0, 12)} (model ${request.model}) in ${this.cassettePath}`);
+                }
+                this.stats.replayed++;
+                return structuredClone(response);
+            }
+
+            case 'stub': {
+                this.stats.stubbed++;
+                const result = this.stub(request, key);
+                return typeof result === 'string' ? stubCompletion(request, key, result) : result;
+            }
+
+            default:
+                throw new Error(`Unknown LLM mode: ${this.mode}`);
+        }
+    }
+
+    private load(): void {
+        const cassette = JSON.parse(fs.readFileSync(this.cassettePath!, 'utf-8')) as Cassette;
+        if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+            throw new Error(`Unsupported cassette format: ${this.cassettePath}`);
+        }
+        for (const entry of cassette.entries) {
+            // Re-key on load so cassettes survive changes to the normalization
+            const key = requestKey(entry.request);
+            const queue = this.queues.get(key) ?? [];
+            queue.push(entry.response);
+            this.queues.set(key, queue);
+        }
+        this.cassette = cassette;
+    }
+
+    private save(): void {
+        // Rewritten after every call so an interrupted session keeps what it recorded
+        fs.mkdirSync(path.dirname(this.cassettePath!), { recursive: true });
+        fs.writeFileSync(this.cassettePath!, JSON.stringify(this.cassette, null, 2));
+    }
+}
+
+function stubCompletion(request: ChatRequest, key: string, content: string): ChatResponse {
+    return {
+        id: `stub-${key.slice(0, 24)}`,
+        object: 'chat.completion',
+        created: 0,
+        model: request.model,
+        choices: [{
+            index: 0,
+            message: { role: 'assistant', content, refusal: null },
+            finish_reason: 'stop',
+            logprobs: null,
+        }],
+    };
+}
+
+/**
+ * Wrap a client for the given mode ('live' returns it untouched)
+ */
+export function createLLMClient(inner: ChatClient | null, config: ReplayLLMConfig): ChatClient {
+    if (config.mode === 'live') {
+        if (!inner) throw new Error('LLM live mode needs a client to call');
+        return inner;
+    }
+    return new ReplayLLMClient(inner, config);
+}
+
+export default ReplayLLMClient;
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import type { ChatRequest, ChatResponse } from './client.js';
+import { LLMRouter, RouterConfigSchema, routerConfigFromEnv, roleKey, type RouterConfig } from './router.js';
+
+const request: ChatRequest = { model: 'ignored', messages: [{ role: 'user', content: 'hi' }], max_tokens: 10 };
+
+const response = (model: string): ChatResponse => ({
+    id: model,
+    object: 'chat.completion',
+    created: 0,
+    model,
+    choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', content: model, refusal: null } }],
+});
+
+const config = (): RouterConfig => RouterConfigSchema.parse({
+    providers: {
+        fast: { baseURL: 'https://fast.example/v1', apiKeyEnv: 'FAST_KEY', params: { temperature: 0.1 } },
+        backup: { baseURL: 'https://backup.example/v1', apiKeyEnv: 'BACKUP_KEY' },
+    },
+    roles: {
+        default: [{ provider: 'fast', model: 'small' }, { provider: 'backup', model: 'large' }],
+        risk_manager: [{ provider: 'backup', model: 'large', params: { reasoning_effort: 'high' } }],
+    },
+});
+
+/**
+ * Replace a provider's SDK client with one that records requests and
+ * answers or throws as told
+ */
+function stubProvider(router: LLMRouter, name: string, fail?: { status?: number; message: string }) {
+    const sent: ChatRequest[] = [];
+    router['providers'].get(name)!.client = {
+        chat: {
+            completions: {
+                create: async (req: ChatRequest) => {
+                    sent.push(req);
+                    if (fail) throw Object.assign(new Error(fail.message), { status: fail.status });
+                    return response(req.model);
+                },
+            },
+        },
+    } as never;
+    return sent;
+}
+
+const env = { FAST_KEY: 'a', BACKUP_KEY: 'b' };
+
+describe('RouterConfigSchema', () => {
+    it('needs a default role and known providers', () => {
+        const result = RouterConfigSchema.safeParse({
+            providers: {},
+            roles: { trader: [{ provider: 'nowhere', model: 'm' }] },
+        });
+        expect(result.success).toBe(false);
+        expect(result.error!.issues.map((i) => i.message)).toEqual(['A default role is required', 'Unknown provider "nowhere"']);
+    });
+});
+
+describe('LLMRouter', () => {
+    it('sends each role to its own chain with provider and target params merged', async () => {
+        const router = new LLMRouter(config(), env);
+        const fast = stubProvider(router, 'fast');
+        const backup = stubProvider(router, 'backup');
+
+        await router.forRole('market_analyst').chat.completions.create(request);
+        await router.forRole('risk_manager').chat.completions.create(request);
+
+        expect(fast).toMatchObject([{ model: 'small', temperature: 0.1 }]);
+        expect(backup).toMatchObject([{ model: 'large', reasoning_effort: 'high' }]);
+        expect(router.describe('market_analyst')).toBe('fast/small → backup/large');
+    });
+
+    it('falls back on errors and skips a rate-limited provider while it cools down', async () => {
+        const router = new LLMRouter(config(), env);
+        const fast = stubProvider(router, 'fast', { status: 429, message: 'Too many requests' });
+        const backup = stubProvider(router, 'backup');
+
+        expect((await router.chat.completions.create(request)).model).toBe('large');
+        expect((await router.chat.completions.create(request)).model).toBe('large');
+        expect(fast).toHaveLength(1);
+        expect(backup).toHaveLength(2);
+    });
+
+    it('skips providers without a key and reports exhausted quota as a quota error', async () => {
+        const router = new LLMRouter(config(), { BACKUP_KEY: 'b' });
+        stubProvider(router, 'backup', { message: 'You exceeded your current quota' });
+
+        expect(router.availableProviders).toEqual(['backup']);
+        // A missing key is not a quota problem
+        const error = await router.chat.completions.create(request).catch((e) => e);
+        expect(error.message).toBe('All LLM providers failed for default: fast: FAST_KEY not set | backup/large: You exceeded your current quota');
+        expect(error.code).toBeUndefined();
+
+        const quotaOnly = new LLMRouter({ ...config(), roles: { default: config().roles.risk_manager } }, { BACKUP_KEY: 'b' });
+        stubProvider(quotaOnly, 'backup', { message: 'You exceeded your current quota' });
+        await expect(quotaOnly.chat.completions.create(request)).rejects.toMatchObject({ code: 'insufficient_quota' });
+    });
+});
+
+describe('routerConfigFromEnv', () => {
+    it('uses the first provider with a key for every role', () => {
+        const fromEnv = routerConfigFromEnv('gpt-oss-120b', { TOGETHER_API_KEY: 't', OPENAI_API_KEY: 'o' });
+        expect(fromEnv?.roles).toEqual({ default: [{ provider: 'together', model: 'gpt-oss-120b', params: { reasoning_effort: 'high' } }] });
+        expect(Object.keys(fromEnv!.providers)).toEqual(['together', 'openai']);
+        expect(routerConfigFromEnv('m', {})).toBeNull();
+    });
+
+    it('turns agent names into role keys', () => {
+        expect(roleKey('MarketAnalyst')).toBe('market_analyst');
+        expect(roleKey('RiskManager:cmt_btcusdt')).toBe('risk_manager');
+    });
+});
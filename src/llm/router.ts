@@ -0,0 +1,285 @@
+/**
+ * LLM Router
+ * Provider registry with per-role model selection and fallback chains
+ *
+ * Configured from a JSON file (see llm.config.example.json):
+ *
+ *   providers: name → { baseURL, apiKeyEnv, rpm?, tpm?, params?, cooldownMs?, maxRetries? }
+ *   roles:     role → ordered [{ provider, model, params? }], plus a required "default"
+ *   scheduler: optional { rpm, tpm, maxConcurrent, priorities } for the LLMScheduler
+ *
+ * Each request goes to the first target in the role's chain whose provider has
+ * a key, isn't cooling down and is within its RPM/TPM window. On an error the
+ * next target is tried; rate-limit and quota errors also put the provider on
+ * cooldown so later calls skip straight past it. Provider- and model-specific
+ * parameters (reasoning_effort, ...) are merged in here, not at call sites.
+ */
+
+import fs from 'fs';
+import OpenAI from 'openai';
+import chalk from 'chalk';
+import { z } from 'zod';
+import { estimateTokens } from './client.js';
+import type { ChatClient, ChatRequest, ChatResponse, RoutedChatClient } from './client.js';
+
+// ==================== CONFIG ====================
+
+const ProviderConfigSchema = z.object({
+    baseURL: z.string().url(),
+    apiKeyEnv: z.string(),
+    rpm: z.number().positive().optional(),
+    tpm: z.number().positive().optional(),
+    params: z.record(z.unknown()).default({}),
+    cooldownMs: z.number().nonnegative().default(60_000),
+    maxRetries: z.number().int().nonnegative().default(2),  // SDK retries before falling back
+});
+
+const RouteTargetSchema = z.object({
+    provider: z.string(),
+    model: z.string(),
+    params: z.record(z.unknown()).default({}),
+});
+
+// Process-wide budget for the LLMScheduler (provider limits above still apply)
+const SchedulerConfigSchema = z.object({
+    rpm: z.number().positive(),
+    tpm: z.number().positive(),
+    maxConcurrent: z.number().int().positive(),
+    priorities: z.record(z.enum(['critical', 'high', 'normal', 'background'])),
+}).partial();
+
+export const RouterConfigSchema = z.object({
+    providers: z.record(ProviderConfigSchema),
+    roles: z.record(z.array(RouteTargetSchema).min(1)),
+    scheduler: SchedulerConfigSchema.optional(),
+}).superRefine((config, ctx) => {
+    if (!config.roles.default) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['roles', 'default'], message: 'A default role is required' });
+    }
+    for (const [role, chain] of Object.entries(config.roles)) {
+        chain.forEach((target, i) => {
+            if (!config.providers[target.provider]) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ['roles', role, i, 'provider'],
+                    message: `Unknown provider "${target.provider}"`,
+                });
+            }
+        });
+    }
+});
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>;
+export type RouteTarget = z.infer<typeof RouteTargetSchema>;
+export type RouterConfig = z.infer<typeof RouterConfigSchema>;
+
+export function loadRouterConfig(path: string): RouterConfig {
+    const parsed = RouterConfigSchema.safeParse(JSON.parse(fs.readFileSync(path, 'utf-8')));
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+        throw new Error(`Invalid LLM config ${path}: ${issues.join('; ')}`);
+    }
+    return parsed.data;
+}
+
+/**
+ * Providers known without a config file, in the order the env vars are preferred
+ */
+const ENV_PROVIDERS: { name: string; apiKeyEnv: string; baseURL: string }[] = [
+    { name: 'groq', apiKeyEnv: 'GROQ_API_KEY', baseURL: 'https://api.groq.com/openai/v1' },
+    { name: 'together', apiKeyEnv: 'TOGETHER_API_KEY', baseURL: 'https://api.together.xyz/v1' },
+    { name: 'mimo', apiKeyEnv: 'MIMO_API_KEY', baseURL: 'https://api.xiaomimimo.com/v1' },
+    { name: 'openai', apiKeyEnv: 'OPENAI_API_KEY', baseURL: 'https://api.openai.com/v1' },
+];
+
+/**
+ * Single-provider config from whichever API key is set (the pre-router behaviour):
+ * every role uses `model` on the first provider found. Null when no key is set.
+ */
+export function routerConfigFromEnv(model: string, env: NodeJS.ProcessEnv = process.env): RouterConfig | null {
+    const available = ENV_PROVIDERS.filter((p) => env[p.apiKeyEnv]);
+    if (available.length === 0) return null;
+
+    const providers: Record<string, ProviderConfig> = {};
+    for (const p of available) {
+        providers[p.name] = { baseURL: p.baseURL, apiKeyEnv: p.apiKeyEnv, params: {}, cooldownMs: 60_000, maxRetries: 2 };
+    }
+
+    // Reasoning models get high effort by default
+    const params = /gpt-oss|reasoning/i.test(model) ? { reasoning_effort: 'high' } : {};
+    return { providers, roles: { default: [{ provider: available[0].name, model, params }] } };
+}
+
+/**
+ * 'MarketAnalyst' → 'market_analyst': agent names double as role keys
+ */
+export function roleKey(name: string): string {
+    return name.split(':')[0].replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+// ==================== RATE WINDOW ====================
+
+interface WindowEntry {
+    time: number;
+    tokens: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Sliding one-minute window of requests and tokens
+ */
+class RateWindow {
+    private entries: WindowEntry[] = [];
+
+    constructor(private rpm?: number, private tpm?: number) { }
+
+    /**
+     * Wait for room, then reserve a request with an estimated token count
+     */
+    async acquire(tokens: number): Promise<WindowEntry> {
+        while (true) {
+            const now = Date.now();
+            this.entries = this.entries.filter((e) => now - e.time < WINDOW_MS);
+
+            const used = this.entries.reduce((sum, e) => sum + e.tokens, 0);
+            const rpmFull = this.rpm !== undefined && this.entries.length >= this.rpm;
+            // An oversized request still goes through once the window is empty
+            const tpmFull = this.tpm !== undefined && this.entries.length > 0 && used + tokens > this.tpm;
+
+            if (!rpmFull && !tpmFull) {
+                const entry = { time: now, tokens };
+                this.entries.push(entry);
+                return entry;
+            }
+
+            const waitMs = this.entries[0].time + WINDOW_MS - now;
+            await new Promise((resolve) => setTimeout(resolve, Math.max(50, waitMs)));
+        }
+    }
+}
+
+// ==================== ROUTER ====================
+
+interface ProviderState {
+    config: ProviderConfig;
+    client: OpenAI | null;
+    window: RateWindow;
+    coolingUntil: number;
+}
+
+export class LLMRouter implements RoutedChatClient {
+    readonly chat: ChatClient['chat'];
+
+    private config: RouterConfig;
+    private env: NodeJS.ProcessEnv;
+    private providers: Map<string, ProviderState> = new Map();
+    private views: Map<string, ChatClient> = new Map();
+
+    constructor(config: RouterConfig, env: NodeJS.ProcessEnv = process.env) {
+        this.config = config;
+        this.env = env;
+        for (const [name, provider] of Object.entries(config.providers)) {
+            this.providers.set(name, {
+                config: provider,
+                client: null,
+                window: new RateWindow(provider.rpm, provider.tpm),
+                coolingUntil: 0,
+            });
+        }
+        this.chat = this.forRole('default').chat;
+    }
+
+    /**
+     * Client for one role; requests sent through it ignore their own `model`
+     */
+    forRole(role: string): ChatClient {
+        let view = this.views.get(role);
+        if (!view) {
+            view = { chat: { completions: { create: (request) => this.route(role, request) } } };
+            this.views.set(role, view);
+        }
+        return view;
+    }
+
+    modelFor(role: string): string {
+        return this.chainFor(role)[0].model;
+    }
+
+    chainFor(role: string): RouteTarget[] {
+        return this.config.roles[role] ?? this.config.roles.default;
+    }
+
+    /**
+     * Providers in the config that have an API key set
+     */
+    get availableProviders(): string[] {
+        return [...this.providers.entries()]
+            .filter(([, p]) => !!this.env[p.config.apiKeyEnv])
+            .map(([name]) => name);
+    }
+
+    describe(role: string = 'default'): string {
+        return this.chainFor(role).map((t) => `${t.provider}/${t.model}`).join(' → ');
+    }
+
+    private async route(role: string, request: ChatRequest): Promise<ChatResponse> {
+        const chain = this.chainFor(role);
+        const errors: string[] = [];
+
+        for (const target of chain) {
+            const provider = this.providers.get(target.provider)!;
+            const client = this.clientFor(provider);
+            if (!client) {
+                errors.push(`${target.provider}: ${provider.config.apiKeyEnv} not set`);
+                continue;
+            }
+            if (Date.now() < provider.coolingUntil) {
+                errors.push(`${target.provider}: cooling down`);
+                continue;
+            }
+
+            // Central place for provider/model parameters the typed request doesn't know
+            const routed = {
+                ...request,
+                ...provider.config.params,
+                ...target.params,
+                model: target.model,
+            } as ChatRequest;
+
+            await provider.window.acquire(estimateTokens(routed));
+
+            try {
+                return await client.chat.completions.create(routed);
+            } catch (error: any) {
+                const isRateLimit = error?.status === 429;
+                const isQuota = error?.code === 'insufficient_quota' || /quota|billing/i.test(error?.message ?? '');
+                if (isRateLimit || isQuota) {
+                    provider.coolingUntil = Date.now() + provider.config.cooldownMs;
+                }
+                errors.push(`${target.provider}/${target.model}: ${error?.message || error}`);
+                if (target !== chain[chain.length - 1]) {
+                    console.log(chalk.yellow(`   ⚠️ [LLM] ${target.provider}/${target.model} failed for ${role} - falling back`));
+                }
+            }
+        }
+
+        const failure = new Error(`All LLM providers failed for ${role}: ${errors.join(' | ')}`) as Error & { code?: string };
+        // Let callers keep treating "everything is out of quota" as a quota error
+        if (errors.length > 0 && errors.every((e) => /quota|billing|cooling down/i.test(e))) {
+            failure.code = 'insufficient_quota';
+        }
+        throw failure;
+    }
+
+    private clientFor(provider: ProviderState): OpenAI | null {
+        if (!provider.client) {
+            const apiKey = this.env[provider.config.apiKeyEnv];
+            if (!apiKey) return null;
+            provider.client = new OpenAI({ apiKey, baseURL: provider.config.baseURL, maxRetries: provider.config.maxRetries });
+        }
+        return provider.client;
+    }
+}
+
+export default LLMRouter;
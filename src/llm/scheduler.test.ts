@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { ChatClient, ChatRequest, ChatResponse } from './client.js';
+import { LLMScheduler } from './scheduler.js';
+
+const request = (content: string): ChatRequest => ({ model: 'test', messages: [{ role: 'user', content }], max_tokens: 10 });
+
+const response = (content: string): ChatResponse => ({
+    id: content,
+    object: 'chat.completion',
+    created: 0,
+    model: 'test',
+    choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', content, refusal: null } }],
+});
+
+/**
+ * Client whose calls stay open until released, in the order they were made
+ */
+function fakeClient() {
+    const calls: { content: string; release: () => void }[] = [];
+    const client: ChatClient = {
+        chat: {
+            completions: {
+                create: (req) => new Promise((resolve) => {
+                    const content = String(req.messages[0].content);
+                    calls.push({ content, release: () => resolve(response(content)) });
+                }),
+            },
+        },
+    };
+    return { client, calls };
+}
+
+/**
+ * Let the scheduler start whatever it is allowed to
+ */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('LLMScheduler', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('dequeues by priority class once a slot frees up', async () => {
+        const { client, calls } = fakeClient();
+        const scheduler = new LLMScheduler(client, { maxConcurrent: 1 });
+
+        const done = [
+            scheduler.submit(request('background'), 'technical'),
+            scheduler.submit(request('normal'), 'sentiment'),
+            scheduler.submit(request('critical'), 'risk_manager'),
+            scheduler.submit(request('high'), 'lead'),
+        ];
+        for (let i = 0; i < done.length; i++) {
+            await settle();
+            calls[i].release();
+        }
+        await Promise.all(done);
+
+        expect(calls.map((call) => call.content)).toEqual(['background', 'critical', 'high', 'normal']);
+        expect(scheduler.metrics()).toMatchObject({ submitted: 4, completed: 4, queued: 0 });
+    });
+
+    it('shares one call between identical requests from the same role', async () => {
+        const { client, calls } = fakeClient();
+        const scheduler = new LLMScheduler(client);
+
+        const a = scheduler.submit(request('same'), 'lead');
+        const b = scheduler.submit(request('same'), 'lead');
+        const other = scheduler.submit(request('same'), 'risk_manager');
+        await settle();
+        calls.forEach((call) => call.release());
+
+        const [first, second] = await Promise.all([a, b, other]);
+        expect(calls).toHaveLength(2);
+        expect(second).toEqual(first);
+        expect(second).not.toBe(first);
+        expect(scheduler.metrics().coalesced).toBe(1);
+    });
+
+    it('holds requests over the per-minute budget until it refills', async () => {
+        vi.useFakeTimers();
+        const { client, calls } = fakeClient();
+        const scheduler = new LLMScheduler(client, { rpm: 1 });
+
+        scheduler.submit(request('first'), 'lead');
+        scheduler.submit(request('second'), 'lead');
+        expect(calls).toHaveLength(1);
+        expect(scheduler.metrics().queued).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(calls.map((call) => call.content)).toEqual(['first', 'second']);
+    });
+});
@@ -0,0 +1,277 @@
+/**
+ * LLM Scheduler
+ * One request queue shared by every agent and engine in the process
+ *
+ * - Token buckets for requests/minute and tokens/minute, refilled continuously
+ * - Priority classes by role: risk and lead decisions are dequeued before
+ *   analysts, and analysts before background analysis
+ * - Identical requests from the same role that are already in flight share
+ *   one call instead of spending budget twice
+ * - Queue-wait metrics per priority class
+ *
+ * Sits between the agents and the LLMRouter: the router still applies each
+ * provider's own limits and fallbacks, the scheduler caps the process as a whole.
+ */
+
+import { clientForRole, estimateTokens, isRoutedClient } from './client.js';
+import type { ChatClient, ChatRequest, ChatResponse, RoutedChatClient } from './client.js';
+import { requestKey } from './replay.js';
+
+export type LLMPriority = 'critical' | 'high' | 'normal' | 'background';
+
+export const LLM_PRIORITIES: LLMPriority[] = ['critical', 'high', 'normal', 'background'];
+
+export interface LLMSchedulerConfig {
+    rpm: number;
+    tpm: number;                                // Infinity = no token budget
+    maxConcurrent: number;
+    priorities: Record<string, LLMPriority>;    // Role → class; unlisted roles are 'normal'
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: LLMSchedulerConfig = {
+    rpm: 60,
+    tpm: Infinity,
+    maxConcurrent: 8,
+    priorities: {
+        risk_manager: 'critical',
+        lead: 'high',
+        strategist: 'high',
+        coordinator: 'high',
+        enhanced_coordinator: 'high',
+        executor: 'high',
+        technical: 'background',
+        structure: 'background',
+    },
+};
+
+export interface PriorityMetrics {
+    requests: number;
+    queued: number;
+    avgWaitMs: number;
+    p95WaitMs: number;
+    maxWaitMs: number;
+}
+
+export interface SchedulerMetrics {
+    submitted: number;
+    completed: number;
+    failed: number;
+    coalesced: number;
+    inFlight: number;
+    queued: number;
+    byPriority: Record<LLMPriority, PriorityMetrics>;
+}
+
+interface QueuedRequest {
+    request: ChatRequest;
+    role: string;
+    tokens: number;
+    enqueuedAt: number;
+    resolve: (response: ChatResponse) => void;
+    reject: (error: unknown) => void;
+}
+
+// Waits kept per class for the p95
+const WAIT_SAMPLES = 500;
+
+// ==================== TOKEN BUCKET ====================
+
+class TokenBucket {
+    private level: number;
+    private updatedAt: number = Date.now();
+
+    constructor(readonly perMinute: number) {
+        this.level = perMinute;
+    }
+
+    /**
+     * Milliseconds until `amount` is available (0 = now). Requests larger than
+     * the whole bucket wait for a full bucket rather than forever.
+     */
+    waitFor(amount: number): number {
+        if (!Number.isFinite(this.perMinute)) return 0;
+        this.refill();
+        const needed = Math.min(amount, this.perMinute);
+        if (this.level >= needed) return 0;
+        return Math.ceil((needed - this.level) / (this.perMinute / 60_000));
+    }
+
+    take(amount: number): void {
+        if (!Number.isFinite(this.perMinute)) return;
+        this.refill();
+        this.level -= Math.min(amount, this.perMinute);
+    }
+
+    /**
+     * Correct an estimate once the real usage is known (negative gives tokens back)
+     */
+    adjust(delta: number): void {
+        if (!Number.isFinite(this.perMinute)) return;
+        this.refill();
+        this.level = Math.min(this.perMinute, this.level - delta);
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.level = Math.min(this.perMinute, this.level + (now - this.updatedAt) * (this.perMinute / 60_000));
+        this.updatedAt = now;
+    }
+}
+
+// ==================== SCHEDULER ====================
+
+export class LLMScheduler implements RoutedChatClient {
+    readonly chat: ChatClient['chat'];
+
+    private inner: ChatClient;
+    private config: LLMSchedulerConfig;
+    private requests: TokenBucket;
+    private tokens: TokenBucket;
+    private queues: Record<LLMPriority, QueuedRequest[]> = { critical: [], high: [], normal: [], background: [] };
+    private inFlight: Map<string, Promise<ChatResponse>> = new Map();
+    private running: number = 0;
+    private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    private views: Map<string, ChatClient> = new Map();
+
+    private counts = { submitted: 0, completed: 0, failed: 0, coalesced: 0 };
+    private waits: Record<LLMPriority, number[]> = { critical: [], high: [], normal: [], background: [] };
+    private served: Record<LLMPriority, number> = { critical: 0, high: 0, normal: 0, background: 0 };
+
+    constructor(inner: ChatClient, config: Partial<LLMSchedulerConfig> = {}) {
+        this.inner = inner;
+        this.config = {
+            ...DEFAULT_SCHEDULER_CONFIG,
+            ...config,
+            priorities: { ...DEFAULT_SCHEDULER_CONFIG.priorities, ...config.priorities },
+        };
+        this.requests = new TokenBucket(this.config.rpm);
+        this.tokens = new TokenBucket(this.config.tpm);
+        this.chat = this.forRole('default').chat;
+    }
+
+    forRole(role: string): ChatClient {
+        let view = this.views.get(role);
+        if (!view) {
+            view = { chat: { completions: { create: (request) => this.submit(request, role) } } };
+            this.views.set(role, view);
+        }
+        return view;
+    }
+
+    modelFor(role: string): string | undefined {
+        return isRoutedClient(this.inner) ? this.inner.modelFor(role) : undefined;
+    }
+
+    priorityOf(role: string): LLMPriority {
+        return this.config.priorities[role] ?? 'normal';
+    }
+
+    submit(request: ChatRequest, role: string = 'default'): Promise<ChatResponse> {
+        this.counts.submitted++;
+
+        // Same role + same request already on its way: share the answer
+        const key = `${role}:${requestKey(request)}`;
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            this.counts.coalesced++;
+            return pending.then((response) => structuredClone(response));
+        }
+
+        const promise = new Promise<ChatResponse>((resolve, reject) => {
+            this.queues[this.priorityOf(role)].push({
+                request,
+                role,
+                tokens: estimateTokens(request),
+                enqueuedAt: Date.now(),
+                resolve,
+                reject,
+            });
+        });
+        this.inFlight.set(key, promise);
+        const clear = () => { this.inFlight.delete(key); };
+        promise.then(clear, clear);
+
+        this.pump();
+        return promise;
+    }
+
+    metrics(): SchedulerMetrics {
+        const byPriority = {} as Record<LLMPriority, PriorityMetrics>;
+        for (const priority of LLM_PRIORITIES) {
+            const waits = this.waits[priority];
+            const sorted = [...waits].sort((a, b) => a - b);
+            byPriority[priority] = {
+                requests: this.served[priority],
+                queued: this.queues[priority].length,
+                avgWaitMs: waits.length ? Math.round(waits.reduce((a, b) => a + b, 0) / waits.length) : 0,
+                p95WaitMs: sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
+                maxWaitMs: sorted.length ? sorted[sorted.length - 1] : 0,
+            };
+        }
+        return {
+            ...this.counts,
+            inFlight: this.running,
+            queued: LLM_PRIORITIES.reduce((sum, p) => sum + this.queues[p].length, 0),
+            byPriority,
+        };
+    }
+
+    /**
+     * Start as many queued requests as the budget allows, highest class first.
+     * The head of the highest non-empty class blocks the rest, so a big
+     * background prompt can't take the tokens a risk check is waiting for.
+     */
+    private pump(): void {
+        while (this.running < this.config.maxConcurrent) {
+            const priority = LLM_PRIORITIES.find((p) => this.queues[p].length > 0);
+            if (!priority) return;
+
+            const next = this.queues[priority][0];
+            const waitMs = Math.max(this.requests.waitFor(1), this.tokens.waitFor(next.tokens));
+            if (waitMs > 0) {
+                this.wakeIn(waitMs);
+                return;
+            }
+
+            this.queues[priority].shift();
+            this.requests.take(1);
+            this.tokens.take(next.tokens);
+            this.recordWait(priority, Date.now() - next.enqueuedAt);
+            void this.run(next);
+        }
+    }
+
+    private async run(item: QueuedRequest): Promise<void> {
+        this.running++;
+        try {
+            const response = await clientForRole(this.inner, item.role).chat.completions.create(item.request);
+            const used = response.usage?.total_tokens;
+            if (used !== undefined) this.tokens.adjust(used - item.tokens);
+            this.counts.completed++;
+            item.resolve(response);
+        } catch (error) {
+            this.counts.failed++;
+            item.reject(error);
+        } finally {
+            this.running--;
+            this.pump();
+        }
+    }
+
+    private wakeIn(ms: number): void {
+        if (this.wakeTimer) return;
+        this.wakeTimer = setTimeout(() => {
+            this.wakeTimer = null;
+            this.pump();
+        }, ms);
+    }
+
+    private recordWait(priority: LLMPriority, ms: number): void {
+        this.served[priority]++;
+        const waits = this.waits[priority];
+        waits.push(ms);
+        if (waits.length > WAIT_SAMPLES) waits.shift();
+    }
+}
+
+export default LLMScheduler;
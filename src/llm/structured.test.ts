@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { completeStructured, extractJSON } from './structured.js';
+
+const schema = z.object({ signal: z.enum(['BUY', 'SELL']), confidence: z.number() });
+
+describe('completeStructured', () => {
+    it('re-asks through the repair completer with the validation errors', async () => {
+        const calls: string[] = [];
+        const result = await completeStructured(
+            async () => {
+                calls.push('complete');
+                return '{"signal": "MAYBE", "confidence": 0.5}';
+            },
+            [{ role: 'user', content: 'Decide' }],
+            schema,
+            2,
+            async (messages) => {
+                calls.push('repair');
+                expect(messages[messages.length - 1].content).toContain('signal');
+                return '{"signal": "BUY", "confidence": 0.5}';
+            }
+        );
+
+        expect(calls).toEqual(['complete', 'repair']);
+        expect(result).toEqual({ ok: true, value: { signal: 'BUY', confidence: 0.5 }, attempts: 2 });
+    });
+
+    it('gives up after maxRepairs re-asks', async () => {
+        const result = await completeStructured(async () => 'no json here', [{ role: 'user', content: 'Decide' }], schema, 1);
+        expect(result).toMatchObject({ ok: false, attempts: 2 });
+    });
+});
+
+describe('extractJSON', () => {
+    it('reads an object wrapped in prose or a fence', () => {
+        expect(extractJSON('Here:\n```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Structured Output
+ * JSON-mode completions validated against a zod schema
+ *
+ * A response that isn't JSON or fails the schema is sent back to the model
+ * with the validation errors, a bounded number of times. If it is still
+ * invalid the caller gets { ok: false } and decides what "invalid" means
+ * (agents turn it into a no-vote decision).
+ */
+
+import { z } from 'zod';
+import type { ChatClient, ChatMessage, ChatRequest } from './client.js';
+
+export type StructuredResult<T> =
+    | { ok: true; value: T; attempts: number }
+    | { ok: false; error: string; raw: string; attempts: number };
+
+/**
+ * Sends the conversation so far, returns the model's text
+ */
+export type Completer = (messages: ChatMessage[]) => Promise<string>;
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Pull the JSON object out of a response. JSON mode should return a bare
+ * object, but some providers still wrap it in prose or a ```json fence.
+ */
+export function extractJSON(text: string): unknown {
+    const trimmed = text.trim();
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        const start = trimmed.indexOf('{');
+        const end = trimmed.lastIndexOf('}');
+        if (start < 0 || end <= start) throw new Error('Response contains no JSON object');
+        return JSON.parse(trimmed.slice(start, end + 1));
+    }
+}
+
+export function parseStructured<S extends z.ZodTypeAny>(text: string, schema: S): StructuredResult<z.infer<S>> {
+    let raw: unknown;
+    try {
+        raw = extractJSON(text);
+    } catch (error: any) {
+        return { ok: false, error: `Invalid JSON: ${error.message}`, raw: text, attempts: 1 };
+    }
+
+    const parsed = schema.safeParse(raw);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+        return { ok: false, error: issues.join('; '), raw: text, attempts: 1 };
+    }
+    return { ok: true, value: parsed.data, attempts: 1 };
+}
+
+/**
+ * Ask, validate, and re-ask with the errors up to `maxRepairs` times.
+ * Re-asks go through `repair` (default: `complete`), so a caller whose
+ * first answer runs a tool loop can repair with a plain completion.
+ * API errors are not retried here; they propagate to the caller.
+ */
+export async function completeStructured<S extends z.ZodTypeAny>(
+    complete: Completer,
+    messages: ChatMessage[],
+    schema: S,
+    maxRepairs: number = DEFAULT_MAX_REPAIRS,
+    repair: Completer = complete
+): Promise<StructuredResult<z.infer<S>>> {
+    const conversation = [...messages];
+    let result: StructuredResult<z.infer<S>> | null = null;
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        const text = await (attempt === 1 ? complete : repair)(conversation);
+        result = { ...parseStructured(text, schema), attempts: attempt };
+        if (result.ok) return result;
+
+        conversation.push(
+            { role: 'assistant', content: text },
+            {
+                role: 'user',
+                content: `Your response did not match the required format: ${result.error}\n` +
+                    'Reply with ONLY the corrected JSON object.',
+            }
+        );
+    }
+
+    return result!;
+}
+
+/**
+ * Completer for a plain JSON-mode request on a ChatClient
+ */
+export function jsonCompleter(client: ChatClient, request: Omit<ChatRequest, 'messages'>): Completer {
+    return async (messages) => {
+        const response = await client.chat.completions.create({
+            ...request,
+            messages,
+            response_format: { type: 'json_object' },
+        });
+        return response.choices[0]?.message?.content || '';
+    };
+}
+
+export default completeStructured;
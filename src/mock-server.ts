@@ -0,0 +1,134 @@
+/**
+ * WEEX Mock Server entry point
+ *
+ * Serve:  tsx src/mock-server.ts --port 8787 --latency 50 --rate-limit 10
+ * Smoke:  tsx src/mock-server.ts --smoke   (signed round-trip through WeexClient, exits non-zero on failure)
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { WeexMockServer } from './sdk/mock-server.js';
+import { WeexClient, createWeexGateway } from './sdk/client.js';
+import { findBalance } from './sdk/gateway.js';
+
+async function runSmoke(server: WeexMockServer, baseUrl: string): Promise<boolean> {
+    const client = new WeexClient({
+        apiKey: 'mock_api_key',
+        secretKey: 'mock_secret_key',
+        passphrase: 'mock_passphrase',
+        baseUrl,
+    });
+    const gateway = createWeexGateway(client);
+    const symbol = 'cmt_btcusdt';
+
+    const checks: [string, () => Promise<unknown>][] = [
+        ['ticker', async () => (await gateway.getTicker(symbol)).last],
+        ['depth', async () => (await gateway.getDepth(symbol)).bids.length],
+        ['candles', async () => (await gateway.getCandles(symbol, '1H', 20)).length],
+        ['funding', async () => (await gateway.getFundingRate(symbol)).fundingRate],
+        ['assets', async () => findBalance(await gateway.getAssets())?.equity],
+        ['leverage', async () => client.setLeverage(symbol, 10)],
+        ['open long', async () => (await gateway.placeOrder(symbol, 1, 0.001)).orderId],
+        ['positions', async () => (await gateway.getPositions()).length],
+        ['close long', async () => (await gateway.placeOrder(symbol, 4, 0.001)).orderId],
+        ['contract', async () => gateway.getContract(symbol)],
+        ['contracts', async () => (await gateway.getContracts()).length],
+        ['post-only + cancel', async () => {
+            const price = (await gateway.getTicker(symbol)).last * 0.99;
+            const { orderId } = await gateway.placeOrder(symbol, 1, 0.001, { type: 'post_only', price });
+            await gateway.cancelOrder(symbol, orderId);
+            return (await gateway.getOrder(symbol, orderId)).status;
+        }],
+        ['order history', async () => (await gateway.getOrderHistory(symbol)).length],
+        ['fills', async () => (await gateway.getFills(symbol)).length],
+        ['ai log', async () => (await gateway.uploadAILog({
+            stage: 'Smoke Test', model: 'mock', input: { symbol }, output: { signal: 'neutral' }, explanation: 'mock round-trip',
+        })).success],
+    ];
+
+    let ok = true;
+    for (const [name, check] of checks) {
+        try {
+            const result = await check();
+            console.log(chalk.green(`   ✅ ${name}: ${JSON.stringify(result)}`));
+        } catch (error: any) {
+            ok = false;
+            const detail = error.response?.data ? JSON.stringify(error.response.data) : error.message;
+            console.log(chalk.red(`   ❌ ${name}: ${detail}`));
+        }
+    }
+
+    // A bad signature must be rejected
+    const forged = new WeexClient({ apiKey: 'mock_api_key', secretKey: 'wrong', passphrase: 'mock_passphrase', baseUrl });
+    try {
+        await forged.getAssets();
+        ok = false;
+        console.log(chalk.red('   ❌ forged signature was accepted'));
+    } catch (error: any) {
+        console.log(chalk.green(`   ✅ forged signature rejected: ${error.response?.data?.code}`));
+    }
+
+    const rejected = server.requests.filter((r) => r.status !== 200).length;
+    console.log(chalk.gray(`   ${server.requests.length} requests, ${rejected} rejected`));
+    return ok;
+}
+
+async function main(): Promise<void> {
+    const program = new Command();
+
+    program
+        .name('weex-mock')
+        .description('Local WEEX contract API mock with signature checks and fault injection')
+        .option('-p, --port <port>', 'Port (0 = random)', '8787')
+        .option('--latency <ms>', 'Base latency per response', '0')
+        .option('--jitter <ms>', 'Random extra latency', '0')
+        .option('--rate-limit <rps>', 'Requests per second before 429 (0 = off)', '0')
+        .option('--p429 <p>', 'Probability of a random 429', '0')
+        .option('--malformed <p>', 'Probability of a malformed 200 payload', '0')
+        .option('--seed <n>', 'Seed for injected faults', '42')
+        .option('--smoke', 'Run a signed round-trip against the mock and exit', false)
+        .parse(process.argv);
+
+    const opts = program.opts();
+
+    const server = new WeexMockServer({
+        port: opts.smoke ? 0 : parseInt(opts.port),
+        seed: parseInt(opts.seed),
+        faults: {
+            latencyMs: parseFloat(opts.latency),
+            latencyJitterMs: parseFloat(opts.jitter),
+            rateLimitPerSecond: parseInt(opts.rateLimit),
+            rate429Probability: parseFloat(opts.p429),
+            malformedProbability: parseFloat(opts.malformed),
+        },
+    });
+
+    const baseUrl = await server.start();
+
+    if (opts.smoke) {
+        console.log(chalk.cyan(`\n🧪 WEEX mock smoke test against ${baseUrl}`));
+        const ok = await runSmoke(server, baseUrl);
+        await server.stop();
+        console.log(ok ? chalk.green('\n✅ Smoke test passed') : chalk.red('\n❌ Smoke test failed'));
+        process.exit(ok ? 0 : 1);
+    }
+
+    console.log(chalk.cyan(`\n🧪 WEEX mock server listening on ${baseUrl}`));
+    console.log(chalk.gray('   Point the SDK at it with:'));
+    console.log(chalk.gray(`   WEEX_BASE_URL=${baseUrl} WEEX_API_KEY=mock_api_key WEEX_SECRET_KEY=mock_secret_key WEEX_PASSPHRASE=mock_passphrase`));
+
+    server.on('request', (r) => {
+        const color = r.status === 200 ? chalk.gray : chalk.yellow;
+        console.log(color(`   ${r.method} ${r.path} → ${r.status} ${r.code}`));
+    });
+
+    process.on('SIGINT', async () => {
+        await server.stop();
+        process.exit(0);
+    });
+}
+
+main().catch((error) => {
+    console.error(chalk.red('Fatal error:'), error);
+    process.exit(1);
+});
@@ -3,11 +3,14 @@
  * TWAP, VWAP, and smart order execution
  */
 
+import { type Contract, roundOrderSize, roundToStep } from '../sdk/gateway.js';
+
 export interface ExecutionConfig {
     symbol: string;
     totalSize: number;
     side: 'buy' | 'sell';
     durationMinutes: number;
+    contract?: Contract | null;     // Slice sizes are rounded down to its lot
 }
 
 export interface ExecutionSlice {
@@ -32,14 +35,16 @@ export function generateTWAPSlices(
     intervalSeconds: number = 60
 ): ExecutionSlice[] {
     const numSlices = Math.ceil((config.durationMinutes * 60) / intervalSeconds);
-    const sizePerSlice = config.totalSize / numSlices;
+    const sizePerSlice = lotSize(config, config.totalSize / numSlices);
     const slices: ExecutionSlice[] = [];
     const now = new Date();
 
     for (let i = 0; i < numSlices; i++) {
+        // The last slice takes what rounding left over
+        const last = i === numSlices - 1;
         slices.push({
             sliceNumber: i + 1,
-            size: Math.round(sizePerSlice * 100000) / 100000, // 5 decimal places
+            size: last ? lotSize(config, config.totalSize - sizePerSlice * (numSlices - 1)) : sizePerSlice,
             executeAt: new Date(now.getTime() + i * intervalSeconds * 1000),
             executed: false
         });
@@ -68,11 +73,17 @@ export function generateVWAPSlices(
     // Normalize volume percentages
     const totalVolume = volumeProfile.reduce((sum, v) => sum + v.volumePercent, 0);
 
+    // Rounding down to the lot carries into the next period, so the slices still add up
+    let targeted = 0;
+    let assigned = 0;
+
     for (const period of volumeProfile) {
         const normalizedPercent = period.volumePercent / totalVolume;
-        const size = config.totalSize * normalizedPercent;
+        targeted += config.totalSize * normalizedPercent;
+        const size = lotSize(config, targeted - assigned);
 
-        if (size > 0.00001) { // Minimum size threshold
+        if (size > 1e-9) {
+            assigned += size;
             sliceNumber++;
             const executeAt = new Date(now);
             executeAt.setHours(period.hour, 0, 0, 0);
@@ -84,7 +95,7 @@ export function generateVWAPSlices(
 
             slices.push({
                 sliceNumber,
-                size: Math.round(size * 100000) / 100000,
+                size,
                 executeAt,
                 executed: false
             });
@@ -140,12 +151,13 @@ export function generateIcebergSlices(
     const now = new Date();
 
     while (remaining > 0) {
+        const size = lotSize(config, Math.min(visibleSize, remaining));
+        if (size <= 1e-9) break; // Less than a lot (or float noise) left
         sliceNumber++;
-        const size = Math.min(visibleSize, remaining);
 
         slices.push({
             sliceNumber,
-            size: Math.round(size * 100000) / 100000,
+            size,
             executeAt: new Date(now.getTime() + (sliceNumber - 1) * intervalSeconds * 1000),
             executed: false
         });
@@ -156,9 +168,18 @@ export function generateIcebergSlices(
     return slices;
 }
 
+/**
+ * Size rounded down to the contract's lot, or to 5 decimals without a spec
+ */
+function lotSize(config: ExecutionConfig, size: number): number {
+    return config.contract ? roundOrderSize(config.contract, size) : roundToStep(size, 0.00001);
+}
+
 /**
  * Smart Execution Recommendation
  * Analyzes market conditions and recommends execution strategy
+ *
+ * `volatility` is annualized (24/7), e.g. measureVolatility(...).annualized
  */
 export function recommendExecutionStrategy(
     orderSize: number,
@@ -185,8 +206,8 @@ export function recommendExecutionStrategy(
         };
     }
 
-    // High volatility - use TWAP to reduce timing risk
-    if (volatility > 0.03) {
+    // High volatility (forecast above 80% annualized) - use TWAP to reduce timing risk
+    if (volatility > 0.8) {
         return {
             strategy: 'twap',
             reason: 'High volatility - spread execution over time',
@@ -1,2 +1,6 @@
 // Quant module exports
 export * from './indicators.js';
+export * from './streaming.js';
+export * from './regime.js';
+export * from './volatility.js';
+export * from './microstructure.js';
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculateATR, calculateVPIN, calculatePositionSize, calculateStochastic, calculateStochRSI, calculateADX, calculateIchimoku,
+    calculateKeltnerChannels, calculateSupertrend, calculateDonchianChannels, calculateAnchoredVWAP, calculateSessionVWAP,
+    calculateCCI, calculateMFI, calculateWilliamsR, type Trade,
+} from './indicators.js';
+
+const trade = (side: Trade['side'], volume: number): Trade => ({ price: 100, volume, side, timestamp: 0 });
+
+describe('calculateATR', () => {
+    it('averages the last `period` true ranges', () => {
+        const highs = [10, 12, 11, 15, 14, 13];
+        const lows = [8, 9, 9, 11, 12, 10];
+        const closes = [9, 11, 10, 14, 13, 11];
+
+        // True ranges 3, 2, 5, 2, 3
+        expect(calculateATR(highs, lows, closes, 3)).toBe(3.33);
+        expect(calculateATR(highs.slice(0, 3), lows.slice(0, 3), closes.slice(0, 3), 3)).toBe(0);
+    });
+});
+
+describe('calculateVPIN', () => {
+    const trades = [
+        trade('buy', 6), trade('sell', 4),          // |6 - 4| = 2
+        trade('buy', 10),                           // 10
+        trade('buy', 3), trade('sell', 7),          // 4
+        trade('sell', 5), trade('sell', 5),
+        trade('buy', 2), trade('buy', 8),
+        trade('sell', 10), trade('buy', 10), trade('buy', 10),
+    ];
+
+    it('measures the first `numBuckets` full buckets', () => {
+        expect(calculateVPIN(trades, 10, 3)).toBeCloseTo(16 / 30);
+    });
+
+    it('is neutral with fewer than 10 trades', () => {
+        expect(calculateVPIN(trades.slice(0, 9), 10, 3)).toBe(0.5);
+    });
+});
+
+describe('calculatePositionSize', () => {
+    it('rounds to 5 decimals and the stop to cents without a contract', () => {
+        expect(calculatePositionSize(1000, 0.0123, 100_000.456, 333.333)).toEqual({ size: 0.01845, stopLoss: 99_333.79, riskAmount: 12.3 });
+    });
+
+    it('rounds to the contract lot and tick when given one', () => {
+        const contract = { symbol: 'cmt_btcusdt', tickSize: 0.5, lotSize: 0.001, minSize: 0.001, contractValue: 1 };
+        expect(calculatePositionSize(1000, 0.0123, 100_000.456, 333.333, 2, contract)).toMatchObject({ size: 0.018, stopLoss: 99_334 });
+    });
+});
+
+describe('oscillators', () => {
+    it('Stochastic: %K over the last kPeriod bars, %D their mean', () => {
+        const highs = [10, 11, 12, 13, 14];
+        const lows = [8, 9, 10, 11, 12];
+        const closes = [9, 10, 11, 12, 14];
+
+        expect(calculateStochastic(highs, lows, closes, 3, 2)).toEqual({ k: 100, d: 87.5 });
+        expect(calculateStochastic(highs.slice(0, 3), lows.slice(0, 3), closes.slice(0, 3), 3, 2)).toEqual({ k: 50, d: 50 });
+    });
+
+    it('Stochastic RSI: pinned at the top of a breakout, neutral on short input', () => {
+        const closes = Array.from({ length: 60 }, (_, i) => (i < 40 ? 100 + 3 * Math.sin(i / 2) : 100 + (i - 40) * 2));
+
+        expect(calculateStochRSI(closes)).toEqual({ k: 100, d: 100 });
+        expect(calculateStochRSI(closes.slice(0, 20))).toEqual({ k: 50, d: 50 });
+    });
+
+    it('CCI, MFI and Williams %R', () => {
+        // High = low = close, so typical prices are the closes
+        expect(calculateCCI([1, 2, 3], [1, 2, 3], [1, 2, 3], 3)).toBe(100);
+        expect(calculateMFI([1, 2, 1, 3], [1, 2, 1, 3], [1, 2, 1, 3], [1, 1, 1, 1], 3)).toBe(83.33);
+        expect(calculateWilliamsR([10, 12, 11], [8, 9, 7], [9, 11, 10], 3)).toBe(-40);
+        expect(calculateWilliamsR([10, 10], [10, 10], [10, 10], 2)).toBe(-50);
+    });
+});
+
+describe('trend indicators', () => {
+    const up = Array.from({ length: 80 }, (_, i) => 100 + i);
+    const highs = up.map((c) => c + 1);
+    const lows = up.map((c) => c - 1);
+
+    it('ADX reads a steady climb as all trend, all +DI', () => {
+        expect(calculateADX(highs.slice(0, 40), lows.slice(0, 40), up.slice(0, 40), 14)).toEqual({ adx: 100, plusDI: 50, minusDI: 0 });
+    });
+
+    it('Ichimoku projects the cloud from `displacement` bars back', () => {
+        expect(calculateIchimoku(highs, lows, up)).toEqual({
+            tenkan: 175, kijun: 166.5, senkouA: 144.75, senkouB: 127.5, chikou: 179, cloud: 'above',
+        });
+    });
+
+    it('Supertrend trails below a climb and flips on a break', () => {
+        const crash = [...up.slice(0, 40), 130, 120, 110, 100];
+
+        expect(calculateSupertrend(highs.slice(0, 40), lows.slice(0, 40), up.slice(0, 40), 10, 3)).toEqual({ value: 133, direction: 'up' });
+        expect(calculateSupertrend(crash.map((c) => c + 1), crash.map((c) => c - 1), crash, 10, 3).direction).toBe('down');
+    });
+});
+
+describe('channels and VWAP', () => {
+    it('Keltner: EMA ± multiplier × ATR', () => {
+        const closes = new Array(30).fill(100);
+        expect(calculateKeltnerChannels(closes.map((c) => c + 1), closes.map((c) => c - 1), closes)).toEqual({ upper: 104, middle: 100, lower: 96 });
+    });
+
+    it('Donchian: extremes of the last `period` bars', () => {
+        expect(calculateDonchianChannels([5, 9, 7], [3, 2, 4], 2)).toEqual({ upper: 9, middle: 5.5, lower: 2 });
+    });
+
+    it('VWAP from the anchor bar and from the session open', () => {
+        const closes = [10, 20, 30];
+        const volumes = [1, 1, 2];
+        const day = Date.UTC(2026, 0, 2);
+
+        expect(calculateAnchoredVWAP(closes, closes, closes, volumes, 1)).toBe(26.67);
+        expect(calculateSessionVWAP([day - 3_600_000, day, day + 3_600_000], closes, closes, closes, volumes)).toEqual({ vwap: 26.67, sessionStart: day });
+    });
+});
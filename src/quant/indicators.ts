@@ -1,8 +1,13 @@
 /**
  * Quantitative Analysis Module
- * Advanced indicators: OBI, VPIN, ATR, Bollinger, OBV, Kelly Criterion
+ * Advanced indicators: OBI, VPIN, ATR, Bollinger, OBV, Kelly Criterion,
+ * plus Stochastic/StochRSI, ADX, Ichimoku, Keltner, Supertrend, Donchian, VWAP, CCI, MFI, Williams %R
+ * (streaming versions for per-tick updates are in streaming.ts)
  */
 
+import { EmaStream, RsiStream, MacdStream, AtrStream } from './streaming.js';
+import { type Contract, tradableSize, roundToStep } from '../sdk/gateway.js';
+
 // ==================== ORDER BOOK IMBALANCE (OBI) ====================
 // Provides 56-58% predictive accuracy for short-term direction
 
@@ -17,14 +22,24 @@ export interface OrderBook {
     timestamp: number;
 }
 
+/**
+ * A live book that hands out its best levels on demand (e.g. L2OrderBook)
+ */
+export interface DepthLevels {
+    topBids(n: number): OrderBookLevel[];
+    topAsks(n: number): OrderBookLevel[];
+}
+
 /**
  * Calculate Order Book Imbalance
  * OBI = (Σ bid_qty - Σ ask_qty) / (Σ bid_qty + Σ ask_qty)
  * @returns value between -1 (ask heavy) to +1 (bid heavy)
  */
-export function calculateOBI(orderBook: OrderBook, levels: number = 10): number {
-    const bidQty = orderBook.bids.slice(0, levels).reduce((sum, b) => sum + b.quantity, 0);
-    const askQty = orderBook.asks.slice(0, levels).reduce((sum, a) => sum + a.quantity, 0);
+export function calculateOBI(orderBook: OrderBook | DepthLevels, levels: number = 10): number {
+    const bids = 'topBids' in orderBook ? orderBook.topBids(levels) : orderBook.bids.slice(0, levels);
+    const asks = 'topAsks' in orderBook ? orderBook.topAsks(levels) : orderBook.asks.slice(0, levels);
+    const bidQty = bids.reduce((sum, b) => sum + b.quantity, 0);
+    const askQty = asks.reduce((sum, a) => sum + a.quantity, 0);
 
     if (bidQty + askQty === 0) return 0;
     return (bidQty - askQty) / (bidQty + askQty);
@@ -53,6 +68,8 @@ export interface Trade {
 
 /**
  * Calculate VPIN using bulk volume classification
+ * Measured over the first `numBuckets` full buckets of `trades`; VpinStream
+ * is the rolling version that keeps the most recent ones instead.
  * @param trades Recent trades
  * @param bucketSize Volume per bucket
  * @param numBuckets Number of buckets to analyze
@@ -102,25 +119,14 @@ export function getVPINSignal(vpin: number): 'high_volatility' | 'normal' | 'low
 // ==================== TECHNICAL INDICATORS ====================
 
 /**
- * Calculate RSI (Relative Strength Index)
+ * Calculate RSI (Relative Strength Index) with Wilder smoothing
  */
 export function calculateRSI(prices: number[], period: number = 14): number {
     if (prices.length < period + 1) return 50;
 
-    const deltas: number[] = [];
-    for (let i = 1; i < prices.length; i++) {
-        deltas.push(prices[i] - prices[i - 1]);
-    }
-
-    const gains = deltas.map((d) => (d > 0 ? d : 0));
-    const losses = deltas.map((d) => (d < 0 ? -d : 0));
-
-    const avgGain = gains.slice(-period).reduce((a, b) => a + b, 0) / period;
-    const avgLoss = losses.slice(-period).reduce((a, b) => a + b, 0) / period;
-
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return Math.round((100 - 100 / (1 + rs)) * 100) / 100;
+    const rsi = new RsiStream(period);
+    for (const price of prices) rsi.update(price);
+    return Math.round(rsi.value * 100) / 100;
 }
 
 /**
@@ -129,25 +135,19 @@ export function calculateRSI(prices: number[], period: number = 14): number {
 export function calculateEMA(prices: number[], period: number): number {
     if (prices.length < period) return prices[prices.length - 1] || 0;
 
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-    for (let i = 1; i < prices.length; i++) {
-        ema = (prices[i] - ema) * multiplier + ema;
-    }
-    return Math.round(ema * 100) / 100;
+    const ema = new EmaStream(period);
+    for (const price of prices) ema.update(price);
+    return Math.round(ema.value * 100) / 100;
 }
 
 /**
  * Calculate MACD (Moving Average Convergence Divergence)
+ * Signal line is the 9-period EMA of the MACD line
  */
 export function calculateMACD(prices: number[]): { macd: number; signal: number; histogram: number } {
-    const ema12 = calculateEMA(prices, 12);
-    const ema26 = calculateEMA(prices, 26);
-    const macd = ema12 - ema26;
-
-    // Signal line is 9-period EMA of MACD (simplified)
-    const signal = macd * 0.8; // Approximation
-    const histogram = macd - signal;
+    const stream = new MacdStream(12, 26, 9);
+    for (const price of prices) stream.update(price);
+    const { macd, signal, histogram } = stream.value;
 
     return {
         macd: Math.round(macd * 100) / 100,
@@ -167,18 +167,9 @@ export function calculateATR(
 ): number {
     if (highs.length < period + 1) return 0;
 
-    const trueRanges: number[] = [];
-    for (let i = 1; i < highs.length; i++) {
-        const tr = Math.max(
-            highs[i] - lows[i],
-            Math.abs(highs[i] - closes[i - 1]),
-            Math.abs(lows[i] - closes[i - 1])
-        );
-        trueRanges.push(tr);
-    }
-
-    const atr = trueRanges.slice(-period).reduce((a, b) => a + b, 0) / period;
-    return Math.round(atr * 100) / 100;
+    const atr = new AtrStream(period);
+    for (let i = 0; i < highs.length; i++) atr.update({ high: highs[i], low: lows[i], close: closes[i] });
+    return Math.round(atr.value * 100) / 100;
 }
 
 /**
@@ -257,6 +248,368 @@ export function detectOBVDivergence(
     return 'none';
 }
 
+// ==================== EXTENDED TECHNICALS ====================
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function highest(values: number[], from: number, to: number): number {
+    let max = -Infinity;
+    for (let i = from; i < to; i++) max = Math.max(max, values[i]);
+    return max;
+}
+
+function lowest(values: number[], from: number, to: number): number {
+    let min = Infinity;
+    for (let i = from; i < to; i++) min = Math.min(min, values[i]);
+    return min;
+}
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Wilder's running smoothing (RMA): SMA seed, then (prev × (n - 1) + x) / n
+ */
+function wilderSmooth(values: number[], period: number): number[] {
+    if (values.length < period) return [];
+    const out = [mean(values.slice(0, period))];
+    for (let i = period; i < values.length; i++) {
+        out.push((out[out.length - 1] * (period - 1) + values[i]) / period);
+    }
+    return out;
+}
+
+function typicalPrices(highs: number[], lows: number[], closes: number[]): number[] {
+    return closes.map((c, i) => (highs[i] + lows[i] + c) / 3);
+}
+
+/**
+ * Calculate Stochastic Oscillator
+ * %K = 100 × (close - lowest low) / (highest high - lowest low), %D = SMA of %K
+ */
+export function calculateStochastic(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    kPeriod: number = 14,
+    dPeriod: number = 3
+): { k: number; d: number } {
+    if (closes.length < kPeriod + dPeriod - 1) return { k: 50, d: 50 };
+
+    const ks: number[] = [];
+    for (let i = closes.length - dPeriod; i < closes.length; i++) {
+        const hh = highest(highs, i - kPeriod + 1, i + 1);
+        const ll = lowest(lows, i - kPeriod + 1, i + 1);
+        ks.push(hh === ll ? 50 : (100 * (closes[i] - ll)) / (hh - ll));
+    }
+    return { k: round2(ks[ks.length - 1]), d: round2(mean(ks)) };
+}
+
+/**
+ * Calculate Stochastic RSI: the stochastic of the RSI series, %K and %D smoothed
+ */
+export function calculateStochRSI(
+    closes: number[],
+    rsiPeriod: number = 14,
+    stochPeriod: number = 14,
+    kSmooth: number = 3,
+    dSmooth: number = 3
+): { k: number; d: number } {
+    const rsi = new RsiStream(rsiPeriod);
+    const rsis: number[] = [];
+    for (const close of closes) {
+        rsi.update(close);
+        if (rsi.isReady) rsis.push(rsi.value);
+    }
+    if (rsis.length < stochPeriod + kSmooth + dSmooth - 2) return { k: 50, d: 50 };
+
+    const raw: number[] = [];
+    for (let i = stochPeriod - 1; i < rsis.length; i++) {
+        const hi = highest(rsis, i - stochPeriod + 1, i + 1);
+        const lo = lowest(rsis, i - stochPeriod + 1, i + 1);
+        raw.push(hi === lo ? 50 : (100 * (rsis[i] - lo)) / (hi - lo));
+    }
+    const ks: number[] = [];
+    for (let i = kSmooth - 1; i < raw.length; i++) ks.push(mean(raw.slice(i - kSmooth + 1, i + 1)));
+
+    return { k: round2(ks[ks.length - 1]), d: round2(mean(ks.slice(-dSmooth))) };
+}
+
+/**
+ * Calculate ADX / DMI (Wilder)
+ * ADX > 25 = trending; +DI above -DI = bullish pressure
+ */
+export function calculateADX(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 14
+): { adx: number; plusDI: number; minusDI: number } {
+    if (closes.length < 2 * period + 1) return { adx: 0, plusDI: 0, minusDI: 0 };
+
+    const trs: number[] = [];
+    const plusDMs: number[] = [];
+    const minusDMs: number[] = [];
+    for (let i = 1; i < closes.length; i++) {
+        const up = highs[i] - highs[i - 1];
+        const down = lows[i - 1] - lows[i];
+        plusDMs.push(up > down && up > 0 ? up : 0);
+        minusDMs.push(down > up && down > 0 ? down : 0);
+        trs.push(Math.max(highs[i] - lows[i], Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1])));
+    }
+
+    const tr = wilderSmooth(trs, period);
+    const plusDM = wilderSmooth(plusDMs, period);
+    const minusDM = wilderSmooth(minusDMs, period);
+    const plusDIs = tr.map((t, i) => (t === 0 ? 0 : (100 * plusDM[i]) / t));
+    const minusDIs = tr.map((t, i) => (t === 0 ? 0 : (100 * minusDM[i]) / t));
+    const dxs = plusDIs.map((p, i) => {
+        const sum = p + minusDIs[i];
+        return sum === 0 ? 0 : (100 * Math.abs(p - minusDIs[i])) / sum;
+    });
+    const adx = wilderSmooth(dxs, period);
+
+    return {
+        adx: round2(adx[adx.length - 1]),
+        plusDI: round2(plusDIs[plusDIs.length - 1]),
+        minusDI: round2(minusDIs[minusDIs.length - 1]),
+    };
+}
+
+/**
+ * Calculate Ichimoku Cloud
+ * senkouA/senkouB are the cloud under the current bar (projected `displacement`
+ * bars ago); `cloud` says where the close sits relative to it
+ */
+export function calculateIchimoku(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    tenkanPeriod: number = 9,
+    kijunPeriod: number = 26,
+    senkouBPeriod: number = 52,
+    displacement: number = 26
+): {
+    tenkan: number;
+    kijun: number;
+    senkouA: number;
+    senkouB: number;
+    chikou: number;
+    cloud: 'above' | 'below' | 'inside';
+} {
+    const n = closes.length;
+    const last = closes[n - 1] || 0;
+    if (n < senkouBPeriod) {
+        return { tenkan: last, kijun: last, senkouA: last, senkouB: last, chikou: last, cloud: 'inside' };
+    }
+
+    const midpoint = (end: number, period: number) =>
+        (highest(highs, Math.max(0, end - period), end) + lowest(lows, Math.max(0, end - period), end)) / 2;
+
+    // The cloud plotted at the current bar was computed `displacement` bars ago
+    const cloudEnd = n - displacement >= senkouBPeriod ? n - displacement : n;
+    const senkouA = (midpoint(cloudEnd, tenkanPeriod) + midpoint(cloudEnd, kijunPeriod)) / 2;
+    const senkouB = midpoint(cloudEnd, senkouBPeriod);
+    const top = Math.max(senkouA, senkouB);
+    const bottom = Math.min(senkouA, senkouB);
+
+    return {
+        tenkan: round2(midpoint(n, tenkanPeriod)),
+        kijun: round2(midpoint(n, kijunPeriod)),
+        senkouA: round2(senkouA),
+        senkouB: round2(senkouB),
+        chikou: round2(last),
+        cloud: last > top ? 'above' : last < bottom ? 'below' : 'inside',
+    };
+}
+
+/**
+ * Calculate Keltner Channels: EMA ± multiplier × ATR
+ */
+export function calculateKeltnerChannels(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    emaPeriod: number = 20,
+    atrPeriod: number = 10,
+    multiplier: number = 2
+): { upper: number; middle: number; lower: number } {
+    const middle = calculateEMA(closes, emaPeriod);
+    const atr = calculateATR(highs, lows, closes, atrPeriod);
+    return {
+        upper: round2(middle + multiplier * atr),
+        middle,
+        lower: round2(middle - multiplier * atr),
+    };
+}
+
+/**
+ * Calculate Supertrend: ATR band around hl2 that flips with the close
+ */
+export function calculateSupertrend(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 10,
+    multiplier: number = 3
+): { value: number; direction: 'up' | 'down' } {
+    const atr = new AtrStream(period);
+    let upperBand = 0;
+    let lowerBand = 0;
+    let direction: 'up' | 'down' = 'up';
+    let started = false;
+
+    for (let i = 0; i < closes.length; i++) {
+        atr.update({ high: highs[i], low: lows[i], close: closes[i] });
+        if (!atr.isReady) continue;
+
+        const hl2 = (highs[i] + lows[i]) / 2;
+        const basicUpper = hl2 + multiplier * atr.value;
+        const basicLower = hl2 - multiplier * atr.value;
+
+        if (!started) {
+            upperBand = basicUpper;
+            lowerBand = basicLower;
+            direction = closes[i] >= hl2 ? 'up' : 'down';
+            started = true;
+            continue;
+        }
+
+        // Bands only tighten while price stays on their side
+        upperBand = basicUpper < upperBand || closes[i - 1] > upperBand ? basicUpper : upperBand;
+        lowerBand = basicLower > lowerBand || closes[i - 1] < lowerBand ? basicLower : lowerBand;
+
+        if (direction === 'up' && closes[i] < lowerBand) direction = 'down';
+        else if (direction === 'down' && closes[i] > upperBand) direction = 'up';
+    }
+
+    if (!started) return { value: closes[closes.length - 1] || 0, direction: 'up' };
+    return { value: round2(direction === 'up' ? lowerBand : upperBand), direction };
+}
+
+/**
+ * Calculate Donchian Channels: highest high / lowest low over `period`
+ */
+export function calculateDonchianChannels(
+    highs: number[],
+    lows: number[],
+    period: number = 20
+): { upper: number; middle: number; lower: number } {
+    const from = Math.max(0, highs.length - period);
+    const upper = highest(highs, from, highs.length);
+    const lower = lowest(lows, from, lows.length);
+    if (!isFinite(upper) || !isFinite(lower)) return { upper: 0, middle: 0, lower: 0 };
+    return { upper: round2(upper), middle: round2((upper + lower) / 2), lower: round2(lower) };
+}
+
+/**
+ * Calculate VWAP anchored at bar `anchorIndex` (typical price × volume)
+ */
+export function calculateAnchoredVWAP(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    anchorIndex: number = 0
+): number {
+    const typical = typicalPrices(highs, lows, closes);
+    let pv = 0;
+    let volume = 0;
+    for (let i = Math.max(0, anchorIndex); i < closes.length; i++) {
+        pv += typical[i] * volumes[i];
+        volume += volumes[i];
+    }
+    if (volume === 0) return closes[closes.length - 1] || 0;
+    return round2(pv / volume);
+}
+
+/**
+ * Calculate session VWAP: anchored at the latest session open
+ * (sessionStartHourUtc each UTC day, 0 = midnight UTC)
+ */
+export function calculateSessionVWAP(
+    times: number[],
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    sessionStartHourUtc: number = 0
+): { vwap: number; sessionStart: number } {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const offset = sessionStartHourUtc * 60 * 60 * 1000;
+    const lastTime = times[times.length - 1] ?? 0;
+    const sessionStart = Math.floor((lastTime - offset) / dayMs) * dayMs + offset;
+
+    const anchor = times.findIndex((t) => t >= sessionStart);
+    return {
+        vwap: calculateAnchoredVWAP(highs, lows, closes, volumes, anchor < 0 ? times.length : anchor),
+        sessionStart,
+    };
+}
+
+/**
+ * Calculate CCI (Commodity Channel Index)
+ * > +100 overbought, < -100 oversold
+ */
+export function calculateCCI(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 20
+): number {
+    if (closes.length < period) return 0;
+
+    const typical = typicalPrices(highs, lows, closes).slice(-period);
+    const sma = mean(typical);
+    const meanDeviation = mean(typical.map((t) => Math.abs(t - sma)));
+    if (meanDeviation === 0) return 0;
+    return round2((typical[typical.length - 1] - sma) / (0.015 * meanDeviation));
+}
+
+/**
+ * Calculate MFI (Money Flow Index) - volume-weighted RSI
+ */
+export function calculateMFI(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    volumes: number[],
+    period: number = 14
+): number {
+    if (closes.length < period + 1) return 50;
+
+    const typical = typicalPrices(highs, lows, closes);
+    let positive = 0;
+    let negative = 0;
+    for (let i = closes.length - period; i < closes.length; i++) {
+        const flow = typical[i] * volumes[i];
+        if (typical[i] > typical[i - 1]) positive += flow;
+        else if (typical[i] < typical[i - 1]) negative += flow;
+    }
+
+    if (negative === 0) return positive === 0 ? 50 : 100;
+    return round2(100 - 100 / (1 + positive / negative));
+}
+
+/**
+ * Calculate Williams %R
+ * -100 to 0; above -20 overbought, below -80 oversold
+ */
+export function calculateWilliamsR(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    period: number = 14
+): number {
+    if (closes.length < period) return -50;
+
+    const hh = highest(highs, closes.length - period, closes.length);
+    const ll = lowest(lows, closes.length - period, closes.length);
+    if (hh === ll) return -50;
+    return round2((-100 * (hh - closes[closes.length - 1])) / (hh - ll));
+}
+
 // ==================== KELLY CRITERION POSITION SIZING ====================
 
 export interface TradeHistory {
@@ -297,25 +650,29 @@ export function calculateKellyFraction(
 }
 
 /**
- * Calculate position size based on Kelly and ATR
+ * Calculate position size based on Kelly and ATR.
+ * With a contract spec the size is in its contracts, rounded to its lot
+ * (0 below the minimum order size), and the stop is rounded to its tick.
+ * Without one the size is rounded to 5 decimals and the stop to cents.
  */
 export function calculatePositionSize(
     accountEquity: number,
     kellyFraction: number,
     currentPrice: number,
     atr: number,
-    stopLossMultiplier: number = 2 // 2× ATR stop loss
+    stopLossMultiplier: number = 2, // 2× ATR stop loss
+    contract: Contract | null = null
 ): { size: number; stopLoss: number; riskAmount: number } {
     const riskAmount = accountEquity * kellyFraction;
     const stopLossDistance = atr * stopLossMultiplier;
     const stopLoss = currentPrice - stopLossDistance;
 
     // Size = Risk Amount / Stop Loss Distance
-    const size = riskAmount / stopLossDistance;
+    const size = riskAmount / (stopLossDistance * (contract?.contractValue ?? 1));
 
     return {
-        size: Math.round(size * 100000) / 100000, // 5 decimal places for BTC
-        stopLoss: Math.round(stopLoss * 100) / 100,
+        size: contract ? tradableSize(contract, size) : roundToStep(size, 0.00001),
+        stopLoss: roundToStep(stopLoss, contract?.tickSize ?? 0.01),
         riskAmount: Math.round(riskAmount * 100) / 100,
     };
 }
@@ -457,6 +814,18 @@ export const QuantTools = {
     calculateBollingerBands,
     calculateOBV,
     detectOBVDivergence,
+    calculateStochastic,
+    calculateStochRSI,
+    calculateADX,
+    calculateIchimoku,
+    calculateKeltnerChannels,
+    calculateSupertrend,
+    calculateDonchianChannels,
+    calculateAnchoredVWAP,
+    calculateSessionVWAP,
+    calculateCCI,
+    calculateMFI,
+    calculateWilliamsR,
 
     // Position Sizing
     calculateKellyFraction,
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { OrderBook } from './indicators.js';
+import {
+    MicrostructureTracker, LeeReadyClassifier, calculateMicroprice, calculateMultiLevelImbalance, calculateDistanceWeightedImbalance,
+    orderFlowImbalance, classifyTradeLeeReady, calculateTradeFlowImbalance, calculateKyleLambda, effectiveSpreadBps,
+    realizedSpreadBps, calculateRollSpreadBps,
+} from './microstructure.js';
+
+const book = (bids: [number, number][], asks: [number, number][]): OrderBook => ({
+    bids: bids.map(([price, quantity]) => ({ price, quantity })),
+    asks: asks.map(([price, quantity]) => ({ price, quantity })),
+    timestamp: 0,
+});
+
+describe('book signals', () => {
+    it('microprice leans toward the thinner side', () => {
+        expect(calculateMicroprice(book([[99, 3]], [[101, 1]]))).toBe(100.5);
+        expect(calculateMicroprice(book([], [[101, 1]]))).toBeNull();
+    });
+
+    it('imbalance weighs deeper levels less', () => {
+        const tiered = book([[99, 1], [98, 4]], [[101, 1]]);
+
+        expect(calculateMultiLevelImbalance(tiered, 2, 1)).toBeCloseTo(4 / 6);
+        expect(calculateMultiLevelImbalance(tiered, 2, 0.5)).toBeCloseTo(0.5);
+        const distance = calculateDistanceWeightedImbalance(tiered, 2, 10);
+        expect(distance).toBeGreaterThan(0);
+        expect(distance).toBeLessThan(0.5);
+    });
+
+    it('OFI counts size added at a better bid and removed at an unchanged one', () => {
+        const prev = { bidPrice: 100, bidSize: 3, askPrice: 101, askSize: 2 };
+
+        expect(orderFlowImbalance(prev, { ...prev, bidPrice: 100.5, bidSize: 5 })).toBe(5);
+        expect(orderFlowImbalance(prev, { ...prev, bidSize: 1 })).toBe(-2);
+        expect(orderFlowImbalance(prev, { ...prev, askPrice: 100.5, askSize: 4 })).toBe(-4);
+    });
+});
+
+describe('trade signals', () => {
+    it('Lee-Ready signs by the quote, then by the tick', () => {
+        expect(classifyTradeLeeReady(101, 100, null)).toBe(1);
+        expect(classifyTradeLeeReady(99, 100, null)).toBe(-1);
+        expect(classifyTradeLeeReady(100, 100, 99)).toBe(1);
+        expect(classifyTradeLeeReady(100, null, 101)).toBe(-1);
+        expect(classifyTradeLeeReady(100, 100, 100, -1)).toBe(-1);
+
+        // A zero tick keeps the sign of the last price change
+        const classifier = new LeeReadyClassifier();
+        expect([100, 99, 99, 100, 100].map((p) => classifier.classify(p, null))).toEqual([1, -1, -1, 1, 1]);
+    });
+
+    it('trade flow, Kyle\'s lambda and spreads', () => {
+        expect(calculateTradeFlowImbalance([{ size: 3, sign: 1 }, { size: 1, sign: -1 }])).toBe(0.5);
+        expect(calculateKyleLambda([2, -4, 6, 0], [1, -2, 3, 0])).toBeCloseTo(2);
+        expect(calculateKyleLambda([1, 2], [1, 2])).toBe(0);
+        expect(effectiveSpreadBps(100.05, 100, 1)).toBeCloseTo(10);
+        expect(realizedSpreadBps(100.05, 100, 100.05, 1)).toBeCloseTo(0);
+    });
+
+    it('Roll reads the spread from a bid-ask bounce and nothing from a trend', () => {
+        // Price changes alternate ±1: autocovariance -8/9
+        expect(calculateRollSpreadBps([100, 101, 100, 101, 100])).toBeCloseTo((2 * Math.sqrt(8 / 9) / 100.4) * 10000);
+        expect(calculateRollSpreadBps([100, 101, 103, 106, 110])).toBeNull();
+    });
+});
+
+describe('MicrostructureTracker', () => {
+    it('signs trades, prices spreads once the mid has moved on and forgets the window', () => {
+        const tracker = new MicrostructureTracker({ windowMs: 60_000, realizedSpreadDelayMs: 5000 });
+        tracker.updateBook(book([[99, 2]], [[101, 1]]), 0);
+
+        expect(tracker.addTrade({ price: 101, size: 3, timestamp: 1000 })).toBe(1);
+        expect(tracker.addTrade({ price: 99, size: 1, timestamp: 2000 })).toBe(-1);
+        expect(tracker.addTrade({ price: 100, size: 1, side: 'sell', timestamp: 3000 })).toBe(-1);
+
+        // Both sides step up a dollar: bid size added, ask size taken away
+        tracker.updateBook(book([[100, 2]], [[102, 1]]), 6000);
+
+        expect(tracker.snapshot(6000)).toMatchObject({
+            mid: 101,
+            spreadBps: expect.closeTo((2 / 101) * 10000),
+            tradeFlowImbalance: expect.closeTo(0.2),
+            ofi: 3,
+            ofiNormalized: 1,
+            effectiveSpreadBps: expect.closeTo(400 / 3),
+            // Only the first trade is 5s old by the update; the mid moved to its price
+            realizedSpreadBps: 0,
+            trades: 3,
+        });
+
+        expect(tracker.snapshot(70_000)).toMatchObject({ trades: 0, tradeFlowImbalance: 0, ofi: 0, effectiveSpreadBps: null, mid: 101 });
+    });
+});
@@ -0,0 +1,400 @@
+/**
+ * Market Microstructure
+ * Order book and trade flow signals for the WS trade and depth streams:
+ *
+ * - Microprice and book imbalance (top-N, level-decayed, distance-weighted)
+ * - Trade flow imbalance: signed volume share of recent trades
+ * - Order flow imbalance (OFI, Cont-Kukanov-Stoikov): net top-of-book size change
+ * - Kyle's lambda: price impact per unit of signed volume
+ * - Effective and realized spread of trades; Roll's spread estimate from prices alone
+ * - Lee-Ready trade signing, so VPIN works when the feed omits the aggressor side
+ *
+ * The functions are stateless; MicrostructureTracker keeps the rolling state
+ * for a live feed (trades and book updates in, snapshot() out).
+ */
+
+import type { OrderBook, OrderBookLevel, DepthLevels } from './indicators.js';
+import { VpinStream } from './streaming.js';
+
+// ==================== TYPES ====================
+
+export type TradeSign = 1 | -1;
+
+/**
+ * What the tracker needs from a trade (the hub's TradeUpdate fits)
+ */
+export interface MicroTrade {
+    price: number;
+    size: number;
+    side?: 'buy' | 'sell';  // Aggressor; classified with Lee-Ready when missing
+    timestamp: number;
+}
+
+export interface TopOfBook {
+    bidPrice: number;
+    bidSize: number;
+    askPrice: number;
+    askSize: number;
+}
+
+export interface MicrostructureSnapshot {
+    timestamp: number;
+    mid: number | null;
+    microprice: number | null;
+    spreadBps: number | null;
+    imbalance: number;                  // Plain top-N OBI
+    multiLevelImbalance: number;
+    distanceWeightedImbalance: number;
+    tradeFlowImbalance: number;
+    ofi: number;                        // Net OFI over the window (base units)
+    ofiNormalized: number;              // Net / gross OFI, -1 to +1
+    kyleLambda: number;                 // Mid-price change per unit of signed volume
+    effectiveSpreadBps: number | null;
+    realizedSpreadBps: number | null;
+    rollSpreadBps: number | null;
+    vpin: number;
+    trades: number;                     // Trades in the window
+}
+
+export interface MicrostructureConfig {
+    levels: number;
+    levelDecay: number;                 // Weight of level i is levelDecay^i
+    distanceScaleBps: number;           // Weight falls by e every this many bps from mid
+    windowMs: number;                   // Rolling window for flow, OFI, lambda and spreads
+    lambdaIntervalMs: number;           // Sub-interval for the Kyle's lambda regression
+    realizedSpreadDelayMs: number;      // Mid this long after a trade prices its realized spread
+    vpinBucketSize: number;             // Base units per VPIN bucket (≈ 1/50 of daily volume)
+    vpinBuckets: number;
+}
+
+const DEFAULT_CONFIG: MicrostructureConfig = {
+    levels: 10,
+    levelDecay: 0.8,
+    distanceScaleBps: 10,
+    windowMs: 60_000,
+    lambdaIntervalMs: 5_000,
+    realizedSpreadDelayMs: 5_000,
+    vpinBucketSize: 50,
+    vpinBuckets: 50,
+};
+
+// ==================== BOOK SIGNALS ====================
+
+function levelsOf(book: OrderBook | DepthLevels, n: number): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+    return 'topBids' in book
+        ? { bids: book.topBids(n), asks: book.topAsks(n) }
+        : { bids: book.bids.slice(0, n), asks: book.asks.slice(0, n) };
+}
+
+export function topOfBook(book: OrderBook | DepthLevels): TopOfBook | null {
+    const { bids, asks } = levelsOf(book, 1);
+    if (!bids[0] || !asks[0]) return null;
+    return { bidPrice: bids[0].price, bidSize: bids[0].quantity, askPrice: asks[0].price, askSize: asks[0].quantity };
+}
+
+/**
+ * Mid weighted toward the thinner side: (bid × askQty + ask × bidQty) / (bidQty + askQty)
+ */
+export function calculateMicroprice(book: OrderBook | DepthLevels): number | null {
+    const top = topOfBook(book);
+    if (!top) return null;
+    const total = top.bidSize + top.askSize;
+    if (total === 0) return (top.bidPrice + top.askPrice) / 2;
+    return (top.bidPrice * top.askSize + top.askPrice * top.bidSize) / total;
+}
+
+/**
+ * Imbalance over `levels` levels with level i weighted decay^i, so the
+ * touch counts most. -1 (ask heavy) to +1 (bid heavy).
+ */
+export function calculateMultiLevelImbalance(book: OrderBook | DepthLevels, levels: number = 10, decay: number = 0.8): number {
+    const { bids, asks } = levelsOf(book, levels);
+    let bid = 0;
+    let ask = 0;
+    for (let i = 0; i < levels; i++) {
+        const weight = decay ** i;
+        bid += (bids[i]?.quantity ?? 0) * weight;
+        ask += (asks[i]?.quantity ?? 0) * weight;
+    }
+    return bid + ask > 0 ? (bid - ask) / (bid + ask) : 0;
+}
+
+/**
+ * Imbalance with each level weighted exp(-distance from mid / scaleBps), so
+ * size far from the price counts little however the book is tiered
+ */
+export function calculateDistanceWeightedImbalance(book: OrderBook | DepthLevels, levels: number = 20, scaleBps: number = 10): number {
+    const { bids, asks } = levelsOf(book, levels);
+    if (!bids[0] || !asks[0]) return 0;
+    const mid = (bids[0].price + asks[0].price) / 2;
+    const weigh = (levels: OrderBookLevel[]) => levels.reduce((sum, l) =>
+        sum + l.quantity * Math.exp(-(Math.abs(l.price - mid) / mid) * 10000 / scaleBps), 0);
+    const bid = weigh(bids);
+    const ask = weigh(asks);
+    return bid + ask > 0 ? (bid - ask) / (bid + ask) : 0;
+}
+
+/**
+ * OFI contribution of one top-of-book change (Cont, Kukanov & Stoikov 2014):
+ * bid size added at or above the old bid counts as buying pressure, ask size
+ * added at or below the old ask as selling pressure, and removals the reverse
+ */
+export function orderFlowImbalance(prev: TopOfBook, next: TopOfBook): number {
+    let e = 0;
+    if (next.bidPrice >= prev.bidPrice) e += next.bidSize;
+    if (next.bidPrice <= prev.bidPrice) e -= prev.bidSize;
+    if (next.askPrice <= prev.askPrice) e -= next.askSize;
+    if (next.askPrice >= prev.askPrice) e += prev.askSize;
+    return e;
+}
+
+// ==================== TRADE SIGNALS ====================
+
+/**
+ * Lee-Ready: above the mid is a buy, below a sell; at the mid (or with no
+ * quote) the tick rule decides: up from the last different price is a buy.
+ * A zero tick keeps the previous sign.
+ */
+export function classifyTradeLeeReady(price: number, mid: number | null, prevPrice: number | null, prevSign: TradeSign = 1): TradeSign {
+    if (mid !== null) {
+        if (price > mid) return 1;
+        if (price < mid) return -1;
+    }
+    if (prevPrice === null || price === prevPrice) return prevSign;
+    return price > prevPrice ? 1 : -1;
+}
+
+/**
+ * Stateful Lee-Ready for a trade stream (remembers the tick rule's last price and sign)
+ */
+export class LeeReadyClassifier {
+    private lastPrice: number | null = null;
+    private lastSign: TradeSign = 1;
+
+    classify(price: number, mid: number | null): TradeSign {
+        const sign = classifyTradeLeeReady(price, mid, this.lastPrice, this.lastSign);
+        if (price !== this.lastPrice) this.lastPrice = price;
+        this.lastSign = sign;
+        return sign;
+    }
+
+    reset(): void {
+        this.lastPrice = null;
+        this.lastSign = 1;
+    }
+}
+
+/**
+ * (buy volume - sell volume) / total volume
+ */
+export function calculateTradeFlowImbalance(trades: { size: number; sign: TradeSign }[]): number {
+    let signed = 0;
+    let total = 0;
+    for (const t of trades) {
+        signed += t.sign * t.size;
+        total += t.size;
+    }
+    return total > 0 ? signed / total : 0;
+}
+
+/**
+ * Kyle's lambda: OLS slope of price changes on signed volume over the same intervals
+ */
+export function calculateKyleLambda(priceChanges: number[], signedVolumes: number[]): number {
+    const n = Math.min(priceChanges.length, signedVolumes.length);
+    if (n < 3) return 0;
+    const mx = signedVolumes.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    const my = priceChanges.slice(0, n).reduce((a, b) => a + b, 0) / n;
+    let sxx = 0;
+    let sxy = 0;
+    for (let i = 0; i < n; i++) {
+        sxx += (signedVolumes[i] - mx) ** 2;
+        sxy += (signedVolumes[i] - mx) * (priceChanges[i] - my);
+    }
+    return sxx > 0 ? sxy / sxx : 0;
+}
+
+/**
+ * Effective spread of one trade in bps: 2 × sign × (price - mid) / mid
+ */
+export function effectiveSpreadBps(price: number, mid: number, sign: TradeSign): number {
+    return (2 * sign * (price - mid) / mid) * 10000;
+}
+
+/**
+ * Realized spread in bps: what the liquidity provider kept once the mid moved
+ * to `laterMid`: 2 × sign × (price - laterMid) / mid
+ */
+export function realizedSpreadBps(price: number, mid: number, laterMid: number, sign: TradeSign): number {
+    return (2 * sign * (price - laterMid) / mid) * 10000;
+}
+
+/**
+ * Roll (1984) effective spread estimate from trade prices alone:
+ * 2 × √(-cov(Δpₜ, Δpₜ₋₁)), in bps of the mean price (null when the
+ * autocovariance is positive and the model doesn't apply)
+ */
+export function calculateRollSpreadBps(prices: number[]): number | null {
+    if (prices.length < 4) return null;
+    const changes = prices.slice(1).map((p, i) => p - prices[i]);
+    const a = changes.slice(1);
+    const b = changes.slice(0, -1);
+    const ma = a.reduce((s, x) => s + x, 0) / a.length;
+    const mb = b.reduce((s, x) => s + x, 0) / b.length;
+    const cov = a.reduce((s, x, i) => s + (x - ma) * (b[i] - mb), 0) / a.length;
+    if (cov >= 0) return null;
+    const meanPrice = prices.reduce((s, p) => s + p, 0) / prices.length;
+    return (2 * Math.sqrt(-cov) / meanPrice) * 10000;
+}
+
+// ==================== TRACKER ====================
+
+interface SignedTrade {
+    price: number;
+    size: number;
+    sign: TradeSign;
+    timestamp: number;
+    mid: number | null;
+    realizedBps: number | null;
+}
+
+export class MicrostructureTracker {
+    private config: MicrostructureConfig;
+    private book: OrderBook | DepthLevels | null = null;
+    private top: TopOfBook | null = null;
+    private classifier = new LeeReadyClassifier();
+    private vpin: VpinStream;
+    private trades: SignedTrade[] = [];
+    private pending: SignedTrade[] = [];     // Waiting for the mid realizedSpreadDelayMs later
+    private ofiEvents: { timestamp: number; ofi: number }[] = [];
+    private mids: { timestamp: number; mid: number }[] = [];
+
+    constructor(config: Partial<MicrostructureConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.vpin = new VpinStream(this.config.vpinBucketSize, this.config.vpinBuckets);
+    }
+
+    /**
+     * New book state (a live L2OrderBook on every update, or a polled snapshot)
+     */
+    updateBook(book: OrderBook | DepthLevels, timestamp: number): void {
+        this.book = book;
+        const top = topOfBook(book);
+        if (!top) return;
+
+        if (this.top) {
+            this.ofiEvents.push({ timestamp, ofi: orderFlowImbalance(this.top, top) });
+        }
+        this.top = top;
+
+        const mid = (top.bidPrice + top.askPrice) / 2;
+        this.mids.push({ timestamp, mid });
+
+        // Trades old enough to price their realized spread
+        while (this.pending.length > 0 && timestamp - this.pending[0].timestamp >= this.config.realizedSpreadDelayMs) {
+            const trade = this.pending.shift()!;
+            trade.realizedBps = realizedSpreadBps(trade.price, trade.mid!, mid, trade.sign);
+        }
+        this.prune(timestamp);
+    }
+
+    addTrade(trade: MicroTrade): TradeSign {
+        const mid = this.top ? (this.top.bidPrice + this.top.askPrice) / 2 : null;
+        const classified = this.classifier.classify(trade.price, mid);
+        const sign: TradeSign = trade.side ? (trade.side === 'buy' ? 1 : -1) : classified;
+
+        const signed: SignedTrade = { price: trade.price, size: trade.size, sign, timestamp: trade.timestamp, mid, realizedBps: null };
+        this.trades.push(signed);
+        if (mid !== null) this.pending.push(signed);
+        this.vpin.update({ price: trade.price, volume: trade.size, side: sign === 1 ? 'buy' : 'sell', timestamp: trade.timestamp });
+        this.prune(trade.timestamp);
+        return sign;
+    }
+
+    snapshot(now: number): MicrostructureSnapshot {
+        this.prune(now);
+        const cfg = this.config;
+        const book = this.book;
+        const top = this.top;
+        const mid = top ? (top.bidPrice + top.askPrice) / 2 : null;
+
+        const ofi = this.ofiEvents.reduce((s, e) => s + e.ofi, 0);
+        const grossOfi = this.ofiEvents.reduce((s, e) => s + Math.abs(e.ofi), 0);
+
+        const quoted = this.trades.filter((t) => t.mid !== null);
+        const realized = this.trades.filter((t) => t.realizedBps !== null);
+        const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+        return {
+            timestamp: now,
+            mid,
+            microprice: book ? calculateMicroprice(book) : null,
+            spreadBps: top && mid ? ((top.askPrice - top.bidPrice) / mid) * 10000 : null,
+            imbalance: book ? calculateMultiLevelImbalance(book, cfg.levels, 1) : 0,
+            multiLevelImbalance: book ? calculateMultiLevelImbalance(book, cfg.levels, cfg.levelDecay) : 0,
+            distanceWeightedImbalance: book ? calculateDistanceWeightedImbalance(book, cfg.levels * 2, cfg.distanceScaleBps) : 0,
+            tradeFlowImbalance: calculateTradeFlowImbalance(this.trades),
+            ofi,
+            ofiNormalized: grossOfi > 0 ? ofi / grossOfi : 0,
+            kyleLambda: this.kyleLambda(now),
+            effectiveSpreadBps: average(quoted.map((t) => effectiveSpreadBps(t.price, t.mid!, t.sign))),
+            realizedSpreadBps: average(realized.map((t) => t.realizedBps!)),
+            rollSpreadBps: calculateRollSpreadBps(this.trades.map((t) => t.price)),
+            vpin: this.vpin.value,
+            trades: this.trades.length,
+        };
+    }
+
+    reset(): void {
+        this.book = null;
+        this.top = null;
+        this.classifier.reset();
+        this.vpin.reset();
+        this.trades = [];
+        this.pending = [];
+        this.ofiEvents = [];
+        this.mids = [];
+    }
+
+    /**
+     * Regress the mid change of each lambdaIntervalMs slice of the window on
+     * that slice's net signed volume
+     */
+    private kyleLambda(now: number): number {
+        const step = this.config.lambdaIntervalMs;
+        const start = now - this.config.windowMs;
+        const midAt = (time: number): number | null => {
+            let mid: number | null = null;
+            for (const m of this.mids) {
+                if (m.timestamp > time) break;
+                mid = m.mid;
+            }
+            return mid;
+        };
+
+        const changes: number[] = [];
+        const volumes: number[] = [];
+        for (let from = start; from + step <= now; from += step) {
+            const before = midAt(from);
+            const after = midAt(from + step);
+            if (before === null || after === null) continue;
+            changes.push(after - before);
+            volumes.push(this.trades
+                .filter((t) => t.timestamp > from && t.timestamp <= from + step)
+                .reduce((s, t) => s + t.sign * t.size, 0));
+        }
+        return calculateKyleLambda(changes, volumes);
+    }
+
+    private prune(now: number): void {
+        const cutoff = now - this.config.windowMs;
+        while (this.trades.length > 0 && this.trades[0].timestamp < cutoff) this.trades.shift();
+        while (this.ofiEvents.length > 0 && this.ofiEvents[0].timestamp < cutoff) this.ofiEvents.shift();
+        // Keep one mid from before the window so its first slice has a starting price
+        while (this.mids.length > 1 && this.mids[1].timestamp < cutoff) this.mids.shift();
+        // A trade that never saw a later mid is dropped with the window
+        while (this.pending.length > 0 && this.pending[0].timestamp < cutoff) this.pending.shift();
+    }
+}
+
+export default MicrostructureTracker;
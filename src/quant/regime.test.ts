@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { detectRegime, fitGaussianHMM, hurstExponent, realizedVolatility, varianceRatio } from './regime.js';
+
+/**
+ * Seeded uniform [0, 1) so the series are the same on every run
+ */
+function random(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a * 1664525 + 1013904223) >>> 0;
+        return a / 4294967296;
+    };
+}
+
+/**
+ * Bars whose close moves by step(i) percent each bar, with a narrow high/low
+ */
+function bars(n: number, step: (i: number, noise: number) => number) {
+    const next = random(1);
+    const closes = [100];
+    for (let i = 1; i < n; i++) closes.push(closes[i - 1] * (1 + step(i, next() - 0.5)));
+    return { highs: closes.map((c) => c * 1.001), lows: closes.map((c) => c * 0.999), closes };
+}
+
+const detect = ({ highs, lows, closes }: ReturnType<typeof bars>) => detectRegime(highs, lows, closes);
+
+describe('detectRegime', () => {
+    it('calls a steady climb trending up and its mirror trending down', () => {
+        const up = detect(bars(120, (_, noise) => 0.003 + noise * 0.002));
+        const down = detect(bars(120, (_, noise) => -0.003 + noise * 0.002));
+
+        expect(up.regime).toBe('trending_up');
+        expect(up.confidence).toBeGreaterThan(0.9);
+        expect(up.features).toMatchObject({ adx: 100, minusDI: 0 });
+        expect(down.regime).toBe('trending_down');
+        expect(down.confidence).toBeGreaterThan(0.9);
+    });
+
+    it('calls a back-and-forth market ranging', () => {
+        const result = detect(bars(120, (i, noise) => (i % 2 ? 0.004 : -0.004) + noise * 0.001));
+
+        expect(result.regime).toBe('ranging');
+        expect(result.features.varianceRatio).toBeLessThan(0.1);
+        expect(result.features.hurst).toBeLessThan(0.5);
+    });
+
+    it('calls a burst of large moves after a calm stretch volatile', () => {
+        const result = detect(bars(120, (i, noise) => (i < 100 ? 0.001 : 0.06) * noise));
+
+        expect(result.regime).toBe('volatile');
+        expect(result.features.volPercentile).toBeGreaterThan(0.95);
+    });
+
+    it('gives a flat, low-confidence answer without enough bars', () => {
+        const result = detect(bars(20, () => 0.003));
+
+        expect(result).toMatchObject({
+            regime: 'ranging',
+            confidence: 0.25,
+            probabilities: { trending_up: 0.25, trending_down: 0.25, ranging: 0.25, volatile: 0.25 },
+            hmm: null,
+        });
+    });
+
+    it('blends in the HMM when asked', () => {
+        const { highs, lows, closes } = bars(120, (i, noise) => (i < 100 ? 0.001 : 0.06) * noise);
+        const result = detectRegime(highs, lows, closes, { useHmm: true, hmmStates: 2 });
+
+        expect(result.hmm?.stateProbabilities).toHaveLength(2);
+        expect(Object.values(result.probabilities).reduce((a, b) => a + b, 0)).toBeCloseTo(1, 2);
+    });
+});
+
+describe('regime statistics', () => {
+    const alternating = Array.from({ length: 64 }, (_, i) => (i % 2 ? 0.01 : -0.01));
+
+    it('reads strict alternation as mean-reverting', () => {
+        expect(varianceRatio(alternating).ratio).toBe(0);
+        expect(varianceRatio(alternating).z).toBeLessThan(-2);
+        expect(hurstExponent(alternating)).toBeCloseTo(0);
+        expect(varianceRatio(alternating.slice(0, 10))).toEqual({ ratio: 1, z: 0 });
+    });
+
+    it('ranks the current realized volatility against its rolling history', () => {
+        // Rolling 2-bar vols: the last one is the largest of five
+        expect(realizedVolatility([0.01, -0.01, 0.01, -0.01, 0.05, -0.05], 2)).toEqual({ current: expect.closeTo(Math.sqrt(0.005), 12), percentile: 0.9 });
+    });
+
+    it('separates a calm and a wild state, calmest first', () => {
+        const next = random(3);
+        const returns = [
+            ...Array.from({ length: 100 }, () => (next() - 0.5) * 0.002),
+            ...Array.from({ length: 40 }, () => (next() - 0.5) * 0.05),
+        ];
+        const fit = fitGaussianHMM(returns, 2)!;
+
+        expect(fit.variances[1]).toBeGreaterThan(100 * fit.variances[0]);
+        // The series ends in the wild state
+        expect(fit.stateProbabilities[1]).toBeCloseTo(1);
+        expect(fitGaussianHMM(returns.slice(0, 19), 2)).toBeNull();
+    });
+});
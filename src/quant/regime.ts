@@ -0,0 +1,376 @@
+/**
+ * Market Regime Detection
+ * Deterministic classification into trending up/down, ranging or volatile,
+ * with a probability per regime, from:
+ *
+ * - ADX / DMI: trend strength and direction
+ * - Realized volatility percentile: current vol against its own recent history
+ * - Hurst exponent (rescaled range): > 0.5 persistent, < 0.5 mean-reverting
+ * - Variance ratio (Lo-MacKinlay): > 1 trending, < 1 mean-reverting
+ * - Optional Gaussian HMM on returns: 2-3 hidden states fitted by Baum-Welch
+ */
+
+import { calculateADX } from './indicators.js';
+
+// ==================== TYPES ====================
+
+export const MARKET_REGIMES = ['trending_up', 'trending_down', 'ranging', 'volatile'] as const;
+export type MarketRegime = typeof MARKET_REGIMES[number];
+
+export type RegimeProbabilities = Record<MarketRegime, number>;
+
+export interface RegimeFeatures {
+    adx: number;
+    plusDI: number;
+    minusDI: number;
+    realizedVol: number;        // Stdev of log returns over volWindow (per bar)
+    volPercentile: number;      // 0-1, current realized vol vs. the history
+    hurst: number;
+    varianceRatio: number;
+    varianceRatioZ: number;
+    trendReturn: number;        // Log return over the last volWindow bars
+}
+
+export interface HmmFit {
+    means: number[];
+    variances: number[];
+    transition: number[][];
+    stateProbabilities: number[];   // Filtered probabilities at the last bar
+    logLikelihood: number;
+    iterations: number;
+}
+
+export interface RegimeResult {
+    regime: MarketRegime;
+    confidence: number;
+    probabilities: RegimeProbabilities;
+    features: RegimeFeatures;
+    hmm: HmmFit | null;
+}
+
+export interface RegimeDetectorConfig {
+    adxPeriod: number;
+    volWindow: number;
+    varianceRatioLag: number;
+    volatilePercentile: number; // Vol percentile where "volatile" takes over
+    useHmm: boolean;
+    hmmStates: 2 | 3;
+    hmmIterations: number;
+    hmmWeight: number;          // Share of the HMM in the blended probabilities
+}
+
+const DEFAULT_CONFIG: RegimeDetectorConfig = {
+    adxPeriod: 14,
+    volWindow: 20,
+    varianceRatioLag: 4,
+    volatilePercentile: 0.8,
+    useHmm: false,
+    hmmStates: 3,
+    hmmIterations: 50,
+    hmmWeight: 0.3,
+};
+
+// ==================== STATISTICS ====================
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+export function logReturns(closes: number[]): number[] {
+    const returns: number[] = [];
+    for (let i = 1; i < closes.length; i++) {
+        if (closes[i - 1] > 0 && closes[i] > 0) returns.push(Math.log(closes[i] / closes[i - 1]));
+    }
+    return returns;
+}
+
+/**
+ * Realized volatility (per bar) of the last `window` returns and its
+ * percentile among the rolling values over the whole series
+ */
+export function realizedVolatility(returns: number[], window: number = 20): { current: number; percentile: number } {
+    if (returns.length < window) return { current: Math.sqrt(variance(returns)), percentile: 0.5 };
+
+    const rolling: number[] = [];
+    for (let end = window; end <= returns.length; end++) {
+        rolling.push(Math.sqrt(variance(returns.slice(end - window, end))));
+    }
+    const current = rolling[rolling.length - 1];
+    if (rolling.length < 2) return { current, percentile: 0.5 };
+
+    const below = rolling.filter((v) => v < current).length;
+    const equal = rolling.filter((v) => v === current).length;
+    return { current, percentile: (below + 0.5 * equal) / rolling.length };
+}
+
+/**
+ * Hurst exponent by rescaled range: slope of log(R/S) against log(n) over
+ * chunk sizes 8, 16, 32, ... (0.5 for a random walk)
+ */
+export function hurstExponent(returns: number[], minChunk: number = 8): number {
+    const points: { x: number; y: number }[] = [];
+    for (let size = minChunk; size <= returns.length / 2; size *= 2) {
+        const ratios: number[] = [];
+        for (let start = 0; start + size <= returns.length; start += size) {
+            const chunk = returns.slice(start, start + size);
+            const m = mean(chunk);
+            let cumulative = 0;
+            let max = -Infinity;
+            let min = Infinity;
+            for (const r of chunk) {
+                cumulative += r - m;
+                max = Math.max(max, cumulative);
+                min = Math.min(min, cumulative);
+            }
+            const sd = Math.sqrt(chunk.reduce((s, r) => s + (r - m) ** 2, 0) / size);
+            if (sd > 0) ratios.push((max - min) / sd);
+        }
+        if (ratios.length > 0) points.push({ x: Math.log(size), y: Math.log(mean(ratios)) });
+    }
+    if (points.length < 2) return 0.5;
+
+    const mx = mean(points.map((p) => p.x));
+    const my = mean(points.map((p) => p.y));
+    const sxx = points.reduce((s, p) => s + (p.x - mx) ** 2, 0);
+    const sxy = points.reduce((s, p) => s + (p.x - mx) * (p.y - my), 0);
+    return clamp(sxy / sxx, 0, 1);
+}
+
+/**
+ * Lo-MacKinlay variance ratio VR(q) = Var(q-bar returns) / (q × Var(1-bar returns))
+ * with its homoskedastic z-score
+ */
+export function varianceRatio(returns: number[], q: number = 4): { ratio: number; z: number } {
+    const n = returns.length;
+    if (n < q * 4) return { ratio: 1, z: 0 };
+
+    const oneBar = variance(returns);
+    if (oneBar === 0) return { ratio: 1, z: 0 };
+
+    const qBar: number[] = [];
+    for (let i = q; i <= n; i++) {
+        let sum = 0;
+        for (let j = i - q; j < i; j++) sum += returns[j];
+        qBar.push(sum);
+    }
+    const ratio = variance(qBar) / (q * oneBar);
+    const se = Math.sqrt((2 * (2 * q - 1) * (q - 1)) / (3 * q * n));
+    return { ratio, z: (ratio - 1) / se };
+}
+
+// ==================== HIDDEN MARKOV MODEL ====================
+
+function gaussian(x: number, m: number, v: number): number {
+    return Math.exp(-((x - m) ** 2) / (2 * v)) / Math.sqrt(2 * Math.PI * v);
+}
+
+/**
+ * Fit a 1-D Gaussian HMM to returns with Baum-Welch (scaled forward-backward).
+ * States are initialised from return quantiles and come back sorted by
+ * variance, lowest first.
+ */
+export function fitGaussianHMM(returns: number[], states: number = 3, iterations: number = 50): HmmFit | null {
+    const T = returns.length;
+    if (T < states * 10) return null;
+
+    const sorted = [...returns].sort((a, b) => a - b);
+    const overall = Math.max(variance(returns), 1e-12);
+    const floor = overall * 1e-3;
+
+    let means = Array.from({ length: states }, (_, k) => sorted[Math.floor(((k + 0.5) / states) * T)]);
+    let variances = Array.from({ length: states }, () => overall);
+    let transition = Array.from({ length: states }, (_, i) =>
+        Array.from({ length: states }, (_, j) => (i === j ? 0.9 : 0.1 / (states - 1))));
+    let initial = Array.from({ length: states }, () => 1 / states);
+
+    let logLikelihood = -Infinity;
+    let alpha: number[][] = [];
+    let iteration = 0;
+
+    for (; iteration < iterations; iteration++) {
+        // Forward
+        alpha = [];
+        const scale: number[] = [];
+        for (let t = 0; t < T; t++) {
+            const row = Array.from({ length: states }, (_, j) => {
+                const prior = t === 0
+                    ? initial[j]
+                    : alpha[t - 1].reduce((s, a, i) => s + a * transition[i][j], 0);
+                return prior * Math.max(gaussian(returns[t], means[j], variances[j]), 1e-300);
+            });
+            const c = row.reduce((a, b) => a + b, 0) || 1e-300;
+            scale.push(c);
+            alpha.push(row.map((a) => a / c));
+        }
+
+        // Backward
+        const beta: number[][] = new Array(T);
+        beta[T - 1] = new Array(states).fill(1);
+        for (let t = T - 2; t >= 0; t--) {
+            beta[t] = Array.from({ length: states }, (_, i) =>
+                transition[i].reduce((s, a, j) =>
+                    s + a * Math.max(gaussian(returns[t + 1], means[j], variances[j]), 1e-300) * beta[t + 1][j], 0) / scale[t + 1]);
+        }
+
+        // Expectation
+        const gamma = alpha.map((row, t) => {
+            const g = row.map((a, i) => a * beta[t][i]);
+            const sum = g.reduce((x, y) => x + y, 0) || 1;
+            return g.map((x) => x / sum);
+        });
+        const xiSum = Array.from({ length: states }, () => new Array(states).fill(0));
+        for (let t = 0; t < T - 1; t++) {
+            let norm = 0;
+            const xi = Array.from({ length: states }, (_, i) => Array.from({ length: states }, (_, j) => {
+                const v = alpha[t][i] * transition[i][j] * Math.max(gaussian(returns[t + 1], means[j], variances[j]), 1e-300) * beta[t + 1][j];
+                norm += v;
+                return v;
+            }));
+            for (let i = 0; i < states; i++) for (let j = 0; j < states; j++) xiSum[i][j] += xi[i][j] / (norm || 1);
+        }
+
+        // Maximization
+        initial = gamma[0];
+        transition = xiSum.map((row) => {
+            const sum = row.reduce((a, b) => a + b, 0) || 1;
+            return row.map((x) => x / sum);
+        });
+        const weights = Array.from({ length: states }, (_, k) => gamma.reduce((s, g) => s + g[k], 0) || 1e-12);
+        means = weights.map((w, k) => gamma.reduce((s, g, t) => s + g[k] * returns[t], 0) / w);
+        variances = weights.map((w, k) => Math.max(floor, gamma.reduce((s, g, t) => s + g[k] * (returns[t] - means[k]) ** 2, 0) / w));
+
+        const next = scale.reduce((s, c) => s + Math.log(c), 0);
+        if (Math.abs(next - logLikelihood) < 1e-6) {
+            logLikelihood = next;
+            break;
+        }
+        logLikelihood = next;
+    }
+
+    const order = Array.from({ length: states }, (_, k) => k).sort((a, b) => variances[a] - variances[b]);
+    return {
+        means: order.map((k) => means[k]),
+        variances: order.map((k) => variances[k]),
+        transition: order.map((i) => order.map((j) => transition[i][j])),
+        stateProbabilities: order.map((k) => alpha[T - 1][k]),
+        logLikelihood,
+        iterations: iteration,
+    };
+}
+
+/**
+ * Map HMM state probabilities onto regimes: the highest-variance state (when
+ * clearly above the calmest) is volatile; the others trend when their mean
+ * return is large against their noise, and range otherwise
+ */
+function hmmRegimeProbabilities(fit: HmmFit, window: number): RegimeProbabilities {
+    const probabilities: RegimeProbabilities = { trending_up: 0, trending_down: 0, ranging: 0, volatile: 0 };
+    const last = fit.variances.length - 1;
+
+    fit.stateProbabilities.forEach((p, k) => {
+        if (k === last && last > 0 && fit.variances[k] > 2 * fit.variances[0]) {
+            probabilities.volatile += p;
+            return;
+        }
+        // Drift over `window` bars measured in that state's standard deviations
+        const drift = (fit.means[k] * Math.sqrt(window)) / Math.sqrt(fit.variances[k]);
+        if (drift > 1) probabilities.trending_up += p;
+        else if (drift < -1) probabilities.trending_down += p;
+        else probabilities.ranging += p;
+    });
+    return probabilities;
+}
+
+// ==================== DETECTOR ====================
+
+function softmax(logits: RegimeProbabilities): RegimeProbabilities {
+    const max = Math.max(...Object.values(logits));
+    const exp = MARKET_REGIMES.map((r) => Math.exp(logits[r] - max));
+    const sum = exp.reduce((a, b) => a + b, 0);
+    return Object.fromEntries(MARKET_REGIMES.map((r, i) => [r, exp[i] / sum])) as RegimeProbabilities;
+}
+
+/**
+ * Classify the market regime from OHLC bars (oldest first).
+ * Needs about 2 × adxPeriod + volWindow bars; fewer gives a flat, low-confidence result.
+ */
+export function detectRegime(
+    highs: number[],
+    lows: number[],
+    closes: number[],
+    config: Partial<RegimeDetectorConfig> = {}
+): RegimeResult {
+    const cfg = { ...DEFAULT_CONFIG, ...config };
+    const returns = logReturns(closes);
+
+    const { adx, plusDI, minusDI } = calculateADX(highs, lows, closes, cfg.adxPeriod);
+    const vol = realizedVolatility(returns, cfg.volWindow);
+    const hurst = hurstExponent(returns);
+    const vr = varianceRatio(returns, cfg.varianceRatioLag);
+    const trendReturn = returns.slice(-cfg.volWindow).reduce((a, b) => a + b, 0);
+
+    const features: RegimeFeatures = {
+        adx,
+        plusDI,
+        minusDI,
+        realizedVol: vol.current,
+        volPercentile: vol.percentile,
+        hurst,
+        varianceRatio: vr.ratio,
+        varianceRatioZ: vr.z,
+        trendReturn,
+    };
+
+    if (closes.length < 2 * cfg.adxPeriod + cfg.volWindow) {
+        const flat: RegimeProbabilities = { trending_up: 0.25, trending_down: 0.25, ranging: 0.25, volatile: 0.25 };
+        return { regime: 'ranging', confidence: 0.25, probabilities: flat, features, hmm: null };
+    }
+
+    // Trendiness in [-1, 1]: ADX above 20, persistent Hurst, variance ratio above 1
+    const trendiness =
+        0.5 * clamp((adx - 20) / 15, -1, 1) +
+        0.25 * clamp((hurst - 0.5) / 0.15, -1, 1) +
+        0.25 * clamp(vr.z / 2, -1, 1);
+
+    // Direction in [-1, 1]: DMI spread and the return over the window
+    const diSum = plusDI + minusDI;
+    const diSpread = diSum > 0 ? (plusDI - minusDI) / diSum : 0;
+    const drift = vol.current > 0 ? trendReturn / (vol.current * Math.sqrt(cfg.volWindow)) : 0;
+    const direction = 0.5 * clamp(2 * diSpread, -1, 1) + 0.5 * clamp(drift / 2, -1, 1);
+
+    // Volatility pressure in [-1, 1], zero at the volatile percentile
+    const volPressure = clamp((vol.percentile - cfg.volatilePercentile) / (1 - cfg.volatilePercentile), -1, 1);
+
+    let probabilities = softmax({
+        trending_up: 2 * trendiness + 2 * direction,
+        trending_down: 2 * trendiness - 2 * direction,
+        ranging: -2 * trendiness + 0.5,
+        volatile: 3 * volPressure,
+    });
+
+    let hmm: HmmFit | null = null;
+    if (cfg.useHmm) {
+        hmm = fitGaussianHMM(returns, cfg.hmmStates, cfg.hmmIterations);
+        if (hmm) {
+            const fromHmm = hmmRegimeProbabilities(hmm, cfg.volWindow);
+            probabilities = Object.fromEntries(MARKET_REGIMES.map((r) =>
+                [r, (1 - cfg.hmmWeight) * probabilities[r] + cfg.hmmWeight * fromHmm[r]])) as RegimeProbabilities;
+        }
+    }
+
+    const regime = MARKET_REGIMES.reduce((best, r) => (probabilities[r] > probabilities[best] ? r : best));
+    const rounded = Object.fromEntries(MARKET_REGIMES.map((r) =>
+        [r, Math.round(probabilities[r] * 1000) / 1000])) as RegimeProbabilities;
+
+    return { regime, confidence: rounded[regime], probabilities: rounded, features, hmm };
+}
+
+export default detectRegime;
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculateEMA, calculateRSI, calculateMACD, calculateATR, calculateBollingerBands, calculateOBV, calculateVPIN, type Trade,
+} from './indicators.js';
+import { EmaStream, RsiStream, MacdStream, AtrStream, BollingerStream, ObvStream, VpinStream } from './streaming.js';
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// A trending, oscillating series with some flat stretches
+const closes = Array.from({ length: 80 }, (_, i) => 100 + i * 0.3 + 4 * Math.sin(i / 3) + (i % 11 === 0 ? 0 : (i % 5) * 0.2));
+const highs = closes.map((c, i) => c + 0.5 + (i % 4) * 0.3);
+const lows = closes.map((c, i) => c - 0.4 - (i % 3) * 0.25);
+const volumes = closes.map((_, i) => 10 + (i * 7) % 13);
+
+/**
+ * Feed the series one value at a time and compare with the batch function
+ * over the same prefix at every step
+ */
+function eachPrefix(check: (end: number) => void): void {
+    for (let end = 1; end <= closes.length; end++) check(end);
+}
+
+describe('streams match the batch functions', () => {
+    it('EMA', () => {
+        const stream = new EmaStream(20);
+        eachPrefix((end) => {
+            stream.update(closes[end - 1]);
+            if (end >= 20) expect(round(stream.value)).toBe(calculateEMA(closes.slice(0, end), 20));
+        });
+    });
+
+    it('RSI', () => {
+        const stream = new RsiStream(14);
+        eachPrefix((end) => {
+            stream.update(closes[end - 1]);
+            if (end >= 15) expect(round(stream.value)).toBe(calculateRSI(closes.slice(0, end), 14));
+        });
+    });
+
+    it('MACD', () => {
+        const stream = new MacdStream(12, 26, 9);
+        eachPrefix((end) => {
+            const { macd, signal, histogram } = stream.update(closes[end - 1]);
+            expect({ macd: round(macd), signal: round(signal), histogram: round(histogram) }).toEqual(calculateMACD(closes.slice(0, end)));
+        });
+    });
+
+    it('ATR', () => {
+        const stream = new AtrStream(14);
+        eachPrefix((end) => {
+            stream.update({ high: highs[end - 1], low: lows[end - 1], close: closes[end - 1] });
+            if (end >= 15) {
+                expect(round(stream.value)).toBe(calculateATR(highs.slice(0, end), lows.slice(0, end), closes.slice(0, end), 14));
+            }
+        });
+    });
+
+    it('Bollinger', () => {
+        const stream = new BollingerStream(20, 2);
+        eachPrefix((end) => {
+            const { upper, middle, lower, bandwidth } = stream.update(closes[end - 1]);
+            if (end >= 20) {
+                expect({ upper: round(upper), middle: round(middle), lower: round(lower), bandwidth: round(bandwidth, 4) })
+                    .toEqual(calculateBollingerBands(closes.slice(0, end), 20, 2));
+            }
+        });
+    });
+
+    it('OBV', () => {
+        const stream = new ObvStream();
+        const batch = calculateOBV(closes, volumes);
+        eachPrefix((end) => {
+            expect(stream.update({ close: closes[end - 1], volume: volumes[end - 1] })).toBe(batch[end - 1]);
+        });
+    });
+
+    it('VPIN, until more than numBuckets buckets have filled', () => {
+        const trades: Trade[] = closes.map((price, i) => ({ price, volume: volumes[i], side: i % 3 === 0 ? 'sell' : 'buy', timestamp: i }));
+        const stream = new VpinStream(40, 10);
+        let volume = 0;
+        eachPrefix((end) => {
+            stream.update(trades[end - 1]);
+            volume += trades[end - 1].volume;
+            // Each bucket takes at least 40, so below 440 at most 10 have filled
+            if (volume < 440) expect(stream.value).toBeCloseTo(calculateVPIN(trades.slice(0, end), 40, 10), 12);
+        });
+
+        // Past that the batch keeps the first 10 buckets and the stream the latest 10
+        expect(stream.value).not.toBeCloseTo(calculateVPIN(trades, 40, 10), 12);
+    });
+});
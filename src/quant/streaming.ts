@@ -0,0 +1,379 @@
+/**
+ * Streaming Indicators
+ * Stateful counterparts of the batch functions in indicators.ts: feed one
+ * bar or tick at a time with update(), read `value`, check `isReady`.
+ * Every update is O(1), so tick-driven engines don't re-walk their history.
+ *
+ * The batch calculateEMA / calculateRSI / calculateMACD / calculateATR run
+ * on these classes, and calculateBollingerBands / calculateOBV give the same
+ * numbers. VPIN is the exception: calculateVPIN measures the first
+ * numBuckets buckets of the trades it is given and VpinStream the latest,
+ * so they agree only until more than numBuckets buckets have filled.
+ */
+
+import type { Trade } from './indicators.js';
+
+export interface StreamingIndicator<In, Out> {
+    update(input: In): Out;
+    reset(): void;
+    readonly value: Out;
+    readonly isReady: boolean;
+}
+
+export interface OHLC {
+    high: number;
+    low: number;
+    close: number;
+}
+
+export interface MacdValue {
+    macd: number;
+    signal: number;
+    histogram: number;
+}
+
+export interface BollingerValue {
+    upper: number;
+    middle: number;
+    lower: number;
+    bandwidth: number;
+}
+
+/**
+ * Fixed-length window that hands back the value it pushes out
+ */
+class Window {
+    private values: number[] = [];
+    private next: number = 0;
+
+    constructor(readonly capacity: number) { }
+
+    get length(): number {
+        return this.values.length;
+    }
+
+    get isFull(): boolean {
+        return this.values.length === this.capacity;
+    }
+
+    push(value: number): number | undefined {
+        if (!this.isFull) {
+            this.values.push(value);
+            return undefined;
+        }
+        const evicted = this.values[this.next];
+        this.values[this.next] = value;
+        this.next = (this.next + 1) % this.capacity;
+        return evicted;
+    }
+
+    clear(): void {
+        this.values = [];
+        this.next = 0;
+    }
+}
+
+// ==================== EMA ====================
+
+/**
+ * EMA seeded with the first value (like calculateEMA); ready after `period` values
+ */
+export class EmaStream implements StreamingIndicator<number, number> {
+    private ema: number = 0;
+    private count: number = 0;
+    private multiplier: number;
+
+    constructor(readonly period: number) {
+        this.multiplier = 2 / (period + 1);
+    }
+
+    update(price: number): number {
+        this.ema = this.count === 0 ? price : (price - this.ema) * this.multiplier + this.ema;
+        this.count++;
+        return this.ema;
+    }
+
+    reset(): void {
+        this.ema = 0;
+        this.count = 0;
+    }
+
+    get value(): number {
+        return this.ema;
+    }
+
+    get isReady(): boolean {
+        return this.count >= this.period;
+    }
+}
+
+// ==================== RSI ====================
+
+/**
+ * RSI with Wilder smoothing: the first average is the mean of `period`
+ * changes, then avg = (avg × (period - 1) + change) / period. 50 until ready.
+ */
+export class RsiStream implements StreamingIndicator<number, number> {
+    private prev: number | null = null;
+    private changes: number = 0;
+    private avgGain: number = 0;
+    private avgLoss: number = 0;
+
+    constructor(readonly period: number = 14) { }
+
+    update(price: number): number {
+        if (this.prev !== null) {
+            const change = price - this.prev;
+            const gain = change > 0 ? change : 0;
+            const loss = change < 0 ? -change : 0;
+            this.changes++;
+
+            if (this.changes <= this.period) {
+                // Seed: simple mean of the first `period` changes
+                this.avgGain += gain / this.period;
+                this.avgLoss += loss / this.period;
+            } else {
+                this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+                this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+            }
+        }
+        this.prev = price;
+        return this.value;
+    }
+
+    reset(): void {
+        this.prev = null;
+        this.changes = 0;
+        this.avgGain = 0;
+        this.avgLoss = 0;
+    }
+
+    get value(): number {
+        if (!this.isReady) return 50;
+        if (this.avgLoss === 0) return this.avgGain === 0 ? 50 : 100;
+        return 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    }
+
+    get isReady(): boolean {
+        return this.changes >= this.period;
+    }
+}
+
+// ==================== MACD ====================
+
+/**
+ * MACD line (fast EMA - slow EMA) with its signal-period EMA as the signal line
+ */
+export class MacdStream implements StreamingIndicator<number, MacdValue> {
+    private fastEma: EmaStream;
+    private slowEma: EmaStream;
+    private signalEma: EmaStream;
+    private count: number = 0;
+
+    constructor(fast: number = 12, slow: number = 26, readonly signalPeriod: number = 9) {
+        this.fastEma = new EmaStream(fast);
+        this.slowEma = new EmaStream(slow);
+        this.signalEma = new EmaStream(signalPeriod);
+    }
+
+    update(price: number): MacdValue {
+        this.count++;
+        this.signalEma.update(this.fastEma.update(price) - this.slowEma.update(price));
+        return this.value;
+    }
+
+    reset(): void {
+        this.fastEma.reset();
+        this.slowEma.reset();
+        this.signalEma.reset();
+        this.count = 0;
+    }
+
+    get value(): MacdValue {
+        const macd = this.fastEma.value - this.slowEma.value;
+        const signal = this.signalEma.value;
+        return { macd, signal, histogram: macd - signal };
+    }
+
+    get isReady(): boolean {
+        return this.count >= this.slowEma.period + this.signalPeriod - 1;
+    }
+}
+
+// ==================== ATR ====================
+
+/**
+ * Mean true range over the last `period` bars (ready after period + 1 bars)
+ */
+export class AtrStream implements StreamingIndicator<OHLC, number> {
+    private prevClose: number | null = null;
+    private ranges: Window;
+    private sum: number = 0;
+
+    constructor(readonly period: number = 14) {
+        this.ranges = new Window(period);
+    }
+
+    update(bar: OHLC): number {
+        if (this.prevClose !== null) {
+            const tr = Math.max(
+                bar.high - bar.low,
+                Math.abs(bar.high - this.prevClose),
+                Math.abs(bar.low - this.prevClose)
+            );
+            this.sum += tr - (this.ranges.push(tr) ?? 0);
+        }
+        this.prevClose = bar.close;
+        return this.value;
+    }
+
+    reset(): void {
+        this.prevClose = null;
+        this.ranges.clear();
+        this.sum = 0;
+    }
+
+    get value(): number {
+        return this.isReady ? this.sum / this.period : 0;
+    }
+
+    get isReady(): boolean {
+        return this.ranges.isFull;
+    }
+}
+
+// ==================== BOLLINGER ====================
+
+/**
+ * Rolling mean ± stdDev population standard deviations over `period` values.
+ * Mean and variance are updated incrementally (Welford), which stays accurate
+ * at BTC-sized prices where sum-of-squares would cancel out.
+ */
+export class BollingerStream implements StreamingIndicator<number, BollingerValue> {
+    private window: Window;
+    private mean: number = 0;
+    private m2: number = 0;
+    private last: number = 0;
+
+    constructor(readonly period: number = 20, readonly stdDev: number = 2) {
+        this.window = new Window(period);
+    }
+
+    update(price: number): BollingerValue {
+        this.last = price;
+        const evicted = this.window.push(price);
+
+        if (evicted === undefined) {
+            const delta = price - this.mean;
+            this.mean += delta / this.window.length;
+            this.m2 += delta * (price - this.mean);
+        } else {
+            const oldMean = this.mean;
+            this.mean += (price - evicted) / this.period;
+            this.m2 += (price - evicted) * (price - this.mean + evicted - oldMean);
+            if (this.m2 < 0) this.m2 = 0; // Rounding on a flat window
+        }
+        return this.value;
+    }
+
+    reset(): void {
+        this.window.clear();
+        this.mean = 0;
+        this.m2 = 0;
+        this.last = 0;
+    }
+
+    get value(): BollingerValue {
+        if (!this.isReady) return { upper: this.last, middle: this.last, lower: this.last, bandwidth: 0 };
+        const std = Math.sqrt(this.m2 / this.period);
+        const upper = this.mean + this.stdDev * std;
+        const lower = this.mean - this.stdDev * std;
+        return { upper, middle: this.mean, lower, bandwidth: (upper - lower) / this.mean };
+    }
+
+    get isReady(): boolean {
+        return this.window.isFull;
+    }
+}
+
+// ==================== OBV ====================
+
+/**
+ * On-balance volume: running sum of volume signed by the close-to-close move
+ */
+export class ObvStream implements StreamingIndicator<{ close: number; volume: number }, number> {
+    private obv: number = 0;
+    private prevClose: number | null = null;
+
+    update({ close, volume }: { close: number; volume: number }): number {
+        if (this.prevClose !== null) {
+            if (close > this.prevClose) this.obv += volume;
+            else if (close < this.prevClose) this.obv -= volume;
+        }
+        this.prevClose = close;
+        return this.obv;
+    }
+
+    reset(): void {
+        this.obv = 0;
+        this.prevClose = null;
+    }
+
+    get value(): number {
+        return this.obv;
+    }
+
+    get isReady(): boolean {
+        return this.prevClose !== null;
+    }
+}
+
+// ==================== VPIN ====================
+
+/**
+ * VPIN over the last `numBuckets` completed volume buckets of `bucketSize`.
+ * 0.5 until 10 trades and one full bucket have been seen.
+ */
+export class VpinStream implements StreamingIndicator<Trade, number> {
+    private imbalances: Window;
+    private imbalanceSum: number = 0;
+    private buyVol: number = 0;
+    private sellVol: number = 0;
+    private trades: number = 0;
+
+    constructor(readonly bucketSize: number = 1000, readonly numBuckets: number = 50) {
+        this.imbalances = new Window(numBuckets);
+    }
+
+    update(trade: Trade): number {
+        this.trades++;
+        if (trade.side === 'buy') this.buyVol += trade.volume;
+        else this.sellVol += trade.volume;
+
+        // A trade that overfills the bucket closes it whole (no splitting)
+        if (this.buyVol + this.sellVol >= this.bucketSize) {
+            const imbalance = Math.abs(this.buyVol - this.sellVol);
+            this.imbalanceSum += imbalance - (this.imbalances.push(imbalance) ?? 0);
+            this.buyVol = 0;
+            this.sellVol = 0;
+        }
+        return this.value;
+    }
+
+    reset(): void {
+        this.imbalances.clear();
+        this.imbalanceSum = 0;
+        this.buyVol = 0;
+        this.sellVol = 0;
+        this.trades = 0;
+    }
+
+    get value(): number {
+        if (!this.isReady) return 0.5;
+        return Math.min(1, this.imbalanceSum / (this.imbalances.length * this.bucketSize));
+    }
+
+    get isReady(): boolean {
+        return this.trades >= 10 && this.imbalances.length > 0;
+    }
+}
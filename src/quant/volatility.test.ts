@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+    annualizeVolatility, ewmaVolatility, fitGarch, forecastGarch, garmanKlassVolatility, measureVolatility, parkinsonVolatility,
+    periodsPerYear, rogersSatchellVolatility, volatilityStopPercent, yangZhangVolatility, type OHLCBar,
+} from './volatility.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Bars that open and close at the same price and reach ±a in log terms,
+ * with no gaps between them
+ */
+const flatBars = (n: number, a: number): OHLCBar[] =>
+    Array.from({ length: n }, (_, i) => ({ time: i * HOUR, open: 100, high: 100 * Math.exp(a), low: 100 * Math.exp(-a), close: 100 }));
+
+/**
+ * Seeded standard normal draws (Box-Muller)
+ */
+function normals(seed: number): () => number {
+    let a = seed >>> 0;
+    const uniform = () => {
+        a = (a * 1664525 + 1013904223) >>> 0;
+        return (a + 0.5) / 4294967296;
+    };
+    return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+describe('range estimators', () => {
+    const bars = flatBars(10, 0.01);
+
+    it('match their closed forms on bars with a known range', () => {
+        // ln(H/L) = 0.02 on every bar, no body
+        expect(parkinsonVolatility(bars)).toBeCloseTo(0.02 / (2 * Math.sqrt(Math.LN2)), 12);
+        expect(garmanKlassVolatility(bars)).toBeCloseTo(0.02 * Math.sqrt(0.5), 12);
+        expect(rogersSatchellVolatility(bars)).toBeCloseTo(0.01 * Math.SQRT2, 12);
+
+        // No gaps or bodies: only the Rogers-Satchell term is left
+        const k = 0.34 / (1.34 + 10 / 8);
+        expect(yangZhangVolatility(bars)).toBeCloseTo(Math.sqrt((1 - k) * 2e-4), 12);
+    });
+
+    it('read a bar that opens at the low and closes at the high as drift, not noise', () => {
+        const trend: OHLCBar = { time: 0, open: 100, high: 101, low: 100, close: 101 };
+        expect(rogersSatchellVolatility([trend])).toBe(0);
+        expect(parkinsonVolatility([trend])).toBeGreaterThan(0);
+    });
+
+    it('ignore bars with missing prices', () => {
+        expect(parkinsonVolatility([...bars, { time: 0, open: 0, high: 0, low: 0, close: 0 }])).toBe(parkinsonVolatility(bars));
+    });
+});
+
+describe('annualization and EWMA', () => {
+    it('count 8760 hourly bars in a 24/7 year', () => {
+        expect(periodsPerYear(HOUR)).toBe(8760);
+        expect(annualizeVolatility(0.01, HOUR)).toBeCloseTo(0.01 * Math.sqrt(8760), 12);
+    });
+
+    it('EWMA of constant-size returns is that size', () => {
+        expect(ewmaVolatility(Array.from({ length: 40 }, (_, i) => (i % 2 ? 0.01 : -0.01)))).toBeCloseTo(0.01, 12);
+        expect(ewmaVolatility([])).toBe(0);
+    });
+});
+
+describe('GARCH(1,1)', () => {
+    // Simulated with ω = 1e-6, α = 0.1, β = 0.85: long-run variance 2e-5
+    const next = normals(7);
+    const returns: number[] = [];
+    let variance = 2e-5;
+    for (let i = 0; i < 1500; i++) {
+        const r = Math.sqrt(variance) * next();
+        returns.push(r);
+        variance = 1e-6 + 0.1 * r * r + 0.85 * variance;
+    }
+
+    it('recovers a stationary fit close to the simulated process', () => {
+        const fit = fitGarch(returns)!;
+
+        expect(fit.alpha).toBeGreaterThan(0.05);
+        expect(fit.alpha).toBeLessThan(0.15);
+        expect(fit.beta).toBeGreaterThan(0.7);
+        expect(fit.persistence).toBeLessThan(1);
+        expect(fit.longRunVariance).toBeGreaterThan(1.5e-5);
+        expect(fit.longRunVariance).toBeLessThan(2.5e-5);
+        expect(fitGarch(returns.slice(0, 49))).toBeNull();
+    });
+
+    it('forecasts a variance path that reverts to the long-run level', () => {
+        const fit = { ...fitGarch(returns)!, nextVariance: 1e-5 };
+        const forecast = forecastGarch(fit, 5);
+
+        expect(forecast.perBar[0]).toBeCloseTo(Math.sqrt(1e-5), 12);
+        for (let h = 1; h < 5; h++) expect(forecast.perBar[h]).toBeGreaterThan(forecast.perBar[h - 1]);
+        expect(forecast.perBar[4]).toBeLessThan(Math.sqrt(fit.longRunVariance));
+        expect(forecast.horizon).toBeCloseTo(Math.sqrt(forecast.perBar.reduce((s, v) => s + v * v, 0)), 12);
+    });
+});
+
+describe('measureVolatility', () => {
+    it('infers the bar interval and falls back to Yang-Zhang without enough bars for GARCH', () => {
+        // One bar missing: the median spacing is still an hour
+        const bars = flatBars(21, 0.01).filter((_, i) => i !== 10);
+        const report = measureVolatility(bars, { horizonBars: 4 });
+
+        expect(report.intervalMs).toBe(HOUR);
+        expect(report.garch).toBeNull();
+        expect(report.horizonVolatility).toBeCloseTo(yangZhangVolatility(bars) * 2, 12);
+        expect(report.annualized).toBeCloseTo(report.yangZhang, 12);
+        expect(volatilityStopPercent(report)).toBeCloseTo(2 * report.horizonVolatility, 12);
+    });
+
+    it('clamps the stop and gives none without data', () => {
+        const report = measureVolatility(flatBars(20, 0.2));
+        expect(volatilityStopPercent(report)).toBe(0.1);
+        expect(volatilityStopPercent(measureVolatility([]))).toBeNull();
+    });
+});
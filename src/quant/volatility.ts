@@ -0,0 +1,344 @@
+/**
+ * Volatility Estimation
+ * Realized volatility from OHLC bars and a GARCH(1,1) forecast:
+ *
+ * - Close-to-close: stdev of log returns
+ * - Parkinson: high/low range (≈5× more efficient, no drift or gaps)
+ * - Garman-Klass: range plus open/close (no drift or gaps)
+ * - Rogers-Satchell: range relative to open/close (handles drift)
+ * - Yang-Zhang: gaps + open-to-close + Rogers-Satchell (drift and gaps)
+ * - EWMA: RiskMetrics exponentially weighted variance
+ * - GARCH(1,1): fitted by maximum likelihood, forecast over a horizon
+ *
+ * The estimator functions return per-bar volatility (stdev of log returns);
+ * measureVolatility() annualizes for a market that trades 24/7 (365 days).
+ */
+
+import { logReturns } from './regime.js';
+
+// ==================== TYPES ====================
+
+export interface OHLCBar {
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+export interface GarchFit {
+    omega: number;
+    alpha: number;
+    beta: number;
+    persistence: number;        // alpha + beta
+    longRunVariance: number;    // omega / (1 - persistence), per bar
+    nextVariance: number;       // One-bar-ahead conditional variance
+    mean: number;               // Mean return removed before fitting
+    logLikelihood: number;
+    iterations: number;
+}
+
+export interface GarchForecast {
+    horizonBars: number;
+    perBar: number[];           // Conditional volatility of each bar ahead
+    horizon: number;            // Volatility of the cumulative return over the horizon
+}
+
+export interface VolatilityReport {
+    intervalMs: number;
+    periodsPerYear: number;
+    // Annualized estimates over the last `window` bars
+    closeToClose: number;
+    parkinson: number;
+    garmanKlass: number;
+    rogersSatchell: number;
+    yangZhang: number;
+    ewma: number;
+    garch: GarchFit | null;
+    forecast: GarchForecast | null;
+    horizonBars: number;
+    horizonVolatility: number;  // Expected move (stdev of log return) over horizonBars: GARCH, else Yang-Zhang
+    annualized: number;         // horizonVolatility annualized
+}
+
+export interface VolatilityConfig {
+    intervalMs: number | null;  // null = infer from bar times
+    window: number;
+    ewmaLambda: number;
+    horizonBars: number;
+    garchMinReturns: number;    // Fewer returns skip the GARCH fit
+}
+
+const DEFAULT_CONFIG: VolatilityConfig = {
+    intervalMs: null,
+    window: 30,
+    ewmaLambda: 0.94,
+    horizonBars: 1,
+    garchMinReturns: 50,
+};
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// ==================== ANNUALIZATION ====================
+
+/**
+ * Bars per year for a 24/7 market (1h bars → 8760)
+ */
+export function periodsPerYear(intervalMs: number): number {
+    return MS_PER_YEAR / intervalMs;
+}
+
+export function annualizeVolatility(perBar: number, intervalMs: number): number {
+    return perBar * Math.sqrt(periodsPerYear(intervalMs));
+}
+
+/**
+ * Median spacing of bar times (robust to a missing bar)
+ */
+function inferIntervalMs(bars: OHLCBar[]): number {
+    const gaps = bars.slice(1).map((b, i) => Math.abs(b.time - bars[i].time)).filter((g) => g > 0).sort((a, b) => a - b);
+    return gaps.length ? gaps[Math.floor(gaps.length / 2)] : 60 * 60 * 1000;
+}
+
+// ==================== ESTIMATORS ====================
+
+function sampleVariance(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = values.reduce((a, b) => a + b, 0) / values.length;
+    return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+const validBar = (b: OHLCBar) => b.open > 0 && b.high > 0 && b.low > 0 && b.close > 0;
+
+export function closeToCloseVolatility(closes: number[]): number {
+    return Math.sqrt(sampleVariance(logReturns(closes)));
+}
+
+/**
+ * σ² = Σ ln(H/L)² / (4 ln 2 · n)
+ */
+export function parkinsonVolatility(bars: OHLCBar[]): number {
+    const valid = bars.filter(validBar);
+    if (valid.length === 0) return 0;
+    const sum = valid.reduce((s, b) => s + Math.log(b.high / b.low) ** 2, 0);
+    return Math.sqrt(sum / (4 * Math.LN2 * valid.length));
+}
+
+/**
+ * σ² = mean of ½ ln(H/L)² − (2 ln 2 − 1) ln(C/O)²
+ */
+export function garmanKlassVolatility(bars: OHLCBar[]): number {
+    const valid = bars.filter(validBar);
+    if (valid.length === 0) return 0;
+    const sum = valid.reduce((s, b) =>
+        s + 0.5 * Math.log(b.high / b.low) ** 2 - (2 * Math.LN2 - 1) * Math.log(b.close / b.open) ** 2, 0);
+    return Math.sqrt(Math.max(0, sum / valid.length));
+}
+
+function rogersSatchellVariance(bars: OHLCBar[]): number {
+    const valid = bars.filter(validBar);
+    if (valid.length === 0) return 0;
+    const sum = valid.reduce((s, b) =>
+        s + Math.log(b.high / b.close) * Math.log(b.high / b.open) + Math.log(b.low / b.close) * Math.log(b.low / b.open), 0);
+    return Math.max(0, sum / valid.length);
+}
+
+/**
+ * σ² = mean of ln(H/C)·ln(H/O) + ln(L/C)·ln(L/O)
+ */
+export function rogersSatchellVolatility(bars: OHLCBar[]): number {
+    return Math.sqrt(rogersSatchellVariance(bars));
+}
+
+/**
+ * σ² = σ²(open gaps) + k·σ²(open-to-close) + (1 − k)·σ²(Rogers-Satchell),
+ * k = 0.34 / (1.34 + (n + 1)/(n − 1)). Uses bars 2..n (each needs the previous close).
+ */
+export function yangZhangVolatility(bars: OHLCBar[]): number {
+    const valid = bars.filter(validBar);
+    if (valid.length < 3) return parkinsonVolatility(valid);
+
+    const current = valid.slice(1);
+    const gaps = current.map((b, i) => Math.log(b.open / valid[i].close));
+    const bodies = current.map((b) => Math.log(b.close / b.open));
+    const n = current.length;
+    const k = 0.34 / (1.34 + (n + 1) / (n - 1));
+
+    return Math.sqrt(sampleVariance(gaps) + k * sampleVariance(bodies) + (1 - k) * rogersSatchellVariance(current));
+}
+
+/**
+ * RiskMetrics EWMA: σ²ₜ = λ·σ²ₜ₋₁ + (1 − λ)·r²ₜ, seeded with the mean
+ * square of the first 10 returns
+ */
+export function ewmaVolatility(returns: number[], lambda: number = 0.94): number {
+    if (returns.length === 0) return 0;
+    const seed = returns.slice(0, 10);
+    let variance = seed.reduce((s, r) => s + r * r, 0) / seed.length;
+    for (const r of returns.slice(seed.length)) {
+        variance = lambda * variance + (1 - lambda) * r * r;
+    }
+    return Math.sqrt(variance);
+}
+
+// ==================== GARCH(1,1) ====================
+
+/**
+ * Minimize f over R^n with Nelder-Mead (the fit has three parameters and a
+ * smooth likelihood, so no gradient is needed)
+ */
+function nelderMead(f: (x: number[]) => number, start: number[], maxIterations: number = 500): { x: number[]; value: number; iterations: number } {
+    const n = start.length;
+    let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + 0.5 : v)))]
+        .map((x) => ({ x, value: f(x) }));
+
+    let iteration = 0;
+    for (; iteration < maxIterations; iteration++) {
+        simplex.sort((a, b) => a.value - b.value);
+        const best = simplex[0];
+        const worst = simplex[n];
+        if (Math.abs(worst.value - best.value) < 1e-10) break;
+
+        const centroid = start.map((_, j) => simplex.slice(0, n).reduce((s, p) => s + p.x[j], 0) / n);
+        const along = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+        const reflected = along(-1);
+        const reflectedValue = f(reflected);
+        if (reflectedValue < best.value) {
+            const expanded = along(-2);
+            const expandedValue = f(expanded);
+            simplex[n] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+        } else if (reflectedValue < simplex[n - 1].value) {
+            simplex[n] = { x: reflected, value: reflectedValue };
+        } else {
+            const contracted = along(reflectedValue < worst.value ? -0.5 : 0.5);
+            const contractedValue = f(contracted);
+            if (contractedValue < Math.min(worst.value, reflectedValue)) {
+                simplex[n] = { x: contracted, value: contractedValue };
+            } else {
+                // Shrink toward the best point
+                simplex = simplex.map((p, i) => {
+                    if (i === 0) return p;
+                    const x = p.x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j]));
+                    return { x, value: f(x) };
+                });
+            }
+        }
+    }
+    simplex.sort((a, b) => a.value - b.value);
+    return { x: simplex[0].x, value: simplex[0].value, iterations: iteration };
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Fit σ²ₜ = ω + α·r²ₜ₋₁ + β·σ²ₜ₋₁ by Gaussian maximum likelihood.
+ * Parameters are searched in an unconstrained space that keeps ω > 0,
+ * α, β ≥ 0 and α + β < 1, so the fit is always stationary.
+ */
+export function fitGarch(returns: number[], minReturns: number = 50): GarchFit | null {
+    if (returns.length < minReturns) return null;
+
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const residuals = returns.map((r) => r - mean);
+    const sampleVar = sampleVariance(returns);
+    if (sampleVar <= 0) return null;
+
+    const decode = ([x0, x1, x2]: number[]) => {
+        const persistence = 0.999 * sigmoid(x1);
+        const share = sigmoid(x2);
+        return { omega: sampleVar * Math.exp(x0), alpha: persistence * share, beta: persistence * (1 - share) };
+    };
+
+    // Filter the conditional variance; returns the next-bar variance with the likelihood
+    const filter = ({ omega, alpha, beta }: { omega: number; alpha: number; beta: number }) => {
+        let variance = sampleVar;
+        let logLikelihood = 0;
+        for (const e of residuals) {
+            logLikelihood -= 0.5 * (Math.log(2 * Math.PI) + Math.log(variance) + (e * e) / variance);
+            variance = omega + alpha * e * e + beta * variance;
+        }
+        return { logLikelihood, nextVariance: variance };
+    };
+
+    // Start at α = 0.05, β = 0.90 with ω matching the sample variance
+    const start = [Math.log(0.05), Math.log(0.95 / 0.999 / (1 - 0.95 / 0.999)), Math.log(0.05 / 0.90)];
+    const result = nelderMead((x) => {
+        const ll = filter(decode(x)).logLikelihood;
+        return Number.isFinite(ll) ? -ll : Infinity;
+    }, start);
+
+    const params = decode(result.x);
+    const { logLikelihood, nextVariance } = filter(params);
+    const persistence = params.alpha + params.beta;
+    return {
+        ...params,
+        persistence,
+        longRunVariance: params.omega / (1 - persistence),
+        nextVariance,
+        mean,
+        logLikelihood,
+        iterations: result.iterations,
+    };
+}
+
+/**
+ * h-bar-ahead variance: V + (α + β)^(h−1)·(σ²ₜ₊₁ − V), V = long-run variance
+ */
+export function forecastGarch(fit: GarchFit, horizonBars: number = 1): GarchForecast {
+    const variances = Array.from({ length: Math.max(1, horizonBars) }, (_, h) =>
+        fit.longRunVariance + fit.persistence ** h * (fit.nextVariance - fit.longRunVariance));
+    return {
+        horizonBars: variances.length,
+        perBar: variances.map(Math.sqrt),
+        horizon: Math.sqrt(variances.reduce((a, b) => a + b, 0)),
+    };
+}
+
+// ==================== REPORT ====================
+
+/**
+ * Every estimator over the last `window` bars (annualized) and the expected
+ * volatility over the next `horizonBars` bars. GARCH is fitted on all bars.
+ */
+export function measureVolatility(bars: OHLCBar[], config: Partial<VolatilityConfig> = {}): VolatilityReport {
+    const cfg = { ...DEFAULT_CONFIG, ...config };
+    const intervalMs = cfg.intervalMs ?? inferIntervalMs(bars);
+    const annualize = (perBar: number) => annualizeVolatility(perBar, intervalMs);
+
+    const recent = bars.slice(-cfg.window);
+    const returns = logReturns(bars.map((b) => b.close));
+    const garch = fitGarch(returns, cfg.garchMinReturns);
+    const forecast = garch ? forecastGarch(garch, cfg.horizonBars) : null;
+
+    const yangZhang = yangZhangVolatility(recent);
+    const horizonVolatility = forecast ? forecast.horizon : yangZhang * Math.sqrt(cfg.horizonBars);
+
+    return {
+        intervalMs,
+        periodsPerYear: periodsPerYear(intervalMs),
+        closeToClose: annualize(closeToCloseVolatility(recent.map((b) => b.close))),
+        parkinson: annualize(parkinsonVolatility(recent)),
+        garmanKlass: annualize(garmanKlassVolatility(recent)),
+        rogersSatchell: annualize(rogersSatchellVolatility(recent)),
+        yangZhang: annualize(yangZhang),
+        ewma: annualize(ewmaVolatility(returns, cfg.ewmaLambda)),
+        garch,
+        forecast,
+        horizonBars: cfg.horizonBars,
+        horizonVolatility,
+        annualized: annualize(horizonVolatility / Math.sqrt(cfg.horizonBars)),
+    };
+}
+
+/**
+ * Stop distance as a fraction of price: `multiplier` expected moves over the
+ * report's horizon, clamped to [min, max]. null when there was no data to measure.
+ */
+export function volatilityStopPercent(report: VolatilityReport, multiplier: number = 2, min: number = 0.002, max: number = 0.1): number | null {
+    const percent = multiplier * report.horizonVolatility;
+    if (!Number.isFinite(percent) || percent <= 0) return null;
+    return Math.max(min, Math.min(max, percent));
+}
+
+export default measureVolatility;
@@ -5,6 +5,11 @@
 
 import crypto from 'crypto';
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import {
+    type ExchangeGateway, type SideCode, type OrderType, type OrderOptions,
+    parseTicker, parseOrderBook, parseCandles, parseFundingRate, parseBalances,
+    parsePositions, parseOrder, parseOrders, parseFills, parseOrderAck, parseContract, parseContracts, parseAILogResult,
+} from './gateway.js';
 
 export interface WeexConfig {
     apiKey: string;
@@ -13,7 +18,7 @@ export interface WeexConfig {
     baseUrl: string;
 }
 
-export interface Ticker {
+export interface WeexTicker {
     symbol: string;
     last: string;
     high_24h: string;
@@ -22,12 +27,12 @@ export interface Ticker {
     priceChangePercent: string;
 }
 
-export interface Depth {
+export interface WeexDepth {
     asks: [string, string][];
     bids: [string, string][];
 }
 
-export interface Candle {
+export interface WeexCandle {
     time: number;
     open: string;
     high: string;
@@ -36,7 +41,7 @@ export interface Candle {
     volume: string;
 }
 
-export interface Position {
+export interface WeexPosition {
     symbol: string;
     holdSide: string;
     averageOpenPrice: string;
@@ -49,6 +54,24 @@ export interface OrderResult {
     client_oid: string;
 }
 
+export interface PlaceOrderParams {
+    orderType?: OrderType;      // Default: market
+    price?: string;             // Required unless market
+    clientOid?: string;
+    reduceOnly?: boolean;       // Close side codes (2, 4) only
+}
+
+/**
+ * WEEX order_type codes; market vs limit is `match_price`
+ */
+const WEEX_ORDER_TYPES: Record<OrderType, string> = {
+    market: '0',
+    limit: '0',
+    post_only: '1',
+    fok: '2',
+    ioc: '3',
+};
+
 export interface AILogInput {
     orderId?: number;
     stage: string;
@@ -129,19 +152,19 @@ export class WeexClient {
         return this.publicGet('/capi/v2/market/contracts', symbol ? { symbol } : undefined);
     }
 
-    async getTicker(symbol: string): Promise<Ticker> {
+    async getTicker(symbol: string): Promise<WeexTicker> {
         return this.publicGet('/capi/v2/market/ticker', { symbol });
     }
 
-    async getAllTickers(): Promise<Ticker[]> {
+    async getAllTickers(): Promise<WeexTicker[]> {
         return this.publicGet('/capi/v2/market/tickers');
     }
 
-    async getDepth(symbol: string, type: string = 'step0'): Promise<Depth> {
+    async getDepth(symbol: string, type: string = 'step0'): Promise<WeexDepth> {
         return this.publicGet('/capi/v2/market/depth', { symbol, type });
     }
 
-    async getCandles(symbol: string, granularity: string = '1H', limit: number = 100): Promise<Candle[]> {
+    async getCandles(symbol: string, granularity: string = '1H', limit: number = 100): Promise<WeexCandle[]> {
         return this.publicGet('/capi/v2/market/candles', { symbol, granularity, limit: limit.toString() });
     }
 
@@ -167,11 +190,11 @@ export class WeexClient {
         return this.authGet('/capi/v2/account/assets');
     }
 
-    async getPosition(symbol: string): Promise<Position> {
+    async getPosition(symbol: string): Promise<WeexPosition> {
         return this.authGet('/capi/v2/account/position/singlePosition', { symbol });
     }
 
-    async getAllPositions(): Promise<Position[]> {
+    async getAllPositions(): Promise<WeexPosition[]> {
         return this.authGet('/capi/v2/account/position/allPosition');
     }
 
@@ -202,20 +225,21 @@ export class WeexClient {
         symbol: string,
         size: string,
         side: number,
-        orderType: number = 1,
-        price?: string,
-        clientOid?: string
+        { orderType = 'market', price, clientOid, reduceOnly = false }: PlaceOrderParams = {}
     ): Promise<OrderResult> {
+        if (reduceOnly && side !== 2 && side !== 4) throw new Error(`A reduce-only order needs a close side code, got ${side}`);
         const body: Record<string, string> = {
             symbol,
             size,
             type: side.toString(),
-            order_type: orderType.toString(),
-            match_price: orderType === 1 ? '1' : '0',
+            order_type: WEEX_ORDER_TYPES[orderType],
+            match_price: orderType === 'market' ? '1' : '0',
             client_oid: clientOid || Date.now().toString(),
         };
+        if (reduceOnly) body.reduce_only = '1';
 
-        if (price && orderType === 0) {
+        if (orderType !== 'market') {
+            if (!price) throw new Error(`A ${orderType} order needs a price`);
             body.price = price;
         }
 
@@ -299,8 +323,9 @@ export class WeexClient {
 
 /**
  * Create WEEX client from environment variables
+ * Public market data works without credentials when `requireCredentials` is false.
  */
-export function createWeexClient(): WeexClient {
+export function createWeexClient(requireCredentials: boolean = true): WeexClient {
     const config: WeexConfig = {
         apiKey: process.env.WEEX_API_KEY || '',
         secretKey: process.env.WEEX_SECRET_KEY || '',
@@ -308,9 +333,87 @@ export function createWeexClient(): WeexClient {
         baseUrl: process.env.WEEX_BASE_URL || 'https://api-contract.weex.com',
     };
 
-    if (!config.apiKey || !config.secretKey || !config.passphrase) {
+    if (requireCredentials && (!config.apiKey || !config.secretKey || !config.passphrase)) {
         throw new Error('Missing WEEX API credentials in environment');
     }
 
     return new WeexClient(config);
 }
+
+/**
+ * Adapt the REST client to the shared ExchangeGateway interface
+ */
+export function createWeexGateway(client: WeexClient = createWeexClient()): ExchangeGateway {
+    return {
+        async getTicker(symbol: string) {
+            return parseTicker(await client.getTicker(symbol), symbol);
+        },
+
+        async getDepth(symbol: string) {
+            return parseOrderBook(await client.getDepth(symbol), symbol);
+        },
+
+        async getCandles(symbol: string, granularity = '1H', limit = 50) {
+            return parseCandles(await client.getCandles(symbol, granularity, limit));
+        },
+
+        async getFundingRate(symbol: string) {
+            return parseFundingRate(await client.getFundingRate(symbol), symbol);
+        },
+
+        async getContract(symbol: string) {
+            return parseContract(await client.getContracts(symbol), symbol);
+        },
+
+        async getContracts() {
+            return parseContracts(await client.getContracts());
+        },
+
+        async getAssets() {
+            return parseBalances(await client.getAssets());
+        },
+
+        async getPositions() {
+            return parsePositions(await client.getAllPositions());
+        },
+
+        async getOrderHistory(symbol: string) {
+            return parseOrders(await client.getOrderHistory(symbol));
+        },
+
+        async getOrder(symbol: string, orderId: string) {
+            return parseOrder(await client.getOrderDetail(symbol, orderId));
+        },
+
+        async getOrderByClientOid(symbol: string, clientOid: string) {
+            // Open orders first, then recent history (market orders land there quickly)
+            const open = parseOrders(await client.getCurrentOrders(symbol)).find((o) => o.clientOid === clientOid);
+            return open ?? parseOrders(await client.getOrderHistory(symbol, 100)).find((o) => o.clientOid === clientOid) ?? null;
+        },
+
+        async getFills(symbol: string) {
+            return parseFills(await client.getFills(symbol));
+        },
+
+        async placeOrder(symbol: string, side: SideCode, size: number, { type, price, clientOid, reduceOnly }: OrderOptions = {}) {
+            return parseOrderAck(await client.placeOrder(symbol, size.toString(), side, {
+                orderType: type,
+                price: price?.toString(),
+                clientOid,
+                reduceOnly,
+            }));
+        },
+
+        async cancelOrder(symbol: string, orderId: string) {
+            await client.cancelOrder(symbol, orderId);
+        },
+
+        async uploadAILog(log: AILogInput) {
+            try {
+                return parseAILogResult(await client.uploadAILog(log));
+            } catch (error: any) {
+                return { success: false, message: error.message };
+            }
+        },
+    };
+}
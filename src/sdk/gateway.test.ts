@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { type Position, parseAILogResult, isPositionFor } from './gateway.js';
+import { parseRPCResult } from './rust-daemon.js';
+
+describe('parseAILogResult', () => {
+    it('reads the WEEX response code', () => {
+        expect(parseAILogResult({ code: '00000', msg: 'success', data: 'ok' })).toEqual({ success: true, message: 'success' });
+        expect(parseAILogResult({ code: '40001', msg: 'invalid stage', data: null })).toEqual({ success: false, message: 'invalid stage' });
+    });
+
+    it('passes a normalized result through', () => {
+        expect(parseAILogResult({ success: false, message: 'rejected' })).toEqual({ success: false, message: 'rejected' });
+    });
+
+    it('is what the Rust daemon returns for ai-log', () => {
+        const params = { stage: 'Decision Making', model: 'm', input: {}, output: {}, explanation: 'x' };
+        expect(parseRPCResult('ai-log', { code: '40001', msg: 'invalid stage' }, params).success).toBe(false);
+    });
+});
+
+describe('isPositionFor', () => {
+    const position = (symbol: string) => ({ symbol, side: 'long', size: 1 }) as Position;
+
+    it('matches the same symbol in any form', () => {
+        expect(isPositionFor(position('BTCUSDT'), 'cmt_btcusdt')).toBe(true);
+        expect(isPositionFor(position('cmt_btcusdt'), 'cmt_btcusdt')).toBe(true);
+        expect(isPositionFor(position('BTC-USDT'), 'cmt_btcusdt')).toBe(true);
+    });
+
+    it('never matches a symbol that only contains the base', () => {
+        expect(isPositionFor(position('cmt_wbtcusdt'), 'cmt_btcusdt')).toBe(false);
+        expect(isPositionFor(position('cmt_btcusdc'), 'cmt_btcusdt')).toBe(false);
+        expect(isPositionFor(position('cmt_ethusdt'), 'cmt_eth')).toBe(false);
+    });
+});
@@ -0,0 +1,533 @@
+/**
+ * Exchange Gateway
+ * One typed surface for every WEEX backend (REST client, Rust bridge, simulators)
+ *
+ * Raw exchange payloads come back with inconsistent field names
+ * (`last` vs `lastPr`, `total` vs `size`, `unrealizePnl` vs `unrealizedPL`).
+ * The parsers below normalize them once, validate with zod, and hand the
+ * engines plain numbers.
+ */
+
+import { z } from 'zod';
+import type { AILogInput } from './client.js';
+
+// ==================== DOMAIN SCHEMAS ====================
+
+/**
+ * WEEX order side codes
+ * 1=open_long, 2=close_short, 3=open_short, 4=close_long
+ */
+export const SideCodeSchema = z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]);
+export type SideCode = z.infer<typeof SideCodeSchema>;
+
+export const TickerSchema = z.object({
+    symbol: z.string(),
+    last: z.coerce.number().positive(),
+    bid: z.coerce.number().nonnegative().default(0),
+    ask: z.coerce.number().nonnegative().default(0),
+    high24h: z.coerce.number().default(0),
+    low24h: z.coerce.number().default(0),
+    volume24h: z.coerce.number().default(0),
+    change24h: z.coerce.number().default(0),
+    markPrice: z.coerce.number().optional(),
+    timestamp: z.coerce.number(),
+});
+export type Ticker = z.infer<typeof TickerSchema>;
+
+export const OrderBookLevelSchema = z.object({
+    price: z.coerce.number().positive(),
+    quantity: z.coerce.number().nonnegative(),
+});
+export type OrderBookLevel = z.infer<typeof OrderBookLevelSchema>;
+
+export const OrderBookSchema = z.object({
+    symbol: z.string(),
+    bids: z.array(OrderBookLevelSchema),
+    asks: z.array(OrderBookLevelSchema),
+    timestamp: z.coerce.number(),
+});
+export type OrderBook = z.infer<typeof OrderBookSchema>;
+
+export const CandleSchema = z.object({
+    time: z.coerce.number(),
+    open: z.coerce.number(),
+    high: z.coerce.number(),
+    low: z.coerce.number(),
+    close: z.coerce.number().positive(),
+    volume: z.coerce.number().default(0),
+});
+export type Candle = z.infer<typeof CandleSchema>;
+
+export const FundingRateSchema = z.object({
+    symbol: z.string(),
+    fundingRate: z.coerce.number().default(0),
+    nextFundingTime: z.coerce.number().optional(),
+});
+export type FundingRate = z.infer<typeof FundingRateSchema>;
+
+export const BalanceSchema = z.object({
+    asset: z.string(),
+    equity: z.coerce.number().default(0),
+    available: z.coerce.number().default(0),
+    frozen: z.coerce.number().default(0),
+    unrealizedPnl: z.coerce.number().default(0),
+});
+export type Balance = z.infer<typeof BalanceSchema>;
+
+export const PositionSchema = z.object({
+    symbol: z.string(),
+    side: z.enum(['long', 'short']),
+    size: z.coerce.number().nonnegative(),
+    entryPrice: z.coerce.number().default(0),
+    unrealizedPnl: z.coerce.number().default(0),
+    leverage: z.coerce.number().optional(),
+    margin: z.coerce.number().optional(),
+    liquidationPrice: z.coerce.number().optional(),
+});
+export type Position = z.infer<typeof PositionSchema>;
+
+export const OrderStatusSchema = z.enum(['new', 'partially_filled', 'filled', 'canceled', 'rejected', 'unknown']);
+export type OrderStatus = z.infer<typeof OrderStatusSchema>;
+
+export const OrderSchema = z.object({
+    orderId: z.string(),
+    clientOid: z.string().optional(),
+    symbol: z.string(),
+    side: SideCodeSchema.optional(),
+    price: z.coerce.number().default(0),
+    size: z.coerce.number().default(0),
+    filledSize: z.coerce.number().default(0),
+    avgPrice: z.coerce.number().default(0),
+    fee: z.coerce.number().default(0),
+    realizedPnl: z.coerce.number().default(0),
+    status: OrderStatusSchema,
+    createdAt: z.coerce.number().default(0),
+});
+export type Order = z.infer<typeof OrderSchema>;
+
+export const FillSchema = z.object({
+    tradeId: z.string(),
+    orderId: z.string(),
+    symbol: z.string(),
+    side: SideCodeSchema.optional(),
+    price: z.coerce.number().positive(),
+    size: z.coerce.number().positive(),
+    fee: z.coerce.number().default(0),
+    timestamp: z.coerce.number(),
+});
+export type Fill = z.infer<typeof FillSchema>;
+
+export const OrderAckSchema = z.object({
+    orderId: z.string(),
+    clientOid: z.string().optional(),
+});
+export type OrderAck = z.infer<typeof OrderAckSchema>;
+
+/**
+ * market: takes the book at any price
+ * limit: takes up to `price`, the rest rests on the book
+ * post_only: rests at `price`; canceled instead if any of it would take
+ * ioc: takes up to `price`, the rest is canceled
+ * fok: takes all of it up to `price`, or nothing (canceled)
+ */
+export const OrderTypeSchema = z.enum(['market', 'limit', 'post_only', 'ioc', 'fok']);
+export type OrderType = z.infer<typeof OrderTypeSchema>;
+
+export interface OrderOptions {
+    type?: OrderType;       // Default: market
+    price?: number;         // Limit price, required for every type but market
+    clientOid?: string;
+    reduceOnly?: boolean;   // Only ever shrinks the position; needs a close side code (2, 4)
+}
+
+export const ContractSchema = z.object({
+    symbol: z.string(),
+    tickSize: z.coerce.number().positive(),                 // Price increment
+    lotSize: z.coerce.number().positive(),                  // Size increment
+    minSize: z.coerce.number().nonnegative().default(0),    // Smallest order size
+    maxSize: z.coerce.number().positive().optional(),       // Largest order size
+    contractValue: z.coerce.number().positive().default(1), // Base units per 1 of size
+    maxLeverage: z.coerce.number().positive().optional(),
+    priceBand: z.coerce.number().positive().optional(),     // Max limit price distance from the mark (fraction)
+});
+export type Contract = z.infer<typeof ContractSchema>;
+
+export interface AILogResult {
+    success: boolean;
+    message?: string;
+}
+
+// ==================== GATEWAY INTERFACE ====================
+
+/**
+ * Everything an engine or agent is allowed to ask of the exchange.
+ * Implemented by the REST client adapter and the Rust CLI bridge.
+ */
+export interface ExchangeGateway {
+    getTicker(symbol: string): Promise<Ticker>;
+    getDepth(symbol: string): Promise<OrderBook>;
+    getCandles(symbol: string, granularity?: string, limit?: number): Promise<Candle[]>;
+    getFundingRate(symbol: string): Promise<FundingRate>;
+    getContract(symbol: string): Promise<Contract>;
+    getContracts(): Promise<Contract[]>;
+    getAssets(): Promise<Balance[]>;
+    getPositions(): Promise<Position[]>;
+    getOrderHistory(symbol: string): Promise<Order[]>;
+    getOrder(symbol: string, orderId: string): Promise<Order>;
+    getOrderByClientOid(symbol: string, clientOid: string): Promise<Order | null>;
+    getFills(symbol: string): Promise<Fill[]>;
+    placeOrder(symbol: string, side: SideCode, size: number, options?: OrderOptions): Promise<OrderAck>;
+    cancelOrder(symbol: string, orderId: string): Promise<void>;
+    uploadAILog(log: AILogInput): Promise<AILogResult>;
+}
+
+// ==================== NORMALIZERS ====================
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Strip the `{ code, msg, data }` envelope some endpoints wrap their payload in
+ */
+function unwrap(raw: unknown): unknown {
+    if (raw && typeof raw === 'object' && !Array.isArray(raw) && 'data' in raw && ('code' in raw || 'msg' in raw)) {
+        return (raw as RawRecord).data;
+    }
+    return raw;
+}
+
+function asRecord(raw: unknown): RawRecord {
+    const value = unwrap(raw);
+    if (Array.isArray(value)) return (value[0] ?? {}) as RawRecord;
+    if (typeof value === 'string') {
+        try {
+            return asRecord(JSON.parse(value));
+        } catch {
+            return {};
+        }
+    }
+    return (value && typeof value === 'object' ? value : {}) as RawRecord;
+}
+
+function asArray(raw: unknown): unknown[] {
+    const value = unwrap(raw);
+    if (Array.isArray(value)) return value;
+    if (typeof value === 'string') {
+        try {
+            return asArray(JSON.parse(value));
+        } catch {
+            return [];
+        }
+    }
+    if (value && typeof value === 'object') {
+        // Paged responses: { list: [...] } / { orders: [...] }
+        const record = value as RawRecord;
+        for (const key of ['list', 'orders', 'fills', 'rows']) {
+            if (Array.isArray(record[key])) return record[key] as unknown[];
+        }
+        return [value];
+    }
+    return [];
+}
+
+/**
+ * First non-empty value among alternative field names
+ */
+function pick(raw: RawRecord, ...keys: string[]): unknown {
+    for (const key of keys) {
+        const value = raw[key];
+        if (value !== undefined && value !== null && value !== '') return value;
+    }
+    return undefined;
+}
+
+function validate<T extends z.ZodTypeAny>(schema: T, value: unknown, what: string): z.infer<T> {
+    const result = schema.safeParse(value);
+    if (!result.success) {
+        const issues = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+        throw new Error(`Invalid ${what} payload: ${issues}`);
+    }
+    return result.data;
+}
+
+const SIDE_NAMES: Record<string, SideCode> = {
+    open_long: 1,
+    close_short: 2,
+    open_short: 3,
+    close_long: 4,
+};
+
+function parseSideCode(raw: unknown): SideCode | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    const code = SIDE_NAMES[String(raw).toLowerCase()] ?? Number(raw);
+    return code === 1 || code === 2 || code === 3 || code === 4 ? code : undefined;
+}
+
+function parseOrderStatus(raw: unknown): OrderStatus {
+    const status = String(raw ?? '').toLowerCase();
+    if (['new', 'open', 'pending', 'init', 'live', '0'].includes(status)) return 'new';
+    if (['partially_filled', 'partial_filled', 'partial-fill', '1'].includes(status)) return 'partially_filled';
+    if (['filled', 'full_filled', 'full-fill', '2'].includes(status)) return 'filled';
+    if (['canceled', 'cancelled', 'canceling', '-1'].includes(status)) return 'canceled';
+    if (['rejected', 'failed', 'fail', 'expired'].includes(status)) return 'rejected';
+    return 'unknown';
+}
+
+function parseLevels(raw: unknown): unknown[] {
+    return asArray(raw).map((level) => {
+        if (Array.isArray(level)) return { price: level[0], quantity: level[1] };
+        const r = level as RawRecord;
+        return { price: pick(r, 'price', 'px'), quantity: pick(r, 'quantity', 'size', 'sz', 'qty') };
+    });
+}
+
+export function parseTicker(raw: unknown, symbol: string): Ticker {
+    const r = asRecord(raw);
+    return validate(TickerSchema, {
+        symbol: pick(r, 'symbol') ?? symbol,
+        last: pick(r, 'last', 'lastPr', 'lastPrice', 'close'),
+        bid: pick(r, 'best_bid', 'bestBid', 'bidPr', 'bid'),
+        ask: pick(r, 'best_ask', 'bestAsk', 'askPr', 'ask'),
+        high24h: pick(r, 'high_24h', 'high24h'),
+        low24h: pick(r, 'low_24h', 'low24h'),
+        volume24h: pick(r, 'volume_24h', 'volume24h', 'baseVolume', 'vol'),
+        change24h: pick(r, 'priceChangePercent', 'change24h', 'changeUtc24h', 'change'),
+        markPrice: pick(r, 'markPrice', 'mark_price'),
+        timestamp: pick(r, 'timestamp', 'ts') ?? Date.now(),
+    }, 'ticker');
+}
+
+export function parseOrderBook(raw: unknown, symbol: string): OrderBook {
+    const r = asRecord(raw);
+    return validate(OrderBookSchema, {
+        symbol,
+        bids: parseLevels(r.bids),
+        asks: parseLevels(r.asks),
+        timestamp: pick(r, 'timestamp', 'ts') ?? Date.now(),
+    }, 'depth');
+}
+
+export function parseCandles(raw: unknown): Candle[] {
+    return asArray(raw).map((c) => {
+        if (Array.isArray(c)) {
+            return validate(CandleSchema, { time: c[0], open: c[1], high: c[2], low: c[3], close: c[4], volume: c[5] }, 'candle');
+        }
+        const r = c as RawRecord;
+        return validate(CandleSchema, {
+            time: pick(r, 'time', 'ts', 'timestamp'),
+            open: pick(r, 'open', 'o'),
+            high: pick(r, 'high', 'h'),
+            low: pick(r, 'low', 'l'),
+            close: pick(r, 'close', 'c'),
+            volume: pick(r, 'volume', 'vol', 'v'),
+        }, 'candle');
+    });
+}
+
+export function parseFundingRate(raw: unknown, symbol: string): FundingRate {
+    const r = asRecord(raw);
+    return validate(FundingRateSchema, {
+        symbol: pick(r, 'symbol') ?? symbol,
+        fundingRate: pick(r, 'fundingRate', 'funding_rate'),
+        nextFundingTime: pick(r, 'fundingTime', 'nextFundingTime', 'timestamp'),
+    }, 'funding rate');
+}
+
+export function parseBalances(raw: unknown): Balance[] {
+    return asArray(raw).map((a) => {
+        const r = a as RawRecord;
+        return validate(BalanceSchema, {
+            asset: pick(r, 'coinName', 'asset', 'coin', 'marginCoin'),
+            equity: pick(r, 'equity', 'accountEquity', 'available'),
+            available: pick(r, 'available'),
+            frozen: pick(r, 'frozen', 'locked'),
+            unrealizedPnl: pick(r, 'unrealizePnl', 'unrealizedPnl', 'unrealizedPL'),
+        }, 'balance');
+    });
+}
+
+/**
+ * Parse positions, dropping empty (zero-size) entries
+ */
+export function parsePositions(raw: unknown): Position[] {
+    return asArray(raw)
+        .map((p) => {
+            const r = p as RawRecord;
+            return validate(PositionSchema, {
+                symbol: pick(r, 'symbol'),
+                side: String(pick(r, 'side', 'holdSide') ?? '').toLowerCase() === 'short' ? 'short' : 'long',
+                size: pick(r, 'size', 'total', 'hold_amount', 'available') ?? 0,
+                entryPrice: pick(r, 'averageOpenPrice', 'entryPrice', 'open_avg_price', 'avgPrice'),
+                unrealizedPnl: pick(r, 'unrealizePnl', 'unrealizedPL', 'unrealizedPnl', 'pnl'),
+                leverage: pick(r, 'leverage'),
+                margin: pick(r, 'margin', 'marginSize'),
+                liquidationPrice: pick(r, 'liquidatePrice', 'liquidationPrice'),
+            }, 'position');
+        })
+        .filter((p) => p.size > 0);
+}
+
+export function parseOrder(raw: unknown): Order {
+    const r = asRecord(raw);
+    return validate(OrderSchema, {
+        orderId: String(pick(r, 'order_id', 'orderId', 'id') ?? ''),
+        clientOid: pick(r, 'client_oid', 'clientOid') as string | undefined,
+        symbol: pick(r, 'symbol'),
+        side: parseSideCode(pick(r, 'type', 'side')),
+        price: pick(r, 'price'),
+        size: pick(r, 'size', 'volume'),
+        filledSize: pick(r, 'filled_qty', 'filledQty', 'fillSize', 'deal_size'),
+        avgPrice: pick(r, 'price_avg', 'priceAvg', 'avgPrice'),
+        fee: pick(r, 'fee', 'totalFee'),
+        realizedPnl: pick(r, 'realizedPl', 'realizedPnl', 'totalProfits'),
+        status: parseOrderStatus(pick(r, 'status', 'state')),
+        createdAt: pick(r, 'createTime', 'cTime', 'createdTime'),
+    }, 'order');
+}
+
+export function parseOrders(raw: unknown): Order[] {
+    return asArray(raw).map(parseOrder);
+}
+
+export function parseFills(raw: unknown): Fill[] {
+    return asArray(raw).map((f) => {
+        const r = f as RawRecord;
+        return validate(FillSchema, {
+            tradeId: String(pick(r, 'tradeId', 'trade_id', 'id') ?? ''),
+            orderId: String(pick(r, 'orderId', 'order_id') ?? ''),
+            symbol: pick(r, 'symbol'),
+            side: parseSideCode(pick(r, 'type', 'side', 'direction')),
+            price: pick(r, 'fillPrice', 'price', 'fill_price'),
+            size: pick(r, 'fillSize', 'size', 'fill_size', 'fillQty'),
+            fee: pick(r, 'fillFee', 'fee', 'fill_fee'),
+            timestamp: pick(r, 'createdTime', 'cTime', 'timestamp', 'ts'),
+        }, 'fill');
+    });
+}
+
+export function parseOrderAck(raw: unknown): OrderAck {
+    const r = asRecord(raw);
+    return validate(OrderAckSchema, {
+        orderId: String(pick(r, 'order_id', 'orderId') ?? ''),
+        clientOid: pick(r, 'client_oid', 'clientOid') as string | undefined,
+    }, 'order ack');
+}
+
+/**
+ * Upload result from the WEEX `{ code, msg }` response (00000 is success) or
+ * an already normalized `{ success, message }`. A call that returned neither
+ * went through, since failed calls throw.
+ */
+export function parseAILogResult(raw: unknown): AILogResult {
+    const r = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as RawRecord;
+    const code = pick(r, 'code');
+    const message = pick(r, 'msg', 'message');
+    const success = typeof r.success === 'boolean' ? r.success : code === undefined || String(code) === '00000';
+    return { success, ...(message !== undefined ? { message: String(message) } : {}) };
+}
+
+/**
+ * Contract spec for a symbol from a contracts listing (or a single contract)
+ */
+export function parseContract(raw: unknown, symbol: string): Contract {
+    const contracts = asArray(raw) as RawRecord[];
+    return toContract(contracts.find((c) => c && pick(c, 'symbol') === symbol) ?? asRecord(raw), symbol);
+}
+
+/**
+ * Every contract spec in a contracts listing
+ */
+export function parseContracts(raw: unknown): Contract[] {
+    return (asArray(raw) as RawRecord[]).map((r) => toContract(r));
+}
+
+function toContract(r: RawRecord, symbol?: string): Contract {
+    // WEEX gives a band per side; the narrower one holds for both
+    const bands = [pick(r, 'buyLimitPriceRatio'), pick(r, 'sellLimitPriceRatio'), pick(r, 'priceBand')]
+        .map(Number)
+        .filter((band) => band > 0);
+    return validate(ContractSchema, {
+        symbol: pick(r, 'symbol') ?? symbol,
+        tickSize: pick(r, 'tick_size', 'tickSize', 'priceTick'),
+        lotSize: pick(r, 'size_increment', 'sizeIncrement', 'lotSize'),
+        minSize: pick(r, 'minOrderSize', 'min_order_size', 'minSize'),
+        maxSize: pick(r, 'maxOrderSize', 'max_order_size', 'maxSize'),
+        contractValue: pick(r, 'contract_val', 'contractVal', 'contractValue'),
+        maxLeverage: pick(r, 'maxLeverage', 'max_leverage'),
+        priceBand: bands.length > 0 ? Math.min(...bands) : undefined,
+    }, 'contract');
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Balance for an asset (USDT by default), or undefined if the account has none
+ */
+export function findBalance(balances: Balance[], asset: string = 'USDT'): Balance | undefined {
+    return balances.find((b) => b.asset.toUpperCase() === asset.toUpperCase());
+}
+
+/**
+ * Match a position to a trading symbol (cmt_btcusdt matches BTCUSDT, cmt_btcusdt, ...)
+ */
+export function findPosition(positions: Position[], symbol: string): Position | undefined {
+    return positions.find((p) => isPositionFor(p, symbol) && p.size > 0);
+}
+
+/**
+ * Round to a multiple of `step`. The result is cut to the step's decimals,
+ * so 0.1 + 0.2 style float noise never reaches the exchange.
+ */
+export function roundToStep(value: number, step: number, mode: 'down' | 'up' | 'nearest' = 'nearest'): number {
+    const units = value / step;
+    const rounded = mode === 'down' ? Math.floor(units + 1e-9) : mode === 'up' ? Math.ceil(units - 1e-9) : Math.round(units);
+    return Number((rounded * step).toFixed(stepDecimals(step)));
+}
+
+/**
+ * Size rounded down to the contract's lot (never more than asked)
+ */
+export function roundOrderSize(contract: Contract, size: number): number {
+    return roundToStep(size, contract.lotSize, 'down');
+}
+
+/**
+ * Size rounded down to the lot, or 0 if that is below the contract's
+ * minimum order size (nothing worth sending). Without a contract spec the
+ * size is returned as is.
+ */
+export function tradableSize(contract: Contract | null, size: number): number {
+    if (!contract) return size;
+    const rounded = roundOrderSize(contract, size);
+    return rounded >= contract.minSize ? rounded : 0;
+}
+
+/**
+ * Limit price rounded to the contract's tick, away from the market: buys
+ * down, sells up, so rounding never makes an order more aggressive
+ */
+export function roundOrderPrice(contract: Contract, side: SideCode, price: number): number {
+    const isBuy = side === 1 || side === 2;
+    return roundToStep(price, contract.tickSize, isBuy ? 'down' : 'up');
+}
+
+function stepDecimals(step: number): number {
+    const [mantissa, exponent] = step.toExponential().split('e');
+    const fraction = mantissa.split('.')[1]?.length ?? 0;
+    return Math.max(0, fraction - Number(exponent));
+}
+
+/**
+ * Symbol in one form for comparing: lower case, no cmt_ prefix or separators
+ * (cmt_btcusdt, BTCUSDT and BTC-USDT all become btcusdt)
+ */
+export function normalizeSymbol(symbol: string): string {
+    return symbol.toLowerCase().replace(/^cmt_/, '').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Whether a position belongs to a trading symbol (same matching as findPosition).
+ * The whole symbol must match, so cmt_btcusdt never matches a WBTCUSDT position.
+ */
+export function isPositionFor(position: Position, symbol: string): boolean {
+    return normalizeSymbol(position.symbol) === normalizeSymbol(symbol);
+}
@@ -3,3 +3,8 @@
  */
 
 export * from './client.js';
+export * from './gateway.js';
+export * from './rust-bridge.js';
+export * from './rust-daemon.js';
+export * from './paper-exchange.js';
+export * from './local-depth.js';
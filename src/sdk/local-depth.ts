@@ -0,0 +1,116 @@
+/**
+ * Local Depth Gateway
+ * ExchangeGateway whose getDepth answers from a locally maintained order book
+ *
+ * Everything else passes through to the wrapped gateway. When the local book
+ * for a symbol is missing, unsynced or stale, getDepth falls back to REST.
+ */
+
+import type {
+    ExchangeGateway, Ticker, OrderBook, Candle, FundingRate, Contract,
+    Balance, Position, Order, Fill, OrderAck, OrderOptions, SideCode, AILogResult,
+} from './gateway.js';
+import type { AILogInput } from './client.js';
+
+/**
+ * Top `levels` of the local book for a symbol, or null if there isn't a synced one
+ */
+export type DepthSource = (symbol: string, levels: number) => OrderBook | null;
+
+export interface LocalDepthConfig {
+    maxAgeMs: number;       // Older local books fall back to REST
+    levels: number;         // Levels per side returned from the local book
+    now: () => number;
+}
+
+const DEFAULT_CONFIG: LocalDepthConfig = {
+    maxAgeMs: 5000,
+    levels: 200,
+    now: () => Date.now(),
+};
+
+export class LocalDepthGateway implements ExchangeGateway {
+    private inner: ExchangeGateway;
+    private source: DepthSource;
+    private config: LocalDepthConfig;
+
+    public localHits: number = 0;
+    public restFallbacks: number = 0;
+
+    constructor(inner: ExchangeGateway, source: DepthSource, config: Partial<LocalDepthConfig> = {}) {
+        this.inner = inner;
+        this.source = source;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    async getDepth(symbol: string): Promise<OrderBook> {
+        const book = this.source(symbol, this.config.levels);
+        if (book && book.bids.length > 0 && book.asks.length > 0 &&
+            this.config.now() - book.timestamp <= this.config.maxAgeMs) {
+            this.localHits++;
+            return book;
+        }
+        this.restFallbacks++;
+        return this.inner.getDepth(symbol);
+    }
+
+    // ==================== PASS-THROUGH ====================
+
+    getTicker(symbol: string): Promise<Ticker> {
+        return this.inner.getTicker(symbol);
+    }
+
+    getCandles(symbol: string, granularity?: string, limit?: number): Promise<Candle[]> {
+        return this.inner.getCandles(symbol, granularity, limit);
+    }
+
+    getFundingRate(symbol: string): Promise<FundingRate> {
+        return this.inner.getFundingRate(symbol);
+    }
+
+    getContract(symbol: string): Promise<Contract> {
+        return this.inner.getContract(symbol);
+    }
+
+    getContracts(): Promise<Contract[]> {
+        return this.inner.getContracts();
+    }
+
+    getAssets(): Promise<Balance[]> {
+        return this.inner.getAssets();
+    }
+
+    getPositions(): Promise<Position[]> {
+        return this.inner.getPositions();
+    }
+
+    getOrderHistory(symbol: string): Promise<Order[]> {
+        return this.inner.getOrderHistory(symbol);
+    }
+
+    getOrder(symbol: string, orderId: string): Promise<Order> {
+        return this.inner.getOrder(symbol, orderId);
+    }
+
+    getOrderByClientOid(symbol: string, clientOid: string): Promise<Order | null> {
+        return this.inner.getOrderByClientOid(symbol, clientOid);
+    }
+
+    getFills(symbol: string): Promise<Fill[]> {
+        return this.inner.getFills(symbol);
+    }
+
+    placeOrder(symbol: string, side: SideCode, size: number, options?: OrderOptions): Promise<OrderAck> {
+        return this.inner.placeOrder(symbol, side, size, options);
+    }
+
+    cancelOrder(symbol: string, orderId: string): Promise<void> {
+        return this.inner.cancelOrder(symbol, orderId);
+    }
+
+    uploadAILog(log: AILogInput): Promise<AILogResult> {
+        return this.inner.uploadAILog(log);
+    }
+}
+
+export default LocalDepthGateway;
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WeexMockServer, MOCK_ERROR_CODES } from './mock-server.js';
+import { WeexClient, createWeexGateway } from './client.js';
+import { findBalance } from './gateway.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const credentials = { apiKey: 'mock_api_key', secretKey: 'mock_secret_key', passphrase: 'mock_passphrase' };
+
+describe('WeexMockServer', () => {
+    let server: WeexMockServer;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        server = new WeexMockServer({ initialBalance: 1000 });
+        baseUrl = await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    it('accepts signed requests from WeexClient and keeps the account', async () => {
+        const gateway = createWeexGateway(new WeexClient({ ...credentials, baseUrl }));
+        server.setPrice(SYMBOL, 50_000);
+
+        await gateway.placeOrder(SYMBOL, 1, 0.01);
+        const [position] = await gateway.getPositions();
+        expect(position).toMatchObject({ side: 'long', size: 0.01 });
+        expect(findBalance(await gateway.getAssets())!.equity).toBeLessThan(1000);
+
+        await gateway.placeOrder(SYMBOL, 4, 0.01);
+        expect(await gateway.getPositions()).toEqual([]);
+        expect(server.requests.every((r) => r.status === 200)).toBe(true);
+    });
+
+    it('rejects a request signed with the wrong secret', async () => {
+        const forged = new WeexClient({ ...credentials, secretKey: 'wrong', baseUrl });
+
+        const error = await forged.getAssets().catch((e) => e);
+        expect(error.response.status).toBe(400);
+        expect(error.response.data.code).toBe(MOCK_ERROR_CODES.SIGNATURE_ERROR);
+    });
+
+    it('answers 404 for routes it does not serve', async () => {
+        const response = await fetch(`${baseUrl}/capi/v2/market/nothing`);
+        expect(response.status).toBe(404);
+        expect(((await response.json()) as { code: string }).code).toBe(MOCK_ERROR_CODES.NOT_FOUND);
+    });
+
+    it('returns 429 past the configured rate limit', async () => {
+        server.setFaults({ rateLimitPerSecond: 2 });
+        const statuses = [];
+        for (let i = 0; i < 3; i++) statuses.push((await fetch(`${baseUrl}/capi/v2/market/ticker?symbol=${SYMBOL}`)).status);
+
+        expect(statuses).toEqual([200, 200, 429]);
+    });
+
+    it('breaks 200 payloads when asked to', async () => {
+        server.setFaults({ malformedProbability: 1 });
+        const response = await fetch(`${baseUrl}/capi/v2/market/ticker?symbol=cmt_ethusdt`);
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).not.toContain('cmt_ethusdt');
+        expect(server.requests.at(-1)?.code).toBe('malformed');
+    });
+});
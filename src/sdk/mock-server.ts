@@ -0,0 +1,726 @@
+/**
+ * WEEX Mock Server
+ * Local stand-in for the /capi/v2 contract API that WeexClient calls
+ *
+ * Private endpoints verify ACCESS-KEY / ACCESS-SIGN / ACCESS-TIMESTAMP /
+ * ACCESS-PASSPHRASE exactly like the exchange (HMAC-SHA256 over
+ * timestamp + METHOD + path?query + body), so signing and parameter
+ * encoding bugs show up locally. Faults (latency, 429s, malformed
+ * payloads) can be injected for resilience testing.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { AddressInfo } from 'net';
+
+// ==================== CONFIG ====================
+
+export interface MockFaults {
+    latencyMs: number;              // Base delay added to every response
+    latencyJitterMs: number;        // Extra random delay in [0, jitter]
+    rateLimitPerSecond: number;     // Requests per second before 429 (0 = unlimited)
+    rate429Probability: number;     // Random 429s regardless of load (0..1)
+    malformedProbability: number;   // Random broken payloads on 200 responses (0..1)
+}
+
+export interface MockServerConfig {
+    port: number;                   // 0 = pick a free port
+    apiKey: string;
+    secretKey: string;
+    passphrase: string;
+    timestampToleranceMs: number;
+    initialBalance: number;
+    seed: number;                   // Makes injected faults reproducible
+    faults: MockFaults;
+}
+
+const DEFAULT_FAULTS: MockFaults = {
+    latencyMs: 0,
+    latencyJitterMs: 0,
+    rateLimitPerSecond: 0,
+    rate429Probability: 0,
+    malformedProbability: 0,
+};
+
+const DEFAULT_CONFIG: Omit<MockServerConfig, 'faults'> = {
+    port: 0,
+    apiKey: 'mock_api_key',
+    secretKey: 'mock_secret_key',
+    passphrase: 'mock_passphrase',
+    timestampToleranceMs: 30000,
+    initialBalance: 1000,
+    seed: 42,
+};
+
+/**
+ * WEEX error codes returned by the mock
+ */
+export const MOCK_ERROR_CODES = {
+    ACCESS_KEY_EMPTY: '40001',
+    ACCESS_SIGN_EMPTY: '40002',
+    ACCESS_TIMESTAMP_EMPTY: '40003',
+    INVALID_TIMESTAMP: '40005',
+    INVALID_ACCESS_KEY: '40006',
+    TIMESTAMP_EXPIRED: '40008',
+    SIGNATURE_ERROR: '40009',
+    PASSPHRASE_EMPTY: '40011',
+    PASSPHRASE_INCORRECT: '40012',
+    PARAMETER_ERROR: '40017',
+    INSUFFICIENT_BALANCE: '40754',
+    ORDER_NOT_FOUND: '40768',
+    NOT_FOUND: '40404',
+    TOO_MANY_REQUESTS: '429',
+} as const;
+
+const BASE_PRICES: Record<string, number> = {
+    cmt_btcusdt: 88000,
+    cmt_ethusdt: 3000,
+    cmt_solusdt: 130,
+    cmt_dogeusdt: 0.13,
+    cmt_xrpusdt: 1.9,
+    cmt_adausdt: 0.37,
+    cmt_bnbusdt: 850,
+    cmt_ltcusdt: 77,
+};
+
+// ==================== STATE ====================
+
+interface MockOrder {
+    order_id: string;
+    client_oid: string;
+    symbol: string;
+    type: string;           // 1-4 side code
+    order_type: string;
+    size: string;
+    price: string;
+    price_avg: string;
+    filled_qty: string;
+    fee: string;
+    totalProfits: string;
+    status: 'open' | 'filled' | 'canceled';
+    createTime: number;
+}
+
+interface MockPosition {
+    symbol: string;
+    side: 'LONG' | 'SHORT';
+    size: number;
+    entryPrice: number;
+    leverage: number;
+}
+
+export interface MockRequestLog {
+    method: string;
+    path: string;
+    status: number;
+    code: string;
+    timestamp: number;
+}
+
+class ApiError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Small deterministic PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// ==================== SERVER ====================
+
+type Handler = (query: URLSearchParams, body: Record<string, unknown>) => unknown;
+
+export class WeexMockServer extends EventEmitter {
+    private config: MockServerConfig;
+    private server: http.Server | null = null;
+    private random: () => number;
+    private windowStart: number = 0;
+    private windowCount: number = 0;
+
+    private prices: Map<string, number> = new Map(Object.entries(BASE_PRICES));
+    private positions: Map<string, MockPosition> = new Map();
+    private orders: MockOrder[] = [];
+    private leverage: Map<string, number> = new Map();
+    private cash: number;
+    private nextOrderId: number = 1;
+
+    public requests: MockRequestLog[] = [];
+    public aiLogs: Record<string, unknown>[] = [];
+
+    private publicRoutes: Partial<Record<string, Handler>>;
+    private privateRoutes: Partial<Record<string, Handler>>;
+
+    constructor(config: Partial<Omit<MockServerConfig, 'faults'>> & { faults?: Partial<MockFaults> } = {}) {
+        super();
+        this.config = {
+            ...DEFAULT_CONFIG,
+            ...config,
+            faults: { ...DEFAULT_FAULTS, ...config.faults },
+        };
+        this.random = createRandom(this.config.seed);
+        this.cash = this.config.initialBalance;
+
+        this.publicRoutes = {
+            'GET /capi/v2/market/time': () => ({ epoch: (Date.now() / 1000).toFixed(3), iso: new Date().toISOString(), timestamp: Date.now() }),
+            'GET /capi/v2/market/contracts': (q) => this.contracts(q.get('symbol')),
+            'GET /capi/v2/market/ticker': (q) => this.ticker(this.requireSymbol(q)),
+            'GET /capi/v2/market/tickers': () => [...this.prices.keys()].map((s) => this.ticker(s)),
+            'GET /capi/v2/market/depth': (q) => this.depth(this.requireSymbol(q)),
+            'GET /capi/v2/market/candles': (q) => this.candles(this.requireSymbol(q), parseInt(q.get('limit') || '100')),
+            'GET /capi/v2/market/trades': (q) => this.trades(this.requireSymbol(q), parseInt(q.get('limit') || '100')),
+            'GET /capi/v2/market/index': (q) => ({ symbol: this.requireSymbol(q), index: this.price(q.get('symbol')!).toString(), timestamp: Date.now() }),
+            'GET /capi/v2/market/fundingRate': (q) => ({ symbol: this.requireSymbol(q), fundingRate: '0.0001', fundingTime: this.nextFundingTime().toString() }),
+            'GET /capi/v2/market/openInterest': (q) => ({ symbol: this.requireSymbol(q), openInterestAmount: '12345.6', timestamp: Date.now() }),
+        };
+
+        this.privateRoutes = {
+            'GET /capi/v2/account/assets': () => [this.asset()],
+            'GET /capi/v2/account/position/singlePosition': (q) => this.positionList(this.requireSymbol(q)),
+            'GET /capi/v2/account/position/allPosition': () => this.positionList(),
+            'GET /capi/v2/account/bills': () => [],
+            'POST /capi/v2/account/leverage': (_, b) => this.setLeverage(b),
+            'POST /capi/v2/account/setMarginMode': (_, b) => ({ symbol: this.requireField(b, 'symbol'), marginMode: this.requireField(b, 'marginMode') }),
+            'POST /capi/v2/account/adjustPositionMargin': (_, b) => ({ symbol: this.requireField(b, 'symbol'), result: true }),
+            'POST /capi/v2/order/placeOrder': (_, b) => this.placeOrder(b),
+            'POST /capi/v2/order/cancelOrder': (_, b) => this.cancelOrder(b),
+            'POST /capi/v2/order/cancelAllOrders': (_, b) => this.cancelAll(this.requireField(b, 'symbol')),
+            'GET /capi/v2/order/detail': (q) => this.orderDetail(q),
+            'GET /capi/v2/order/history': (q) => this.orders.filter((o) => o.symbol === this.requireSymbol(q) && o.status !== 'open').slice(-parseInt(q.get('pageSize') || '20')),
+            'GET /capi/v2/order/current': (q) => this.orders.filter((o) => o.symbol === this.requireSymbol(q) && o.status === 'open'),
+            'GET /capi/v2/order/fills': (q) => this.fills(this.requireSymbol(q)),
+            'POST /capi/v2/order/placeTriggerOrder': (_, b) => ({ order_id: this.newOrderId(), client_oid: String(b.client_oid ?? '') }),
+            'POST /capi/v2/order/cancelTriggerOrder': (_, b) => ({ order_id: this.requireField(b, 'orderId'), result: true }),
+            'POST /capi/v2/order/closeAllPositions': (_, b) => this.closeAll(this.requireField(b, 'symbol')),
+            'POST /capi/v2/order/placeTPSL': (_, b) => ({ symbol: this.requireField(b, 'symbol'), result: true }),
+            'POST /capi/v2/order/uploadAiLog': (_, b) => this.uploadAiLog(b),
+        };
+    }
+
+    get baseUrl(): string {
+        const address = this.server?.address() as AddressInfo | null;
+        return address ? `http://127.0.0.1:${address.port}` : '';
+    }
+
+    async start(): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch((error) => {
+                this.send(res, req, 500, { code: '50000', msg: error.message });
+            });
+        });
+
+        await new Promise<void>((resolve) => this.server!.listen(this.config.port, '127.0.0.1', resolve));
+        this.emit('listening', this.baseUrl);
+        return this.baseUrl;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) return;
+        const server = this.server;
+        this.server = null;
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    /**
+     * Change injected faults while running
+     */
+    setFaults(faults: Partial<MockFaults>): void {
+        this.config.faults = { ...this.config.faults, ...faults };
+    }
+
+    setPrice(symbol: string, price: number): void {
+        this.prices.set(symbol, price);
+    }
+
+    // ==================== REQUEST PIPELINE ====================
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const rawBody = await this.readBody(req);
+        const url = new URL(req.url || '/', 'http://localhost');
+        const method = (req.method || 'GET').toUpperCase();
+        const route = `${method} ${url.pathname}`;
+        const faults = this.config.faults;
+
+        const delay = faults.latencyMs + this.random() * faults.latencyJitterMs;
+        if (delay > 0) await new Promise((r) => setTimeout(r, delay));
+
+        if (this.isRateLimited()) {
+            this.send(res, req, 429, { code: MOCK_ERROR_CODES.TOO_MANY_REQUESTS, msg: 'Too many requests' });
+            return;
+        }
+
+        const publicHandler = this.publicRoutes[route];
+        const privateHandler = this.privateRoutes[route];
+        const handler = publicHandler || privateHandler;
+        if (!handler) {
+            this.send(res, req, 404, { code: MOCK_ERROR_CODES.NOT_FOUND, msg: 'Request URL NOT FOUND' });
+            return;
+        }
+
+        try {
+            // Signature covers the path and query exactly as sent
+            if (privateHandler) this.authenticate(req, method, req.url || '/', rawBody);
+
+            let body: Record<string, unknown> = {};
+            if (rawBody) {
+                try {
+                    body = JSON.parse(rawBody);
+                } catch {
+                    throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Request body is not valid JSON');
+                }
+            }
+
+            const data = handler(url.searchParams, body);
+
+            if (this.random() < faults.malformedProbability) {
+                this.sendMalformed(res, req);
+                return;
+            }
+            this.send(res, req, 200, data);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                this.send(res, req, error.status, { code: error.code, msg: error.message });
+                return;
+            }
+            throw error;
+        }
+    }
+
+    private authenticate(req: http.IncomingMessage, method: string, pathWithQuery: string, body: string): void {
+        const header = (name: string) => {
+            const value = req.headers[name.toLowerCase()];
+            return Array.isArray(value) ? value[0] : value;
+        };
+
+        const key = header('ACCESS-KEY');
+        const sign = header('ACCESS-SIGN');
+        const timestamp = header('ACCESS-TIMESTAMP');
+        const passphrase = header('ACCESS-PASSPHRASE');
+
+        if (!key) throw new ApiError(400, MOCK_ERROR_CODES.ACCESS_KEY_EMPTY, 'ACCESS_KEY cannot be empty');
+        if (!sign) throw new ApiError(400, MOCK_ERROR_CODES.ACCESS_SIGN_EMPTY, 'ACCESS_SIGN cannot be empty');
+        if (!timestamp) throw new ApiError(400, MOCK_ERROR_CODES.ACCESS_TIMESTAMP_EMPTY, 'ACCESS_TIMESTAMP cannot be empty');
+        if (!passphrase) throw new ApiError(400, MOCK_ERROR_CODES.PASSPHRASE_EMPTY, 'ACCESS_PASSPHRASE cannot be empty');
+
+        if (!/^\d{13}$/.test(timestamp)) {
+            throw new ApiError(400, MOCK_ERROR_CODES.INVALID_TIMESTAMP, 'Invalid ACCESS_TIMESTAMP');
+        }
+        if (Math.abs(Date.now() - parseInt(timestamp)) > this.config.timestampToleranceMs) {
+            throw new ApiError(400, MOCK_ERROR_CODES.TIMESTAMP_EXPIRED, 'Request timestamp expired');
+        }
+        if (key !== this.config.apiKey) {
+            throw new ApiError(400, MOCK_ERROR_CODES.INVALID_ACCESS_KEY, 'Invalid ACCESS_KEY');
+        }
+        if (passphrase !== this.config.passphrase) {
+            throw new ApiError(400, MOCK_ERROR_CODES.PASSPHRASE_INCORRECT, 'apikey/passphrase is incorrect');
+        }
+
+        const expected = crypto
+            .createHmac('sha256', this.config.secretKey)
+            .update(timestamp + method + pathWithQuery + body)
+            .digest('base64');
+
+        const a = Buffer.from(sign);
+        const b = Buffer.from(expected);
+        if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+            throw new ApiError(400, MOCK_ERROR_CODES.SIGNATURE_ERROR, 'sign signature error');
+        }
+    }
+
+    private isRateLimited(): boolean {
+        const faults = this.config.faults;
+        if (this.random() < faults.rate429Probability) return true;
+        if (faults.rateLimitPerSecond <= 0) return false;
+
+        const now = Date.now();
+        if (now - this.windowStart >= 1000) {
+            this.windowStart = now;
+            this.windowCount = 0;
+        }
+        this.windowCount++;
+        return this.windowCount > faults.rateLimitPerSecond;
+    }
+
+    private readBody(req: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+            req.on('error', reject);
+        });
+    }
+
+    private send(res: http.ServerResponse, req: http.IncomingMessage, status: number, payload: unknown): void {
+        const code = status === 200 ? '00000' : String((payload as { code?: string })?.code ?? status);
+        const body = status === 200 ? payload : { ...(payload as object), requestTime: Date.now(), data: null };
+
+        this.log(req, status, code);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    private sendMalformed(res: http.ServerResponse, req: http.IncomingMessage): void {
+        const variants = [
+            () => '{"symbol":"cmt_btcusdt","last":',                          // Truncated JSON
+            () => '<html><body>502 Bad Gateway</body></html>',               // Proxy error page
+            () => JSON.stringify({ symbol: null, last: 'NaN', bids: 'x' }), // Wrong types
+            () => '',                                                        // Empty body
+        ];
+        const body = variants[Math.floor(this.random() * variants.length)]();
+
+        this.log(req, 200, 'malformed');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(body);
+    }
+
+    private log(req: http.IncomingMessage, status: number, code: string): void {
+        const entry: MockRequestLog = {
+            method: req.method || 'GET',
+            path: req.url || '/',
+            status,
+            code,
+            timestamp: Date.now(),
+        };
+        this.requests.push(entry);
+        if (this.requests.length > 1000) this.requests.shift();
+        this.emit('request', entry);
+    }
+
+    // ==================== VALIDATION ====================
+
+    private requireSymbol(query: URLSearchParams): string {
+        const symbol = query.get('symbol');
+        if (!symbol) throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Parameter symbol cannot be empty');
+        if (!this.prices.has(symbol)) throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, `Symbol ${symbol} does not exist`);
+        return symbol;
+    }
+
+    private requireField(body: Record<string, unknown>, field: string): string {
+        const value = body[field];
+        if (value === undefined || value === null || value === '') {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, `Parameter ${field} cannot be empty`);
+        }
+        if (field === 'symbol' && !this.prices.has(String(value))) {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, `Symbol ${value} does not exist`);
+        }
+        return String(value);
+    }
+
+    // ==================== MARKET ====================
+
+    private price(symbol: string): number {
+        return this.prices.get(symbol) ?? 0;
+    }
+
+    private tickSize(symbol: string): number {
+        const price = this.price(symbol);
+        return price >= 1000 ? 0.1 : price >= 10 ? 0.01 : 0.0001;
+    }
+
+    private nextFundingTime(): number {
+        const interval = 8 * 60 * 60 * 1000;
+        return Math.ceil(Date.now() / interval) * interval;
+    }
+
+    private contracts(symbol: string | null): unknown[] {
+        const symbols = symbol ? [symbol] : [...this.prices.keys()];
+        return symbols.filter((s) => this.prices.has(s)).map((s) => ({
+            symbol: s,
+            underlying_index: s.replace('cmt_', '').replace('usdt', '').toUpperCase(),
+            quote_currency: 'USDT',
+            coin: 'USDT',
+            contract_val: '1',
+            tick_size: String(this.tickSize(s)),
+            size_increment: this.price(s) >= 1000 ? '0.0001' : '1',
+            minOrderSize: this.price(s) >= 1000 ? '0.0001' : '1',
+            maxOrderSize: '100000',
+            maxPositionSize: '1000000',
+            minLeverage: '1',
+            maxLeverage: '125',
+            makerFeeRate: '0.0002',
+            takerFeeRate: '0.0006',
+            buyLimitPriceRatio: '0.05',
+            sellLimitPriceRatio: '0.05',
+        }));
+    }
+
+    private ticker(symbol: string): Record<string, string> {
+        const price = this.price(symbol);
+        const tick = this.tickSize(symbol);
+        return {
+            symbol,
+            last: price.toString(),
+            best_bid: (price - tick).toString(),
+            best_ask: (price + tick).toString(),
+            high_24h: (price * 1.02).toString(),
+            low_24h: (price * 0.98).toString(),
+            volume_24h: '123456.78',
+            priceChangePercent: '0.0125',
+            markPrice: price.toString(),
+            indexPrice: price.toString(),
+            timestamp: Date.now().toString(),
+        };
+    }
+
+    private depth(symbol: string): unknown {
+        const price = this.price(symbol);
+        const tick = this.tickSize(symbol);
+        const level = (i: number, sign: number) => [
+            (price + sign * tick * (i + 1)).toFixed(4),
+            (0.5 + i * 0.25).toFixed(4),
+        ];
+        return {
+            asks: Array.from({ length: 15 }, (_, i) => level(i, 1)),
+            bids: Array.from({ length: 15 }, (_, i) => level(i, -1)),
+            timestamp: Date.now().toString(),
+        };
+    }
+
+    private candles(symbol: string, limit: number): unknown[] {
+        const price = this.price(symbol);
+        const hour = 60 * 60 * 1000;
+        const start = Math.floor(Date.now() / hour) * hour - (limit - 1) * hour;
+        return Array.from({ length: limit }, (_, i) => {
+            const close = price * (1 + Math.sin(i / 5) * 0.01);
+            const open = price * (1 + Math.sin((i - 1) / 5) * 0.01);
+            return [
+                String(start + i * hour), open.toFixed(4), (Math.max(open, close) * 1.002).toFixed(4),
+                (Math.min(open, close) * 0.998).toFixed(4), close.toFixed(4), '100.5', (close * 100.5).toFixed(2),
+            ];
+        });
+    }
+
+    private trades(symbol: string, limit: number): unknown[] {
+        const price = this.price(symbol);
+        return Array.from({ length: Math.min(limit, 100) }, (_, i) => ({
+            tradeId: String(1000 + i),
+            price: price.toString(),
+            size: '0.01',
+            side: i % 2 === 0 ? 'buy' : 'sell',
+            time: String(Date.now() - i * 1000),
+        }));
+    }
+
+    // ==================== ACCOUNT ====================
+
+    private unrealizedPnl(position: MockPosition): number {
+        const direction = position.side === 'LONG' ? 1 : -1;
+        return (this.price(position.symbol) - position.entryPrice) * position.size * direction;
+    }
+
+    private asset(): Record<string, string> {
+        let unrealized = 0;
+        let margin = 0;
+        for (const p of this.positions.values()) {
+            unrealized += this.unrealizedPnl(p);
+            margin += (p.size * p.entryPrice) / p.leverage;
+        }
+        const equity = this.cash + unrealized;
+        return {
+            coinName: 'USDT',
+            available: Math.max(0, equity - margin).toFixed(4),
+            equity: equity.toFixed(4),
+            frozen: margin.toFixed(4),
+            unrealizePnl: unrealized.toFixed(4),
+        };
+    }
+
+    private positionList(symbol?: string): unknown[] {
+        return [...this.positions.values()]
+            .filter((p) => !symbol || p.symbol === symbol)
+            .map((p) => ({
+                symbol: p.symbol,
+                side: p.side,
+                size: p.size.toString(),
+                open_avg_price: p.entryPrice.toString(),
+                leverage: p.leverage.toString(),
+                margin: ((p.size * p.entryPrice) / p.leverage).toFixed(4),
+                unrealizePnl: this.unrealizedPnl(p).toFixed(4),
+                liquidatePrice: (p.side === 'LONG'
+                    ? p.entryPrice * (1 - 1 / p.leverage)
+                    : p.entryPrice * (1 + 1 / p.leverage)).toFixed(4),
+            }));
+    }
+
+    private setLeverage(body: Record<string, unknown>): unknown {
+        const symbol = this.requireField(body, 'symbol');
+        const leverage = parseInt(this.requireField(body, 'longLeverage'));
+        if (!(leverage >= 1 && leverage <= 125)) {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Leverage must be between 1 and 125');
+        }
+        this.leverage.set(symbol, leverage);
+        return { symbol, longLeverage: String(leverage), shortLeverage: String(leverage) };
+    }
+
+    // ==================== TRADING ====================
+
+    private newOrderId(): string {
+        return String(700000000000 + this.nextOrderId++);
+    }
+
+    private placeOrder(body: Record<string, unknown>): unknown {
+        const symbol = this.requireField(body, 'symbol');
+        const size = parseFloat(this.requireField(body, 'size'));
+        const type = this.requireField(body, 'type');
+        const orderType = String(body.order_type ?? '0');
+        const isMarket = String(body.match_price ?? '0') === '1';
+
+        if (!['1', '2', '3', '4'].includes(type)) {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Parameter type must be 1, 2, 3 or 4');
+        }
+        if (!(size > 0)) {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Parameter size must be positive');
+        }
+        if (String(body.reduce_only ?? '0') === '1' && type !== '2' && type !== '4') {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Reduce-only orders must use type 2 or 4');
+        }
+        if (!isMarket && !body.price) {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Parameter price cannot be empty');
+        }
+
+        const clientOid = String(body.client_oid ?? '');
+        if (clientOid && this.orders.some((o) => o.client_oid === clientOid)) {
+            throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Duplicate client_oid');
+        }
+
+        const order: MockOrder = {
+            order_id: this.newOrderId(),
+            client_oid: clientOid,
+            symbol,
+            type,
+            order_type: orderType,
+            size: size.toString(),
+            price: String(body.price ?? '0'),
+            price_avg: '0',
+            filled_qty: '0',
+            fee: '0',
+            totalProfits: '0',
+            status: 'open',
+            createTime: Date.now(),
+        };
+
+        // Limit orders that cross the mid fill at it; post-only (1) is canceled instead, FOK (2) and IOC (3) that can't fill are too
+        const mid = this.price(symbol);
+        const limit = parseFloat(order.price);
+        const crosses = isMarket || (type === '1' || type === '2' ? limit >= mid : limit <= mid);
+        if (crosses && orderType !== '1') {
+            this.fill(order, mid);
+        } else if (orderType !== '0') {
+            order.status = 'canceled';
+        }
+        this.orders.push(order);
+
+        return { order_id: order.order_id, client_oid: order.client_oid };
+    }
+
+    private fill(order: MockOrder, price: number): void {
+        const size = parseFloat(order.size);
+        const side: 'LONG' | 'SHORT' = order.type === '1' || order.type === '4' ? 'LONG' : 'SHORT';
+        const key = `${order.symbol}:${side}`;
+        const leverage = this.leverage.get(order.symbol) ?? 20;
+        const fee = size * price * 0.0006;
+        const existing = this.positions.get(key);
+        let realized = 0;
+
+        if (order.type === '1' || order.type === '3') {
+            const required = (size * price) / leverage + fee;
+            if (required > parseFloat(this.asset().available)) {
+                throw new ApiError(400, MOCK_ERROR_CODES.INSUFFICIENT_BALANCE, 'Insufficient balance');
+            }
+            if (existing) {
+                existing.entryPrice = (existing.entryPrice * existing.size + price * size) / (existing.size + size);
+                existing.size += size;
+            } else {
+                this.positions.set(key, { symbol: order.symbol, side, size, entryPrice: price, leverage });
+            }
+        } else {
+            if (!existing || existing.size < size - 1e-12) {
+                throw new ApiError(400, MOCK_ERROR_CODES.PARAMETER_ERROR, 'Close size exceeds position');
+            }
+            realized = (price - existing.entryPrice) * size * (side === 'LONG' ? 1 : -1);
+            existing.size -= size;
+            if (existing.size <= 1e-12) this.positions.delete(key);
+        }
+
+        this.cash += realized - fee;
+        order.status = 'filled';
+        order.price_avg = price.toString();
+        order.filled_qty = order.size;
+        order.fee = fee.toFixed(6);
+        order.totalProfits = realized.toFixed(6);
+    }
+
+    private cancelOrder(body: Record<string, unknown>): unknown {
+        const orderId = String(body.orderId ?? body.order_id ?? '');
+        const order = this.orders.find((o) => o.order_id === orderId);
+        if (!order) throw new ApiError(400, MOCK_ERROR_CODES.ORDER_NOT_FOUND, 'The order does not exist');
+        if (order.status === 'open') order.status = 'canceled';
+        return { order_id: orderId, client_oid: order.client_oid, result: order.status === 'canceled' };
+    }
+
+    private cancelAll(symbol: string): unknown {
+        const canceled = this.orders.filter((o) => o.symbol === symbol && o.status === 'open');
+        canceled.forEach((o) => { o.status = 'canceled'; });
+        return canceled.map((o) => ({ order_id: o.order_id, result: true }));
+    }
+
+    private closeAll(symbol: string): unknown {
+        const closed: unknown[] = [];
+        for (const p of [...this.positions.values()].filter((p) => p.symbol === symbol)) {
+            const order: MockOrder = {
+                order_id: this.newOrderId(), client_oid: '', symbol, type: p.side === 'LONG' ? '4' : '2',
+                order_type: '0', size: p.size.toString(), price: '0', price_avg: '0', filled_qty: '0',
+                fee: '0', totalProfits: '0', status: 'open', createTime: Date.now(),
+            };
+            this.fill(order, this.price(symbol));
+            this.orders.push(order);
+            closed.push({ order_id: order.order_id, result: true });
+        }
+        return closed;
+    }
+
+    private orderDetail(query: URLSearchParams): unknown {
+        const orderId = query.get('orderId');
+        const order = this.orders.find((o) => o.order_id === orderId);
+        if (!order) throw new ApiError(400, MOCK_ERROR_CODES.ORDER_NOT_FOUND, 'The order does not exist');
+        return order;
+    }
+
+    private fills(symbol: string): unknown {
+        return {
+            list: this.orders
+                .filter((o) => o.symbol === symbol && o.status === 'filled')
+                .map((o) => ({
+                    tradeId: `${o.order_id}1`,
+                    orderId: o.order_id,
+                    symbol: o.symbol,
+                    direction: ['', 'open_long', 'close_short', 'open_short', 'close_long'][parseInt(o.type)],
+                    fillPrice: o.price_avg,
+                    fillSize: o.filled_qty,
+                    fillFee: o.fee,
+                    createdTime: o.createTime,
+                })),
+            nextFlag: false,
+        };
+    }
+
+    private uploadAiLog(body: Record<string, unknown>): unknown {
+        this.requireField(body, 'stage');
+        this.requireField(body, 'model');
+        this.aiLogs.push(body);
+        return { code: '00000', msg: 'success', requestTime: Date.now(), data: 'upload success' };
+    }
+}
+
+export default WeexMockServer;
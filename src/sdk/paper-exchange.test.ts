@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import type { ExchangeGateway, OrderBook } from './gateway.js';
+import { PaperExchange, walkBook } from './paper-exchange.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+/**
+ * Market data gateway with a fixed one-level book on each side
+ */
+function fakeMarket(book: OrderBook, fundingRate = 0) {
+    return {
+        async getTicker(symbol: string) {
+            return { symbol, last: 100, bid: book.bids[0].price, ask: book.asks[0].price, high24h: 0, low24h: 0, volume24h: 0, change24h: 0, timestamp: 0 };
+        },
+        async getDepth() {
+            return book;
+        },
+        async getFundingRate(symbol: string) {
+            return { symbol, fundingRate, nextFundingTime: 0 };
+        },
+    } as unknown as ExchangeGateway;
+}
+
+const book = (): OrderBook => ({
+    symbol: SYMBOL,
+    asks: [{ price: 101, quantity: 1 }],
+    bids: [{ price: 99, quantity: 1 }],
+    timestamp: 0,
+});
+
+describe('walkBook', () => {
+    it('fills level by level at the volume-weighted price', () => {
+        const levels = [{ price: 100, quantity: 1 }, { price: 102, quantity: 1 }];
+        expect(walkBook(levels, 1.5)).toEqual({ filledSize: 1.5, avgPrice: 151 / 1.5 });
+        expect(walkBook(levels, 3)).toEqual({ filledSize: 2, avgPrice: 101 });
+        expect(walkBook([], 1)).toEqual({ filledSize: 0, avgPrice: 0 });
+    });
+});
+
+describe('PaperExchange', () => {
+    it('cancels what a market order cannot fill from the book', async () => {
+        const paper = new PaperExchange(fakeMarket(book()), { initialBalance: 10_000, now: () => 0 });
+        const { orderId } = await paper.placeOrder(SYMBOL, 1, 3);
+
+        const order = await paper.getOrder(SYMBOL, orderId);
+        expect(order.filledSize).toBe(1);
+        expect(order.status).toBe('canceled');
+        expect((await paper.getPositions())[0].size).toBe(1);
+    });
+
+    it('rejects reduce-only on an open side code', async () => {
+        const paper = new PaperExchange(fakeMarket(book()), { now: () => 0 });
+        await expect(paper.placeOrder(SYMBOL, 1, 0.1, { reduceOnly: true })).rejects.toThrow('close side code');
+    });
+
+    it('clamps a close to the position and rejects one with nothing to close', async () => {
+        const paper = new PaperExchange(fakeMarket(book()), { initialBalance: 10_000, now: () => 0 });
+        await expect(paper.placeOrder(SYMBOL, 4, 0.1, { reduceOnly: true })).rejects.toThrow('No long position');
+
+        await paper.placeOrder(SYMBOL, 1, 0.5);
+        const { orderId } = await paper.placeOrder(SYMBOL, 4, 2, { reduceOnly: true });
+
+        expect((await paper.getOrder(SYMBOL, orderId)).filledSize).toBe(0.5);
+        expect(await paper.getPositions()).toEqual([]);
+    });
+
+    it('cancels a resting reduce-only order once the position is gone', async () => {
+        const market = book();
+        const paper = new PaperExchange(fakeMarket(market), { initialBalance: 10_000, now: () => 0 });
+        await paper.placeOrder(SYMBOL, 1, 0.5);
+        const resting = await paper.placeOrder(SYMBOL, 4, 0.5, { type: 'limit', price: 105, reduceOnly: true });
+        await paper.placeOrder(SYMBOL, 4, 0.5);
+
+        market.bids[0].price = 106;
+        const order = await paper.getOrder(SYMBOL, resting.orderId);
+        expect(order.status).toBe('canceled');
+        expect(order.filledSize).toBe(0);
+    });
+
+    it('settles each funding period once when accounts are read concurrently', async () => {
+        let now = 0;
+        const market = { ...book(), asks: [{ price: 100, quantity: 1 }] };
+        const paper = new PaperExchange(fakeMarket(market, 0.01), { initialBalance: 10_000, now: () => now });
+        await paper.placeOrder(SYMBOL, 1, 1);
+
+        now = 8 * 60 * 60 * 1000;
+        await Promise.all([paper.getAssets(), paper.getPositions()]);
+        await paper.getAssets();
+
+        expect(paper.totalFunding).toBeCloseTo(-1);
+    });
+
+    it('cancels the rest of a resting close once the position has shrunk', async () => {
+        const market = book();
+        const paper = new PaperExchange(fakeMarket(market), { initialBalance: 10_000, now: () => 0 });
+        await paper.placeOrder(SYMBOL, 1, 0.5);
+        const resting = await paper.placeOrder(SYMBOL, 4, 0.5, { type: 'limit', price: 105, reduceOnly: true });
+        await paper.placeOrder(SYMBOL, 4, 0.2);
+
+        market.bids[0].price = 106;
+        const order = await paper.getOrder(SYMBOL, resting.orderId);
+        expect(order.filledSize).toBeCloseTo(0.3);
+        expect(order.status).toBe('canceled');
+        expect(await paper.getPositions()).toEqual([]);
+    });
+
+    it('rests the rest of a limit order and fills it at its price once the touch reaches it', async () => {
+        const market = { ...book(), asks: [{ price: 101, quantity: 0.4 }, { price: 102, quantity: 1 }] };
+        const paper = new PaperExchange(fakeMarket(market), { initialBalance: 10_000, now: () => 0 });
+        const { orderId } = await paper.placeOrder(SYMBOL, 1, 1, { type: 'limit', price: 101 });
+
+        // The 101 level has been taken
+        market.asks[0].price = 102;
+        expect(await paper.getOrder(SYMBOL, orderId)).toMatchObject({ status: 'partially_filled', filledSize: 0.4 });
+
+        market.asks[0].price = 100.5;
+        const order = await paper.getOrder(SYMBOL, orderId);
+        expect(order).toMatchObject({ status: 'filled', filledSize: 1, avgPrice: 101 });
+        // Taker fee on the part that crossed, maker fee on the part that rested
+        expect(order.fee).toBeCloseTo(0.4 * 101 * 0.0006 + 0.6 * 101 * 0.0002);
+        expect((await paper.getFills(SYMBOL)).map((f) => f.size)).toEqual([0.4, expect.closeTo(0.6)]);
+    });
+
+    it('kills a post-only that would take and a FOK the book cannot fill', async () => {
+        const paper = new PaperExchange(fakeMarket(book()), { initialBalance: 10_000, now: () => 0 });
+        const postOnly = await paper.placeOrder(SYMBOL, 1, 0.5, { type: 'post_only', price: 101 });
+        const fok = await paper.placeOrder(SYMBOL, 1, 2, { type: 'fok', price: 101 });
+
+        expect(await paper.getOrder(SYMBOL, postOnly.orderId)).toMatchObject({ status: 'canceled', filledSize: 0 });
+        expect(await paper.getOrder(SYMBOL, fok.orderId)).toMatchObject({ status: 'canceled', filledSize: 0 });
+        expect(await paper.getPositions()).toEqual([]);
+    });
+
+    it('pays shorts a positive funding rate for every period crossed', async () => {
+        let now = 0;
+        const paper = new PaperExchange(fakeMarket(book(), 0.01), { initialBalance: 10_000, now: () => now });
+        await paper.placeOrder(SYMBOL, 3, 1);
+
+        now = 16 * 60 * 60 * 1000;
+        const [balance] = await paper.getAssets();
+
+        // Two periods on 1 contract marked at 100
+        expect(paper.totalFunding).toBeCloseTo(2);
+        expect(balance.equity).toBeCloseTo(10_000 - 99 * 0.0006 + 2 - 1);
+    });
+});
@@ -0,0 +1,426 @@
+/**
+ * Paper Exchange
+ * Simulated WEEX futures account behind the ExchangeGateway interface
+ *
+ * Market data is passed through from a real gateway; orders never leave
+ * the process. Market orders walk the live order book, pay taker fees,
+ * and update per-side positions (hedge mode) with funding every 8 hours.
+ * Whatever a market order can't fill from the book is canceled.
+ *
+ * Limit, IOC and FOK orders take the part of the book inside their price.
+ * What's left of a limit or post-only order rests and fills in full at its
+ * price (maker fee) once the touch reaches it; queue position is not
+ * modelled, and resting orders don't reserve margin. A resting close fills
+ * up to what is left of the position and the rest is canceled.
+ */
+
+import { EventEmitter } from 'events';
+import type { AILogInput } from './client.js';
+import type {
+    ExchangeGateway, Ticker, OrderBook, OrderBookLevel, Candle, FundingRate, Contract,
+    Balance, Position, Order, Fill, OrderAck, OrderOptions, OrderType, SideCode, AILogResult,
+} from './gateway.js';
+
+export interface PaperExchangeConfig {
+    initialBalance: number;     // USDT
+    takerFee: number;           // e.g. 0.0006 = 0.06%
+    makerFee: number;           // Resting limit orders
+    leverage: number;
+    fundingIntervalMs: number;
+    asset: string;
+    now: () => number;          // Clock, overridable for replays
+}
+
+const DEFAULT_CONFIG: PaperExchangeConfig = {
+    initialBalance: 1000,
+    takerFee: 0.0006,
+    makerFee: 0.0002,
+    leverage: 20,
+    fundingIntervalMs: 8 * 60 * 60 * 1000,
+    asset: 'USDT',
+    now: () => Date.now(),
+};
+
+interface PaperPosition {
+    symbol: string;
+    side: 'long' | 'short';
+    size: number;
+    entryPrice: number;
+    lastFundingAt: number;
+}
+
+interface RestingOrder {
+    order: Order;
+    type: OrderType;
+    price: number;
+    reduceOnly: boolean;
+}
+
+export interface PaperFillResult {
+    filledSize: number;
+    avgPrice: number;
+}
+
+/**
+ * Walk one side of the book and return the volume-weighted fill
+ */
+export function walkBook(levels: OrderBookLevel[], size: number): PaperFillResult {
+    let remaining = size;
+    let notional = 0;
+
+    for (const level of levels) {
+        if (remaining <= 0) break;
+        const take = Math.min(remaining, level.quantity);
+        notional += take * level.price;
+        remaining -= take;
+    }
+
+    const filledSize = size - remaining;
+    return { filledSize, avgPrice: filledSize > 0 ? notional / filledSize : 0 };
+}
+
+export class PaperExchange extends EventEmitter implements ExchangeGateway {
+    private market: ExchangeGateway;
+    private config: PaperExchangeConfig;
+
+    private cash: number;
+    private positions: Map<string, PaperPosition> = new Map();
+    private marks: Map<string, number> = new Map();
+    private orders: Order[] = [];
+    private resting: Map<string, RestingOrder> = new Map();
+    private fills: Fill[] = [];
+    private nextOrderId: number = 1;
+
+    public totalFees: number = 0;
+    public totalFunding: number = 0;
+    public realizedPnl: number = 0;
+    public aiLogs: AILogInput[] = [];
+
+    constructor(market: ExchangeGateway, config: Partial<PaperExchangeConfig> = {}) {
+        super();
+        this.market = market;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.cash = this.config.initialBalance;
+    }
+
+    // ==================== MARKET DATA (pass-through) ====================
+
+    async getTicker(symbol: string): Promise<Ticker> {
+        const ticker = await this.market.getTicker(symbol);
+        this.marks.set(symbol, ticker.markPrice ?? ticker.last);
+        this.matchResting(ticker);
+        return ticker;
+    }
+
+    async getDepth(symbol: string): Promise<OrderBook> {
+        return this.market.getDepth(symbol);
+    }
+
+    async getCandles(symbol: string, granularity?: string, limit?: number): Promise<Candle[]> {
+        return this.market.getCandles(symbol, granularity, limit);
+    }
+
+    async getFundingRate(symbol: string): Promise<FundingRate> {
+        return this.market.getFundingRate(symbol);
+    }
+
+    async getContract(symbol: string): Promise<Contract> {
+        return this.market.getContract(symbol);
+    }
+
+    async getContracts(): Promise<Contract[]> {
+        return this.market.getContracts();
+    }
+
+    // ==================== ACCOUNT ====================
+
+    async getAssets(): Promise<Balance[]> {
+        await this.refreshMarks();
+        await this.settleFunding();
+
+        const unrealizedPnl = this.unrealizedPnl();
+        const margin = this.usedMargin();
+        const equity = this.cash + unrealizedPnl;
+
+        return [{
+            asset: this.config.asset,
+            equity,
+            available: Math.max(0, equity - margin),
+            frozen: margin,
+            unrealizedPnl,
+        }];
+    }
+
+    async getPositions(): Promise<Position[]> {
+        await this.refreshMarks();
+        await this.settleFunding();
+
+        return [...this.positions.values()].map((p) => ({
+            symbol: p.symbol,
+            side: p.side,
+            size: p.size,
+            entryPrice: p.entryPrice,
+            unrealizedPnl: this.positionPnl(p),
+            leverage: this.config.leverage,
+            margin: (p.size * p.entryPrice) / this.config.leverage,
+            liquidationPrice: this.liquidationPrice(p),
+        }));
+    }
+
+    async getOrderHistory(symbol: string): Promise<Order[]> {
+        await this.refreshResting(symbol);
+        return this.orders.filter((o) => o.symbol === symbol);
+    }
+
+    async getOrder(symbol: string, orderId: string): Promise<Order> {
+        await this.refreshResting(symbol);
+        const order = this.orders.find((o) => o.symbol === symbol && o.orderId === orderId);
+        if (!order) throw new Error(`Unknown order ${orderId} on ${symbol}`);
+        return order;
+    }
+
+    async getOrderByClientOid(symbol: string, clientOid: string): Promise<Order | null> {
+        await this.refreshResting(symbol);
+        return this.orders.find((o) => o.symbol === symbol && o.clientOid === clientOid) ?? null;
+    }
+
+    async getFills(symbol: string): Promise<Fill[]> {
+        await this.refreshResting(symbol);
+        return this.fills.filter((f) => f.symbol === symbol);
+    }
+
+    // ==================== TRADING ====================
+
+    /**
+     * Side codes: 1=open_long, 2=close_short, 3=open_short, 4=close_long.
+     * A client order ID can only be used once, as on the exchange.
+     */
+    async placeOrder(symbol: string, side: SideCode, size: number, options: OrderOptions = {}): Promise<OrderAck> {
+        const { type = 'market', price = 0, clientOid } = options;
+        const isOpen = side === 1 || side === 3;
+        const reduceOnly = options.reduceOnly || !isOpen; // Close codes only ever reduce, as on WEEX
+        if (!(size > 0)) throw new Error(`Invalid order size: ${size}`);
+        if (reduceOnly && isOpen) throw new Error(`A reduce-only order needs a close side code, got ${side}`);
+        if (type !== 'market' && !(price > 0)) throw new Error(`A ${type} order needs a price`);
+        if (clientOid && this.orders.some((o) => o.clientOid === clientOid)) throw new Error(`Duplicate client_oid ${clientOid}`);
+
+        await this.settleFunding();
+
+        const isBuy = side === 1 || side === 2;
+        const posSide = side === 1 || side === 4 ? 'long' : 'short';
+        const key = `${symbol}:${posSide}`;
+        const existing = this.positions.get(key);
+
+        // Reduce-only (closing) orders can never exceed the open position
+        if (reduceOnly) {
+            if (!existing) throw new Error(`No ${posSide} position to close on ${symbol}`);
+            size = Math.min(size, existing.size);
+        }
+
+        // Only the levels inside the limit price can be taken
+        const depth = await this.market.getDepth(symbol);
+        const levels = (isBuy ? depth.asks : depth.bids)
+            .filter((l) => type === 'market' || (isBuy ? l.price <= price : l.price >= price));
+        const taken = walkBook(levels, size);
+        if (type === 'market' && taken.filledSize <= 0) throw new Error(`No liquidity on ${symbol} to fill order`);
+
+        // Post-only never takes, FOK takes everything or nothing
+        const killed = (type === 'post_only' && taken.filledSize > 0) || (type === 'fok' && taken.filledSize < size - 1e-12);
+        const filledSize = killed ? 0 : taken.filledSize;
+        const avgPrice = taken.avgPrice;
+        const rests = !killed && (type === 'limit' || type === 'post_only') && filledSize < size - 1e-12;
+
+        if (isOpen) {
+            const notional = filledSize * avgPrice + (rests ? (size - filledSize) * price : 0);
+            const required = notional / this.config.leverage + filledSize * avgPrice * this.config.takerFee;
+            const [balance] = await this.getAssets();
+            if (required > balance.available) {
+                throw new Error(`Insufficient margin: need ${required.toFixed(2)} ${this.config.asset}, available ${balance.available.toFixed(2)}`);
+            }
+        }
+
+        // Re-read after the awaits above: a concurrent order may have changed the position
+        if (reduceOnly && !this.positions.get(key)) throw new Error(`No ${posSide} position to close on ${symbol}`);
+
+        const order: Order = {
+            orderId: `paper-${this.nextOrderId++}`, clientOid, symbol, side, price: type === 'market' ? avgPrice : price, size,
+            filledSize: 0, avgPrice: 0, fee: 0, realizedPnl: 0, status: 'new', createdAt: this.config.now(),
+        };
+        this.orders.push(order);
+
+        if (filledSize > 0) this.fillOrder(order, filledSize, avgPrice, this.config.takerFee);
+        if (rests) {
+            this.resting.set(order.orderId, { order, type, price, reduceOnly });
+        } else if (order.filledSize < size - 1e-12) {
+            order.status = 'canceled'; // Market/IOC/FOK remainder past the book, or a post-only that would have taken
+        }
+
+        return { orderId: order.orderId, clientOid };
+    }
+
+    async cancelOrder(symbol: string, orderId: string): Promise<void> {
+        const resting = this.resting.get(orderId);
+        if (!resting || resting.order.symbol !== symbol) {
+            const order = await this.getOrder(symbol, orderId);
+            throw new Error(`Order ${orderId} is already ${order.status}`);
+        }
+        this.resting.delete(orderId);
+        resting.order.status = 'canceled';
+    }
+
+    async uploadAILog(log: AILogInput): Promise<AILogResult> {
+        this.aiLogs.push(log);
+        return { success: true, message: 'paper' };
+    }
+
+    // ==================== INTERNALS ====================
+
+    /**
+     * Apply a fill to the order, the position and the account
+     */
+    private fillOrder(order: Order, size: number, price: number, feeRate: number): void {
+        const side = order.side!;
+        const isOpen = side === 1 || side === 3;
+        const posSide = side === 1 || side === 4 ? 'long' : 'short';
+        const key = `${order.symbol}:${posSide}`;
+        const current = this.positions.get(key);
+        const now = this.config.now();
+        let realized = 0;
+
+        if (isOpen) {
+            if (current) {
+                const total = current.size + size;
+                current.entryPrice = (current.entryPrice * current.size + price * size) / total;
+                current.size = total;
+            } else {
+                this.positions.set(key, { symbol: order.symbol, side: posSide, size, entryPrice: price, lastFundingAt: now });
+            }
+        } else if (current) {
+            size = Math.min(size, current.size);
+            const direction = posSide === 'long' ? 1 : -1;
+            realized = (price - current.entryPrice) * size * direction;
+            current.size -= size;
+            if (current.size <= 1e-12) this.positions.delete(key);
+        }
+
+        const fee = size * price * feeRate;
+        this.cash += realized - fee;
+        this.realizedPnl += realized;
+        this.totalFees += fee;
+        this.marks.set(order.symbol, price);
+
+        order.avgPrice = (order.avgPrice * order.filledSize + price * size) / (order.filledSize + size);
+        order.filledSize += size;
+        order.fee += fee;
+        order.realizedPnl += realized;
+        order.status = order.filledSize < order.size - 1e-12 ? 'partially_filled' : 'filled';
+
+        const tradeId = `${order.orderId}-${this.fills.filter((f) => f.orderId === order.orderId).length + 1}`;
+        const fill: Fill = { tradeId, orderId: order.orderId, symbol: order.symbol, side, price, size, fee, timestamp: now };
+        this.fills.push(fill);
+        this.emit('fill', fill);
+    }
+
+    /**
+     * Fill resting orders the touch has reached: buys once the ask is at or
+     * below their price, sells once the bid is at or above it
+     */
+    private matchResting(ticker: Ticker): void {
+        const ask = ticker.ask || ticker.last;
+        const bid = ticker.bid || ticker.last;
+
+        for (const [orderId, { order, price, reduceOnly }] of this.resting) {
+            if (order.symbol !== ticker.symbol) continue;
+            const isBuy = order.side === 1 || order.side === 2;
+            if (isBuy ? ask > price : bid < price) continue;
+
+            this.resting.delete(orderId);
+            const posSide = order.side === 4 ? 'long' : 'short';
+            if (reduceOnly && !this.positions.has(`${order.symbol}:${posSide}`)) {
+                order.status = 'canceled'; // Nothing left to close
+                continue;
+            }
+            this.fillOrder(order, order.size - order.filledSize, price, this.config.makerFee);
+            if (order.filledSize < order.size - 1e-12) order.status = 'canceled'; // Position shrank: the rest has nothing to close
+        }
+    }
+
+    private async refreshResting(symbol: string): Promise<void> {
+        if (![...this.resting.values()].some((r) => r.order.symbol === symbol)) return;
+        try {
+            await this.getTicker(symbol);
+        } catch {
+            // Matched on the next ticker instead
+        }
+    }
+
+    private async refreshMarks(): Promise<void> {
+        const symbols = new Set([...this.positions.values(), ...[...this.resting.values()].map((r) => r.order)].map((p) => p.symbol));
+        await Promise.all([...symbols].map(async (symbol) => {
+            try {
+                await this.getTicker(symbol);
+            } catch {
+                // Keep the last known mark
+            }
+        }));
+    }
+
+    /**
+     * Apply funding for every 8h boundary crossed since the last settlement.
+     * Positive rate: longs pay shorts.
+     */
+    private async settleFunding(): Promise<void> {
+        const now = this.config.now();
+        const interval = this.config.fundingIntervalMs;
+
+        for (const position of this.positions.values()) {
+            const periods = Math.floor(now / interval) - Math.floor(position.lastFundingAt / interval);
+            if (periods <= 0) continue;
+
+            // Claim the periods before awaiting the rate, so a concurrent call doesn't settle them too
+            const settledAt = position.lastFundingAt;
+            position.lastFundingAt = now;
+
+            let rate = 0;
+            try {
+                rate = (await this.market.getFundingRate(position.symbol)).fundingRate;
+            } catch {
+                if (position.lastFundingAt === now) position.lastFundingAt = settledAt;
+                continue; // Retry on the next settlement
+            }
+
+            const mark = this.marks.get(position.symbol) ?? position.entryPrice;
+            const direction = position.side === 'long' ? -1 : 1;
+            const payment = position.size * mark * rate * periods * direction;
+
+            this.cash += payment;
+            this.totalFunding += payment;
+            this.emit('funding', { symbol: position.symbol, side: position.side, rate, payment });
+        }
+    }
+
+    private positionPnl(p: PaperPosition): number {
+        const mark = this.marks.get(p.symbol) ?? p.entryPrice;
+        return (mark - p.entryPrice) * p.size * (p.side === 'long' ? 1 : -1);
+    }
+
+    private unrealizedPnl(): number {
+        let total = 0;
+        for (const p of this.positions.values()) total += this.positionPnl(p);
+        return total;
+    }
+
+    private usedMargin(): number {
+        let total = 0;
+        for (const p of this.positions.values()) total += (p.size * p.entryPrice) / this.config.leverage;
+        return total;
+    }
+
+    private liquidationPrice(p: PaperPosition): number {
+        // Isolated approximation: position is gone once the loss eats its margin
+        const move = p.entryPrice / this.config.leverage;
+        return p.side === 'long' ? p.entryPrice - move : p.entryPrice + move;
+    }
+}
+
+export default PaperExchange;
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ExchangeGateway } from './gateway.js';
+
+let dir: string;
+let argsFile: string;
+let bridge: ExchangeGateway;
+const cliPath = process.env.WEEX_CLI_PATH;
+
+/**
+ * weex-cli stand-in that records its arguments and acks every call
+ */
+beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'weex-cli-'));
+    argsFile = path.join(dir, 'args');
+    const cli = path.join(dir, 'weex-cli');
+    fs.writeFileSync(cli, `#!/bin/sh\nprintf '%s\\n' "$@" > "${argsFile}"\necho '{"success":true,"data":{"order_id":"42"}}'\n`, { mode: 0o755 });
+    process.env.WEEX_CLI_PATH = cli;
+
+    const { createRustSDKBridge } = await import('./rust-bridge.js');
+    bridge = createRustSDKBridge({ mode: 'exec' });
+});
+
+afterAll(() => {
+    if (cliPath === undefined) delete process.env.WEEX_CLI_PATH;
+    else process.env.WEEX_CLI_PATH = cliPath;
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createRustSDKBridge (exec mode)', () => {
+    it('sends an order with only the flags the CLI takes', async () => {
+        const ack = await bridge.placeOrder('cmt_btcusdt', 4, 0.01, { clientOid: 'c1', reduceOnly: true });
+
+        expect(ack.orderId).toBe('42');
+        expect(fs.readFileSync(argsFile, 'utf-8').trim().split('\n')).toEqual(['order', '--symbol', 'cmt_btcusdt', '--side', 'sell', '--size', '0.01']);
+    });
+
+    it('refuses order types the CLI cannot send', async () => {
+        await expect(bridge.placeOrder('cmt_btcusdt', 1, 0.01, { type: 'limit', price: 100 })).rejects.toThrow('market only');
+    });
+
+    it('refuses to look up client IDs it never sent', async () => {
+        await expect(bridge.getOrderByClientOid('cmt_btcusdt', 'c1')).rejects.toThrow('no client order IDs');
+    });
+});
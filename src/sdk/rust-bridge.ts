@@ -5,7 +5,19 @@
  * This provides native Rust performance with TypeScript integration.
  */
 
-import { execSync } from 'child_process';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { AILogInput } from './client.js';
+import type {
+    ExchangeGateway, Ticker, OrderBook, Candle, FundingRate, Contract,
+    Balance, Position, Order, Fill, OrderAck, OrderOptions, SideCode, AILogResult,
+} from './gateway.js';
+import {
+    type RustRPCMethod, type RustRPCParams, type RustRPCResult,
+    RustCLIDaemon, getRustCLIDaemon, parseRPCResult,
+} from './rust-daemon.js';
+
+const execFileAsync = promisify(execFile);
 
 const CLI_PATH = process.env.WEEX_CLI_PATH || '/usr/local/bin/weex-cli';
 
@@ -16,159 +28,161 @@ export interface RustSDKConfig {
     baseUrl: string;
 }
 
+export type RustBridgeMode = 'daemon' | 'exec';
+
+export interface RustBridgeOptions {
+    mode?: RustBridgeMode;       // Defaults to WEEX_CLI_MODE, then 'daemon'
+    daemon?: RustCLIDaemon;      // Defaults to the shared process-wide daemon
+}
+
 interface CLIResult {
     success: boolean;
-    data?: any;
+    data?: unknown;
     error?: string;
 }
 
+type RustCall = <M extends RustRPCMethod>(method: M, params: RustRPCParams<M>) => Promise<RustRPCResult<M>>;
+
 /**
- * Execute Rust CLI command and return parsed JSON result
+ * Params the one-shot CLI takes, for commands that take fewer than the daemon.
+ * `order` has only --symbol, --side (buy/sell) and --size: a market order
+ * with no order type, price, client ID or reduce-only flag. `ai-log` has no
+ * --order-id.
  */
-function execRustCLI(command: string, args: string[] = []): CLIResult {
-    const env = {
-        ...process.env,
-        WEEX_API_KEY: process.env.WEEX_API_KEY,
-        WEEX_SECRET_KEY: process.env.WEEX_SECRET_KEY,
-        WEEX_PASSPHRASE: process.env.WEEX_PASSPHRASE,
-        WEEX_BASE_URL: process.env.WEEX_BASE_URL || 'https://api-contract.weex.com',
-    };
+const CLI_FLAGS: Partial<{ [M in RustRPCMethod]: (keyof RustRPCParams<M>)[] }> = {
+    order: ['symbol', 'side', 'size'],
+    'ai-log': ['stage', 'model', 'input', 'output', 'explanation'],
+};
 
-    const cmd = `${CLI_PATH} ${command} ${args.join(' ')}`;
+/**
+ * One-shot fallback: run weex-cli once per call without blocking the event loop.
+ * Params become `--kebab-case value` flags, objects are passed as JSON.
+ * Params the command has no flag for (CLI_FLAGS) are left out.
+ */
+async function execRustCLI<M extends RustRPCMethod>(method: M, params: RustRPCParams<M>): Promise<RustRPCResult<M>> {
+    const args: string[] = [method];
+    const accepted = CLI_FLAGS[method] as string[] | undefined;
+    for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || (accepted && !accepted.includes(key))) continue;
+        const flag = '--' + key.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase());
+        args.push(flag, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
 
+    let result: CLIResult;
     try {
-        const output = execSync(cmd, {
-            env,
+        const { stdout } = await execFileAsync(CLI_PATH, args, {
+            env: {
+                ...process.env,
+                WEEX_BASE_URL: process.env.WEEX_BASE_URL || 'https://api-contract.weex.com',
+            },
             encoding: 'utf-8',
             maxBuffer: 10 * 1024 * 1024, // 10MB
             timeout: 30000, // 30s timeout
         });
-
-        return JSON.parse(output.trim());
+        result = JSON.parse(stdout.trim());
     } catch (error: any) {
         // Try to parse error output
-        if (error.stdout) {
-            try {
-                return JSON.parse(error.stdout.trim());
-            } catch {
-                // Fall through
-            }
+        try {
+            result = JSON.parse(String(error.stdout ?? '').trim());
+        } catch {
+            result = { success: false, error: error.message || 'CLI execution failed' };
         }
-        return { success: false, error: error.message || 'CLI execution failed' };
     }
-}
 
-export interface RustSDKBridge {
-    getTicker(symbol: string): Promise<any>;
-    getDepth(symbol: string): Promise<any>;
-    getCandles(symbol: string, granularity?: string, limit?: number): Promise<any>;
-    getFundingRate(symbol: string): Promise<any>;
-    getAssets(): Promise<any>;
-    getPositions(): Promise<any>;
-    getOrderHistory(symbol: string): Promise<any>;
-    placeOrder(symbol: string, side: number, size: number): Promise<any>;
-    uploadAILog(log: any): Promise<any>;
+    if (!result.success) throw new Error(result.error || `weex-cli ${method} failed`);
+    return parseRPCResult(method, result.data, params);
 }
 
-export function createRustSDKBridge(): RustSDKBridge {
+/**
+ * Create the Rust CLI backed gateway
+ */
+export function createRustSDKBridge(options: RustBridgeOptions = {}): ExchangeGateway {
+    const mode = options.mode || (process.env.WEEX_CLI_MODE as RustBridgeMode) || 'daemon';
+    const daemon = mode === 'daemon' ? (options.daemon || getRustCLIDaemon()) : null;
+    const call: RustCall = daemon
+        ? (method, params) => daemon.call(method, params)
+        : execRustCLI;
+
     return {
-        async getTicker(symbol: string): Promise<any> {
-            const result = execRustCLI('ticker', ['--symbol', symbol]);
-            if (!result.success) throw new Error(result.error);
-            return result.data;
+        async getTicker(symbol: string): Promise<Ticker> {
+            return call('ticker', { symbol });
         },
 
-        async getDepth(symbol: string): Promise<any> {
-            const result = execRustCLI('depth', ['--symbol', symbol]);
-            if (!result.success) throw new Error(result.error);
-            return result.data;
+        async getDepth(symbol: string): Promise<OrderBook> {
+            return call('depth', { symbol });
         },
 
-        async getCandles(symbol: string, granularity = '1H', limit = 50): Promise<any> {
-            const result = execRustCLI('candles', [
-                '--symbol', symbol,
-                '--granularity', granularity,
-                '--limit', limit.toString()
-            ]);
-            if (!result.success) throw new Error(result.error);
-            return result.data;
+        async getCandles(symbol: string, granularity = '1H', limit = 50): Promise<Candle[]> {
+            return call('candles', { symbol, granularity, limit });
         },
 
-        async getFundingRate(symbol: string): Promise<any> {
-            const result = execRustCLI('funding', ['--symbol', symbol]);
-            if (!result.success) throw new Error(result.error);
-            return result.data;
+        async getFundingRate(symbol: string): Promise<FundingRate> {
+            return call('funding', { symbol });
         },
 
-        async getAssets(): Promise<any> {
-            const result = execRustCLI('assets', []);
-            if (!result.success) throw new Error(result.error);
-            // Parse if string
-            if (typeof result.data === 'string') {
-                try {
-                    return JSON.parse(result.data);
-                } catch {
-                    return result.data;
-                }
-            }
-            return Array.isArray(result.data) ? result.data : [result.data];
+        async getContract(symbol: string): Promise<Contract> {
+            return call('contract', { symbol });
+        },
+
+        async getContracts(): Promise<Contract[]> {
+            return call('contracts', {});
+        },
+
+        async getAssets(): Promise<Balance[]> {
+            return call('assets', {});
+        },
+
+        async getPositions(): Promise<Position[]> {
+            return call('positions', {});
+        },
+
+        async getOrderHistory(symbol: string): Promise<Order[]> {
+            return call('order-history', { symbol });
         },
 
-        async getPositions(): Promise<any> {
-            const result = execRustCLI('positions', []);
-            if (!result.success) throw new Error(result.error);
-            return result.data;
+        async getOrder(symbol: string, orderId: string): Promise<Order> {
+            return call('order-detail', { symbol, orderId });
         },
 
-        async getOrderHistory(symbol: string): Promise<any> {
-            const result = execRustCLI('order-history', ['--symbol', symbol]);
-            if (!result.success) throw new Error(result.error);
-            return result.data;
+        async getOrderByClientOid(symbol: string, clientOid: string): Promise<Order | null> {
+            // Exec mode never sends the ID, so "not found" would be a guess: a timed-out
+            // order is left pending instead of being resent
+            if (!daemon) throw new Error('weex-cli exec mode sends no client order IDs to look up');
+            const orders = await call('order-history', { symbol });
+            return orders.find((o) => o.clientOid === clientOid) ?? null;
         },
 
-        async placeOrder(symbol: string, side: number, size: number): Promise<any> {
-            // Convert WEEX side numbers to CLI strings
+        async getFills(symbol: string): Promise<Fill[]> {
+            return call('fills', { symbol });
+        },
+
+        async placeOrder(symbol: string, side: SideCode, size: number, { type = 'market', price, clientOid, reduceOnly = false }: OrderOptions = {}): Promise<OrderAck> {
             // 1=open_long (buy), 2=close_short (buy), 3=open_short (sell), 4=close_long (sell)
+            // `side` alone can't tell a close from an open, so the WEEX code goes along as `type`
             const sideStr = (side === 1 || side === 2) ? 'buy' : 'sell';
-            const result = execRustCLI('order', [
-                '--symbol', symbol,
-                '--side', sideStr,
-                '--size', size.toString()
-            ]);
-            if (!result.success) throw new Error(result.error);
-            return result.data;
+            if (type !== 'market' && price === undefined) throw new Error(`A ${type} order needs a price`);
+            if (reduceOnly && side !== 2 && side !== 4) throw new Error(`A reduce-only order needs a close side code, got ${side}`);
+            // The one-shot CLI only sends market orders, and without the client ID
+            if (!daemon && type !== 'market') throw new Error(`weex-cli exec mode can't place ${type} orders (market only)`);
+            return call('order', { symbol, side: sideStr, size, type: side, orderType: type, price, clientOid, reduceOnly });
+        },
+
+        async cancelOrder(symbol: string, orderId: string): Promise<void> {
+            await call('cancel', { symbol, orderId });
         },
 
-        async uploadAILog(log: any): Promise<any> {
+        async uploadAILog(log: AILogInput): Promise<AILogResult> {
             try {
-                // Simplify to avoid shell escaping - only pass simple strings
-                const stage = (log.stage || 'Decision Making').replace(/['"]/g, '');
-                const model = (log.model || 'gpt-5.2').replace(/['"]/g, '');
-
-                // Flatten input/output to simple key-value for shell safety
-                const signal = log.output?.signal || 'neutral';
-                const confidence = log.output?.confidence || 0;
-                const agentName = log.output?.agent || 'unknown';
-
-                // Create minimal safe explanation
-                const explanation = (log.explanation || 'AI decision')
-                    .substring(0, 200)
-                    .replace(/['"\\]/g, '')
-                    .replace(/\n/g, ' ')
-                    .replace(/[()]/g, '');
-
-                const result = execRustCLI('ai-log', [
-                    '--stage', stage,
-                    '--model', model,
-                    '--input', `{"signal":"${signal}","confidence":${confidence}}`,
-                    '--output', `{"agent":"${agentName}","signal":"${signal}"}`,
-                    '--explanation', explanation
-                ]);
-
-                return result;
+                // No shell is involved any more, so the log is passed through as structured JSON
+                return await call('ai-log', {
+                    ...log,
+                    stage: log.stage || 'Decision Making',
+                    model: log.model || 'gpt-5.2',
+                    explanation: (log.explanation || 'AI decision').substring(0, 1000),
+                });
             } catch (error: any) {
                 // Silently fail - AI logs are optional
-                return { success: false, error: error.message };
+                return { success: false, message: error.message };
             }
         }
     };
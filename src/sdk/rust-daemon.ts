@@ -0,0 +1,307 @@
+/**
+ * Rust CLI Daemon
+ * Keeps a single weex-cli process alive in bridge mode and talks
+ * line-delimited JSON-RPC 2.0 over its stdin/stdout.
+ *
+ * Requests are multiplexed by id, so concurrent calls really run in parallel
+ * instead of blocking the event loop one execSync at a time.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { createInterface } from 'readline';
+import { EventEmitter } from 'events';
+import type { AILogInput } from './client.js';
+import {
+    type Ticker, type OrderBook, type Candle, type FundingRate, type Contract, type Balance,
+    type Position, type Order, type Fill, type OrderAck, type AILogResult, type SideCode, type OrderType,
+    parseTicker, parseOrderBook, parseCandles, parseFundingRate, parseContract, parseContracts, parseBalances,
+    parsePositions, parseOrder, parseOrders, parseFills, parseOrderAck, parseAILogResult,
+} from './gateway.js';
+
+// ==================== METHOD MAP ====================
+
+export interface RustRPCMethods {
+    ticker: { params: { symbol: string }; result: Ticker };
+    depth: { params: { symbol: string }; result: OrderBook };
+    candles: { params: { symbol: string; granularity: string; limit: number }; result: Candle[] };
+    funding: { params: { symbol: string }; result: FundingRate };
+    contract: { params: { symbol: string }; result: Contract };
+    contracts: { params: Record<string, never>; result: Contract[] };
+    assets: { params: Record<string, never>; result: Balance[] };
+    positions: { params: Record<string, never>; result: Position[] };
+    'order-history': { params: { symbol: string }; result: Order[] };
+    'order-detail': { params: { symbol: string; orderId: string }; result: Order };
+    fills: { params: { symbol: string }; result: Fill[] };
+    order: {
+        params: { symbol: string; side: 'buy' | 'sell'; size: number; type: SideCode; orderType: OrderType; price?: number; clientOid?: string; reduceOnly: boolean };
+        result: OrderAck;
+    };
+    cancel: { params: { symbol: string; orderId: string }; result: unknown };
+    'ai-log': { params: AILogInput; result: AILogResult };
+}
+
+export type RustRPCMethod = keyof RustRPCMethods;
+export type RustRPCParams<M extends RustRPCMethod> = RustRPCMethods[M]['params'];
+export type RustRPCResult<M extends RustRPCMethod> = RustRPCMethods[M]['result'];
+
+/**
+ * Raw CLI payload → normalized gateway type, per method
+ */
+const RPC_PARSERS: { [M in RustRPCMethod]: (raw: unknown, params: RustRPCParams<M>) => RustRPCResult<M> } = {
+    ticker: (raw, p) => parseTicker(raw, p.symbol),
+    depth: (raw, p) => parseOrderBook(raw, p.symbol),
+    candles: (raw) => parseCandles(raw),
+    funding: (raw, p) => parseFundingRate(raw, p.symbol),
+    contract: (raw, p) => parseContract(raw, p.symbol),
+    contracts: (raw) => parseContracts(raw),
+    assets: (raw) => parseBalances(raw),
+    positions: (raw) => parsePositions(raw),
+    'order-history': (raw) => parseOrders(raw),
+    'order-detail': (raw) => parseOrder(raw),
+    fills: (raw) => parseFills(raw),
+    order: (raw) => parseOrderAck(raw),
+    cancel: (raw) => raw,
+    'ai-log': (raw) => parseAILogResult(raw),
+};
+
+export function parseRPCResult<M extends RustRPCMethod>(method: M, raw: unknown, params: RustRPCParams<M>): RustRPCResult<M> {
+    return RPC_PARSERS[method](raw, params);
+}
+
+// ==================== DAEMON ====================
+
+export interface RustDaemonConfig {
+    cliPath: string;
+    args: string[];             // Arguments that start the JSON-RPC bridge mode
+    timeoutMs: number;          // Default per-call timeout
+    maxRestarts: number;        // Consecutive crashes before giving up
+    env: NodeJS.ProcessEnv;
+}
+
+interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: number | null;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingCall {
+    method: string;
+    line: string;
+    sent: boolean;
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+export class RustCLIDaemon extends EventEmitter {
+    private config: RustDaemonConfig;
+    private child: ChildProcessWithoutNullStreams | null = null;
+    private pending: Map<number, PendingCall> = new Map();
+    private nextId: number = 1;
+    private restarts: number = 0;
+    private restartTimer: NodeJS.Timeout | null = null;
+    private stopped: boolean = false;
+    private stderrTail: string[] = [];
+
+    constructor(config: Partial<RustDaemonConfig> = {}) {
+        super();
+        this.config = {
+            cliPath: process.env.WEEX_CLI_PATH || '/usr/local/bin/weex-cli',
+            args: ['serve'],
+            timeoutMs: parseInt(process.env.WEEX_CLI_TIMEOUT_MS || '30000'),
+            maxRestarts: 5,
+            env: {
+                ...process.env,
+                WEEX_BASE_URL: process.env.WEEX_BASE_URL || 'https://api-contract.weex.com',
+            },
+            ...config,
+        };
+    }
+
+    get isRunning(): boolean {
+        return this.child !== null;
+    }
+
+    get inFlight(): number {
+        return this.pending.size;
+    }
+
+    /**
+     * Typed call: sends the request and parses the raw result
+     */
+    async call<M extends RustRPCMethod>(method: M, params: RustRPCParams<M>, timeoutMs?: number): Promise<RustRPCResult<M>> {
+        const raw = await this.request(method, params, timeoutMs);
+        return parseRPCResult(method, raw, params);
+    }
+
+    /**
+     * Untyped JSON-RPC request, resolves with the raw `result`
+     */
+    request(method: string, params: unknown, timeoutMs: number = this.config.timeoutMs): Promise<unknown> {
+        if (this.stopped) {
+            return Promise.reject(new Error('weex-cli daemon is stopped'));
+        }
+
+        const id = this.nextId++;
+        const line = JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n';
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`weex-cli ${method} timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+
+            this.pending.set(id, { method, line, sent: false, resolve, reject, timer });
+
+            // While a respawn is scheduled the call stays queued and is flushed on spawn
+            if (!this.child && !this.restartTimer) this.spawn();
+            this.flush();
+        });
+    }
+
+    /**
+     * Kill the child and fail everything outstanding
+     */
+    stop(): void {
+        this.stopped = true;
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = null;
+        }
+        this.rejectAll(new Error('weex-cli daemon stopped'), () => true);
+        if (this.child) {
+            const child = this.child;
+            this.child = null;
+            child.kill();
+        }
+    }
+
+    private spawn(): void {
+        const child = spawn(this.config.cliPath, this.config.args, {
+            env: this.config.env,
+            stdio: ['pipe', 'pipe', 'pipe'],
+        });
+        this.child = child;
+        this.stderrTail = [];
+
+        // The daemon must never keep the process alive on its own;
+        // in-flight calls hold the loop open through their timeout timers.
+        child.unref();
+        (child.stdin as unknown as { unref?: () => void }).unref?.();
+        (child.stdout as unknown as { unref?: () => void }).unref?.();
+        (child.stderr as unknown as { unref?: () => void }).unref?.();
+
+        createInterface({ input: child.stdout }).on('line', (line) => this.handleLine(line));
+        createInterface({ input: child.stderr }).on('line', (line) => {
+            this.stderrTail.push(line);
+            if (this.stderrTail.length > 20) this.stderrTail.shift();
+        });
+
+        child.on('error', (error) => this.handleExit(child, error.message));
+        child.on('exit', (code, signal) => this.handleExit(child, signal ? `signal ${signal}` : `code ${code}`));
+        child.stdin.on('error', () => { /* surfaced through 'exit' */ });
+
+        this.emit('spawn', child.pid);
+    }
+
+    private flush(): void {
+        if (!this.child) return;
+        for (const call of this.pending.values()) {
+            if (call.sent) continue;
+            call.sent = true;
+            this.child.stdin.write(call.line);
+        }
+    }
+
+    private handleLine(line: string): void {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+
+        let message: JsonRpcResponse;
+        try {
+            message = JSON.parse(trimmed);
+        } catch {
+            this.emit('protocol_error', `Non JSON output: ${trimmed.slice(0, 200)}`);
+            return;
+        }
+
+        if (typeof message.id !== 'number') {
+            this.emit('protocol_error', `Response without id: ${trimmed.slice(0, 200)}`);
+            return;
+        }
+
+        const call = this.pending.get(message.id);
+        if (!call) return; // Already timed out
+
+        this.pending.delete(message.id);
+        clearTimeout(call.timer);
+
+        if (message.error) {
+            call.reject(new Error(`weex-cli ${call.method}: ${message.error.message} (code ${message.error.code})`));
+        } else {
+            this.restarts = 0;
+            call.resolve(message.result);
+        }
+    }
+
+    private handleExit(child: ChildProcessWithoutNullStreams, reason: string): void {
+        if (this.child !== child) return; // Stale process or already handled
+        this.child = null;
+
+        const detail = this.stderrTail.length ? `: ${this.stderrTail.slice(-3).join(' | ')}` : '';
+        const error = new Error(`weex-cli daemon exited (${reason})${detail}`);
+
+        // Requests already written may or may not have reached the exchange,
+        // so they fail rather than being replayed. Queued ones wait for the respawn.
+        this.rejectAll(error, (call) => call.sent);
+        this.emit('exit', reason);
+
+        if (this.stopped) return;
+
+        if (this.restarts >= this.config.maxRestarts) {
+            console.error(`❌ weex-cli daemon crashed ${this.restarts} times, giving up`);
+            this.rejectAll(error, () => true);
+            this.restarts = 0; // Next call starts a fresh attempt
+            this.emit('max_restarts');
+            return;
+        }
+
+        this.restarts++;
+        const delay = Math.min(250 * Math.pow(2, this.restarts), 10000);
+        console.log(`🔄 Respawning weex-cli daemon in ${delay}ms (attempt ${this.restarts})`);
+
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = null;
+            if (this.stopped) return;
+            this.spawn();
+            this.flush();
+        }, delay);
+        this.restartTimer.unref();
+    }
+
+    private rejectAll(error: Error, filter: (call: PendingCall) => boolean): void {
+        for (const [id, call] of this.pending) {
+            if (!filter(call)) continue;
+            this.pending.delete(id);
+            clearTimeout(call.timer);
+            call.reject(error);
+        }
+    }
+}
+
+// ==================== SHARED INSTANCE ====================
+
+let sharedDaemon: RustCLIDaemon | null = null;
+
+/**
+ * Process-wide daemon shared by every bridge instance
+ */
+export function getRustCLIDaemon(): RustCLIDaemon {
+    if (!sharedDaemon) {
+        sharedDaemon = new RustCLIDaemon();
+    }
+    return sharedDaemon;
+}
+
+export default RustCLIDaemon;
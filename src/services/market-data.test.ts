@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { Ticker } from '../sdk/gateway.js';
+import { MarketDataHub } from '../ws/hub.js';
+import { MarketDataService, type RecoveredEvent } from './market-data.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const ticker = (last: number): Ticker => ({
+    symbol: SYMBOL, last, bid: last - 1, ask: last + 1, high24h: 0, low24h: 0, volume24h: 0, change24h: 0, timestamp: Date.now(),
+});
+
+describe('MarketDataService', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('polls REST while the socket is down and stops once it delivers again', async () => {
+        vi.useFakeTimers();
+        const hub = new MarketDataHub({ connect: false });
+        let price = 100;
+        const poller = vi.fn(async () => ticker(price++));
+        const service = new MarketDataService(SYMBOL, hub, { poller, graceMs: 5000, pollIntervalMs: 1000, watchdogMs: 1000 });
+        const ticks: number[] = [];
+        const recovered: RecoveredEvent[] = [];
+        service.on('tick', (p: number) => ticks.push(p));
+        service.on('recovered', (e: RecoveredEvent) => recovered.push(e));
+        service.start();
+
+        await vi.advanceTimersByTimeAsync(4000);
+        expect(service.source).toBe('ws');
+
+        // Degrades at 5s and polls straight away, then every second
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(service.isDegraded).toBe(true);
+        expect(ticks).toEqual([100, 101, 102]);
+        expect(service.state).toMatchObject({ lastPrice: 102, bid: 101, ask: 103 });
+
+        hub.ingest({ type: 'ticker', symbol: SYMBOL, last: 200, bid: 199, ask: 201, high24h: 0, low24h: 0, volume24h: 0, change24h: 0, timestamp: Date.now() });
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect(service.source).toBe('ws');
+        expect(ticks).toEqual([100, 101, 102, 200]);
+        expect(recovered).toEqual([{ symbol: SYMBOL, downtimeMs: 2000, polls: 3 }]);
+        expect(poller).toHaveBeenCalledTimes(3);
+        service.stop();
+    });
+
+    it('stays on the socket without a poller', async () => {
+        vi.useFakeTimers();
+        const service = new MarketDataService(SYMBOL, new MarketDataHub({ connect: false }), { graceMs: 1000 });
+        service.start();
+
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(service.source).toBe('ws');
+        service.stop();
+    });
+});
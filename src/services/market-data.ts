@@ -1,16 +1,23 @@
 /**
- * WEEX WebSocket Market Data Service
- * Replaces polling with real-time push data.
- * 
+ * WEEX Market Data Service
+ * Per-symbol view of the shared MarketDataHub for the HFT engine.
+ *
  * Benefits:
  * - 50ms latency (vs 5000ms polling)
  * - Zero API rate limit usage
  * - Event-driven triggers
+ * - One socket (pool) for all engines instead of one per engine
+ *
+ * When the socket is down (or silent for too long) and a REST poller is
+ * injected, the service polls it instead and keeps emitting the same 'tick'
+ * events and `state` updates. It emits 'degraded' when it switches to REST and
+ * 'recovered' once the socket delivers data again.
  */
 
-import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import chalk from 'chalk';
+import type { Ticker } from '../sdk/gateway.js';
+import { MarketDataHub, type Subscription, type TickerUpdate, type CandleUpdate } from '../ws/hub.js';
 
 export interface TickerData {
     symbol: string;
@@ -21,13 +28,59 @@ export interface TickerData {
     timestamp: number;
 }
 
+/**
+ * REST source for the fallback, e.g. `(symbol) => gateway.getTicker(symbol)`
+ */
+export type TickerPoller = (symbol: string) => Promise<Ticker>;
+
+export type MarketDataSource = 'ws' | 'rest';
+
+export interface MarketDataServiceConfig {
+    poller: TickerPoller | null;
+    pollIntervalMs: number;
+    graceMs: number;            // How long the socket may be down before falling back
+    staleAfterMs: number;       // Socket "up" but silent this long also falls back
+    watchdogMs: number;
+}
+
+const DEFAULT_CONFIG: MarketDataServiceConfig = {
+    poller: null,
+    pollIntervalMs: 1000,
+    graceMs: 5000,
+    staleAfterMs: 30000,
+    watchdogMs: 1000,
+};
+
+export interface DegradedEvent {
+    symbol: string;
+    reason: string;
+}
+
+export interface RecoveredEvent {
+    symbol: string;
+    downtimeMs: number;
+    polls: number;
+}
+
 export class MarketDataService extends EventEmitter {
-    private ws: WebSocket | null = null;
-    private url: string;
+    private hub: MarketDataHub;
     private symbol: string;
-    private isConnected: boolean = false;
-    private pingInterval: NodeJS.Timeout | null = null;
-    private reconnectTimeout: NodeJS.Timeout | null = null;
+    private config: MarketDataServiceConfig;
+    private subscriptions: Subscription[] = [];
+    private onHubConnected = ({ topics }: { topics: string[] }) => {
+        if (topics.includes(`ticker:${this.symbol}`)) this.emit('connected');
+    };
+
+    // Fallback state
+    private watchdog: NodeJS.Timeout | null = null;
+    private pollingInterval: NodeJS.Timeout | null = null;
+    private pollInFlight: boolean = false;
+    private lastWsUpdate: number = 0;
+    private degradedAt: number = 0;
+    private polls: number = 0;
+    private pollFailures: number = 0;
+
+    public source: MarketDataSource = 'ws';
 
     // Shared state (SSOT) - Direct access for HFT engine
     public state: TickerData = {
@@ -39,170 +92,120 @@ export class MarketDataService extends EventEmitter {
         timestamp: 0
     };
 
-    constructor(symbol: string = 'cmt_btcusdt', url: string = 'wss://ws-spot.weex.com/v2/ws/public') {
+    constructor(symbol: string = 'cmt_btcusdt', hub: MarketDataHub = new MarketDataHub(), config: Partial<MarketDataServiceConfig> = {}) {
         super();
         this.symbol = symbol;
-        this.url = url;
+        this.hub = hub;
+        this.config = { ...DEFAULT_CONFIG, ...config };
     }
 
-    private failCount: number = 0;
-    private pollingInterval: NodeJS.Timeout | null = null;
-
-    // Fallback: Use standard weex-cli or REST polling mechanism
-    // Since we don't want to import rust-bridge here (circular dependency risk),
-    // we will emit 'tick' events via a simulated polling loop if WS dies.
-    // Ideally this would use the Rust bridge, but for now we simulate liveliness 
-    // or rely on the HFT Loop to fallback? 
-    // Better: Allow HFT Engine to inject a poller.
-
-    // Actually, simpler: If WS fails, we just don't get ticks. The HFT engine should notice.
-    // But let's try to handle at least the reconnection logic more gracefully.
-
-    start(): void {
-        this.connect();
+    get isDegraded(): boolean {
+        return this.source === 'rest';
     }
 
-    private connect(): void {
-        if (this.ws) {
-            try {
-                this.ws.removeAllListeners();
-                this.ws.terminate();
-            } catch { }
-        }
-
-        if (this.failCount > 5) {
-            console.log(chalk.red('   [WS] Too many failures. Switching to REST Polling Fallback (1s)...'));
-            this.startPollingFallback();
-            return;
-        }
-
-        console.log(chalk.gray(`   [WS] Connecting to ${this.url}...`));
-        try {
-            this.ws = new WebSocket(this.url, {
-                headers: {
-                    'User-Agent': 'Mozilla/5.0'
-                }
-            });
-
-            this.ws.on('open', () => {
-                console.log(chalk.green('   [WS] Connected!'));
-                this.isConnected = true;
-                this.failCount = 0;
-                this.subscribe();
-                this.startPing();
-                this.emit('connected');
-            });
-
-            this.ws.on('message', (data: WebSocket.Data) => {
-                try {
-                    const msg = data.toString();
-                    if (msg === 'pong') return;
-                    const json = JSON.parse(msg);
-                    this.handleMessage(json);
-                } catch (e) { }
-            });
-
-            this.ws.on('close', () => {
-                this.handleClose();
-            });
-
-            this.ws.on('error', (err) => {
-                console.log(chalk.red(`   [WS] Error: ${err.message}`));
-                this.handleClose();
-            });
-        } catch (e) {
-            this.handleClose();
+    start(): void {
+        if (this.subscriptions.length > 0) return;
+        this.hub.on('connected', this.onHubConnected);
+        this.subscriptions = [
+            this.hub.subscribe(this.symbol, 'ticker', (ticker) => this.onTicker(ticker)),
+            this.hub.subscribe(this.symbol, 'candle1m', (candle) => this.onCandle(candle)),
+        ];
+        console.log(chalk.gray(`   [WS] Subscribed to ${this.symbol}`));
+        if (this.hub.isLive(this.symbol, 'ticker')) this.emit('connected');
+
+        // Counts from start, so a socket that never connects also falls back
+        this.lastWsUpdate = Date.now();
+        if (this.config.poller) {
+            this.watchdog = setInterval(() => this.checkFeed(), this.config.watchdogMs);
         }
     }
 
-    private handleClose() {
-        if (this.reconnectTimeout) return;
-        console.log(chalk.yellow('   [WS] Disconnected. Reconnecting...'));
-        this.isConnected = false;
-        this.failCount++;
-        this.stopPing();
-        this.reconnectTimeout = setTimeout(() => {
-            this.reconnectTimeout = null;
-            this.connect();
-        }, 2000);
+    private onTicker(ticker: TickerUpdate): void {
+        this.onWsData();
+        this.update(ticker.last, ticker.bid, ticker.ask, ticker.volume24h, ticker.timestamp);
     }
 
-    // ... subscribe and handleMessage remain same ...
-
-    // Fallback Poller for emergency
-    private startPollingFallback() {
-        if (this.pollingInterval) return;
+    private onCandle(candle: CandleUpdate): void {
+        this.onWsData();
+        this.update(candle.close, this.state.bid, this.state.ask, this.state.volume24h, Date.now());
+    }
 
-        // We need a way to fetch price. Since we don't have RustBridge here easily,
-        // we will just emit a warning that WS is dead.
-        // In a real system, we'd inject the REST client.
-        console.log(chalk.bgRed.white('   [CRITICAL] Market Data Link Severed - WS Failed '));
+    private update(price: number, bid: number, ask: number, volume24h: number, timestamp: number): void {
+        if (price === this.state.lastPrice) return;
+        this.state = { symbol: this.symbol, lastPrice: price, bid, ask, volume24h, timestamp };
+        this.emit('tick', price);
     }
 
+    // ==================== REST FALLBACK ====================
 
-    private subscribe(): void {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    private onWsData(): void {
+        this.lastWsUpdate = Date.now();
+        if (this.isDegraded) this.recover();
+    }
 
-        // Spot usually uses BTCUSDT, futures uses cmt_btcusdt
-        // Try subscribing to both formats just in case
-        const spotSymbol = this.symbol.replace('cmt_', '').toUpperCase();
+    private checkFeed(): void {
+        if (this.isDegraded) return;
+        const silentMs = Date.now() - this.lastWsUpdate;
+        const live = this.hub.isLive(this.symbol, 'ticker');
 
-        // Subscription format for Spot
-        const subMsg = {
-            op: 'subscribe',
-            args: [
-                { channel: 'ticker', instId: spotSymbol },
-                { channel: 'candle1m', instId: spotSymbol }
-            ]
-        };
-        this.ws.send(JSON.stringify(subMsg));
-        console.log(chalk.gray(`   [WS] Subscribed to ${spotSymbol}`));
+        if (!live && silentMs >= this.config.graceMs) {
+            this.degrade(`WebSocket down for ${(silentMs / 1000).toFixed(0)}s`);
+        } else if (live && silentMs >= this.config.staleAfterMs) {
+            this.degrade(`no WebSocket data for ${(silentMs / 1000).toFixed(0)}s`);
+        }
     }
 
-    private handleMessage(json: any): void {
-        // WEEX Spot WS format: { action: "push", arg: { channel: "ticker", instId: "BTCUSDT" }, data: [...] }
-
-        if (json.action === 'push' && json.data) {
-            const topic = json.arg?.channel || '';
-            const data = json.data[0];
+    private degrade(reason: string): void {
+        this.source = 'rest';
+        this.degradedAt = Date.now();
+        this.polls = 0;
+        this.pollFailures = 0;
+        console.log(chalk.red(`   [WS] ${this.symbol}: ${reason}. Switching to REST polling (${this.config.pollIntervalMs}ms)...`));
 
-            if (topic === 'ticker' || topic === 'candle1m') {
-                const price = parseFloat(data.last || data.close || data.idxPx || 0);
+        this.pollingInterval = setInterval(() => { void this.poll(); }, this.config.pollIntervalMs);
+        void this.poll();
+        this.emit('degraded', { symbol: this.symbol, reason } satisfies DegradedEvent);
+    }
 
-                if (price > 0 && price !== this.state.lastPrice) {
-                    this.state.lastPrice = price;
-                    this.state.bid = parseFloat(data.bidPx || 0);
-                    this.state.ask = parseFloat(data.askPx || 0);
-                    this.state.volume24h = parseFloat(data.vol24h || 0);
-                    this.state.timestamp = parseInt(data.ts || Date.now());
-                    this.state.symbol = this.symbol;
+    private recover(): void {
+        if (this.pollingInterval) clearInterval(this.pollingInterval);
+        this.pollingInterval = null;
+        this.source = 'ws';
 
-                    this.emit('tick', price);
-                }
-            }
-        }
+        const event: RecoveredEvent = { symbol: this.symbol, downtimeMs: Date.now() - this.degradedAt, polls: this.polls };
+        console.log(chalk.green(`   [WS] ${this.symbol}: WebSocket data restored after ${(event.downtimeMs / 1000).toFixed(0)}s (${event.polls} REST polls)`));
+        this.emit('recovered', event);
     }
 
-    private startPing(): void {
-        this.stopPing();
-        // Send 'ping' every 20s to keep connection alive
-        this.pingInterval = setInterval(() => {
-            if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-                this.ws.send('ping');
+    private async poll(): Promise<void> {
+        // Skip a beat rather than stack requests behind a slow endpoint
+        if (this.pollInFlight || !this.config.poller) return;
+        this.pollInFlight = true;
+        try {
+            const ticker = await this.config.poller(this.symbol);
+            // The socket may have come back while the request was out
+            if (!this.isDegraded) return;
+            this.polls++;
+            this.pollFailures = 0;
+            this.update(ticker.last, ticker.bid, ticker.ask, ticker.volume24h, ticker.timestamp);
+        } catch (e: any) {
+            this.pollFailures++;
+            if (this.pollFailures === 1 || this.pollFailures % 30 === 0) {
+                console.log(chalk.red(`   [REST] ${this.symbol} poll failed (${this.pollFailures}x): ${e.message}`));
             }
-        }, 20000);
-    }
-
-    private stopPing(): void {
-        if (this.pingInterval) {
-            clearInterval(this.pingInterval);
-            this.pingInterval = null;
+        } finally {
+            this.pollInFlight = false;
         }
     }
 
     stop(): void {
-        if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
-        this.stopPing();
-        this.ws?.close();
+        if (this.watchdog) clearInterval(this.watchdog);
+        if (this.pollingInterval) clearInterval(this.pollingInterval);
+        this.watchdog = null;
+        this.pollingInterval = null;
+        this.source = 'ws';
+        this.hub.off('connected', this.onHubConnected);
+        for (const subscription of this.subscriptions) subscription.unsubscribe();
+        this.subscriptions = [];
     }
 }
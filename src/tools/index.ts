@@ -3,3 +3,4 @@
  */
 
 export * from './trading-tools.js';
+export * from './runtime.js';
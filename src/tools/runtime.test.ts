@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import type { ChatToolCall } from '../llm/client.js';
+import type { ExchangeGateway, Position } from '../sdk/gateway.js';
+import { ToolRuntime } from './runtime.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const call = (name: string, args: unknown): ChatToolCall => ({
+    id: `call-${name}`,
+    type: 'function',
+    function: { name, arguments: JSON.stringify(args) },
+});
+
+function fakeGateway(positions: Partial<Position>[]) {
+    return {
+        async getPositions() {
+            return positions;
+        },
+    } as unknown as ExchangeGateway;
+}
+
+describe('ToolRuntime', () => {
+    it('offers only permitted tools that have a handler', () => {
+        const runtime = new ToolRuntime({ weex: fakeGateway([]), agentName: 'risk' }, ['check_liquidation_risk']);
+        expect(runtime.definitions.map((t) => t.function.name)).toEqual(['check_liquidation_risk']);
+        expect(() => new ToolRuntime({ weex: fakeGateway([]), agentName: 'risk' }, ['execute_twap'])).toThrow('No handler');
+    });
+
+    it('rejects calls that are not permitted or have invalid arguments', async () => {
+        const runtime = new ToolRuntime({ weex: fakeGateway([]), agentName: 'risk' }, ['check_liquidation_risk']);
+
+        expect(await runtime.dispatch(call('close_all_positions', { symbol: SYMBOL }))).toMatchObject({ ok: false, error: 'risk is not permitted to use close_all_positions' });
+        expect((await runtime.dispatch(call('check_liquidation_risk', { symbol: SYMBOL }))).error).toContain('currentPrice');
+    });
+
+    it('finds positions reported under another form of the symbol', async () => {
+        const weex = fakeGateway([
+            { symbol: 'BTCUSDT', side: 'long', size: 0.1, entryPrice: 100, leverage: 10, liquidationPrice: 91 },
+            { symbol: 'cmt_ethusdt', side: 'long', size: 1, entryPrice: 100, leverage: 10, liquidationPrice: 91 },
+        ]);
+        const runtime = new ToolRuntime({ weex, agentName: 'risk' }, ['check_liquidation_risk']);
+
+        const { result } = await runtime.dispatch(call('check_liquidation_risk', { symbol: SYMBOL, currentPrice: 92 }));
+        expect(result).toMatchObject({ positions: [{ side: 'long', size: 0.1, liquidationPrice: 91, nearLiquidation: true }] });
+    });
+});
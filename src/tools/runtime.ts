@@ -0,0 +1,337 @@
+/**
+ * Tool Runtime
+ * Dispatches GPT tool calls: permission check, zod validation, then the
+ * handler against the exchange gateway and quant functions
+ *
+ * Tools without a gateway endpoint behind them (open interest, leverage,
+ * trigger orders) keep their definitions in TRADING_TOOLS but have no
+ * handler, so they are never offered to the model. Neither is execute_twap:
+ * its later slices would be orders nothing tracks or can cancel.
+ */
+
+import { z } from 'zod';
+import type { ChatTool, ChatToolCall } from '../llm/client.js';
+import { type ExchangeGateway, findBalance, isPositionFor, tradableSize } from '../sdk/gateway.js';
+import { type Clock, systemClock } from '../engine/clock.js';
+import {
+    calculateOBI, getOBISignal, calculateVPIN, getVPINSignal, calculateRSI, calculateEMA, calculateMACD,
+    calculateBollingerBands, calculateATR, calculateOBV, calculateStochastic, calculateStochRSI, calculateADX,
+    calculateIchimoku, calculateKeltnerChannels, calculateSupertrend, calculateDonchianChannels,
+    calculateAnchoredVWAP, calculateSessionVWAP, calculateCCI, calculateMFI, calculateWilliamsR,
+    calculateKellyFraction, analyzeFundingArbitrage, estimateLiquidationPrice, isNearLiquidationCluster, type Trade,
+} from '../quant/indicators.js';
+import { recommendExecutionStrategy } from '../quant/execution.js';
+import { measureVolatility } from '../quant/volatility.js';
+import { executeOrderIntent, intentForAction, describeLeg } from '../execution/intent.js';
+import { getContractRegistry } from '../execution/contracts.js';
+import { nextDecisionId } from '../execution/client-orders.js';
+import {
+    TRADING_TOOLS, MarketDataSchema, TechnicalIndicatorsSchema, ExecuteTradeSchema, CancelOrderSchema,
+    AccountStatusSchema, OrderHistorySchema, CloseAllPositionsSchema, AgentMessageSchema, OBISchema,
+    KellySizeSchema, LiquidationRiskSchema, ExecutionRecommendationSchema,
+} from './trading-tools.js';
+
+export type AgentTarget = z.infer<typeof AgentMessageSchema>['targetAgent'];
+
+export interface ToolContext {
+    weex: ExchangeGateway;
+    agentName: string;
+    clock?: Clock;
+    sendMessage?: (target: AgentTarget, message: string, context?: Record<string, unknown>) => boolean;
+}
+
+export interface ToolHandler<S extends z.ZodTypeAny = z.ZodTypeAny> {
+    schema: S;
+    run(args: z.infer<S>, ctx: ToolContext): Promise<unknown>;
+}
+
+export interface ToolResult {
+    tool: string;
+    ok: boolean;
+    result?: unknown;
+    error?: string;
+}
+
+const MIN_TRADE_CONFIDENCE = 0.7;
+
+function tool<S extends z.ZodTypeAny>(schema: S, run: (args: z.infer<S>, ctx: ToolContext) => Promise<unknown>): ToolHandler<S> {
+    return { schema, run };
+}
+
+/**
+ * Order intent options for a tool call. Every call is its own decision, so
+ * two calls in the same millisecond never share a client order ID.
+ */
+function toolOrder(agentName: string, clock: Clock) {
+    return { engine: agentName, decisionTime: clock.now(), decisionId: nextDecisionId(), clock };
+}
+
+// ==================== HANDLERS ====================
+
+export const TOOL_HANDLERS: Record<string, ToolHandler> = {
+    get_market_data: tool(MarketDataSchema, async ({ symbol }, { weex }) => {
+        const [ticker, depth] = await Promise.all([weex.getTicker(symbol), weex.getDepth(symbol)]);
+        return {
+            ...ticker,
+            bids: depth.bids.slice(0, 5),
+            asks: depth.asks.slice(0, 5),
+        };
+    }),
+
+    get_technical_indicators: tool(TechnicalIndicatorsSchema, async ({ symbol, indicators, anchor_time }, { weex }) => {
+        const candles = await weex.getCandles(symbol, '1H', 100);
+        const times = candles.map((c) => c.time);
+        const highs = candles.map((c) => c.high);
+        const lows = candles.map((c) => c.low);
+        const closes = candles.map((c) => c.close);
+        const volumes = candles.map((c) => c.volume);
+
+        const result: Record<string, unknown> = { symbol, candles: closes.length, currentPrice: closes[closes.length - 1] };
+        for (const name of indicators) {
+            switch (name) {
+                case 'rsi': result.rsi = calculateRSI(closes); break;
+                case 'ema_20': result.ema_20 = calculateEMA(closes, 20); break;
+                case 'ema_50': result.ema_50 = calculateEMA(closes, 50); break;
+                case 'macd': result.macd = calculateMACD(closes); break;
+                case 'bollinger': result.bollinger = calculateBollingerBands(closes); break;
+                case 'atr': result.atr = calculateATR(highs, lows, closes); break;
+                case 'obv': {
+                    const obv = calculateOBV(closes, volumes);
+                    result.obv = obv[obv.length - 1] ?? 0;
+                    break;
+                }
+                case 'stochastic': result.stochastic = calculateStochastic(highs, lows, closes); break;
+                case 'stoch_rsi': result.stoch_rsi = calculateStochRSI(closes); break;
+                case 'adx': result.adx = calculateADX(highs, lows, closes); break;
+                case 'ichimoku': result.ichimoku = calculateIchimoku(highs, lows, closes); break;
+                case 'keltner': result.keltner = calculateKeltnerChannels(highs, lows, closes); break;
+                case 'supertrend': result.supertrend = calculateSupertrend(highs, lows, closes); break;
+                case 'donchian': result.donchian = calculateDonchianChannels(highs, lows); break;
+                case 'vwap_session': result.vwap_session = calculateSessionVWAP(times, highs, lows, closes, volumes); break;
+                case 'vwap_anchored': {
+                    const anchor = anchor_time === undefined ? 0 : times.findIndex((t) => t >= anchor_time);
+                    result.vwap_anchored = calculateAnchoredVWAP(highs, lows, closes, volumes, anchor < 0 ? times.length : anchor);
+                    break;
+                }
+                case 'cci': result.cci = calculateCCI(highs, lows, closes); break;
+                case 'mfi': result.mfi = calculateMFI(highs, lows, closes, volumes); break;
+                case 'williams_r': result.williams_r = calculateWilliamsR(highs, lows, closes); break;
+            }
+        }
+        return result;
+    }),
+
+    get_account_status: tool(AccountStatusSchema, async (_args, { weex }) => {
+        const [assets, positions] = await Promise.all([weex.getAssets(), weex.getPositions()]);
+        const usdt = findBalance(assets);
+        return {
+            available: usdt?.available ?? 0,
+            equity: usdt?.equity ?? 0,
+            unrealizedPnl: usdt?.unrealizedPnl ?? 0,
+            positions,
+        };
+    }),
+
+    get_funding_rate: tool(MarketDataSchema, async ({ symbol }, { weex }) => weex.getFundingRate(symbol)),
+
+    get_order_history: tool(OrderHistorySchema, async ({ symbol, limit }, { weex }) => {
+        const orders = await weex.getOrderHistory(symbol);
+        return orders.slice(0, limit ?? 20);
+    }),
+
+    execute_trade: tool(ExecuteTradeSchema, async (args, { weex, agentName, clock = systemClock }) => {
+        const { symbol, action, size, confidence, reasoning, orderType = 'market', reduceOnly } = args;
+        if (confidence < MIN_TRADE_CONFIDENCE) {
+            return { executed: false, error: `Confidence ${confidence} below ${MIN_TRADE_CONFIDENCE}` };
+        }
+        const quantity = parseFloat(size);
+        if (!(quantity > 0)) return { executed: false, error: `Invalid size: ${size}` };
+        const price = args.price !== undefined ? parseFloat(args.price) : undefined;
+        if (orderType !== 'market' && !(price! > 0)) return { executed: false, error: `A ${orderType} order needs a price` };
+
+        const result = await executeOrderIntent(weex, symbol, intentForAction(action, quantity)!, {
+            ...toolOrder(agentName, clock), type: orderType, price, reduceOnly,
+        });
+        if (result.legs.length === 0) return { executed: false, error: `Nothing to ${action} on ${symbol}` };
+        return {
+            executed: result.orderIds.length > 0,
+            orderId: result.orderIds[result.orderIds.length - 1],
+            legs: result.legs.map(describeLeg),
+            symbol,
+            action,
+            size: quantity,
+            orderType,
+            price,
+            reasoning,
+        };
+    }),
+
+    cancel_order: tool(CancelOrderSchema, async ({ symbol, orderId }, { weex }) => {
+        await weex.cancelOrder(symbol, orderId);
+        return { symbol, orderId, canceled: true };
+    }),
+
+    close_all_positions: tool(CloseAllPositionsSchema, async ({ symbol }, { weex, agentName, clock = systemClock }) => {
+        const result = await executeOrderIntent(weex, symbol, { type: 'flatten' }, toolOrder(agentName, clock));
+        const closed = result.legs.map((leg, i) => ({
+            side: leg.action === 'close_long' ? 'long' : 'short',
+            size: leg.size,
+            orderId: result.orderIds[i],
+        }));
+        return { symbol, closed };
+    }),
+
+    send_message_to_agent: tool(AgentMessageSchema, async ({ targetAgent, message, context }, ctx) => {
+        const delivered = ctx.sendMessage?.(targetAgent, message, context) ?? false;
+        return { delivered, targetAgent };
+    }),
+
+    // ==================== QUANT ====================
+
+    calculate_obi: tool(OBISchema, async ({ symbol, levels }, { weex }) => {
+        const obi = calculateOBI(await weex.getDepth(symbol), levels ?? 10);
+        return { symbol, obi: Math.round(obi * 10000) / 10000, signal: getOBISignal(obi) };
+    }),
+
+    calculate_vpin: tool(MarketDataSchema, async ({ symbol }, { weex }) => {
+        // Bulk volume classification: each 1m candle's volume goes to the side it closed on
+        const candles = await weex.getCandles(symbol, '1m', 200);
+        const trades: Trade[] = candles.map((c) => ({
+            price: c.close,
+            volume: c.volume,
+            side: c.close >= c.open ? 'buy' : 'sell',
+            timestamp: c.time,
+        }));
+        const totalVolume = trades.reduce((sum, t) => sum + t.volume, 0);
+        const vpin = calculateVPIN(trades, Math.max(totalVolume / 50, 1e-9));
+        return { symbol, vpin: Math.round(vpin * 10000) / 10000, signal: getVPINSignal(vpin), candles: candles.length };
+    }),
+
+    get_kelly_size: tool(KellySizeSchema, async ({ accountEquity, currentPrice, symbol }, { weex, clock = systemClock }) => {
+        const symbols = symbol ? [symbol] : [...new Set((await weex.getPositions()).map((p) => p.symbol))];
+        const orders = (await Promise.all(symbols.map((s) => weex.getOrderHistory(s)))).flat();
+        const history = orders
+            .filter((o) => o.realizedPnl !== 0)
+            .map((o) => ({ pnl: o.realizedPnl, isWin: o.realizedPnl > 0 }));
+
+        const kellyFraction = calculateKellyFraction(history);
+        const positionUsd = accountEquity * kellyFraction;
+        // In the symbol's contracts, rounded to its lot; without a symbol, in base units
+        const contract = symbol ? await getContractRegistry(weex, clock).find(symbol) : null;
+        return {
+            kellyFraction,
+            closedTrades: history.length,
+            positionUsd: Math.round(positionUsd * 100) / 100,
+            positionSize: tradableSize(contract, positionUsd / (currentPrice * (contract?.contractValue ?? 1))),
+        };
+    }),
+
+    get_funding_arbitrage: tool(MarketDataSchema, async ({ symbol }, { weex, clock = systemClock }) => {
+        const [funding, ticker] = await Promise.all([weex.getFundingRate(symbol), weex.getTicker(symbol)]);
+        const interval = 8 * 60 * 60 * 1000;
+        return {
+            symbol,
+            fundingRate: funding.fundingRate,
+            ...analyzeFundingArbitrage({
+                symbol,
+                fundingRate: funding.fundingRate,
+                nextFundingTime: Math.ceil(clock.now() / interval) * interval,
+                markPrice: ticker.markPrice ?? ticker.last,
+            }),
+        };
+    }),
+
+    check_liquidation_risk: tool(LiquidationRiskSchema, async ({ symbol, currentPrice, leverage }, { weex }) => {
+        const lev = leverage ?? 20;
+        const longLiquidation = estimateLiquidationPrice(currentPrice, lev, true);
+        const shortLiquidation = estimateLiquidationPrice(currentPrice, lev, false);
+
+        const positions = (await weex.getPositions()).filter((p) => isPositionFor(p, symbol) && p.size > 0);
+        const exposure = positions.map((p) => {
+            const liquidationPrice = p.liquidationPrice || estimateLiquidationPrice(p.entryPrice, p.leverage || lev, p.side === 'long');
+            return {
+                side: p.side,
+                size: p.size,
+                liquidationPrice,
+                nearLiquidation: isNearLiquidationCluster(currentPrice, liquidationPrice, 0.02),
+            };
+        });
+
+        return {
+            symbol,
+            leverage: lev,
+            clusters: { longs: Math.round(longLiquidation * 100) / 100, shorts: Math.round(shortLiquidation * 100) / 100 },
+            positions: exposure,
+        };
+    }),
+
+    get_execution_recommendation: tool(ExecutionRecommendationSchema, async ({ symbol, orderSize }, { weex }) => {
+        const [ticker, candles] = await Promise.all([weex.getTicker(symbol), weex.getCandles(symbol, '1H', 200)]);
+        const spread = ticker.last > 0 ? (ticker.ask - ticker.bid) / ticker.last : 0;
+        // Next-hour GARCH forecast, annualized
+        const volatility = measureVolatility(candles, { intervalMs: 60 * 60 * 1000 }).annualized;
+        return {
+            symbol,
+            spread,
+            volatility,
+            ...recommendExecutionStrategy(orderSize, ticker.volume24h || orderSize * 1000, spread, volatility),
+        };
+    }),
+};
+
+// ==================== RUNTIME ====================
+
+export class ToolRuntime {
+    private ctx: ToolContext;
+    private allowed: Set<string>;
+
+    constructor(ctx: ToolContext, allowed: string[]) {
+        for (const name of allowed) {
+            if (!TOOL_HANDLERS[name]) throw new Error(`No handler for tool: ${name}`);
+        }
+        this.ctx = ctx;
+        this.allowed = new Set(allowed);
+    }
+
+    get enabled(): boolean {
+        return this.allowed.size > 0;
+    }
+
+    /**
+     * Definitions for the permitted tools, in TRADING_TOOLS order
+     */
+    get definitions(): ChatTool[] {
+        return TRADING_TOOLS.filter((t) => this.allowed.has(t.function.name));
+    }
+
+    async dispatch(call: ChatToolCall): Promise<ToolResult> {
+        const name = call.function.name;
+        const handler = TOOL_HANDLERS[name];
+
+        if (!handler) return { tool: name, ok: false, error: `Unknown tool: ${name}` };
+        if (!this.allowed.has(name)) {
+            return { tool: name, ok: false, error: `${this.ctx.agentName} is not permitted to use ${name}` };
+        }
+
+        let raw: unknown;
+        try {
+            raw = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+        } catch {
+            return { tool: name, ok: false, error: 'Arguments are not valid JSON' };
+        }
+
+        const parsed = handler.schema.safeParse(raw);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map((i) => `${i.path.join('.') || 'arguments'}: ${i.message}`);
+            return { tool: name, ok: false, error: `Invalid arguments - ${issues.join('; ')}` };
+        }
+
+        try {
+            return { tool: name, ok: true, result: await handler.run(parsed.data, this.ctx) };
+        } catch (error: any) {
+            return { tool: name, ok: false, error: error?.message || String(error) };
+        }
+    }
+}
+
+export default ToolRuntime;
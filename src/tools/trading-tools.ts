@@ -4,15 +4,24 @@
  */
 
 import { z } from 'zod';
+import { OrderTypeSchema } from '../sdk/gateway.js';
+import { LEG_SIDE } from '../execution/intent.js';
 
 // Tool schemas for validation
 export const MarketDataSchema = z.object({
     symbol: z.string().describe('Trading pair (e.g., cmt_btcusdt)'),
 });
 
+export const TECHNICAL_INDICATORS = [
+    'rsi', 'ema_20', 'ema_50', 'macd', 'bollinger', 'atr', 'obv',
+    'stochastic', 'stoch_rsi', 'adx', 'ichimoku', 'keltner', 'supertrend', 'donchian',
+    'vwap_session', 'vwap_anchored', 'cci', 'mfi', 'williams_r',
+] as const;
+
 export const TechnicalIndicatorsSchema = z.object({
     symbol: z.string().describe('Trading pair'),
-    indicators: z.array(z.enum(['rsi', 'ema_20', 'ema_50', 'macd', 'bollinger'])).describe('Indicators to calculate'),
+    indicators: z.array(z.enum(TECHNICAL_INDICATORS)).describe('Indicators to calculate'),
+    anchor_time: z.number().optional().describe('Anchor for vwap_anchored (epoch ms); defaults to the first candle'),
 });
 
 export const ExecuteTradeSchema = z.object({
@@ -21,6 +30,14 @@ export const ExecuteTradeSchema = z.object({
     size: z.string().describe('Position size in base currency'),
     confidence: z.number().min(0).max(1).describe('Confidence level 0-1'),
     reasoning: z.string().describe('Detailed reasoning for the trade'),
+    orderType: OrderTypeSchema.optional().describe('market (default), limit, post_only, ioc or fok'),
+    price: z.string().optional().describe('Limit price, required unless market'),
+    reduceOnly: z.boolean().optional().describe('Only send the closing part of the trade, never open'),
+});
+
+export const CancelOrderSchema = z.object({
+    symbol: z.string().describe('Trading pair'),
+    orderId: z.string().describe('Exchange order ID'),
 });
 
 export const RiskAssessmentSchema = z.object({
@@ -29,6 +46,50 @@ export const RiskAssessmentSchema = z.object({
     proposedSize: z.string().describe('Proposed position size'),
 });
 
+export const AccountStatusSchema = z.object({});
+
+export const OrderHistorySchema = z.object({
+    symbol: z.string().describe('Trading pair'),
+    limit: z.number().int().positive().optional().describe('Max orders to return'),
+});
+
+export const CloseAllPositionsSchema = MarketDataSchema;
+
+export const AgentMessageSchema = z.object({
+    targetAgent: z.enum(['market_analyst', 'sentiment', 'risk_manager', 'executor']),
+    message: z.string().describe('Message content'),
+    context: z.record(z.unknown()).optional().describe('Additional context'),
+});
+
+export const OBISchema = z.object({
+    symbol: z.string().describe('Trading pair'),
+    levels: z.number().int().positive().optional().describe('Number of orderbook levels (default 10)'),
+});
+
+export const KellySizeSchema = z.object({
+    accountEquity: z.number().positive().describe('Total account equity in USD'),
+    currentPrice: z.number().positive().describe('Current asset price'),
+    symbol: z.string().optional().describe('Trading pair whose order history to use (default: open positions)'),
+});
+
+export const LiquidationRiskSchema = z.object({
+    symbol: z.string().describe('Trading pair'),
+    currentPrice: z.number().positive().describe('Current price'),
+    leverage: z.number().min(1).max(125).optional().describe('Typical leverage used'),
+});
+
+export const ExecutionRecommendationSchema = z.object({
+    symbol: z.string().describe('Trading pair'),
+    orderSize: z.number().positive().describe('Order size in base currency'),
+});
+
+export const TWAPSchema = z.object({
+    symbol: z.string().describe('Trading pair'),
+    side: z.enum(['buy', 'sell']).describe('Order side'),
+    totalSize: z.number().positive().describe('Total order size'),
+    durationMinutes: z.number().positive().describe('Duration to execute over'),
+});
+
 // OpenAI tool definitions
 export const TRADING_TOOLS = [
     {
@@ -49,16 +110,17 @@ export const TRADING_TOOLS = [
         type: 'function' as const,
         function: {
             name: 'get_technical_indicators',
-            description: 'Calculate RSI, EMA, MACD from price data. Use for technical analysis signals.',
+            description: 'Calculate technical indicators (RSI, EMA, MACD, Bollinger, ATR, OBV, Stochastic/StochRSI, ADX/DMI, Ichimoku, Keltner, Supertrend, Donchian, session/anchored VWAP, CCI, MFI, Williams %R) on the last 100 1H candles. Use for technical analysis signals.',
             parameters: {
                 type: 'object',
                 properties: {
                     symbol: { type: 'string', description: 'Trading pair' },
                     indicators: {
                         type: 'array',
-                        items: { type: 'string', enum: ['rsi', 'ema_20', 'ema_50', 'macd', 'bollinger'] },
+                        items: { type: 'string', enum: [...TECHNICAL_INDICATORS] },
                         description: 'Indicators to calculate',
                     },
+                    anchor_time: { type: 'number', description: 'Anchor for vwap_anchored (epoch ms); defaults to the first candle' },
                 },
                 required: ['symbol', 'indicators'],
             },
@@ -119,7 +181,7 @@ export const TRADING_TOOLS = [
         type: 'function' as const,
         function: {
             name: 'execute_trade',
-            description: 'Execute a market order. Only use when confident (>0.7). Must provide reasoning.',
+            description: 'Execute a trade, at market or as a limit/post-only/IOC/FOK order. Only use when confident (>0.7). Must provide reasoning. Post-only avoids taker fees.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -128,11 +190,29 @@ export const TRADING_TOOLS = [
                     size: { type: 'string', description: 'Position size' },
                     confidence: { type: 'number', description: 'Confidence 0-1' },
                     reasoning: { type: 'string', description: 'Trade reasoning' },
+                    orderType: { type: 'string', enum: ['market', 'limit', 'post_only', 'ioc', 'fok'], description: 'Order type (default market)' },
+                    price: { type: 'string', description: 'Limit price, required unless market' },
+                    reduceOnly: { type: 'boolean', description: 'Only send the closing part of the trade, never open' },
                 },
                 required: ['symbol', 'action', 'size', 'confidence', 'reasoning'],
             },
         },
     },
+    {
+        type: 'function' as const,
+        function: {
+            name: 'cancel_order',
+            description: 'Cancel a resting limit or post-only order.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    symbol: { type: 'string', description: 'Trading pair' },
+                    orderId: { type: 'string', description: 'Exchange order ID' },
+                },
+                required: ['symbol', 'orderId'],
+            },
+        },
+    },
     {
         type: 'function' as const,
         function: {
@@ -235,6 +315,7 @@ export const TRADING_TOOLS = [
                 properties: {
                     accountEquity: { type: 'number', description: 'Total account equity in USD' },
                     currentPrice: { type: 'number', description: 'Current asset price' },
+                    symbol: { type: 'string', description: 'Trading pair whose order history to use (default: open positions)' },
                 },
                 required: ['accountEquity', 'currentPrice'],
             },
@@ -288,7 +369,7 @@ export const TRADING_TOOLS = [
         type: 'function' as const,
         function: {
             name: 'get_execution_recommendation',
-            description: 'Get smart order execution recommendation. Analyzes market conditions and suggests TWAP, VWAP, iceberg, or market order based on size and liquidity.',
+            description: 'Get smart order execution recommendation. Analyzes market conditions and suggests TWAP, VWAP, iceberg, or market order based on size, liquidity and the GARCH volatility forecast.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -318,10 +399,8 @@ export const TRADING_TOOLS = [
     },
 ];
 
-// Action to side mapping
-export const ACTION_TO_SIDE: Record<string, number> = {
-    open_long: 1,
-    close_short: 2,
-    open_short: 3,
-    close_long: 4,
-};
+/**
+ * Action to side mapping
+ * @deprecated Use LEG_SIDE from execution/intent.ts
+ */
+export const ACTION_TO_SIDE: Record<string, number> = LEG_SIDE;
@@ -5,14 +5,24 @@
 
 import 'dotenv/config';
 import { Command } from 'commander';
-import OpenAI from 'openai';
 import chalk from 'chalk';
 import { createRustSDKBridge } from './sdk/rust-bridge.js';
+import { createWeexClient, createWeexGateway } from './sdk/client.js';
+import { findBalance, type ExchangeGateway, type OrderType, OrderTypeSchema } from './sdk/gateway.js';
+import { PaperExchange } from './sdk/paper-exchange.js';
+import { LocalDepthGateway } from './sdk/local-depth.js';
+import { MarketDataHub } from './ws/hub.js';
 import { EnhancedCoordinatorAgent, TRADING_PAIRS, type TradingPair } from './agents/enhanced-coordinator.js';
 import { StreamTradingEngine } from './engine/stream-engine.js';
 import { HybridTradingEngine } from './engine/hybrid-engine.js';
 import { FullParallelEngine } from './engine/full-parallel.js';
 import { HFTEngineV3 } from './engine/hft-engine-v3.js';
+import { systemClock } from './engine/clock.js';
+import { ClientOrderRegistry, setClientOrderRegistry } from './execution/client-orders.js';
+import type { ChatClient } from './llm/client.js';
+import { createLLMClient, ReplayLLMClient, LLM_MODES, type LLMMode } from './llm/replay.js';
+import { LLMRouter, loadRouterConfig, routerConfigFromEnv } from './llm/router.js';
+import { LLMScheduler, LLM_PRIORITIES } from './llm/scheduler.js';
 
 function printBanner(): void {
     console.log(chalk.cyan(`
@@ -47,6 +57,13 @@ async function main(): Promise<void> {
         .option('--model <model>', 'AI model', 'mimo-v2-flash')
         .option('--max-position <size>', 'Maximum position size in BTC', '0.001')
         .option('--min-balance <usd>', 'Stop trading if balance drops below this (USD)', '700')
+        .option('--paper', 'Paper trade against live market data (no real orders)', false)
+        .option('--paper-balance <usd>', 'Starting balance for paper trading (USD)', '1000')
+        .option('--no-ws-depth', 'Read order books over REST instead of the local WebSocket book')
+        .option('--entry-order <type>', 'Director mode entry orders: market, limit, post_only, ioc, fok', 'post_only')
+        .option('--llm-mode <mode>', 'LLM calls: live, record, replay, stub', 'live')
+        .option('--llm-cassette <file>', 'Cassette file for --llm-mode record/replay', 'cassettes/llm-session.json')
+        .option('--llm-config <file>', 'LLM provider/role config (JSON)', process.env.LLM_CONFIG)
         .parse(process.argv);
 
     const opts = program.opts();
@@ -57,44 +74,74 @@ async function main(): Promise<void> {
     console.log(`📊 Symbol: ${opts.symbol}`);
     console.log(`🔄 Mode: ${opts.mode}`);
     console.log(`💰 Max Position: ${opts.maxPosition} BTC`);
+    if (opts.paper) {
+        console.log(chalk.yellow(`📝 PAPER TRADING - starting balance $${opts.paperBalance}`));
+    }
+
+    const llmMode = opts.llmMode as LLMMode;
+    if (!LLM_MODES.includes(llmMode)) {
+        console.error(chalk.red(`❌ Unknown --llm-mode "${opts.llmMode}" (expected ${LLM_MODES.join(', ')})`));
+        process.exit(1);
+    }
+    // Replay and stub answer offline, so only live and record need a provider
+    const needsProvider = llmMode === 'live' || llmMode === 'record';
+    if (llmMode !== 'live') {
+        const cassette = llmMode === 'stub' ? '' : ` (${opts.llmCassette})`;
+        console.log(chalk.yellow(`📼 LLM ${llmMode.toUpperCase()} mode${cassette}`));
+    }
+
+    const entryOrder = OrderTypeSchema.safeParse(opts.entryOrder);
+    if (!entryOrder.success) {
+        console.error(chalk.red(`❌ Unknown --entry-order "${opts.entryOrder}" (expected ${OrderTypeSchema.options.join(', ')})`));
+        process.exit(1);
+    }
 
     // Validate environment
-    if (!process.env.MIMO_API_KEY && !process.env.OPENAI_API_KEY) {
-        console.error(chalk.red('❌ MIMO_API_KEY or OPENAI_API_KEY not set'));
+    const routerConfig = opts.llmConfig ? loadRouterConfig(opts.llmConfig) : routerConfigFromEnv(opts.model);
+    if (needsProvider && !routerConfig) {
+        console.error(chalk.red('❌ No API Key found (GROQ_API_KEY, TOGETHER_API_KEY, MIMO_API_KEY, or OPENAI_API_KEY) and no --llm-config'));
         process.exit(1);
     }
-    if (!process.env.WEEX_API_KEY) {
+    if (!opts.paper && !process.env.WEEX_API_KEY) {
         console.error(chalk.red('❌ WEEX_API_KEY not set'));
         process.exit(1);
     }
 
     // Initialize clients
     console.log('\n🔗 Connecting to WEEX Exchange...');
-    const weexClient = createRustSDKBridge();
+    // One market data feed for every engine. Local L2 books are subscribed on
+    // first use; getDepth falls back to REST until they sync.
+    const hub = new MarketDataHub();
+    const withLocalDepth = (gateway: ExchangeGateway): ExchangeGateway => opts.wsDepth
+        ? new LocalDepthGateway(gateway, (symbol, levels) => {
+            hub.ensure(symbol, 'depth');
+            return hub.book(symbol)?.snapshot(levels) ?? null;
+        })
+        : gateway;
+
+    // Paper mode only needs public market data, so it reads from the REST client
+    const weexClient: ExchangeGateway = opts.paper
+        ? new PaperExchange(withLocalDepth(createWeexGateway(createWeexClient(false))), { initialBalance: parseFloat(opts.paperBalance) })
+        : withLocalDepth(createRustSDKBridge());
+    // Paper orders only live in this process, so their client IDs must not
+    // land in (or be matched against) the live registry on disk
+    if (opts.paper) setClientOrderRegistry(new ClientOrderRegistry(null));
     const ticker = await weexClient.getTicker(opts.symbol);
     console.log(chalk.green(`✅ Connected! ${opts.symbol} = $${ticker.last}`));
 
-    // Initialize LLM Client (MiMo or Together AI)
-    const apiKey = process.env.GROQ_API_KEY || process.env.TOGETHER_API_KEY || process.env.MIMO_API_KEY || process.env.OPENAI_API_KEY;
-    const baseURL = process.env.GROQ_API_KEY ? 'https://api.groq.com/openai/v1' :
-        (process.env.TOGETHER_API_KEY ? 'https://api.together.xyz/v1' :
-            (process.env.MIMO_API_KEY ? 'https://api.xiaomimimo.com/v1' : 'https://api.openai.com/v1'));
-
-    if (process.env.GROQ_API_KEY) {
-        console.log(chalk.green('✅ Using Groq API (High Speed/Reasoning)'));
-    } else if (process.env.TOGETHER_API_KEY) {
-        console.log(chalk.green('✅ Using Together AI (Kimi-K2-Thinking)'));
-    }
-
-    if (!apiKey) {
-        console.error(chalk.red('❌ No API Key found (GROQ_API_KEY, TOGETHER_API_KEY, MIMO_API_KEY, or OPENAI_API_KEY)'));
-        process.exit(1);
+    // Initialize LLM Router (per-role models, fallback chains, rate limits)
+    // behind one scheduler shared by every agent and engine
+    let scheduler: LLMScheduler | null = null;
+    if (routerConfig) {
+        const router = new LLMRouter(routerConfig);
+        if (needsProvider && router.availableProviders.length === 0) {
+            console.error(chalk.red(`❌ No API key set for any provider in ${opts.llmConfig}`));
+            process.exit(1);
+        }
+        scheduler = new LLMScheduler(router, routerConfig.scheduler);
+        console.log(chalk.green(`✅ LLM router: ${router.describe()}`));
     }
-
-    const openai = new OpenAI({
-        apiKey: apiKey,
-        baseURL: baseURL
-    });
+    const openai = createLLMClient(scheduler, { mode: llmMode, cassettePath: opts.llmCassette });
 
     // Initialize Enhanced Coordinator
     console.log('\n🧠 Initializing Enhanced Agent Team...');
@@ -137,7 +184,7 @@ async function main(): Promise<void> {
             break;
 
         case 'quant':
-            await runQuantMode(weexClient, opts.symbol, parseFloat(opts.maxPosition), parseFloat(opts.minBalance));
+            await runQuantMode(weexClient, hub, opts.symbol, parseFloat(opts.maxPosition), parseFloat(opts.minBalance));
             break;
 
         case 'hybrid':
@@ -149,7 +196,7 @@ async function main(): Promise<void> {
             break;
 
         case 'director':
-            await runDirectorMode(openai, weexClient, opts.symbol, parseFloat(opts.minBalance));
+            await runDirectorMode(openai, weexClient, hub, opts.symbol, opts.model, parseFloat(opts.minBalance), scheduler, entryOrder.data);
             break;
 
         default:
@@ -157,6 +204,13 @@ async function main(): Promise<void> {
             process.exit(1);
     }
 
+    if (openai instanceof ReplayLLMClient) {
+        const { calls, recorded, replayed, stubbed } = openai.stats;
+        console.log(chalk.gray(`📼 LLM calls: ${calls} (recorded ${recorded}, replayed ${replayed}, stubbed ${stubbed})`));
+    }
+    if (scheduler) printSchedulerMetrics(scheduler);
+    hub.close();
+
     console.log(chalk.cyan('\n🏁 Fenyr v2.0 session complete.'));
 }
 
@@ -239,7 +293,7 @@ async function runScan(coordinator: EnhancedCoordinatorAgent): Promise<void> {
 
 async function runContinuous(
     coordinator: EnhancedCoordinatorAgent,
-    weexClient: ReturnType<typeof createRustSDKBridge>,
+    weexClient: ExchangeGateway,
     symbol: string,
     intervalSec: number,
     minBalance: number = 700
@@ -262,8 +316,8 @@ async function runContinuous(
         // Check balance before each cycle
         try {
             const assets = await weexClient.getAssets();
-            const usdt = assets.find((a: any) => a.coinName === 'USDT');
-            const balance = parseFloat(usdt?.equity || usdt?.available || '0');
+            const usdt = findBalance(assets);
+            const balance = usdt?.equity || usdt?.available || 0;
 
             console.log(chalk.cyan(`\n💰 Current Balance: $${balance.toFixed(2)}`));
 
@@ -299,7 +353,8 @@ async function runContinuous(
 }
 
 async function runQuantMode(
-    weex: ReturnType<typeof createRustSDKBridge>,
+    weex: ExchangeGateway,
+    hub: MarketDataHub,
     symbol: string,
     maxPosition: number,
     minBalance: number
@@ -316,7 +371,7 @@ async function runQuantMode(
         minConfidence: 0.5, // Lower threshold for faster action
         signalThreshold: 0.2,
         riskPerTrade: 0.02, // 2% risk per trade
-    });
+    }, systemClock, hub);
 
     // Handle graceful shutdown
     process.on('SIGINT', () => {
@@ -337,8 +392,8 @@ async function runQuantMode(
 }
 
 async function runHybridMode(
-    openai: OpenAI,
-    weex: ReturnType<typeof createRustSDKBridge>,
+    openai: ChatClient,
+    weex: ExchangeGateway,
     model: string,
     symbol: string,
     minBalance: number
@@ -364,8 +419,8 @@ async function runHybridMode(
 }
 
 async function runParallelMode(
-    openai: OpenAI,
-    weex: ReturnType<typeof createRustSDKBridge>,
+    openai: ChatClient,
+    weex: ExchangeGateway,
     model: string,
     symbol: string,
     minBalance: number
@@ -395,10 +450,14 @@ async function runParallelMode(
 }
 
 async function runDirectorMode(
-    openai: OpenAI,
-    weex: ReturnType<typeof createRustSDKBridge>,
+    openai: ChatClient,
+    weex: ExchangeGateway,
+    hub: MarketDataHub,
     symbol: string,
-    minBalance: number
+    model: string,
+    minBalance: number,
+    scheduler: LLMScheduler | null = null,
+    entryOrder: OrderType = 'post_only'
 ): Promise<void> {
     console.log(chalk.cyan('\n🚀 DIRECTOR MODE - REAL HFT ARCHITECTURE'));
     console.log(chalk.gray('   WS Data (0ms) -> Sync Risk -> HFT Logic (Instant) -> Execution'));
@@ -419,7 +478,7 @@ async function runDirectorMode(
     // Launch Engines
     for (const sym of symbolsToTrade) {
         console.log(chalk.cyan(`   [Init] Launching HFT Engine for ${sym}...`));
-        const engine = new HFTEngineV3(openai, weex, sym, minBalance);
+        const engine = new HFTEngineV3(openai, weex, sym, minBalance, model, hub, entryOrder);
         engines.push(engine);
 
         // Start engine
@@ -427,7 +486,7 @@ async function runDirectorMode(
 
         // Stagger start to avoid API burst
         if (symbolsToTrade.length > 1) {
-            await new Promise(r => setTimeout(r, 10000)); // 10s stagger to avoid rate limits
+            await new Promise(r => setTimeout(r, 2000)); // Short stagger; the LLM scheduler paces the calls
         }
     }
 
@@ -438,6 +497,7 @@ async function runDirectorMode(
             const status = e.getStatus();
             console.log(chalk.cyan(`   ${e['symbol']}: Equity=$${status.risk.equity.toFixed(2)}, RiskTripped=${status.risk.tripped}`));
         });
+        if (scheduler) printSchedulerMetrics(scheduler);
         process.exit(0);
     });
 
@@ -445,4 +505,14 @@ async function runDirectorMode(
     await new Promise(() => { });
 }
 
+function printSchedulerMetrics(scheduler: LLMScheduler): void {
+    const m = scheduler.metrics();
+    console.log(chalk.gray(`🚦 LLM scheduler: ${m.submitted} submitted, ${m.completed} completed, ${m.failed} failed, ${m.coalesced} coalesced`));
+    for (const priority of LLM_PRIORITIES) {
+        const p = m.byPriority[priority];
+        if (p.requests === 0) continue;
+        console.log(chalk.gray(`   ${priority.padEnd(10)} ${p.requests} req, wait avg ${p.avgWaitMs}ms / p95 ${p.p95WaitMs}ms / max ${p.maxWaitMs}ms`));
+    }
+}
+
 main().catch(console.error);
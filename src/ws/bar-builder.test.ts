@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { BarBuilder, parseBarSpec, type Bar, type BarTrade } from './bar-builder.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const trade = (timestamp: number, price: number, size = 1, side?: 'buy' | 'sell'): BarTrade => ({ timestamp, price, size, side });
+
+const ohlcv = (bar: Bar) => [bar.time, bar.open, bar.high, bar.low, bar.close, bar.volume];
+
+describe('parseBarSpec', () => {
+    it('reads time, volume and dollar specs', () => {
+        expect(parseBarSpec('5s')).toEqual({ kind: 'time', ms: 5000 });
+        expect(parseBarSpec('1H')).toEqual({ kind: 'time', ms: 3_600_000 });
+        expect(parseBarSpec('vol:50')).toEqual({ kind: 'volume', size: 50 });
+        expect(parseBarSpec('usd:1e6')).toEqual({ kind: 'dollar', notional: 1_000_000 });
+        expect(() => parseBarSpec('0s')).toThrow('Invalid bar spec');
+        expect(() => parseBarSpec('vol:-1')).toThrow('Invalid bar spec');
+    });
+});
+
+describe('BarBuilder', () => {
+    it('buckets by trade time, takes late-arriving trades within the lateness window and fills quiet buckets', () => {
+        const builder = new BarBuilder(SYMBOL, '1s', { allowedLatenessMs: 500 });
+        const late: BarTrade[] = [];
+        builder.on('late', (t: BarTrade) => late.push(t));
+
+        builder.add(trade(100, 10));
+        builder.add(trade(900, 12));
+        builder.add(trade(500, 9));     // Out of order: doesn't become the close
+        builder.add(trade(50, 11));     // Earlier than the first: becomes the open
+        builder.add(trade(1200, 13));
+        expect(builder.length).toBe(0);
+
+        builder.add(trade(1600, 14));   // Past the lateness window of the first second
+        expect(builder.bars().map(ohlcv)).toEqual([[0, 11, 12, 9, 12, 4]]);
+
+        builder.add(trade(800, 1));
+        expect(late).toEqual([trade(800, 1)]);
+
+        builder.add(trade(4700, 15));
+        expect(builder.bars().map(ohlcv)).toEqual([
+            [0, 11, 12, 9, 12, 4],
+            [1000, 13, 14, 13, 14, 2],
+            [2000, 14, 14, 14, 14, 0],
+            [3000, 14, 14, 14, 14, 0],
+        ]);
+        expect(builder.current()).toMatchObject({ time: 4000, close: 15 });
+        expect(builder.stats).toEqual({ trades: 8, bars: 4, filled: 2, late: 1 });
+    });
+
+    it('closes volume bars at the threshold with buy volume and VWAP', () => {
+        const builder = new BarBuilder(SYMBOL, 'vol:3');
+        builder.add(trade(1, 100, 1, 'buy'));
+        builder.add(trade(2, 103, 1, 'sell'));
+        builder.add(trade(3, 101, 2, 'buy'));
+        builder.add(trade(4, 99, 1));
+
+        expect(builder.bars()).toEqual([{
+            symbol: SYMBOL, interval: 'vol:3', time: 1, endTime: 3,
+            open: 100, high: 103, low: 100, close: 101, volume: 4, quoteVolume: 405, buyVolume: 3, trades: 3, vwap: 101.25,
+        }]);
+        expect(builder.current()).toMatchObject({ open: 99, volume: 1 });
+    });
+
+    it('closes dollar bars on quote volume', () => {
+        const builder = new BarBuilder(SYMBOL, 'usd:1000');
+        builder.add(trade(1, 100, 6));
+        builder.add(trade(2, 100, 3));
+        builder.add(trade(3, 110, 1));
+
+        expect(builder.series()).toEqual({ opens: [100], highs: [110], lows: [100], closes: [110], volumes: [10] });
+    });
+});
@@ -0,0 +1,306 @@
+/**
+ * Bar Builder
+ * Aggregates a trade stream into OHLCV bars
+ *
+ * - Time bars ('1s', '5s', '1m', '5m', '1h', ...) are bucketed by trade time,
+ *   not arrival time. A bucket stays open for `allowedLatenessMs` after its end
+ *   so out-of-order trades still land in it; anything later is reported as
+ *   'late' and dropped (emitted bars are never amended). Quiet buckets are
+ *   filled with flat zero-volume bars so the series stays evenly spaced.
+ * - Volume bars ('vol:50') and dollar bars ('usd:1000000') close once the
+ *   bar's base/quote volume reaches the threshold, in arrival order.
+ *
+ * Only completed bars are emitted ('bar'); the open one is in current().
+ */
+
+import { EventEmitter } from 'events';
+import type { Candle } from '../sdk/gateway.js';
+import { RingBuffer } from './ring-buffer.js';
+
+// ==================== TYPES ====================
+
+export type BarSpec =
+    | { kind: 'time'; ms: number }
+    | { kind: 'volume'; size: number }
+    | { kind: 'dollar'; notional: number };
+
+export interface Bar extends Candle {
+    symbol: string;
+    interval: string;       // Spec label, e.g. '1m' or 'vol:50'
+    endTime: number;        // Bucket end (time bars) or last trade time
+    quoteVolume: number;
+    buyVolume: number;
+    trades: number;
+    vwap: number;
+}
+
+export interface BarSeries {
+    opens: number[];
+    highs: number[];
+    lows: number[];
+    closes: number[];
+    volumes: number[];
+}
+
+/**
+ * What the builder needs from a trade (TradeUpdate fits)
+ */
+export interface BarTrade {
+    price: number;
+    size: number;
+    side?: 'buy' | 'sell';
+    timestamp: number;
+}
+
+export interface BarBuilderConfig {
+    allowedLatenessMs: number;
+    fillGaps: boolean;
+    maxFillBars: number;    // Longer silences are skipped instead of filled
+    history: number;
+}
+
+const DEFAULT_CONFIG: BarBuilderConfig = {
+    allowedLatenessMs: 1000,
+    fillGaps: true,
+    maxFillBars: 1000,
+    history: 500,
+};
+
+export interface BarBuilderStats {
+    trades: number;
+    bars: number;
+    filled: number;
+    late: number;
+}
+
+const UNIT_MS: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60_000,
+    h: 60 * 60_000,
+    d: 24 * 60 * 60_000,
+};
+
+/**
+ * '5s' / '1m' / '1h' → time bars, 'vol:50' → volume bars, 'usd:1e6' → dollar bars
+ */
+export function parseBarSpec(spec: string): BarSpec {
+    const time = /^(\d+)(ms|s|m|h|d)$/i.exec(spec.trim());
+    if (time) {
+        const ms = parseInt(time[1]) * UNIT_MS[time[2].toLowerCase()];
+        if (ms > 0) return { kind: 'time', ms };
+    }
+
+    const threshold = /^(vol|usd):(.+)$/i.exec(spec.trim());
+    const value = threshold ? Number(threshold[2]) : NaN;
+    if (threshold && value > 0) {
+        return threshold[1].toLowerCase() === 'vol'
+            ? { kind: 'volume', size: value }
+            : { kind: 'dollar', notional: value };
+    }
+
+    throw new Error(`Invalid bar spec "${spec}" (expected e.g. 5s, 1m, 1h, vol:50 or usd:1000000)`);
+}
+
+// ==================== BUILDER ====================
+
+export class BarBuilder extends EventEmitter {
+    readonly symbol: string;
+    readonly interval: string;
+    readonly spec: BarSpec;
+    readonly stats: BarBuilderStats = { trades: 0, bars: 0, filled: 0, late: 0 };
+
+    private config: BarBuilderConfig;
+    private completed: RingBuffer<Bar>;
+    private pending: Map<number, Bar> = new Map();  // Time bars by bucket start
+    private tradeTimes: Map<number, { first: number; last: number }> = new Map();
+    private open: Bar | null = null;                // Volume/dollar bar being filled
+    private closedUntil: number = -Infinity;        // Every time bucket ending at or before this is emitted
+    private lastClose: number | null = null;
+    private lastEventTime: number = -Infinity;
+    private lastArrival: number = 0;
+
+    constructor(symbol: string, interval: string, config: Partial<BarBuilderConfig> = {}) {
+        super();
+        this.symbol = symbol;
+        this.interval = interval;
+        this.spec = parseBarSpec(interval);
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.completed = new RingBuffer(this.config.history);
+    }
+
+    add(trade: BarTrade): void {
+        this.stats.trades++;
+
+        if (this.spec.kind !== 'time') {
+            this.open = this.merge(this.open, trade, trade.timestamp);
+            const filled = this.spec.kind === 'volume' ? this.open.volume >= this.spec.size : this.open.quoteVolume >= this.spec.notional;
+            if (filled) {
+                this.open.endTime = trade.timestamp;
+                this.complete(this.open);
+                this.open = null;
+            }
+            return;
+        }
+
+        const start = Math.floor(trade.timestamp / this.spec.ms) * this.spec.ms;
+        if (start + this.spec.ms <= this.closedUntil) {
+            this.stats.late++;
+            this.emit('late', trade);
+            return;
+        }
+        const existing = this.pending.get(start);
+        const previousClose = existing?.close;
+        const bar = this.merge(existing ?? null, trade, start);
+        this.pending.set(start, bar);
+
+        // Trades arriving out of order within the lateness window set open/close by trade time
+        const times = this.tradeTimes.get(start);
+        if (!times) {
+            this.tradeTimes.set(start, { first: trade.timestamp, last: trade.timestamp });
+        } else {
+            if (trade.timestamp < times.first) {
+                bar.open = trade.price;
+                times.first = trade.timestamp;
+            }
+            if (trade.timestamp < times.last) bar.close = previousClose!;
+            else times.last = trade.timestamp;
+        }
+
+        this.lastArrival = Date.now();
+        if (trade.timestamp > this.lastEventTime) {
+            this.lastEventTime = trade.timestamp;
+            this.advance(trade.timestamp);
+        }
+    }
+
+    /**
+     * Price-only sample (polled ticker): moves OHLC without adding volume
+     */
+    addPrice(price: number, time: number): void {
+        this.add({ price, size: 0, timestamp: time });
+    }
+
+    /**
+     * Close every time bucket that ended more than allowedLatenessMs before `now`
+     * (trade time). Call it on a timer so bars close while the market is quiet.
+     */
+    advance(now: number): void {
+        if (this.spec.kind !== 'time') return;
+        const ms = this.spec.ms;
+        const until = Math.floor((now - this.config.allowedLatenessMs) / ms) * ms;
+        if (until <= this.closedUntil) return;
+
+        const ready = [...this.pending.keys()].filter((start) => start + ms <= until).sort((a, b) => a - b);
+        for (const start of ready) {
+            this.fillTo(start);
+            this.complete(this.pending.get(start)!);
+            this.pending.delete(start);
+            this.tradeTimes.delete(start);
+        }
+        this.fillTo(until);
+        this.closedUntil = until;
+    }
+
+    /**
+     * advance() for live feeds, on wall-clock time: trade time is extrapolated
+     * from the last trade, so clock skew against the exchange doesn't matter
+     */
+    advanceByWallClock(now: number = Date.now()): void {
+        if (this.lastEventTime === -Infinity) return;
+        this.advance(this.lastEventTime + Math.max(0, now - this.lastArrival));
+    }
+
+    /**
+     * Completed bars, oldest first
+     */
+    bars(n?: number): Bar[] {
+        return n === undefined ? this.completed.getAll() : this.completed.getLast(n);
+    }
+
+    last(): Bar | undefined {
+        return this.completed.getLast(1)[0];
+    }
+
+    /**
+     * The newest bar still collecting trades
+     */
+    current(): Bar | null {
+        if (this.spec.kind !== 'time') return this.open;
+        const starts = [...this.pending.keys()];
+        return starts.length > 0 ? this.pending.get(Math.max(...starts))! : null;
+    }
+
+    /**
+     * Column arrays of the completed bars, for the indicator functions
+     */
+    series(n?: number): BarSeries {
+        const bars = this.bars(n);
+        return {
+            opens: bars.map((b) => b.open),
+            highs: bars.map((b) => b.high),
+            lows: bars.map((b) => b.low),
+            closes: bars.map((b) => b.close),
+            volumes: bars.map((b) => b.volume),
+        };
+    }
+
+    get length(): number {
+        return this.completed.getSize();
+    }
+
+    // ==================== INTERNALS ====================
+
+    private merge(bar: Bar | null, trade: BarTrade, start: number): Bar {
+        const notional = trade.price * trade.size;
+        if (!bar) {
+            const endTime = this.spec.kind === 'time' ? start + this.spec.ms : trade.timestamp;
+            return {
+                symbol: this.symbol, interval: this.interval, time: start, endTime,
+                open: trade.price, high: trade.price, low: trade.price, close: trade.price,
+                volume: trade.size, quoteVolume: notional, buyVolume: trade.side === 'buy' ? trade.size : 0,
+                trades: 1, vwap: trade.price,
+            };
+        }
+
+        bar.high = Math.max(bar.high, trade.price);
+        bar.low = Math.min(bar.low, trade.price);
+        bar.close = trade.price;
+        bar.volume += trade.size;
+        bar.quoteVolume += notional;
+        if (trade.side === 'buy') bar.buyVolume += trade.size;
+        bar.trades++;
+        bar.vwap = bar.volume > 0 ? bar.quoteVolume / bar.volume : bar.close;
+        return bar;
+    }
+
+    /**
+     * Flat zero-volume bars from the last completed bar up to `start`
+     */
+    private fillTo(start: number): void {
+        if (this.spec.kind !== 'time' || !this.config.fillGaps || this.lastClose === null) return;
+        const ms = this.spec.ms;
+        const from = this.last()!.time + ms;
+        if (start <= from) return;
+        if ((start - from) / ms > this.config.maxFillBars) return;
+
+        for (let time = from; time < start; time += ms) {
+            const price = this.lastClose;
+            this.stats.filled++;
+            this.complete({
+                symbol: this.symbol, interval: this.interval, time, endTime: time + ms,
+                open: price, high: price, low: price, close: price,
+                volume: 0, quoteVolume: 0, buyVolume: 0, trades: 0, vwap: price,
+            });
+        }
+    }
+
+    private complete(bar: Bar): void {
+        this.completed.push(bar);
+        this.lastClose = bar.close;
+        this.stats.bars++;
+        this.emit('bar', bar);
+    }
+}
+
+export default BarBuilder;
@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { MarketDataHub, type TradeUpdate } from './hub.js';
+import { RingBuffer } from './ring-buffer.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const message = (channel: string, data: unknown) => JSON.stringify({ arg: { channel, instId: SYMBOL }, data });
+
+describe('MarketDataHub', () => {
+    let hub: MarketDataHub;
+
+    afterEach(() => {
+        hub.close();
+    });
+
+    it('parses feed messages into the store and the subscribers', () => {
+        hub = new MarketDataHub({ connect: false });
+        const trades: TradeUpdate[] = [];
+        hub.subscribe(SYMBOL, 'trade', (trade) => trades.push(trade));
+
+        hub.onMessage(message('ticker', [{ last: '100.5', bidPx: '100.4', askPx: '100.6', ts: '1000' }]));
+        hub.onMessage(message('trade', [{ px: '100.5', sz: '0.2', side: 'sell', ts: '1001' }, { px: '100.6', sz: '0.1', ts: '1002' }]));
+        hub.onMessage('pong');
+        hub.onMessage('{"broken');
+
+        const store = hub.store(SYMBOL);
+        expect(store.ticker).toMatchObject({ last: 100.5, bid: 100.4, ask: 100.6, timestamp: 1000 });
+        expect(trades).toEqual([
+            { symbol: SYMBOL, price: 100.5, size: 0.2, side: 'sell', timestamp: 1001 },
+            { symbol: SYMBOL, price: 100.6, size: 0.1, side: undefined, timestamp: 1002 },
+        ]);
+        expect(store.trades.getSize()).toBe(2);
+    });
+
+    it('replaces the open candle instead of appending it', () => {
+        hub = new MarketDataHub({ connect: false });
+        hub.onMessage(message('candle1m', [[60_000, 1, 2, 0.5, 1.5, 10]]));
+        hub.onMessage(message('candle1m', [[60_000, 1, 3, 0.5, 2.5, 12]]));
+        hub.onMessage(message('candle1m', [{ ts: 120_000, open: 2.5, high: 2.6, low: 2.4, close: 2.5, vol: 1 }]));
+
+        expect(hub.store(SYMBOL).candles.getAll().map((c) => [c.time, c.close, c.volume])).toEqual([[60_000, 2.5, 12], [120_000, 2.5, 1]]);
+    });
+
+    it('keeps a topic until its last subscription is released', () => {
+        hub = new MarketDataHub({ connect: false });
+        const first = hub.subscribe(SYMBOL, 'ticker', () => { });
+        const second = hub.subscribe(SYMBOL, 'ticker', () => { });
+
+        first.unsubscribe();
+        first.unsubscribe();
+        expect(hub.topics).toEqual([`ticker:${SYMBOL}`]);
+
+        second.unsubscribe();
+        expect(hub.topics).toEqual([]);
+    });
+
+    it('spreads topics over pooled connections', async () => {
+        const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+        const subscribed: string[][] = [];
+        server.on('connection', (socket: WebSocket) => {
+            const topics: string[] = [];
+            subscribed.push(topics);
+            socket.on('message', (data) => {
+                const { op, args } = JSON.parse(data.toString());
+                if (op === 'subscribe') topics.push(...args);
+            });
+        });
+        await new Promise((resolve) => server.once('listening', resolve));
+
+        try {
+            const { port } = server.address() as AddressInfo;
+            hub = new MarketDataHub({ url: `ws://127.0.0.1:${port}`, maxTopicsPerConnection: 2 });
+            const connected = new Promise((resolve) => {
+                let count = 0;
+                hub.on('connected', () => ++count === 2 && resolve(count));
+            });
+            hub.subscribe(SYMBOL, 'ticker', () => { });
+            hub.subscribe(SYMBOL, 'trade', () => { });
+            hub.subscribe('cmt_ethusdt', 'ticker', () => { });
+            await connected;
+            await new Promise((resolve) => setTimeout(resolve, 50));
+
+            expect(subscribed.map((topics) => topics.sort()).sort((a, b) => b.length - a.length)).toEqual([
+                [`ticker:${SYMBOL}`, `trade:${SYMBOL}`],
+                ['ticker:cmt_ethusdt'],
+            ]);
+            expect(hub.isLive('cmt_ethusdt', 'ticker')).toBe(true);
+        } finally {
+            hub.close();
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+});
+
+describe('RingBuffer', () => {
+    it('keeps the newest entries once full', () => {
+        const buffer = new RingBuffer<number>(4);
+        for (let i = 1; i <= 6; i++) buffer.push(i);
+
+        expect(buffer.getAll()).toEqual([3, 4, 5, 6]);
+        expect(buffer.getLast(2)).toEqual([5, 6]);
+        buffer.clear();
+        expect(buffer.getSize()).toBe(0);
+    });
+});
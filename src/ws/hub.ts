@@ -0,0 +1,541 @@
+/**
+ * Market Data Hub
+ * One shared WebSocket feed for every engine in the process
+ *
+ * Engines subscribe per symbol and channel; the hub reference-counts topics,
+ * subscribes on the exchange only while someone is listening, and spreads
+ * topics over a small pool of connections (maxTopicsPerConnection each).
+ * Each symbol gets a store: latest ticker, a local L2OrderBook, and
+ * RingBuffers of recent prices, trades and 1m candles.
+ *
+ * hub.bars(symbol, '5s') shares one BarBuilder per symbol and interval, fed
+ * from the trade channel, so engines can listen for completed bars.
+ *
+ * Every parsed message goes through ingest() as a MarketRecord and is
+ * re-emitted as 'record', which is what the MarketRecorder writes and the
+ * MarketPlayer feeds back in.
+ */
+
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import chalk from 'chalk';
+import { RingBuffer } from './ring-buffer.js';
+import { L2OrderBook, type DepthMessage } from './order-book.js';
+import { BarBuilder, type BarBuilderConfig } from './bar-builder.js';
+
+// ==================== TYPES ====================
+
+export type HubChannel = 'ticker' | 'depth' | 'trade' | 'candle1m';
+
+export interface TickerUpdate {
+    symbol: string;
+    last: number;
+    bid: number;
+    ask: number;
+    high24h: number;
+    low24h: number;
+    volume24h: number;
+    change24h: number;
+    timestamp: number;
+}
+
+export interface TradeUpdate {
+    symbol: string;
+    price: number;
+    size: number;
+    side?: 'buy' | 'sell';      // Aggressor; missing when the feed doesn't say (see LeeReadyClassifier)
+    timestamp: number;
+}
+
+export interface CandleUpdate {
+    symbol: string;
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+/**
+ * What a subscription handler receives for each channel
+ */
+export interface HubEventMap {
+    ticker: TickerUpdate;
+    depth: L2OrderBook;
+    trade: TradeUpdate;
+    candle1m: CandleUpdate;
+}
+
+/**
+ * One normalized market data event, as ingested, recorded and replayed
+ */
+export type MarketRecord =
+    | ({ type: 'ticker' } & TickerUpdate)
+    | ({ type: 'depth'; symbol: string } & DepthMessage)
+    | ({ type: 'trade' } & TradeUpdate)
+    | ({ type: 'candle' } & CandleUpdate);
+
+/**
+ * Event time of a record (ms)
+ */
+export function recordTime(record: MarketRecord): number {
+    return record.type === 'candle' ? record.time : record.timestamp;
+}
+
+export interface SymbolStore {
+    symbol: string;
+    ticker: TickerUpdate | null;
+    book: L2OrderBook;
+    prices: RingBuffer<number>;
+    trades: RingBuffer<TradeUpdate>;
+    candles: RingBuffer<CandleUpdate>;
+}
+
+export interface Subscription {
+    readonly symbol: string;
+    readonly channel: HubChannel;
+    unsubscribe(): void;
+}
+
+export interface MarketDataHubConfig {
+    url: string;
+    connect: boolean;               // false: no sockets, data only arrives via ingest() (replays)
+    maxTopicsPerConnection: number;
+    pingIntervalMs: number;
+    reconnectBaseMs: number;
+    reconnectMaxMs: number;
+    priceHistory: number;
+    tradeHistory: number;
+    candleHistory: number;
+}
+
+const DEFAULT_CONFIG: MarketDataHubConfig = {
+    url: 'wss://contract.weex.com/ws/v1/public',
+    connect: true,
+    maxTopicsPerConnection: 50,
+    pingIntervalMs: 20000,
+    reconnectBaseMs: 1000,
+    reconnectMaxMs: 30000,
+    priceHistory: 500,
+    tradeHistory: 1000,
+    candleHistory: 500,
+};
+
+function topicOf(symbol: string, channel: HubChannel): string {
+    return `${channel}:${symbol}`;
+}
+
+// ==================== CONNECTION ====================
+
+/**
+ * One socket in the pool and the topics it carries
+ */
+class HubConnection {
+    readonly id: number;
+    readonly topics: Set<string> = new Set();
+
+    private hub: MarketDataHub;
+    private config: MarketDataHubConfig;
+    private ws: WebSocket | null = null;
+    private pingTimer: NodeJS.Timeout | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private closed: boolean = false;
+
+    public failCount: number = 0;
+
+    constructor(id: number, hub: MarketDataHub, config: MarketDataHubConfig) {
+        this.id = id;
+        this.hub = hub;
+        this.config = config;
+    }
+
+    get isOpen(): boolean {
+        return this.ws?.readyState === WebSocket.OPEN;
+    }
+
+    add(topic: string): void {
+        this.topics.add(topic);
+        this.closed = false;
+        if (this.isOpen) this.send({ op: 'subscribe', args: [topic] });
+        else if (!this.ws && !this.reconnectTimer) this.open();
+    }
+
+    remove(topic: string): void {
+        if (!this.topics.delete(topic)) return;
+        if (this.isOpen) this.send({ op: 'unsubscribe', args: [topic] });
+        if (this.topics.size === 0) this.close();
+    }
+
+    /**
+     * Unsubscribe and subscribe again so the exchange sends a fresh snapshot
+     */
+    resubscribe(topic: string): void {
+        if (!this.isOpen || !this.topics.has(topic)) return;
+        this.send({ op: 'unsubscribe', args: [topic] });
+        this.send({ op: 'subscribe', args: [topic] });
+    }
+
+    close(): void {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.ws?.close();
+    }
+
+    private open(): void {
+        const ws = new WebSocket(this.config.url);
+        this.ws = ws;
+
+        ws.on('open', () => {
+            this.failCount = 0;
+            if (this.topics.size > 0) this.send({ op: 'subscribe', args: [...this.topics] });
+            this.pingTimer = setInterval(() => this.send({ op: 'ping' }), this.config.pingIntervalMs);
+            this.hub.onConnectionOpen(this);
+        });
+
+        ws.on('message', (data: WebSocket.Data) => this.hub.onMessage(data.toString()));
+
+        ws.on('error', (error: Error) => {
+            // 'close' follows and handles the reconnect
+            console.log(chalk.red(`   [Hub#${this.id}] Error: ${error.message}`));
+        });
+
+        ws.on('close', () => {
+            if (this.pingTimer) clearInterval(this.pingTimer);
+            this.pingTimer = null;
+            this.ws = null;
+            this.hub.onConnectionClose(this);
+            if (!this.closed && this.topics.size > 0) this.scheduleReconnect();
+        });
+    }
+
+    private scheduleReconnect(): void {
+        this.failCount++;
+        const delay = Math.min(this.config.reconnectBaseMs * Math.pow(2, this.failCount - 1), this.config.reconnectMaxMs);
+        console.log(chalk.yellow(`   [Hub#${this.id}] Disconnected. Reconnecting in ${delay}ms (attempt ${this.failCount})`));
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (!this.closed) this.open();
+        }, delay);
+    }
+
+    private send(data: object): void {
+        if (this.isOpen) this.ws!.send(JSON.stringify(data));
+    }
+}
+
+// ==================== HUB ====================
+
+export class MarketDataHub extends EventEmitter {
+    private config: MarketDataHubConfig;
+    private connections: HubConnection[] = [];
+    private topicRefs: Map<string, number> = new Map();
+    private topicConnection: Map<string, HubConnection> = new Map();
+    private stores: Map<string, SymbolStore> = new Map();
+    private ensured: Set<string> = new Set();
+    private dispatch: EventEmitter = new EventEmitter();
+    private barBuilders: Map<string, { builder: BarBuilder; subscription: Subscription }> = new Map();
+    private barTimer: NodeJS.Timeout | null = null;
+
+    constructor(config: Partial<MarketDataHubConfig> = {}) {
+        super();
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        // Every engine may listen to the same topic and connection events
+        this.dispatch.setMaxListeners(0);
+        this.setMaxListeners(0);
+    }
+
+    /**
+     * Listen to one symbol's channel. The exchange topic stays subscribed
+     * until the last subscription on it is released.
+     */
+    subscribe<C extends HubChannel>(symbol: string, channel: C, handler: (event: HubEventMap[C]) => void): Subscription {
+        const topic = topicOf(symbol, channel);
+        this.dispatch.on(topic, handler);
+        this.acquire(topic);
+
+        let active = true;
+        return {
+            symbol,
+            channel,
+            unsubscribe: () => {
+                if (!active) return;
+                active = false;
+                this.dispatch.off(topic, handler);
+                this.release(topic);
+            },
+        };
+    }
+
+    /**
+     * Keep a topic subscribed for the hub's lifetime, so its store stays current
+     */
+    ensure(symbol: string, channel: HubChannel): void {
+        const topic = topicOf(symbol, channel);
+        if (this.ensured.has(topic)) return;
+        this.ensured.add(topic);
+        this.acquire(topic);
+    }
+
+    /**
+     * Shared trade-built bars for a symbol ('1s', '5s', '1m', 'vol:50', ...).
+     * Listen for 'bar' on the result; it lives until the hub closes.
+     */
+    bars(symbol: string, interval: string, config: Partial<BarBuilderConfig> = {}): BarBuilder {
+        const key = `${symbol}|${interval}`;
+        const existing = this.barBuilders.get(key);
+        if (existing) return existing.builder;
+
+        const builder = new BarBuilder(symbol, interval, config);
+        builder.setMaxListeners(0);
+        const subscription = this.subscribe(symbol, 'trade', (trade) => builder.add(trade));
+        this.barBuilders.set(key, { builder, subscription });
+
+        // Live feeds also close bars on a timer so quiet periods still produce them.
+        // Replays (connect: false) advance on the recorded trade times alone.
+        if (this.config.connect && !this.barTimer) {
+            this.barTimer = setInterval(() => {
+                for (const { builder } of this.barBuilders.values()) builder.advanceByWallClock();
+            }, 250);
+        }
+        return builder;
+    }
+
+    store(symbol: string): SymbolStore {
+        let store = this.stores.get(symbol);
+        if (!store) {
+            const book = new L2OrderBook(symbol);
+            book.on('resync', ({ reason }) => {
+                console.log(chalk.yellow(`   [Hub] ${symbol} order book out of sync (${reason}) - resubscribing`));
+                const topic = topicOf(symbol, 'depth');
+                this.topicConnection.get(topic)?.resubscribe(topic);
+            });
+            store = {
+                symbol,
+                ticker: null,
+                book,
+                prices: new RingBuffer(this.config.priceHistory),
+                trades: new RingBuffer(this.config.tradeHistory),
+                candles: new RingBuffer(this.config.candleHistory),
+            };
+            this.stores.set(symbol, store);
+        }
+        return store;
+    }
+
+    /**
+     * Synced local book for a symbol, or undefined
+     */
+    book(symbol: string): L2OrderBook | undefined {
+        const book = this.stores.get(symbol)?.book;
+        return book?.isSynced ? book : undefined;
+    }
+
+    /**
+     * Whether the connection carrying this topic is up
+     */
+    isLive(symbol: string, channel: HubChannel): boolean {
+        return this.topicConnection.get(topicOf(symbol, channel))?.isOpen ?? false;
+    }
+
+    get topics(): string[] {
+        return [...this.topicRefs.keys()];
+    }
+
+    close(): void {
+        if (this.barTimer) clearInterval(this.barTimer);
+        this.barTimer = null;
+        for (const { subscription } of this.barBuilders.values()) subscription.unsubscribe();
+        this.barBuilders.clear();
+        for (const connection of this.connections) connection.close();
+        this.connections = [];
+        this.topicRefs.clear();
+        this.topicConnection.clear();
+        this.ensured.clear();
+    }
+
+    // ==================== TOPIC POOL ====================
+
+    private acquire(topic: string): void {
+        const refs = this.topicRefs.get(topic) ?? 0;
+        this.topicRefs.set(topic, refs + 1);
+        if (refs > 0 || !this.config.connect) return;
+
+        let connection = this.connections.find((c) => c.topics.size < this.config.maxTopicsPerConnection);
+        if (!connection) {
+            connection = new HubConnection(this.connections.length, this, this.config);
+            this.connections.push(connection);
+        }
+        this.topicConnection.set(topic, connection);
+        connection.add(topic);
+    }
+
+    private release(topic: string): void {
+        const refs = (this.topicRefs.get(topic) ?? 0) - 1;
+        if (refs > 0) {
+            this.topicRefs.set(topic, refs);
+            return;
+        }
+        this.topicRefs.delete(topic);
+        this.topicConnection.get(topic)?.remove(topic);
+        this.topicConnection.delete(topic);
+    }
+
+    // ==================== CONNECTION CALLBACKS ====================
+
+    /** @internal */
+    onConnectionOpen(connection: HubConnection): void {
+        console.log(chalk.green(`   [Hub#${connection.id}] Connected (${connection.topics.size} topics)`));
+        this.emit('connected', { connection: connection.id, topics: [...connection.topics] });
+    }
+
+    /** @internal */
+    onConnectionClose(connection: HubConnection): void {
+        // Books miss whatever arrives while disconnected; the resubscribe sends a snapshot
+        for (const topic of connection.topics) {
+            if (topic.startsWith('depth:')) this.stores.get(topic.slice('depth:'.length))?.book.reset();
+        }
+        this.emit('disconnected', { connection: connection.id, topics: [...connection.topics], failCount: connection.failCount });
+    }
+
+    /** @internal */
+    onMessage(raw: string): void {
+        if (raw === 'pong') return;
+        let msg: any;
+        try {
+            msg = JSON.parse(raw);
+        } catch {
+            return;
+        }
+        if (msg.event === 'pong' || !msg.arg) return;
+
+        const channel: string = msg.arg.channel ?? '';
+        const symbol: string = msg.arg.instId ?? '';
+        if (!symbol) return;
+
+        if (channel.startsWith('ticker')) this.handleTicker(symbol, msg);
+        else if (channel.startsWith('depth')) this.handleDepth(symbol, msg);
+        else if (channel.startsWith('trade')) this.handleTrades(symbol, msg);
+        else if (channel.startsWith('candle')) this.handleCandles(symbol, msg);
+    }
+
+    // ==================== INGEST ====================
+
+    /**
+     * Apply one normalized record: update the symbol's store, notify its
+     * subscribers and emit 'record'. Live messages and MarketPlayer replays
+     * both come through here.
+     */
+    ingest(record: MarketRecord): void {
+        const store = this.store(record.symbol);
+
+        switch (record.type) {
+            case 'ticker': {
+                const { type: _type, ...ticker } = record;
+                store.ticker = ticker;
+                store.prices.push(ticker.last);
+                this.emit('record', record);
+                this.dispatch.emit(topicOf(record.symbol, 'ticker'), ticker);
+                break;
+            }
+            case 'depth': {
+                this.emit('record', record);
+                if (store.book.apply(record)) this.dispatch.emit(topicOf(record.symbol, 'depth'), store.book);
+                break;
+            }
+            case 'trade': {
+                const { type: _type, ...trade } = record;
+                store.trades.push(trade);
+                this.emit('record', record);
+                this.dispatch.emit(topicOf(record.symbol, 'trade'), trade);
+                break;
+            }
+            case 'candle': {
+                const { type: _type, ...candle } = record;
+                // Updates to the open candle replace it instead of appending
+                const last = store.candles.getLast(1)[0];
+                if (!last || last.time !== candle.time) store.candles.push(candle);
+                else Object.assign(last, candle);
+                this.emit('record', record);
+                this.dispatch.emit(topicOf(record.symbol, 'candle1m'), candle);
+                break;
+            }
+        }
+    }
+
+    // ==================== PARSERS ====================
+
+    private handleTicker(symbol: string, msg: any): void {
+        const data = msg.data?.[0];
+        if (!data) return;
+
+        const last = parseFloat(data.last || data.lastPr || 0);
+        if (!(last > 0)) return;
+
+        this.ingest({
+            type: 'ticker',
+            symbol,
+            last,
+            bid: parseFloat(data.bidPx || data.bestBid || 0),
+            ask: parseFloat(data.askPx || data.bestAsk || 0),
+            high24h: parseFloat(data.high24h || 0),
+            low24h: parseFloat(data.low24h || 0),
+            volume24h: parseFloat(data.vol24h || data.baseVolume || 0),
+            change24h: parseFloat(data.change24h || data.changeUtc24h || 0),
+            timestamp: parseInt(data.ts) || Date.now(),
+        });
+    }
+
+    private handleDepth(symbol: string, msg: any): void {
+        const data = msg.data?.[0];
+        if (!data) return;
+
+        const seq = data.seqId ?? data.seq;
+        const prevSeq = data.prevSeqId ?? data.prevSeq;
+        this.ingest({
+            type: 'depth',
+            symbol,
+            // Channels without an action flag send full books every time
+            action: (msg.action ?? data.action) === 'update' ? 'update' : 'snapshot',
+            bids: data.bids || [],
+            asks: data.asks || [],
+            seq: seq !== undefined ? Number(seq) : undefined,
+            // -1 marks the first message after a snapshot on some feeds
+            prevSeq: prevSeq !== undefined && Number(prevSeq) >= 0 ? Number(prevSeq) : undefined,
+            checksum: data.checksum !== undefined ? Number(data.checksum) : undefined,
+            timestamp: parseInt(data.ts) || Date.now(),
+        });
+    }
+
+    private handleTrades(symbol: string, msg: any): void {
+        if (!Array.isArray(msg.data)) return;
+
+        for (const t of msg.data) {
+            this.ingest({
+                type: 'trade',
+                symbol,
+                price: parseFloat(t.px || t.price),
+                size: parseFloat(t.sz || t.size),
+                side: t.side === 'buy' || t.side === 'sell' ? t.side : undefined,
+                timestamp: parseInt(t.ts) || Date.now(),
+            });
+        }
+    }
+
+    private handleCandles(symbol: string, msg: any): void {
+        if (!Array.isArray(msg.data)) return;
+
+        for (const c of msg.data) {
+            // [ts, open, high, low, close, volume] or an object
+            const candle: CandleUpdate = Array.isArray(c)
+                ? { symbol, time: Number(c[0]), open: Number(c[1]), high: Number(c[2]), low: Number(c[3]), close: Number(c[4]), volume: Number(c[5] ?? 0) }
+                : { symbol, time: Number(c.ts ?? c.time), open: Number(c.open), high: Number(c.high), low: Number(c.low), close: Number(c.close), volume: Number(c.volume ?? c.vol ?? 0) };
+            if (candle.close > 0) this.ingest({ type: 'candle', ...candle });
+        }
+    }
+}
+
+export default MarketDataHub;
@@ -1,2 +1,7 @@
 // WebSocket module exports
-export * from './websocket.js';
+export * from './ring-buffer.js';
+export * from './order-book.js';
+export * from './bar-builder.js';
+export * from './hub.js';
+export * from './recorder.js';
+export * from './player.js';
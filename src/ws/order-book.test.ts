@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { L2OrderBook, crc32, type DepthMessage } from './order-book.js';
+
+const SYMBOL = 'cmt_btcusdt';
+
+const snapshot = (seq = 10): DepthMessage => ({
+    action: 'snapshot',
+    bids: [['100.0', '1'], ['99.5', '2']],
+    asks: [['100.5', '1.5'], ['101.0', '3']],
+    seq,
+    timestamp: 0,
+});
+
+const update = (seq: number, change: Partial<DepthMessage> = {}): DepthMessage => ({
+    action: 'update',
+    bids: [],
+    asks: [],
+    seq,
+    timestamp: seq,
+    ...change,
+});
+
+function syncedBook() {
+    const book = new L2OrderBook(SYMBOL);
+    const resyncs: string[] = [];
+    book.on('resync', ({ reason }) => resyncs.push(reason));
+    book.apply(snapshot());
+    return { book, resyncs };
+}
+
+describe('crc32', () => {
+    it('matches the standard check value as a signed integer', () => {
+        expect(crc32('123456789')).toBe(0xcbf43926 | 0);
+    });
+});
+
+describe('L2OrderBook', () => {
+    it('keeps levels sorted and removes zero-size levels', () => {
+        const { book } = syncedBook();
+        expect(book.apply(update(11, { bids: [['99.8', '4'], ['100.0', '0']], asks: [['100.2', '1']] }))).toBe(true);
+
+        expect(book.topBids(2)).toEqual([{ price: 99.8, quantity: 4 }, { price: 99.5, quantity: 2 }]);
+        expect(book.bestAsk()).toEqual({ price: 100.2, quantity: 1 });
+        expect(book.sequence).toBe(11);
+        expect(book.cumulativeVolume('ask', 100.5)).toBe(2.5);
+    });
+
+    it('ignores updates already applied', () => {
+        const { book, resyncs } = syncedBook();
+        expect(book.apply(update(10, { bids: [['100.0', '9']] }))).toBe(false);
+
+        expect(book.bestBid()!.quantity).toBe(1);
+        expect(book.stats.ignored).toBe(1);
+        expect(resyncs).toEqual([]);
+    });
+
+    it('resyncs on a sequence gap and ignores updates until the next snapshot', () => {
+        const { book, resyncs } = syncedBook();
+        expect(book.apply(update(12))).toBe(false);
+        expect(resyncs).toEqual(['sequence gap: 10 → 12']);
+        expect(book.isSynced).toBe(false);
+
+        expect(book.apply(update(13, { bids: [['100.2', '1']] }))).toBe(false);
+        expect(book.stats.ignored).toBe(1);
+
+        book.apply(snapshot(20));
+        expect(book.apply(update(21))).toBe(true);
+    });
+
+    it('checks prevSeq against the current sequence when it is sent', () => {
+        const { book, resyncs } = syncedBook();
+        expect(book.apply(update(15, { prevSeq: 10 }))).toBe(true);
+        expect(book.apply(update(18, { prevSeq: 16 }))).toBe(false);
+        expect(resyncs).toEqual(['sequence gap: expected prev 15, got 16']);
+    });
+
+    it('verifies checksums over the original level strings', () => {
+        const { book, resyncs } = syncedBook();
+        const expected = crc32('100.0:1:100.5:1.5:99.5:2:101.0:3');
+        expect(book.checksum()).toBe(expected);
+
+        expect(book.apply(update(11, { checksum: expected }))).toBe(true);
+        expect(book.apply(update(12, { bids: [['99.5', '3']], checksum: expected }))).toBe(false);
+        expect(resyncs).toEqual(['checksum mismatch']);
+    });
+
+    it('resyncs when the book crosses', () => {
+        const { book, resyncs } = syncedBook();
+        expect(book.apply(update(11, { bids: [['100.5', '1']] }))).toBe(false);
+        expect(resyncs).toEqual(['crossed book: bid 100.5 >= ask 100.5']);
+    });
+});
@@ -0,0 +1,333 @@
+/**
+ * L2 Order Book
+ * Full-depth book kept locally from a snapshot plus incremental updates
+ *
+ * - Sequence numbers are checked on every update; a gap, a failed checksum or
+ *   a crossed book marks the book unsynced and emits 'resync' so the feed can
+ *   request a fresh snapshot. Updates are ignored until that snapshot arrives.
+ * - Checksums follow the usual CRC32 scheme: the top 25 levels interleaved as
+ *   "bidPx:bidSz:askPx:askSz:..." over the exchange's original strings.
+ * - Queries (best bid/ask, depth within N bps, cumulative volume, microprice)
+ *   read sorted price arrays directly, no copying of the whole book.
+ */
+
+import { EventEmitter } from 'events';
+import type { OrderBook, OrderBookLevel } from '../sdk/gateway.js';
+
+export type BookSide = 'bid' | 'ask';
+
+/**
+ * [price, size] as sent by the exchange; size 0 deletes the level
+ */
+export type RawLevel = [string | number, string | number, ...unknown[]];
+
+export interface DepthMessage {
+    action: 'snapshot' | 'update';
+    bids: RawLevel[];
+    asks: RawLevel[];
+    seq?: number;
+    prevSeq?: number;       // When sent, must equal the book's current seq
+    checksum?: number;
+    timestamp: number;
+}
+
+export interface OrderBookStats {
+    snapshots: number;
+    updates: number;
+    resyncs: number;
+    ignored: number;
+}
+
+export interface L2OrderBookConfig {
+    contiguousSeq: boolean;     // Without prevSeq, require seq === previous + 1
+    checksumLevels: number;
+}
+
+const DEFAULT_CONFIG: L2OrderBookConfig = {
+    contiguousSeq: true,
+    checksumLevels: 25,
+};
+
+// ==================== CHECKSUM ====================
+
+const CRC_TABLE = (() => {
+    const table = new Int32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c;
+    }
+    return table;
+})();
+
+/**
+ * CRC32 of a string, as a signed 32-bit integer
+ */
+export function crc32(text: string): number {
+    let crc = -1;
+    for (const byte of Buffer.from(text, 'utf-8')) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ -1) | 0;
+}
+
+// ==================== BOOK SIDE ====================
+
+interface Level {
+    quantity: number;
+    raw: [string, string];
+}
+
+/**
+ * One side of the book: prices kept sorted best-first, sizes by price
+ */
+class SideLevels {
+    readonly prices: number[] = [];
+    readonly levels: Map<number, Level> = new Map();
+
+    constructor(private descending: boolean) { }
+
+    set(rawPrice: string | number, rawSize: string | number): void {
+        const price = Number(rawPrice);
+        const quantity = Number(rawSize);
+        if (!Number.isFinite(price) || !Number.isFinite(quantity)) return;
+
+        const exists = this.levels.has(price);
+        if (quantity <= 0) {
+            if (exists) {
+                this.levels.delete(price);
+                this.prices.splice(this.indexOf(price), 1);
+            }
+            return;
+        }
+
+        this.levels.set(price, { quantity, raw: [String(rawPrice), String(rawSize)] });
+        if (!exists) this.prices.splice(this.indexOf(price), 0, price);
+    }
+
+    clear(): void {
+        this.prices.length = 0;
+        this.levels.clear();
+    }
+
+    top(n: number): OrderBookLevel[] {
+        const count = Math.min(n, this.prices.length);
+        const result: OrderBookLevel[] = new Array(count);
+        for (let i = 0; i < count; i++) {
+            const price = this.prices[i];
+            result[i] = { price, quantity: this.levels.get(price)!.quantity };
+        }
+        return result;
+    }
+
+    /**
+     * Binary search: index of `price`, or where it would be inserted
+     */
+    private indexOf(price: number): number {
+        let lo = 0;
+        let hi = this.prices.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >>> 1;
+            const better = this.descending ? this.prices[mid] > price : this.prices[mid] < price;
+            if (better) lo = mid + 1;
+            else hi = mid;
+        }
+        return lo;
+    }
+}
+
+// ==================== ORDER BOOK ====================
+
+export class L2OrderBook extends EventEmitter {
+    readonly symbol: string;
+    readonly stats: OrderBookStats = { snapshots: 0, updates: 0, resyncs: 0, ignored: 0 };
+
+    private config: L2OrderBookConfig;
+    private bids = new SideLevels(true);
+    private asks = new SideLevels(false);
+    private synced: boolean = false;
+    private seq: number | null = null;
+    private updatedAt: number = 0;
+
+    constructor(symbol: string, config: Partial<L2OrderBookConfig> = {}) {
+        super();
+        this.symbol = symbol;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    get isSynced(): boolean {
+        return this.synced;
+    }
+
+    get sequence(): number | null {
+        return this.seq;
+    }
+
+    get lastUpdate(): number {
+        return this.updatedAt;
+    }
+
+    /**
+     * Apply a snapshot or update. Returns false if it was ignored or broke the book.
+     */
+    apply(message: DepthMessage): boolean {
+        if (message.action === 'snapshot') {
+            this.bids.clear();
+            this.asks.clear();
+            this.seq = message.seq ?? null;
+            this.synced = true;
+            this.stats.snapshots++;
+            return this.applyLevels(message);
+        }
+
+        if (!this.synced) {
+            this.stats.ignored++;
+            return false;
+        }
+
+        if (message.seq !== undefined && this.seq !== null) {
+            if (message.prevSeq !== undefined) {
+                if (message.prevSeq !== this.seq) {
+                    return this.markStale(`sequence gap: expected prev ${this.seq}, got ${message.prevSeq}`);
+                }
+            } else if (message.seq <= this.seq) {
+                // Already applied (duplicate or replayed message)
+                this.stats.ignored++;
+                return false;
+            } else if (this.config.contiguousSeq && message.seq !== this.seq + 1) {
+                return this.markStale(`sequence gap: ${this.seq} → ${message.seq}`);
+            }
+        }
+
+        this.stats.updates++;
+        if (message.seq !== undefined) this.seq = message.seq;
+        return this.applyLevels(message);
+    }
+
+    /**
+     * Wait for a new snapshot without requesting one (e.g. the feed is reconnecting anyway)
+     */
+    reset(): void {
+        this.synced = false;
+    }
+
+    /**
+     * Drop the book and ask for a new snapshot
+     */
+    markStale(reason: string): false {
+        this.synced = false;
+        this.stats.resyncs++;
+        this.emit('resync', { symbol: this.symbol, reason });
+        return false;
+    }
+
+    // ==================== QUERIES ====================
+
+    bestBid(): OrderBookLevel | null {
+        return this.bids.top(1)[0] ?? null;
+    }
+
+    bestAsk(): OrderBookLevel | null {
+        return this.asks.top(1)[0] ?? null;
+    }
+
+    topBids(n: number): OrderBookLevel[] {
+        return this.bids.top(n);
+    }
+
+    topAsks(n: number): OrderBookLevel[] {
+        return this.asks.top(n);
+    }
+
+    midPrice(): number | null {
+        const bid = this.bids.prices[0];
+        const ask = this.asks.prices[0];
+        return bid !== undefined && ask !== undefined ? (bid + ask) / 2 : null;
+    }
+
+    spreadBps(): number | null {
+        const mid = this.midPrice();
+        if (!mid) return null;
+        return ((this.asks.prices[0] - this.bids.prices[0]) / mid) * 10000;
+    }
+
+    /**
+     * Top-of-book price weighted toward the thinner side:
+     * (bid × askQty + ask × bidQty) / (bidQty + askQty)
+     */
+    microprice(): number | null {
+        const bid = this.bestBid();
+        const ask = this.bestAsk();
+        if (!bid || !ask) return null;
+        const total = bid.quantity + ask.quantity;
+        if (total === 0) return (bid.price + ask.price) / 2;
+        return (bid.price * ask.quantity + ask.price * bid.quantity) / total;
+    }
+
+    /**
+     * Total quantity on one side within `bps` of the mid price
+     */
+    depthWithinBps(side: BookSide, bps: number): number {
+        const mid = this.midPrice();
+        if (mid === null) return 0;
+        const limit = side === 'bid' ? mid * (1 - bps / 10000) : mid * (1 + bps / 10000);
+        return this.cumulativeVolume(side, limit);
+    }
+
+    /**
+     * Quantity from the best price through `price` inclusive: what a market
+     * order could take before the price moves past it
+     */
+    cumulativeVolume(side: BookSide, price: number): number {
+        const levels = side === 'bid' ? this.bids : this.asks;
+        let total = 0;
+        for (const p of levels.prices) {
+            if (side === 'bid' ? p < price : p > price) break;
+            total += levels.levels.get(p)!.quantity;
+        }
+        return total;
+    }
+
+    /**
+     * Gateway-shaped copy of the top `levels` on each side
+     */
+    snapshot(levels: number = Infinity): OrderBook {
+        return {
+            symbol: this.symbol,
+            bids: this.bids.top(levels),
+            asks: this.asks.top(levels),
+            timestamp: this.updatedAt,
+        };
+    }
+
+    checksum(): number {
+        const parts: string[] = [];
+        for (let i = 0; i < this.config.checksumLevels; i++) {
+            const bid = this.bids.prices[i];
+            const ask = this.asks.prices[i];
+            if (bid !== undefined) parts.push(...this.bids.levels.get(bid)!.raw);
+            if (ask !== undefined) parts.push(...this.asks.levels.get(ask)!.raw);
+        }
+        return crc32(parts.join(':'));
+    }
+
+    private applyLevels(message: DepthMessage): boolean {
+        for (const [price, size] of message.bids) this.bids.set(price, size);
+        for (const [price, size] of message.asks) this.asks.set(price, size);
+        this.updatedAt = message.timestamp;
+
+        if (message.checksum !== undefined && message.checksum !== this.checksum()) {
+            return this.markStale('checksum mismatch');
+        }
+        const bid = this.bids.prices[0];
+        const ask = this.asks.prices[0];
+        if (bid !== undefined && ask !== undefined && bid >= ask) {
+            return this.markStale(`crossed book: bid ${bid} >= ask ${ask}`);
+        }
+
+        this.emit('update', this);
+        return true;
+    }
+}
+
+export default L2OrderBook;
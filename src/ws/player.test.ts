@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { VirtualClock } from '../engine/clock.js';
+import { MarketDataHub, type MarketRecord } from './hub.js';
+import { MarketPlayer, readRecordings } from './player.js';
+
+const ticker = (symbol: string, last: number, timestamp: number): MarketRecord => ({
+    type: 'ticker', symbol, last, bid: last, ask: last, high24h: 0, low24h: 0, volume24h: 0, change24h: 0, timestamp,
+});
+
+const jsonl = (records: MarketRecord[]) => records.map((r) => JSON.stringify(r)).join('\n') + '\n';
+
+describe('MarketPlayer', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'player-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('merges files in time order within the window and ticks only on price changes', async () => {
+        const btc = path.join(dir, 'btc.jsonl');
+        const eth = path.join(dir, 'eth.jsonl.gz');
+        fs.writeFileSync(btc, jsonl([ticker('cmt_btcusdt', 100, 1), ticker('cmt_btcusdt', 100, 3), ticker('cmt_btcusdt', 101, 5), ticker('cmt_btcusdt', 102, 9)]));
+        fs.writeFileSync(eth, zlib.gzipSync(jsonl([ticker('cmt_ethusdt', 10, 2), ticker('cmt_ethusdt', 11, 4), ticker('cmt_ethusdt', 12, 6)])));
+
+        const hub = new MarketDataHub({ connect: false });
+        const player = new MarketPlayer([btc, eth], { speed: 'max', from: 2, to: 8 }).attach(hub);
+        const ticks: string[] = [];
+        player.on('tick', (price: number, symbol: string) => ticks.push(`${symbol}@${price}`));
+
+        const stats = await player.play();
+
+        expect(ticks).toEqual(['cmt_ethusdt@10', 'cmt_btcusdt@100', 'cmt_ethusdt@11', 'cmt_btcusdt@101', 'cmt_ethusdt@12']);
+        expect(stats).toEqual({ records: 5, skipped: 1, firstTime: 2, lastTime: 6 });
+        expect(hub.store('cmt_ethusdt').ticker?.last).toBe(12);
+    });
+
+    it('runs virtual timers due between two records before the later one', async () => {
+        const file = path.join(dir, 'btc.jsonl');
+        fs.writeFileSync(file, jsonl([ticker('cmt_btcusdt', 100, 1000), ticker('cmt_btcusdt', 101, 3000)]));
+        const clock = new VirtualClock(0);
+        const events: string[] = [];
+        clock.setTimeout(() => events.push(`timer@${clock.now()}`), 2000);
+
+        const player = new MarketPlayer([file], { clock, symbols: ['cmt_btcusdt'] });
+        player.on('tick', (price: number) => events.push(`tick ${price}@${clock.now()}`));
+        await player.play();
+
+        expect(events).toEqual(['tick 100@1000', 'timer@2000', 'tick 101@3000']);
+    });
+
+    it('reads what a crashed recorder managed to write', async () => {
+        const file = path.join(dir, 'crashed.jsonl.gz');
+        const gzip = zlib.createGzip();
+        const chunks: Buffer[] = [];
+        gzip.on('data', (chunk: Buffer) => chunks.push(chunk));
+        gzip.write(jsonl([ticker('cmt_btcusdt', 100, 1), ticker('cmt_btcusdt', 101, 2)]) + '{"type":"tick');
+        await new Promise<void>((resolve) => gzip.flush(() => resolve()));
+        // No gzip trailer, as if the process died before end()
+        fs.writeFileSync(file, Buffer.concat(chunks));
+
+        const records = [];
+        for await (const record of readRecordings(file)) records.push(record);
+        expect(records).toEqual([ticker('cmt_btcusdt', 100, 1), ticker('cmt_btcusdt', 101, 2)]);
+        gzip.destroy();
+    });
+});
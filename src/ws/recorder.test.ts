@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { MarketDataHub } from './hub.js';
+import { MarketRecorder, recordingPath } from './recorder.js';
+import { readRecordings } from './player.js';
+
+const SYMBOL = 'cmt_btcusdt';
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1, 23, 59);
+
+const trade = (timestamp: number, price = 100) => ({ type: 'trade' as const, symbol: SYMBOL, price, size: 1, side: 'buy' as const, timestamp });
+
+describe('MarketRecorder', () => {
+    let dir: string;
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('finishes the previous day\'s file before stop resolves', async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-'));
+        const hub = new MarketDataHub({ connect: false });
+        const recorder = new MarketRecorder(hub, { dir, symbols: [SYMBOL], channels: ['trade'] });
+        recorder.start();
+
+        // Enough to fill several gzip blocks before the day rolls over
+        for (let i = 0; i < 5000; i++) hub.ingest(trade(START + i, 100 + i));
+        hub.ingest(trade(START + DAY));
+        await recorder.stop();
+
+        const firstDay = zlib.gunzipSync(fs.readFileSync(recordingPath(dir, SYMBOL, START))).toString().trim().split('\n');
+        expect(firstDay).toHaveLength(5000);
+        expect(recorder.recorded.get(SYMBOL)).toBe(5001);
+    });
+
+    it('records what the player reads back', async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-'));
+        const hub = new MarketDataHub({ connect: false });
+        const recorder = new MarketRecorder(hub, { dir, symbols: [SYMBOL], channels: ['trade'] });
+        recorder.start();
+        hub.ingest(trade(START + DAY, 101));
+        hub.ingest(trade(START + DAY + 1, 102));
+        await recorder.stop();
+
+        const records = [];
+        for await (const record of readRecordings(recordingPath(dir, SYMBOL, START + DAY))) records.push(record);
+        expect(records).toEqual([trade(START + DAY, 101), trade(START + DAY + 1, 102)]);
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Market Data Recorder
+ * Writes every record the MarketDataHub ingests to gzip-compressed,
+ * append-only JSONL files: <dir>/<symbol>/<YYYY-MM-DD>.jsonl.gz (UTC days)
+ *
+ * Each recording session appends a new gzip member to the day's file, and
+ * gunzip reads concatenated members as one stream, so restarts never rewrite
+ * data. The stream is flushed every `flushMs` so a crash loses at most that
+ * much. Depth is stored as the raw snapshot/update messages (original price
+ * strings, sequence numbers, checksums), so a replay rebuilds the exact book.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import chalk from 'chalk';
+import type { MarketDataHub, MarketRecord, HubChannel, Subscription } from './hub.js';
+import { recordTime } from './hub.js';
+
+export interface MarketRecorderConfig {
+    dir: string;
+    symbols: string[];
+    channels: HubChannel[];
+    flushMs: number;
+}
+
+const DEFAULT_CONFIG: MarketRecorderConfig = {
+    dir: 'recordings',
+    symbols: [],
+    channels: ['ticker', 'depth', 'trade'],
+    flushMs: 1000,
+};
+
+interface RecordingFile {
+    path: string;
+    day: string;
+    gzip: zlib.Gzip;
+    done: Promise<void>;
+}
+
+/**
+ * Path of the recording for a symbol on the UTC day containing `time`
+ */
+export function recordingPath(dir: string, symbol: string, time: number): string {
+    return path.join(dir, symbol, `${new Date(time).toISOString().slice(0, 10)}.jsonl.gz`);
+}
+
+export class MarketRecorder {
+    private hub: MarketDataHub;
+    private config: MarketRecorderConfig;
+    private files: Map<string, RecordingFile> = new Map();
+    private rolledOver: Set<Promise<void>> = new Set();     // Previous days' files still flushing
+    private subscriptions: Subscription[] = [];
+    private flushTimer: NodeJS.Timeout | null = null;
+    private onRecord = (record: MarketRecord) => this.write(record);
+
+    public recorded: Map<string, number> = new Map();
+
+    constructor(hub: MarketDataHub, config: Partial<MarketRecorderConfig> = {}) {
+        this.hub = hub;
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    start(): void {
+        if (this.flushTimer) return;
+        this.hub.on('record', this.onRecord);
+
+        // Hold the topics open for as long as we record
+        for (const symbol of this.config.symbols) {
+            for (const channel of this.config.channels) {
+                this.subscriptions.push(this.hub.subscribe(symbol, channel, () => { }));
+            }
+        }
+
+        this.flushTimer = setInterval(() => {
+            for (const file of this.files.values()) file.gzip.flush();
+        }, this.config.flushMs);
+
+        console.log(chalk.gray(`   [Rec] Recording ${this.config.channels.join('/')} for ${this.config.symbols.join(', ')} → ${this.config.dir}`));
+    }
+
+    /**
+     * Stop listening and close every file
+     */
+    async stop(): Promise<void> {
+        this.hub.off('record', this.onRecord);
+        for (const subscription of this.subscriptions) subscription.unsubscribe();
+        this.subscriptions = [];
+        if (this.flushTimer) clearInterval(this.flushTimer);
+        this.flushTimer = null;
+
+        const closing = [...this.files.values()].map((file) => {
+            file.gzip.end();
+            return file.done;
+        });
+        this.files.clear();
+        await Promise.all([...closing, ...this.rolledOver]);
+    }
+
+    private write(record: MarketRecord): void {
+        if (!this.config.symbols.includes(record.symbol)) return;
+        const channel: HubChannel = record.type === 'candle' ? 'candle1m' : record.type;
+        if (!this.config.channels.includes(channel)) return;
+
+        this.fileFor(record).gzip.write(JSON.stringify(record) + '\n');
+        this.recorded.set(record.symbol, (this.recorded.get(record.symbol) ?? 0) + 1);
+    }
+
+    private fileFor(record: MarketRecord): RecordingFile {
+        const filePath = recordingPath(this.config.dir, record.symbol, recordTime(record));
+        const day = path.basename(filePath);
+        const current = this.files.get(record.symbol);
+        if (current?.day === day) return current;
+
+        // New symbol or the UTC day rolled over: close the old file, stop() waits for it
+        if (current) {
+            current.gzip.end();
+            const closed: Promise<void> = current.done
+                .catch((error: Error) => console.log(chalk.red(`   [Rec] Writing ${current.path} failed: ${error.message}`)))
+                .finally(() => this.rolledOver.delete(closed));
+            this.rolledOver.add(closed);
+        }
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const gzip = zlib.createGzip();
+        const out = fs.createWriteStream(filePath, { flags: 'a' });
+        const done = new Promise<void>((resolve, reject) => {
+            out.on('finish', resolve);
+            out.on('error', reject);
+        });
+        gzip.pipe(out);
+
+        const file: RecordingFile = { path: filePath, day, gzip, done };
+        this.files.set(record.symbol, file);
+        return file;
+    }
+}
+
+export default MarketRecorder;
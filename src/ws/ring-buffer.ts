@@ -0,0 +1,65 @@
+/**
+ * Ring Buffer
+ * Fixed-capacity FIFO for market data history; the oldest entry is overwritten when full
+ */
+
+export class RingBuffer<T> {
+    private buffer: (T | undefined)[];
+    private head: number = 0;
+    private tail: number = 0;
+    private size: number = 0;
+    private capacity: number;
+
+    constructor(capacity: number) {
+        // Round up to power of 2 for bitwise modulo
+        this.capacity = Math.pow(2, Math.ceil(Math.log2(capacity)));
+        this.buffer = new Array(this.capacity);
+    }
+
+    push(item: T): void {
+        this.buffer[this.tail] = item;
+        this.tail = (this.tail + 1) & (this.capacity - 1); // Bitwise modulo
+
+        if (this.size < this.capacity) {
+            this.size++;
+        } else {
+            this.head = (this.head + 1) & (this.capacity - 1);
+        }
+    }
+
+    getAll(): T[] {
+        const result: T[] = [];
+        for (let i = 0; i < this.size; i++) {
+            const idx = (this.head + i) & (this.capacity - 1);
+            if (this.buffer[idx] !== undefined) {
+                result.push(this.buffer[idx]!);
+            }
+        }
+        return result;
+    }
+
+    getLast(n: number): T[] {
+        const count = Math.min(n, this.size);
+        const result: T[] = [];
+        for (let i = this.size - count; i < this.size; i++) {
+            const idx = (this.head + i) & (this.capacity - 1);
+            if (this.buffer[idx] !== undefined) {
+                result.push(this.buffer[idx]!);
+            }
+        }
+        return result;
+    }
+
+    getSize(): number {
+        return this.size;
+    }
+
+    clear(): void {
+        this.buffer = new Array(this.capacity);
+        this.head = 0;
+        this.tail = 0;
+        this.size = 0;
+    }
+}
+
+export default RingBuffer;